@@ -0,0 +1,42 @@
+// backend/jobs/autoCancelStaleOrders.js
+// ยกเลิกออเดอร์ที่ค้างสถานะ Pending นานเกินไป (คืนสต็อก/แต้ม/เงินผ่าน cancelOrder)
+const Order = require('../models/Order');
+const { cancelOrder } = require('../services/orderCancellation');
+
+const STALE_PENDING_MINUTES = Number(process.env.AUTO_CANCEL_PENDING_MINUTES) || 60;
+
+module.exports = {
+  name: 'auto-cancel-stale-orders',
+  description: `Cancel orders still Pending after ${STALE_PENDING_MINUTES} minutes`,
+  schedule: { everyMinutes: 5 },
+
+  run: async () => {
+    const cutoff = new Date(Date.now() - STALE_PENDING_MINUTES * 60 * 1000);
+    // นับจากตอนจ่ายเงินที่ออเดอร์เข้าคิว (ออเดอร์เก่าที่ไม่มี timestamps.paid นับจากตอนสั่ง)
+    const staleOrders = await Order.find({
+      status: 'Pending',
+      $or: [
+        { 'timestamps.paid': { $lt: cutoff } },
+        { 'timestamps.paid': null, 'timestamps.ordered': { $lt: cutoff } }
+      ]
+    }).select('_id orderId');
+
+    const cancelled = [];
+    const failed = [];
+
+    for (const order of staleOrders) {
+      try {
+        await cancelOrder(order._id, {
+          reason: `Auto-cancelled: still Pending after ${STALE_PENDING_MINUTES} minutes`
+        });
+        cancelled.push(order.orderId);
+      } catch (error) {
+        // ออเดอร์อาจถูกเปลี่ยนสถานะไปแล้วระหว่างนั้น (409) ข้ามไป
+        console.error(`⚠️ Could not auto-cancel ${order.orderId}:`, error.message);
+        failed.push({ orderId: order.orderId, error: error.message });
+      }
+    }
+
+    return { checked: staleOrders.length, cancelled, failed };
+  }
+};
@@ -0,0 +1,14 @@
+// backend/jobs/cleanupExpiredCodes.js
+// ลบรหัสโค้ดที่หมดอายุและไม่เคยถูกใช้
+const MenuCode = require('../models/MenuCode');
+
+module.exports = {
+  name: 'cleanup-expired-codes',
+  description: 'Delete expired menu codes that were never used',
+  schedule: { everyMinutes: 60 },
+
+  run: async () => {
+    const deletedCount = await MenuCode.cleanupExpired();
+    return { deletedCount };
+  }
+};
@@ -0,0 +1,60 @@
+// backend/jobs/expireStockBatches.js
+// ตัดล็อตที่หมดอายุแล้วออกจากสต๊อกเป็น waste
+const Stock = require('../models/Stock');
+const StockBatch = require('../models/StockBatch');
+const { logWaste } = require('../services/waste');
+
+module.exports = {
+  name: 'expire-stock-batches',
+  description: 'Write off the remaining quantity of expired stock batches as waste',
+  schedule: { everyMinutes: 60 },
+
+  run: async () => {
+    const now = new Date();
+    const expired = await StockBatch.find({
+      remaining: { $gt: 0 },
+      writtenOffAt: null,
+      expiresAt: { $ne: null, $lte: now }
+    });
+
+    const items = [];
+    const failed = [];
+
+    for (const batch of expired) {
+      try {
+        const stock = await Stock.findById(batch.stock);
+        // สต๊อกถูกปรับลดไปแล้ว (เช่นนับสต๊อกใหม่) ตัดได้ไม่เกินที่มีจริง
+        const quantity = Math.min(batch.remaining, stock ? stock.quantity : 0);
+
+        if (quantity > 0) {
+          await logWaste(batch.stock, quantity, {
+            category: 'expired',
+            batch: batch._id,
+            note: `Expired batch received ${batch.receivedAt.toISOString().slice(0, 10)}`
+          });
+        }
+
+        await StockBatch.updateOne(
+          { _id: batch._id },
+          { $set: { remaining: 0, writtenOffAt: now, writtenOffQuantity: quantity } }
+        );
+
+        items.push({ itemType: batch.itemType, name: batch.name, quantity, expiresAt: batch.expiresAt });
+      } catch (error) {
+        // ล็อตนี้ตัดไม่ได้ ข้ามไปล็อตถัดไป รอบหน้าจะลองใหม่
+        console.error(`⚠️ Could not write off batch ${batch._id} (${batch.name}):`, error.message);
+        failed.push({ batch: batch._id, name: batch.name, error: error.message });
+      }
+    }
+
+    if (items.length > 0) {
+      console.warn(`🗑️ Expired batches written off: ${items.map(item => `${item.name} (${item.quantity})`).join(', ')}`);
+    }
+
+    return {
+      writtenOffCount: items.length,
+      items,
+      failed
+    };
+  }
+};
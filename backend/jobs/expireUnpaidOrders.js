@@ -0,0 +1,11 @@
+// backend/jobs/expireUnpaidOrders.js
+// ยกเลิกออเดอร์ที่รอชำระเงินจนหมดเวลา (คืนสต็อก/แต้มผ่าน cancelOrder)
+const { PAYMENT_EXPIRY_MINUTES, expireStalePayments } = require('../services/payments');
+
+module.exports = {
+  name: 'expire-unpaid-orders',
+  description: `Cancel orders still awaiting payment after ${PAYMENT_EXPIRY_MINUTES} minutes`,
+  schedule: { everyMinutes: 5 },
+
+  run: expireStalePayments
+};
@@ -0,0 +1,140 @@
+// backend/jobs/index.js
+// ตัวจัดตาราง background job แบบ in-process (เซิร์ฟเวอร์รันอยู่ตลอดบน Render)
+
+const mongoose = require('mongoose');
+const JobRun = require('../models/JobRun');
+
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const jobs = [
+  require('./cleanupExpiredCodes'),
+  require('./autoCancelStaleOrders'),
+  require('./expireUnpaidOrders'),
+  require('./lowStockSweep'),
+  require('./expireStockBatches'),
+  require('./nightlySalesSummary')
+];
+
+const running = new Set();
+const timers = new Map();
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const getJob = (name) => jobs.find(job => job.name === name);
+
+// ms จนถึงเวลา HH:MM (เวลาไทย) ครั้งถัดไป
+const msUntilDailyRun = (dailyAt, now = Date.now()) => {
+  const [hours, minutes] = dailyAt.split(':').map(Number);
+  const bangkokNow = now + BANGKOK_OFFSET_MS;
+  const startOfDay = bangkokNow - (bangkokNow % DAY_MS);
+  let next = startOfDay + (hours * 60 + minutes) * 60 * 1000;
+  if (next <= bangkokNow) next += DAY_MS;
+  return next - bangkokNow;
+};
+
+const describeSchedule = ({ everyMinutes, dailyAt }) => {
+  return everyMinutes ? `every ${everyMinutes} minutes` : `daily at ${dailyAt} (Asia/Bangkok)`;
+};
+
+/**
+ * Run a job now and record it as a JobRun.
+ * Throws 404 for an unknown job and 409 if it is already running.
+ */
+const runJob = async (name, { trigger = 'manual', triggeredBy } = {}) => {
+  const job = getJob(name);
+
+  if (!job) {
+    throw createError(404, `Job not found: ${name}`);
+  }
+
+  if (running.has(name)) {
+    throw createError(409, `Job ${name} is already running`);
+  }
+
+  running.add(name);
+  let run;
+
+  try {
+    run = await JobRun.create({ job: name, trigger, triggeredBy });
+  } catch (error) {
+    // บันทึก JobRun ไม่ได้ ต้องปลดล็อกไม่งั้น job ค้างสถานะ running จน restart
+    running.delete(name);
+    throw error;
+  }
+
+  try {
+    console.log(`⏱️ Job started: ${name} (${trigger})`);
+    const result = await job.run();
+    await run.finish({ result });
+    console.log(`✅ Job finished: ${name} in ${run.durationMs}ms`);
+  } catch (error) {
+    console.error(`❌ Job failed: ${name}`, error);
+    await run.finish({ error });
+  } finally {
+    running.delete(name);
+  }
+
+  return run;
+};
+
+const runScheduled = async (name) => {
+  // ข้ามรอบนี้ถ้ายังไม่ได้เชื่อมต่อฐานข้อมูล หรือรอบก่อนยังไม่เสร็จ
+  if (mongoose.connection.readyState !== 1 || running.has(name)) {
+    console.log(`⏭️ Skipping scheduled job: ${name}`);
+    return;
+  }
+
+  try {
+    await runJob(name, { trigger: 'schedule' });
+  } catch (error) {
+    console.error(`❌ Scheduled job error: ${name}`, error);
+  }
+};
+
+const scheduleDaily = (job) => {
+  const timer = setTimeout(async () => {
+    await runScheduled(job.name);
+    scheduleDaily(job);
+  }, msUntilDailyRun(job.schedule.dailyAt));
+  timers.set(job.name, timer);
+};
+
+const startScheduler = () => {
+  if (process.env.JOBS_ENABLED === 'false') {
+    console.log('⏸️ Background jobs disabled (JOBS_ENABLED=false)');
+    return;
+  }
+
+  jobs.forEach(job => {
+    if (job.schedule.everyMinutes) {
+      timers.set(job.name, setInterval(() => runScheduled(job.name), job.schedule.everyMinutes * 60 * 1000));
+    } else if (job.schedule.dailyAt) {
+      scheduleDaily(job);
+    }
+    console.log(`🗓️ Scheduled job: ${job.name} (${describeSchedule(job.schedule)})`);
+  });
+};
+
+const stopScheduler = () => {
+  timers.forEach(timer => clearTimeout(timer));
+  timers.clear();
+};
+
+const listJobs = () => jobs.map(job => ({
+  name: job.name,
+  description: job.description,
+  schedule: describeSchedule(job.schedule),
+  running: running.has(job.name)
+}));
+
+module.exports = {
+  startScheduler,
+  stopScheduler,
+  runJob,
+  listJobs
+};
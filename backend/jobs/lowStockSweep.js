@@ -0,0 +1,32 @@
+// backend/jobs/lowStockSweep.js
+// ตรวจสต็อกที่ต่ำกว่า reorderLevel
+const Stock = require('../models/Stock');
+
+module.exports = {
+  name: 'low-stock-sweep',
+  description: 'Report active stock items below their reorder level',
+  schedule: { everyMinutes: 30 },
+
+  run: async () => {
+    const lowStock = await Stock.getLowStockItems();
+    const items = lowStock
+      .filter(item => item.isActive)
+      .map(item => ({
+        itemType: item.itemType,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        reorderLevel: item.reorderLevel
+      }));
+
+    if (items.length > 0) {
+      console.warn(`⚠️ Low stock: ${items.map(item => `${item.name} (${item.quantity} ${item.unit})`).join(', ')}`);
+    }
+
+    return {
+      lowStockCount: items.length,
+      outOfStockCount: items.filter(item => item.quantity === 0).length,
+      items
+    };
+  }
+};
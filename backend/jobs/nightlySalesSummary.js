@@ -0,0 +1,83 @@
+// backend/jobs/nightlySalesSummary.js
+// สรุปยอดขายประจำวัน (ตามเวลาไทย) เก็บไว้ใน JobRun.result
+const Order = require('../models/Order');
+
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+// ช่วงเวลา 00:00 - 24:00 ของวันนี้ตามเวลาไทย
+const getBangkokDayRange = (now = new Date()) => {
+  const bangkokNow = new Date(now.getTime() + BANGKOK_OFFSET_MS);
+  const start = new Date(Date.UTC(
+    bangkokNow.getUTCFullYear(),
+    bangkokNow.getUTCMonth(),
+    bangkokNow.getUTCDate()
+  ) - BANGKOK_OFFSET_MS);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start, end, date: bangkokNow.toISOString().slice(0, 10) };
+};
+
+module.exports = {
+  name: 'nightly-sales-summary',
+  description: 'Summarise the day\'s orders, revenue and popular flavors',
+  schedule: { dailyAt: '23:55' },
+
+  run: async () => {
+    const { start, end, date } = getBangkokDayRange();
+
+    const [summary] = await Order.aggregate([
+      { $match: { createdAt: { $gte: start, $lt: end } } },
+      {
+        $facet: {
+          byStatus: [
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+          ],
+          revenue: [
+            { $match: { status: { $ne: 'Cancelled' }, paymentStatus: 'Paid' } },
+            {
+              $group: {
+                _id: null,
+                total: { $sum: '$pricing.total' },
+                discount: { $sum: '$pricing.discount' },
+                orders: { $sum: 1 }
+              }
+            }
+          ],
+          cups: [
+            { $match: { status: { $nin: ['Cancelled', 'AwaitingPayment'] } } },
+            { $project: { cups: { $size: '$items' } } },
+            { $group: { _id: null, total: { $sum: '$cups' } } }
+          ],
+          topFlavors: [
+            { $match: { status: { $nin: ['Cancelled', 'AwaitingPayment'] } } },
+            { $unwind: '$items' },
+            { $group: { _id: '$items.shavedIce.flavor', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: 5 }
+          ]
+        }
+      }
+    ]);
+
+    const ordersByStatus = summary.byStatus.reduce((counts, { _id, count }) => {
+      counts[_id] = count;
+      return counts;
+    }, {});
+    const revenue = summary.revenue[0] || { total: 0, discount: 0, orders: 0 };
+    const totalOrders = Object.values(ordersByStatus).reduce((sum, count) => sum + count, 0);
+
+    const result = {
+      date,
+      totalOrders,
+      ordersByStatus,
+      paidOrders: revenue.orders,
+      revenue: revenue.total,
+      discount: revenue.discount,
+      cups: summary.cups[0]?.total || 0,
+      averageOrderValue: revenue.orders > 0 ? Math.round(revenue.total / revenue.orders) : 0,
+      topFlavors: summary.topFlavors.map(({ _id, count }) => ({ flavor: _id, count }))
+    };
+
+    console.log(`📊 Sales summary ${date}: ${totalOrders} orders, ฿${result.revenue}`);
+    return result;
+  }
+};
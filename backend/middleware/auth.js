@@ -25,6 +25,31 @@ const authenticate = async (req, res, next) => {
   }
 };
 
+// Verify JWT token for EventSource streams
+// (EventSource ส่ง header เองไม่ได้ จึงรับ token จาก query string ด้วย)
+const authenticateStream = async (req, res, next) => {
+  try {
+    const token = req.query.token || req.header('Authorization')?.replace('Bearer ', '');
+    
+    if (!token) {
+      throw new Error();
+    }
+    
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const user = await User.findById(decoded.userId).select('-password');
+    
+    if (!user || !user.isActive) {
+      throw new Error();
+    }
+    
+    req.user = user;
+    req.token = token;
+    next();
+  } catch (error) {
+    res.status(401).json({ message: 'Please authenticate' });
+  }
+};
+
 // Check if user is admin
 const isAdmin = async (req, res, next) => {
   if (req.user && req.user.role === 'admin') {
@@ -65,6 +90,7 @@ const generateToken = (userId) => {
 
 module.exports = {
   authenticate,
+  authenticateStream,
   isAdmin,
   optionalAuth,
   generateToken
@@ -0,0 +1,121 @@
+// backend/models/DailyClose.js
+// ปิดยอดประจำวัน (Z-report): สรุปยอดของวันทำการ + นับเงินสด เก็บถาวรไว้พิมพ์ซ้ำ
+// วันที่ปิดแล้วจะถูกล็อก สร้าง/ยกเลิกออเดอร์ของวันนั้นไม่ได้
+const mongoose = require('mongoose');
+const { toBusinessDate } = require('../utils/dateRange');
+
+// ธนบัตร/เหรียญที่ใช้นับเงินสด (บาท)
+const CASH_DENOMINATIONS = [1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+const paymentMethodTotalSchema = new mongoose.Schema({
+  method: {
+    type: String,
+    required: true
+  },
+  orders: {
+    type: Number,
+    default: 0
+  },
+  revenue: {
+    type: Number,
+    default: 0
+  },
+  // เงินทอน (เฉพาะเงินสด)
+  changeGiven: {
+    type: Number,
+    default: 0
+  }
+}, {
+  _id: false
+});
+
+const denominationSchema = new mongoose.Schema({
+  value: {
+    type: Number,
+    enum: CASH_DENOMINATIONS,
+    required: true
+  },
+  count: {
+    type: Number,
+    min: 0,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+const dailyCloseSchema = new mongoose.Schema({
+  // วันทำการ YYYY-MM-DD ตามเวลาไทย
+  businessDate: {
+    type: String,
+    required: true,
+    unique: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  // snapshot ยอด ณ ตอนปิด
+  report: {
+    totalOrders: { type: Number, default: 0 },
+    ordersByStatus: { type: Map, of: Number, default: {} },
+    soldOrders: { type: Number, default: 0 },
+    cups: { type: Number, default: 0 },
+    grossRevenue: { type: Number, default: 0 },
+    discounts: { type: Number, default: 0 },
+    netRevenue: { type: Number, default: 0 },
+    freeDrinks: { type: Number, default: 0 },
+    freeDrinkValue: { type: Number, default: 0 },
+    cancellations: { type: Number, default: 0 },
+    refunds: { type: Number, default: 0 },
+    refundAmount: { type: Number, default: 0 },
+    byPaymentMethod: [paymentMethodTotalSchema]
+  },
+  cash: {
+    openingFloat: { type: Number, min: 0, default: 0 },
+    // เงินทอนตั้งต้น + ยอดขายเงินสด
+    expected: { type: Number, default: 0 },
+    counted: { type: Number, min: 0, required: true },
+    denominations: [denominationSchema],
+    // counted - expected (บวก = เงินเกิน, ลบ = เงินขาด)
+    overShort: { type: Number, default: 0 }
+  },
+  note: {
+    type: String,
+    maxlength: 500,
+    default: ''
+  },
+  closedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  closedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reprints: [{
+    printedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    printedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// ✅ วันทำการของเวลาที่ระบุปิดยอดไปแล้วหรือยัง
+dailyCloseSchema.statics.isClosed = async function(value = new Date(), { session } = {}) {
+  const closed = await this.exists({ businessDate: toBusinessDate(value) }).session(session || null);
+  return Boolean(closed);
+};
+
+// ✅ บันทึกการพิมพ์ซ้ำ
+dailyCloseSchema.methods.recordReprint = async function(printedBy) {
+  this.reprints.push({ printedBy, printedAt: new Date() });
+  return this.save();
+};
+
+dailyCloseSchema.statics.CASH_DENOMINATIONS = CASH_DENOMINATIONS;
+
+module.exports = mongoose.model('DailyClose', dailyCloseSchema);
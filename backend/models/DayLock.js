@@ -0,0 +1,33 @@
+// backend/models/DayLock.js
+// ล็อกของวันทำการ: transaction ที่เปลี่ยนยอดของวัน (สร้าง/ยกเลิกออเดอร์) และการปิดยอด
+// ต่างเขียน document เดียวกันนี้ ถ้าเกิดพร้อมกัน MongoDB จะให้ฝั่งหนึ่ง retry (write conflict)
+// จึงไม่มีออเดอร์หลุดเข้าวันที่ปิดไปแล้วโดยไม่อยู่ใน Z-report
+const mongoose = require('mongoose');
+const { toBusinessDate } = require('../utils/dateRange');
+
+const dayLockSchema = new mongoose.Schema({
+  // YYYY-MM-DD ตามเวลาไทย
+  _id: {
+    type: String
+  },
+  version: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// ✅ เขียนล็อกของวันภายใน transaction (ต้องส่ง session มาเสมอ)
+dayLockSchema.statics.touch = async function(value = new Date(), { session }) {
+  const businessDate = typeof value === 'string' ? value : toBusinessDate(value);
+
+  await this.updateOne(
+    { _id: businessDate },
+    { $inc: { version: 1 } },
+    { upsert: true, session }
+  );
+  return businessDate;
+};
+
+module.exports = mongoose.model('DayLock', dayLockSchema);
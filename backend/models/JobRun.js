@@ -0,0 +1,62 @@
+// backend/models/JobRun.js
+// บันทึกการทำงานของ background job แต่ละครั้ง
+const mongoose = require('mongoose');
+
+const jobRunSchema = new mongoose.Schema({
+  job: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  triggeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  status: {
+    type: String,
+    enum: ['running', 'success', 'failed'],
+    default: 'running'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: Date,
+  durationMs: Number,
+  // ผลลัพธ์ของ job (เช่น จำนวนที่ลบ, สรุปยอดขาย)
+  result: mongoose.Schema.Types.Mixed,
+  error: String
+});
+
+jobRunSchema.index({ job: 1, startedAt: -1 });
+// เก็บประวัติไว้ 90 วัน
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// ✅ ปิดการทำงาน พร้อมผลลัพธ์หรือ error
+jobRunSchema.methods.finish = function({ result, error } = {}) {
+  this.finishedAt = new Date();
+  this.durationMs = this.finishedAt - this.startedAt;
+  this.status = error ? 'failed' : 'success';
+  if (result !== undefined) this.result = result;
+  if (error) this.error = error.message || String(error);
+  return this.save();
+};
+
+// รอบล่าสุดของแต่ละ job
+jobRunSchema.statics.getLatestRuns = async function() {
+  const latest = await this.aggregate([
+    { $sort: { startedAt: -1 } },
+    { $group: { _id: '$job', run: { $first: '$$ROOT' } } }
+  ]);
+
+  return latest.reduce((runs, { _id, run }) => {
+    runs[_id] = run;
+    return runs;
+  }, {});
+};
+
+module.exports = mongoose.model('JobRun', jobRunSchema);
@@ -1,5 +1,26 @@
 const mongoose = require('mongoose');
 
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const CODE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const CODE_LENGTH = 5;
+const MAX_BATCH_SIZE = 200;
+const CODE_MODES = ['single', 'multi'];
+const DEFAULT_MAX_USAGE = 5;
+const DEFAULT_LIFETIME_HOURS = 24;
+
+const randomCode = () => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)];
+  }
+  return code;
+};
+
 const menuCodeSchema = new mongoose.Schema({
   code: {
     type: String,
@@ -17,15 +38,27 @@ const menuCodeSchema = new mongoose.Schema({
     type: Number,
     default: 0
   },
+  // single = ใช้ได้ 1 ออเดอร์, multi = ใช้ได้ถึง maxUsage ออเดอร์
+  mode: {
+    type: String,
+    enum: CODE_MODES,
+    default: 'multi'
+  },
   maxUsage: {
     type: Number,
-    default: 5
+    min: 1,
+    default: DEFAULT_MAX_USAGE
   },
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
     required: true
   },
+  // โค้ดที่สร้างพร้อมกันเป็นชุด (สำหรับพิมพ์แผ่น QR)
+  batchId: {
+    type: String,
+    index: true
+  },
   usedBy: [{
     order: {
       type: mongoose.Schema.Types.ObjectId,
@@ -36,27 +69,37 @@ const menuCodeSchema = new mongoose.Schema({
   expiresAt: {
     type: Date,
     default: function() {
-      return new Date(Date.now() + 24 * 60 * 60 * 1000);
+      return new Date(Date.now() + DEFAULT_LIFETIME_HOURS * 60 * 60 * 1000);
     }
   },
+  revokedAt: Date,
+  revokedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revokeReason: String,
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+// โหมด single ใช้ได้ครั้งเดียวเสมอ
+menuCodeSchema.pre('validate', function(next) {
+  if (this.mode === 'single') {
+    this.maxUsage = 1;
+  }
+  next();
+});
+
 // Generate random code with uniqueness check
 menuCodeSchema.statics.generateCode = async function() {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
   let code;
   let attempts = 0;
   const maxAttempts = 100;
   
   while (attempts < maxAttempts) {
-    code = '';
-    for (let i = 0; i < 5; i++) {
-      code += chars[Math.floor(Math.random() * chars.length)];
-    }
+    code = randomCode();
     
     const existing = await this.findOne({ code });
     if (!existing) {
@@ -70,7 +113,7 @@ menuCodeSchema.statics.generateCode = async function() {
 };
 
 // Create new menu code
-menuCodeSchema.statics.createCode = async function(cupSize, createdBy) {
+menuCodeSchema.statics.createCode = async function(cupSize, createdBy, { mode, maxUsage, expiresAt } = {}) {
   let code = await this.generateCode();
   
   const menuCode = new this({
@@ -79,55 +122,126 @@ menuCodeSchema.statics.createCode = async function(cupSize, createdBy) {
     createdBy
   });
   
+  if (mode) menuCode.mode = mode;
+  if (maxUsage) menuCode.maxUsage = maxUsage;
+  if (expiresAt) menuCode.expiresAt = expiresAt;
+  
   return menuCode.save();
 };
 
-// ✅ Validate and use code - allow multiple orders
-menuCodeSchema.statics.validateAndUse = async function(code, orderId) {
-  const menuCode = await this.findOne({ 
-    code: code.toUpperCase()
-  });
-  
-  if (!menuCode) {
-    throw new Error('Invalid code');
+// ✅ Create a batch of codes at once (เช่น ตอนเปิดร้าน)
+menuCodeSchema.statics.createBatch = async function({ count, cupSize, createdBy, mode, expiresAt, maxUsage }) {
+  if (count < 1 || count > MAX_BATCH_SIZE) {
+    throw createError(400, `Batch size must be between 1 and ${MAX_BATCH_SIZE}`);
   }
   
-  if (menuCode.expiresAt < new Date()) {
-    throw new Error('Code has expired');
+  const codes = new Set();
+  let attempts = 0;
+  const maxAttempts = 20;
+  
+  // สุ่มทีละชุด แล้วตัดตัวที่ซ้ำกับในฐานข้อมูลออก
+  while (codes.size < count && attempts < maxAttempts) {
+    const candidates = [];
+    while (candidates.length < count - codes.size) {
+      const code = randomCode();
+      if (!codes.has(code) && !candidates.includes(code)) {
+        candidates.push(code);
+      }
+    }
+    
+    const taken = await this.find({ code: { $in: candidates } }).distinct('code');
+    candidates
+      .filter(code => !taken.includes(code))
+      .forEach(code => codes.add(code));
+    
+    attempts++;
   }
   
-  if (menuCode.usageCount >= menuCode.maxUsage) {
-    throw new Error('Code usage limit reached (maximum 5 orders per code)');
+  if (codes.size < count) {
+    throw new Error('Unable to generate unique codes after maximum attempts');
   }
   
-  menuCode.usageCount += 1;
-  menuCode.usedBy.push({
-    order: orderId,
-    usedAt: new Date()
+  const now = new Date();
+  const batchId = `B${now.toISOString().slice(0, 10).replace(/-/g, '')}-${randomCode()}`;
+  
+  const docs = [...codes].map(code => {
+    const doc = { code, cupSize, createdBy, batchId };
+    if (mode) doc.mode = mode;
+    if (expiresAt) doc.expiresAt = expiresAt;
+    if (maxUsage) doc.maxUsage = maxUsage;
+    return doc;
   });
   
-  await menuCode.save();
-  return menuCode;
+  // insertMany ผ่าน validation (รวม pre-validate ของโหมด single) เหมือน save
+  const created = await this.insertMany(docs);
+  return { batchId, codes: created };
 };
 
-// ✅ NEW: Expire code immediately after order + payment
-menuCodeSchema.statics.expireCode = async function(code) {
-  const menuCode = await this.findOne({ code: code.toUpperCase() });
+// ✅ Validate and use code - allow multiple orders
+// เพิ่ม usageCount แบบ atomic (ไม่เกิน maxUsage แม้มีหลายออเดอร์พร้อมกัน)
+menuCodeSchema.statics.validateAndUse = async function(code, orderId, { session } = {}) {
+  const now = new Date();
+  const menuCode = await this.findOneAndUpdate(
+    {
+      code: code.toUpperCase(),
+      expiresAt: { $gte: now },
+      revokedAt: null,
+      $expr: { $lt: ['$usageCount', '$maxUsage'] }
+    },
+    {
+      $inc: { usageCount: 1 },
+      $push: { usedBy: { order: orderId, usedAt: now } }
+    },
+    { new: true, session }
+  );
   
   if (menuCode) {
-    menuCode.expiresAt = new Date(); // Set to now (expired)
-    await menuCode.save();
+    return menuCode;
+  }
+  
+  // อัปเดตไม่สำเร็จ: หาสาเหตุเพื่อแจ้ง error ให้ชัดเจน
+  const existing = await this.findOne({ code: code.toUpperCase() }).session(session || null);
+  
+  if (!existing) {
+    throw createError(400, 'Invalid code');
   }
+  
+  const { valid, reason } = existing.canBeUsed();
+  throw createError(400, valid ? 'Code could not be used, please try again' : reason);
+};
+
+// คืนสิทธิ์การใช้โค้ดของออเดอร์ที่ยกเลิกเพราะจ่ายเงินไม่สำเร็จ (ลูกค้าสั่งใหม่ด้วยโค้ดเดิมได้)
+// คืนได้ครั้งเดียวต่อออเดอร์ เพราะเงื่อนไขต้องมี order นี้อยู่ใน usedBy
+menuCodeSchema.statics.releaseUsage = async function(code, orderId, { session } = {}) {
+  const result = await this.updateOne(
+    { code: code.toUpperCase(), 'usedBy.order': orderId },
+    {
+      $inc: { usageCount: -1 },
+      $pull: { usedBy: { order: orderId } }
+    },
+    { session }
+  );
+  
+  return result.modifiedCount > 0;
 };
 
 // Check if code can still be used
 menuCodeSchema.methods.canBeUsed = function() {
+  if (this.revokedAt) {
+    return { valid: false, reason: 'Code has been revoked' };
+  }
+  
   if (this.expiresAt < new Date()) {
     return { valid: false, reason: 'Code has expired' };
   }
   
   if (this.usageCount >= this.maxUsage) {
-    return { valid: false, reason: 'Code usage limit reached' };
+    return {
+      valid: false,
+      reason: this.maxUsage === 1
+        ? 'Code has already been used'
+        : `Code usage limit reached (maximum ${this.maxUsage} orders per code)`
+    };
   }
   
   return { 
@@ -136,6 +250,19 @@ menuCodeSchema.methods.canBeUsed = function() {
   };
 };
 
+// ✅ Revoke code (ใช้ต่อไม่ได้ แต่ออเดอร์ที่สั่งไปแล้วยังอยู่)
+menuCodeSchema.methods.revoke = async function(revokedBy, reason) {
+  if (this.revokedAt) {
+    throw createError(409, 'Code has already been revoked');
+  }
+  
+  this.revokedAt = new Date();
+  this.revokedBy = revokedBy;
+  this.revokeReason = reason;
+  
+  return this.save();
+};
+
 // Clean up expired codes
 menuCodeSchema.statics.cleanupExpired = async function() {
   const result = await this.deleteMany({
@@ -145,4 +272,7 @@ menuCodeSchema.statics.cleanupExpired = async function() {
   return result.deletedCount;
 };
 
+menuCodeSchema.statics.MAX_BATCH_SIZE = MAX_BATCH_SIZE;
+menuCodeSchema.statics.CODE_MODES = CODE_MODES;
+
 module.exports = mongoose.model('MenuCode', menuCodeSchema);
\ No newline at end of file
@@ -0,0 +1,73 @@
+// backend/models/MenuItem.js
+const mongoose = require('mongoose');
+
+const menuItemSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['flavor', 'topping'],
+    required: true
+  },
+  description: {
+    type: String,
+    maxlength: [200, 'Description cannot exceed 200 characters'],
+    default: ''
+  },
+  image: {
+    type: String,
+    default: ''
+  },
+  color: {
+    type: String,
+    default: '#69806C'
+  },
+  displayOrder: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// ชื่อซ้ำได้ข้ามประเภท (เช่น Strawberry เป็นทั้ง flavor และ topping)
+menuItemSchema.index({ type: 1, name: 1 }, { unique: true });
+
+// ดึงเมนูที่เปิดขายอยู่
+menuItemSchema.statics.getActiveItems = async function(type) {
+  const filter = { isActive: true };
+  if (type) filter.type = type;
+
+  return this.find(filter).sort('displayOrder name');
+};
+
+// ดึงเมนูแยกตามประเภท
+menuItemSchema.statics.getMenu = async function() {
+  const items = await this.getActiveItems();
+
+  return {
+    flavors: items.filter(i => i.type === 'flavor'),
+    toppings: items.filter(i => i.type === 'topping')
+  };
+};
+
+// ✅ ใช้ตรวจสอบชื่อใน Order/Review (รวมเมนูที่ปิดไปแล้ว เพื่อให้ออเดอร์เก่ายังบันทึกได้)
+menuItemSchema.statics.isValidItem = async function(type, name) {
+  const exists = await this.exists({ type, name });
+  return !!exists;
+};
+
+// ✅ เช็คว่าเมนูเปิดขายอยู่หรือไม่
+menuItemSchema.statics.isActiveItem = async function(type, name) {
+  const exists = await this.exists({ type, name, isActive: true });
+  return !!exists;
+};
+
+module.exports = mongoose.model('MenuItem', menuItemSchema);
@@ -1,27 +1,40 @@
 // backend/models/Order.js - Fixed with better error handling
 
 const mongoose = require('mongoose');
+const MenuItem = require('./MenuItem');
 
-const orderSchema = new mongoose.Schema({
-  orderId: {
-    type: String,
-    unique: true,
-    sparse: true // Allow null values for uniqueness
-  },
-  customerId: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'User',
-    required: false
-  },
-  menuCode: {
-    type: String,
-    required: true
-  },
-  customerCode: {
-    type: String,
-    required: true,
-    unique: true
-  },
+const MAX_ITEMS_PER_ORDER = 10;
+
+const ORDER_STATUSES = ['AwaitingPayment', 'Pending', 'Preparing', 'Ready', 'Completed', 'Cancelled'];
+const ACTIVE_STATUSES = ['Pending', 'Preparing'];
+// ออเดอร์ที่ยังไม่จบ (รวมที่รอชำระเงิน) ใช้ตอนปิดยอด
+const OPEN_STATUSES = ['AwaitingPayment', ...ACTIVE_STATUSES];
+const PAYMENT_METHODS = ['cash', 'card', 'promptpay', 'other'];
+// วิธีชำระที่บันทึกใน payments[] (free-drink = ส่วนลดแก้วฟรีจากบัตรสะสมแต้ม)
+const TENDER_METHODS = ['cash', 'card', 'promptpay', 'voucher', 'free-drink', 'other'];
+const PAYMENT_ATTEMPT_STATUSES = ['pending', 'succeeded', 'failed', 'expired'];
+
+// ค่าสำหรับประมาณเวลารอ
+const ETA_SAMPLE_SIZE = 20;
+const ETA_SAMPLE_DAYS = 7;
+const DEFAULT_PREP_MINUTES = 10;
+
+// เวลาที่ออเดอร์เข้าคิวครัว = ตอนจ่ายเงิน (ออเดอร์เก่าที่ไม่มี timestamps.paid ใช้เวลาสั่ง)
+const QUEUED_AT = { $ifNull: ['$timestamps.paid', '$timestamps.ordered'] };
+
+// ✅ สถานะที่เปลี่ยนไปได้จากแต่ละสถานะ (Completed/Cancelled เป็นสถานะสุดท้าย)
+// AwaitingPayment → Pending เกิดจาก confirmPayment (services/payments) เท่านั้น จึงไม่อยู่ในตารางนี้
+const STATUS_TRANSITIONS = {
+  AwaitingPayment: ['Cancelled'],
+  Pending: ['Preparing', 'Cancelled'],
+  Preparing: ['Ready', 'Cancelled'],
+  Ready: ['Completed', 'Cancelled'],
+  Completed: [],
+  Cancelled: []
+};
+
+// ✅ รายการบิงซูแต่ละแก้วในออเดอร์ (1 ออเดอร์มีได้หลายแก้ว)
+const orderItemSchema = new mongoose.Schema({
   cupSize: {
     type: String,
     enum: ['S', 'M', 'L'],
@@ -30,8 +43,11 @@ const orderSchema = new mongoose.Schema({
   shavedIce: {
     flavor: {
       type: String,
-      enum: ['Strawberry', 'Thai Tea', 'Matcha', 'Milk', 'Green Tea'],
-      required: true
+      required: true,
+      validate: {
+        validator: (value) => MenuItem.isValidItem('flavor', value),
+        message: props => `${props.value} is not a valid flavor`
+      }
     },
     points: {
       type: Number,
@@ -41,18 +57,31 @@ const orderSchema = new mongoose.Schema({
   toppings: [{
     name: {
       type: String,
-      enum: ['Apple', 'Cherry', 'Blueberry', 'Raspberry', 'Strawberry', 'Banana', 'Mango'],
-      required: true
+      required: true,
+      validate: {
+        validator: (value) => MenuItem.isValidItem('topping', value),
+        message: props => `${props.value} is not a valid topping`
+      }
     },
     points: {
       type: Number,
       default: 0
+    },
+    price: {
+      type: Number,
+      default: 0
     }
   }],
+  specialInstructions: {
+    type: String,
+    maxlength: 200,
+    default: ''
+  },
+  // ✅ Snapshot ราคาของแก้วนี้ ณ เวลาสั่ง
   pricing: {
     basePrice: {
       type: Number,
-      default: 60
+      default: 0
     },
     sizePrice: {
       type: Number,
@@ -62,34 +91,224 @@ const orderSchema = new mongoose.Schema({
       type: Number,
       default: 0
     },
+    total: {
+      type: Number,
+      default: 0
+    }
+  },
+  isFreeDrink: {
+    type: Boolean,
+    default: false
+  }
+});
+
+// ✅ การชำระ 1 ครั้ง (1 ออเดอร์จ่ายได้หลายวิธี เช่น เงินสด + บัตร)
+const paymentEntrySchema = new mongoose.Schema({
+  method: {
+    type: String,
+    enum: TENDER_METHODS,
+    required: true
+  },
+  // ยอดที่ตัดจากบิล
+  amount: {
+    type: Number,
+    min: 0,
+    required: true
+  },
+  // เงินที่ลูกค้าให้มา (เงินสด) และเงินทอน
+  tendered: Number,
+  change: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // เลขสลิป / transaction / รหัส voucher
+  reference: {
+    type: String,
+    maxlength: 100
+  },
+  recordedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  paidAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const orderSchema = new mongoose.Schema({
+  orderId: {
+    type: String,
+    unique: true,
+    sparse: true // Allow null values for uniqueness
+  },
+  customerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
+  menuCode: {
+    type: String,
+    required: true
+  },
+  customerCode: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  items: {
+    type: [orderItemSchema],
+    validate: {
+      validator: (items) => items.length >= 1 && items.length <= MAX_ITEMS_PER_ORDER,
+      message: `An order must have between 1 and ${MAX_ITEMS_PER_ORDER} items`
+    }
+  },
+  // ✅ ยอดรวมทั้งออเดอร์ (snapshot ราคาอยู่ที่แต่ละ item)
+  pricing: {
+    subtotal: {
+      type: Number,
+      default: 0
+    },
+    discount: {
+      type: Number,
+      default: 0
+    },
     total: {
       type: Number,
       required: true
+    },
+    pricedAt: {
+      type: Date
     }
   },
   status: {
     type: String,
-    enum: ['Pending', 'Preparing', 'Ready', 'Completed', 'Cancelled'],
+    enum: ORDER_STATUSES,
     default: 'Pending'
   },
+  statusHistory: [{
+    from: {
+      type: String,
+      enum: [...ORDER_STATUSES, null],
+      default: null
+    },
+    to: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: true
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    },
+    note: {
+      type: String,
+      maxlength: 200
+    }
+  }],
   paymentStatus: {
     type: String,
     enum: ['Unpaid', 'Paid', 'Refunded'],
     default: 'Unpaid'
   },
-  specialInstructions: {
+  // วิธีที่ลูกค้าเลือกตอนสั่ง ยอดที่จ่ายจริงแต่ละวิธีอยู่ใน payments
+  paymentMethod: {
     type: String,
-    maxlength: 200,
-    default: ''
+    enum: PAYMENT_METHODS,
+    default: 'cash'
+  },
+  payments: [paymentEntrySchema],
+  // ✅ การชำระเงินผ่าน payment provider (ยืนยันผ่าน webhook หรือพนักงานที่เคาน์เตอร์)
+  payment: {
+    provider: String,
+    // ใช้จับคู่ webhook กับออเดอร์
+    reference: String,
+    status: {
+      type: String,
+      enum: PAYMENT_ATTEMPT_STATUSES
+    },
+    amount: Number,
+    // EMVCo payload สำหรับสร้าง QR PromptPay
+    qrPayload: String,
+    expiresAt: Date,
+    paidAt: Date,
+    transactionId: String,
+    failureReason: {
+      type: String,
+      maxlength: 200
+    }
+  },
+  // ✅ สต็อกที่ถูกตัดไปจริง (ใช้คืนสต็อกตอนยกเลิก)
+  stockUsage: [{
+    itemType: {
+      type: String,
+      enum: ['flavor', 'topping', 'ingredient'],
+      required: true
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  }],
+  // ✅ สิ่งที่ออเดอร์นี้ให้กับบัตรสะสมแต้ม (ใช้ย้อนกลับตอนยกเลิก)
+  loyalty: {
+    stampAdded: {
+      type: Boolean,
+      default: false
+    },
+    freeDrinkEarned: {
+      type: Boolean,
+      default: false
+    },
+    pointsAwarded: {
+      type: Number,
+      default: 0
+    }
+  },
+  cancellation: {
+    reason: {
+      type: String,
+      maxlength: 200
+    },
+    cancelledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    refundAmount: {
+      type: Number,
+      default: 0
+    },
+    stockRestored: {
+      type: Boolean,
+      default: false
+    },
+    loyaltyReversed: {
+      type: Boolean,
+      default: false
+    }
   },
   timestamps: {
     ordered: {
       type: Date,
       default: Date.now
     },
+    paid: Date,
     prepared: Date,
     ready: Date,
-    completed: Date
+    completed: Date,
+    cancelled: Date
   },
   isFreeDrink: {
     type: Boolean,
@@ -110,6 +329,16 @@ orderSchema.pre('save', async function(next) {
       
       console.log('Generated orderId:', this.orderId);
     }
+    
+    // บันทึกสถานะแรกลงประวัติ
+    if (this.isNew && this.statusHistory.length === 0) {
+      this.statusHistory.push({
+        from: null,
+        to: this.status,
+        changedBy: this.customerId,
+        changedAt: this.timestamps?.ordered || new Date()
+      });
+    }
     next();
   } catch (error) {
     console.error('Error in Order pre-save hook:', error);
@@ -118,46 +347,91 @@ orderSchema.pre('save', async function(next) {
 });
 
 // Calculate total price method
-orderSchema.methods.calculateTotal = function() {
+// ถ้าส่ง pricingConfig มา จะบันทึก snapshot ราคาใหม่ ถ้าไม่ส่งจะคำนวณจาก snapshot เดิม
+orderSchema.methods.calculateTotal = function(pricingConfig) {
   try {
-    let total = this.pricing.basePrice || 60;
-    
-    // Size pricing
-    const sizePrices = { S: 0, M: 10, L: 20 };
-    const sizePrice = sizePrices[this.cupSize] || 0;
-    total += sizePrice;
+    let subtotal = 0;
     
-    // Toppings pricing (10 baht per topping)
-    const toppingsPrice = (this.toppings?.length || 0) * 10;
-    total += toppingsPrice;
+    this.items.forEach(item => {
+      if (pricingConfig) {
+        const quote = pricingConfig.quote({
+          cupSize: item.cupSize,
+          flavor: item.shavedIce.flavor,
+          toppings: item.toppings.map(t => t.name)
+        });
+        
+        item.pricing.basePrice = quote.basePrice;
+        item.pricing.sizePrice = quote.sizePrice;
+        item.toppings.forEach((topping, idx) => {
+          topping.price = quote.toppingPrices[idx].price;
+        });
+      }
+      
+      const toppingsPrice = item.toppings.reduce((sum, t) => sum + (t.price || 0), 0);
+      item.pricing.toppingsPrice = toppingsPrice;
+      item.pricing.total = (item.pricing.basePrice || 0) + (item.pricing.sizePrice || 0) + toppingsPrice;
+      subtotal += item.pricing.total;
+    });
     
-    // Update pricing object
-    this.pricing.sizePrice = sizePrice;
-    this.pricing.toppingsPrice = toppingsPrice;
-    this.pricing.total = total;
+    if (pricingConfig) {
+      this.pricing.pricedAt = new Date();
+    }
     
-    // Apply free drink if applicable
-    if (this.isFreeDrink) {
-      this.pricing.total = 0;
+    // Apply free drink if applicable (ฟรี 1 แก้ว - แก้วที่แพงที่สุด)
+    this.items.forEach(item => { item.isFreeDrink = false; });
+    let discount = 0;
+    if (this.isFreeDrink && this.items.length > 0) {
+      const freeItem = this.items.reduce((max, item) =>
+        item.pricing.total > max.pricing.total ? item : max
+      );
+      freeItem.isFreeDrink = true;
+      discount = freeItem.pricing.total;
     }
     
+    this.pricing.subtotal = subtotal;
+    this.pricing.discount = discount;
+    this.pricing.total = subtotal - discount;
+    
     console.log('Calculated total:', this.pricing.total);
     return this.pricing.total;
   } catch (error) {
     console.error('Error calculating total:', error);
-    return this.pricing.total || 60;
+    return this.pricing.total || 0;
   }
 };
 
 // Update status with timestamp
-orderSchema.methods.updateStatus = function(newStatus) {
+// เปลี่ยนสถานะตาม STATUS_TRANSITIONS เท่านั้น ถ้าไม่ได้จะ throw error ที่มี status = 409
+orderSchema.methods.updateStatus = function(newStatus, changedBy, note) {
   try {
+    const currentStatus = this.status;
+    
+    if (!this.canTransitionTo(newStatus)) {
+      const allowed = STATUS_TRANSITIONS[currentStatus] || [];
+      const error = new Error(
+        `Cannot change order status from ${currentStatus} to ${newStatus}. ` +
+        (allowed.length > 0
+          ? `Allowed next status: ${allowed.join(', ')}`
+          : `${currentStatus} is a final status`)
+      );
+      error.status = 409;
+      throw error;
+    }
+    
     this.status = newStatus;
+    this.statusHistory.push({
+      from: currentStatus,
+      to: newStatus,
+      changedBy,
+      changedAt: new Date(),
+      note
+    });
     
     const statusTimestamps = {
       'Preparing': 'prepared',
       'Ready': 'ready',
-      'Completed': 'completed'
+      'Completed': 'completed',
+      'Cancelled': 'cancelled'
     };
     
     if (statusTimestamps[newStatus]) {
@@ -172,10 +446,95 @@ orderSchema.methods.updateStatus = function(newStatus) {
   }
 };
 
+orderSchema.methods.canTransitionTo = function(newStatus) {
+  return (STATUS_TRANSITIONS[this.status] || []).includes(newStatus);
+};
+
+// ✅ ข้อมูลคิวรวม: ออเดอร์ที่กำลังทำ + เวลาเตรียมเฉลี่ย (ordered → ready ของออเดอร์ล่าสุด)
+// ดึงครั้งเดียวแล้วใช้คำนวณคิวของหลายออเดอร์ได้
+orderSchema.statics.getQueueSnapshot = async function() {
+  const [activeOrders, durations] = await Promise.all([
+    this.find({ status: { $in: ACTIVE_STATUSES } }).select('timestamps.ordered timestamps.paid createdAt').lean(),
+    this.aggregate([
+      {
+        $match: {
+          'timestamps.ready': { $gte: new Date(Date.now() - ETA_SAMPLE_DAYS * 24 * 60 * 60 * 1000) }
+        }
+      },
+      { $sort: { 'timestamps.ready': -1 } },
+      { $limit: ETA_SAMPLE_SIZE },
+      {
+        $group: {
+          _id: null,
+          averageMs: { $avg: { $subtract: ['$timestamps.ready', QUEUED_AT] } },
+          count: { $sum: 1 }
+        }
+      }
+    ])
+  ]);
+  
+  const sample = durations[0];
+  
+  return {
+    active: activeOrders.map(active => ({
+      _id: active._id.toString(),
+      queuedAt: new Date(active.timestamps?.paid || active.timestamps?.ordered || active.createdAt)
+    })),
+    averagePrepMs: sample ? sample.averageMs : DEFAULT_PREP_MINUTES * 60 * 1000,
+    basedOnOrders: sample ? sample.count : 0
+  };
+};
+
+// ลำดับคิว + เวลาที่คาดว่าจะเสร็จ ของออเดอร์ที่อยู่ใน snapshot (ไม่อยู่ = ไม่ได้รอคิวแล้ว)
+orderSchema.statics.getQueueInfoFromSnapshot = function(orderId, snapshot) {
+  const current = snapshot.active.find(active => active._id === orderId.toString());
+  if (!current) {
+    return null;
+  }
+  
+  const { active, averagePrepMs, basedOnOrders } = snapshot;
+  const ahead = active.filter(other => other.queuedAt < current.queuedAt).length;
+  
+  // ถ้าเลยเวลาเฉลี่ยมาแล้ว ให้ประมาณว่าอีกประมาณ 1 นาที
+  const estimatedReadyAt = new Date(Math.max(
+    current.queuedAt.getTime() + averagePrepMs,
+    Date.now() + 60 * 1000
+  ));
+  
+  return {
+    position: ahead + 1,
+    activeOrders: active.length,
+    averagePrepMinutes: Math.round(averagePrepMs / 60000),
+    estimatedReadyAt,
+    estimatedWaitMinutes: Math.ceil((estimatedReadyAt.getTime() - Date.now()) / 60000),
+    basedOnOrders
+  };
+};
+
+// ✅ ลำดับคิว + เวลาที่คาดว่าจะเสร็จ ของออเดอร์เดียว
+orderSchema.statics.getQueueInfo = async function(order) {
+  if (!ACTIVE_STATUSES.includes(order.status)) {
+    return null;
+  }
+  
+  return this.getQueueInfoFromSnapshot(order._id, await this.getQueueSnapshot());
+};
+
 // Index for faster queries
 orderSchema.index({ customerCode: 1 });
 orderSchema.index({ customerId: 1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ createdAt: -1 });
+orderSchema.index({ status: 1, 'timestamps.ordered': 1 });
+orderSchema.index({ status: 1, 'timestamps.paid': 1 });
+orderSchema.index({ 'payment.reference': 1 }, { unique: true, sparse: true });
+
+orderSchema.statics.MAX_ITEMS_PER_ORDER = MAX_ITEMS_PER_ORDER;
+orderSchema.statics.STATUS_TRANSITIONS = STATUS_TRANSITIONS;
+orderSchema.statics.QUEUED_AT = QUEUED_AT;
+orderSchema.statics.ACTIVE_STATUSES = ACTIVE_STATUSES;
+orderSchema.statics.PAYMENT_METHODS = PAYMENT_METHODS;
+orderSchema.statics.TENDER_METHODS = TENDER_METHODS;
+orderSchema.statics.OPEN_STATUSES = OPEN_STATUSES;
 
 module.exports = mongoose.model('Order', orderSchema);
\ No newline at end of file
@@ -0,0 +1,93 @@
+// backend/models/PricingConfig.js
+const mongoose = require('mongoose');
+
+const itemPriceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: [0, 'Price cannot be negative']
+  }
+}, { _id: false });
+
+// มีเอกสารเดียวทั้งระบบ (key = 'default')
+const pricingConfigSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    default: 'default',
+    unique: true
+  },
+  defaultBasePrice: {
+    type: Number,
+    default: 60,
+    min: 0
+  },
+  defaultToppingPrice: {
+    type: Number,
+    default: 10,
+    min: 0
+  },
+  flavorPrices: [itemPriceSchema],
+  toppingPrices: [itemPriceSchema],
+  sizePrices: {
+    S: { type: Number, default: 0, min: 0 },
+    M: { type: Number, default: 10, min: 0 },
+    L: { type: Number, default: 20, min: 0 }
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// ดึง config (สร้างด้วยค่าเริ่มต้นถ้ายังไม่มี)
+pricingConfigSchema.statics.getConfig = async function() {
+  return this.findOneAndUpdate(
+    { key: 'default' },
+    { $setOnInsert: { key: 'default' } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// ราคาตั้งต้นของรสชาติ
+pricingConfigSchema.methods.getFlavorPrice = function(name) {
+  const entry = this.flavorPrices.find(p => p.name === name);
+  return entry ? entry.price : this.defaultBasePrice;
+};
+
+// ราคาท็อปปิ้ง
+pricingConfigSchema.methods.getToppingPrice = function(name) {
+  const entry = this.toppingPrices.find(p => p.name === name);
+  return entry ? entry.price : this.defaultToppingPrice;
+};
+
+// ราคาเพิ่มตามขนาดแก้ว
+pricingConfigSchema.methods.getSizePrice = function(cupSize) {
+  return this.sizePrices?.[cupSize] || 0;
+};
+
+// ✅ คำนวณราคาของบิงซู 1 แก้ว (ใช้ทำ snapshot ลงออเดอร์)
+pricingConfigSchema.methods.quote = function({ cupSize, flavor, toppings = [] }) {
+  const basePrice = this.getFlavorPrice(flavor);
+  const sizePrice = this.getSizePrice(cupSize);
+  const toppingPrices = toppings.map(name => ({
+    name,
+    price: this.getToppingPrice(name)
+  }));
+  const toppingsPrice = toppingPrices.reduce((sum, t) => sum + t.price, 0);
+
+  return {
+    basePrice,
+    sizePrice,
+    toppingPrices,
+    toppingsPrice,
+    total: basePrice + sizePrice + toppingsPrice
+  };
+};
+
+module.exports = mongoose.model('PricingConfig', pricingConfigSchema);
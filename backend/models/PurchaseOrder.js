@@ -0,0 +1,125 @@
+// backend/models/PurchaseOrder.js
+// ใบสั่งซื้อ: draft → sent → received (หรือ cancelled ก่อนรับของ)
+const mongoose = require('mongoose');
+
+const PO_STATUSES = ['draft', 'sent', 'received', 'cancelled'];
+
+const PO_TRANSITIONS = {
+  draft: ['sent', 'cancelled'],
+  sent: ['received', 'cancelled'],
+  received: [],
+  cancelled: []
+};
+
+const purchaseOrderLineSchema = new mongoose.Schema({
+  itemType: {
+    type: String,
+    enum: ['flavor', 'topping', 'ingredient'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0.01, 'Quantity must be greater than 0']
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // จำนวนที่รับจริง (อาจไม่ครบตามที่สั่ง)
+  receivedQuantity: {
+    type: Number,
+    min: 0
+  }
+});
+
+const purchaseOrderSchema = new mongoose.Schema({
+  poNumber: {
+    type: String,
+    unique: true
+  },
+  supplier: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Supplier',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: PO_STATUSES,
+    default: 'draft'
+  },
+  lines: {
+    type: [purchaseOrderLineSchema],
+    validate: {
+      validator: (lines) => lines.length > 0,
+      message: 'A purchase order needs at least one line'
+    }
+  },
+  total: {
+    type: Number,
+    default: 0
+  },
+  notes: {
+    type: String,
+    maxlength: 500,
+    default: ''
+  },
+  expectedAt: Date,
+  sentAt: Date,
+  receivedAt: Date,
+  cancelledAt: Date,
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  receivedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+purchaseOrderSchema.index({ status: 1, createdAt: -1 });
+
+// Generate PO number + total
+purchaseOrderSchema.pre('save', function(next) {
+  if (!this.poNumber) {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const random = Math.random().toString(36).substr(2, 4).toUpperCase();
+    this.poNumber = `PO-${date}-${random}`;
+  }
+
+  this.total = this.lines.reduce((sum, line) => {
+    const quantity = line.receivedQuantity ?? line.quantity;
+    return sum + quantity * line.unitCost;
+  }, 0);
+
+  next();
+});
+
+purchaseOrderSchema.methods.canTransitionTo = function(newStatus) {
+  return (PO_TRANSITIONS[this.status] || []).includes(newStatus);
+};
+
+// ✅ เปลี่ยนสถานะ (throw 409 ถ้าข้ามขั้น)
+purchaseOrderSchema.methods.setStatus = function(newStatus) {
+  if (!this.canTransitionTo(newStatus)) {
+    const error = new Error(`Cannot change purchase order from ${this.status} to ${newStatus}`);
+    error.status = 409;
+    throw error;
+  }
+
+  this.status = newStatus;
+  this[`${newStatus}At`] = new Date();
+  return this;
+};
+
+purchaseOrderSchema.statics.PO_STATUSES = PO_STATUSES;
+
+module.exports = mongoose.model('PurchaseOrder', purchaseOrderSchema);
@@ -0,0 +1,138 @@
+// backend/models/Recipe.js
+// สูตร: รสชาติ/ท็อปปิ้ง 1 แก้ว ใช้วัตถุดิบอะไรเท่าไหร่ ตามขนาดแก้ว
+const mongoose = require('mongoose');
+const Stock = require('./Stock');
+
+const CUP_SIZES = ['S', 'M', 'L'];
+
+const recipeIngredientSchema = new mongoose.Schema({
+  // ชื่อวัตถุดิบใน Stock (itemType: 'ingredient') หน่วยตาม Stock.unit
+  ingredient: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  quantities: {
+    S: { type: Number, min: 0, default: 0 },
+    M: { type: Number, min: 0, default: 0 },
+    L: { type: Number, min: 0, default: 0 }
+  }
+}, { _id: false });
+
+const recipeSchema = new mongoose.Schema({
+  itemType: {
+    type: String,
+    enum: ['flavor', 'topping'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  ingredients: {
+    type: [recipeIngredientSchema],
+    validate: {
+      validator: (ingredients) => ingredients.length > 0,
+      message: 'A recipe needs at least one ingredient'
+    }
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+recipeSchema.index({ itemType: 1, name: 1 }, { unique: true });
+
+/**
+ * รวมวัตถุดิบที่ต้องใช้จากทุกแก้วในออเดอร์
+ * เมนูที่ยังไม่มีสูตร จะตัดสต๊อกของเมนูนั้น 1 หน่วยเหมือนเดิม
+ */
+recipeSchema.statics.getStockUsage = async function(items) {
+  const recipes = await this.find({
+    $or: [
+      { itemType: 'flavor', name: { $in: items.map(item => item.shavedIce.flavor) } },
+      { itemType: 'topping', name: { $in: items.flatMap(item => (item.toppings || []).map(t => t.name)) } }
+    ]
+  });
+  const recipeFor = (itemType, name) => recipes.find(r => r.itemType === itemType && r.name === name);
+
+  const totals = new Map();
+  const add = (itemType, name, quantity) => {
+    if (!quantity) return;
+    const key = `${itemType}:${name}`;
+    const entry = totals.get(key) || { itemType, name, quantity: 0 };
+    entry.quantity += quantity;
+    totals.set(key, entry);
+  };
+  const addItem = (itemType, name, cupSize) => {
+    const recipe = recipeFor(itemType, name);
+    if (!recipe) {
+      add(itemType, name, 1);
+      return;
+    }
+    recipe.ingredients.forEach(({ ingredient, quantities }) => {
+      add('ingredient', ingredient, quantities[cupSize]);
+    });
+  };
+
+  items.forEach(item => {
+    addItem('flavor', item.shavedIce.flavor, item.cupSize);
+    (item.toppings || []).forEach(topping => addItem('topping', topping.name, item.cupSize));
+  });
+
+  return Array.from(totals.values());
+};
+
+// จำนวนแก้วขนาด cupSize ที่ยังทำได้จากวัตถุดิบที่เหลือ
+recipeSchema.methods.getServingsAvailable = function(ingredientStocks, cupSize = 'S') {
+  let servings = Infinity;
+
+  for (const { ingredient, quantities } of this.ingredients) {
+    const perCup = quantities[cupSize];
+    if (!perCup) continue;
+
+    const stock = ingredientStocks.find(s => s.name === ingredient);
+    if (!stock || !stock.isActive) return 0;
+
+    servings = Math.min(servings, Math.floor(stock.quantity / perCup));
+  }
+
+  return servings === Infinity ? 0 : servings;
+};
+
+// ✅ เมนูที่มีสูตร พร้อมจำนวนแก้วที่ยังทำได้ (รูปแบบเดียวกับ Stock)
+// quantity = จำนวนแก้วมากที่สุดในทุกขนาด (> 0 = ยังขายได้อย่างน้อยหนึ่งขนาด)
+// servingsBySize แยกตามขนาด ใช้ตรวจว่าขนาดที่สั่งยังทำได้ไหม (แก้วใหญ่อาจหมดก่อน)
+recipeSchema.statics.getAvailableItems = async function(itemType) {
+  const recipes = await this.find({ itemType });
+  if (recipes.length === 0) return [];
+
+  const ingredientStocks = await Stock.find({
+    itemType: 'ingredient',
+    name: { $in: recipes.flatMap(r => r.ingredients.map(i => i.ingredient)) }
+  });
+
+  return recipes
+    .map(recipe => {
+      const servingsBySize = Object.fromEntries(
+        CUP_SIZES.map(size => [size, recipe.getServingsAvailable(ingredientStocks, size)])
+      );
+
+      return {
+        itemType,
+        name: recipe.name,
+        isActive: true,
+        quantity: Math.max(...Object.values(servingsBySize)),
+        servingsBySize,
+        hasRecipe: true
+      };
+    });
+};
+
+recipeSchema.statics.CUP_SIZES = CUP_SIZES;
+
+module.exports = mongoose.model('Recipe', recipeSchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const MenuItem = require('./MenuItem');
 
 const reviewSchema = new mongoose.Schema({
   user: {
@@ -29,11 +30,17 @@ const reviewSchema = new mongoose.Schema({
   },
   shavedIceFlavor: {
     type: String,
-    enum: ['Strawberry', 'Thai Tea', 'Matcha', 'Milk', 'Green Tea']
+    validate: {
+      validator: (value) => MenuItem.isValidItem('flavor', value),
+      message: props => `${props.value} is not a valid flavor`
+    }
   },
   toppings: [{
     type: String,
-    enum: ['Apple', 'Cherry', 'Blueberry', 'Raspberry', 'Strawberry', 'Banana', 'Mango']
+    validate: {
+      validator: (value) => MenuItem.isValidItem('topping', value),
+      message: props => `${props.value} is not a valid topping`
+    }
   }],
   isVerified: {
     type: Boolean,
@@ -119,7 +126,7 @@ reviewSchema.pre(/^find/, function() {
     select: 'fullName'
   }).populate({
     path: 'order',
-    select: 'orderId shavedIce toppings'
+    select: 'orderId items'
   });
 });
 
@@ -1,10 +1,13 @@
 // backend/models/Stock.js
 const mongoose = require('mongoose');
+const StockMovement = require('./StockMovement');
+const StockBatch = require('./StockBatch');
 
 const stockSchema = new mongoose.Schema({
   itemType: {
     type: String,
-    enum: ['flavor', 'topping'],
+    // ingredient = วัตถุดิบจริง (ไซรัป ml, ผลไม้ g, น้ำแข็ง, แก้ว, ช้อน) ที่ใช้ผ่าน Recipe
+    enum: ['flavor', 'topping', 'ingredient'],
     required: true
   },
   name: {
@@ -19,6 +22,7 @@ const stockSchema = new mongoose.Schema({
   },
   unit: {
     type: String,
+    trim: true,
     default: 'cups'
   },
   reorderLevel: {
@@ -37,47 +41,87 @@ const stockSchema = new mongoose.Schema({
   timestamps: true
 });
 
-// ลดสต๊อก
-stockSchema.statics.reduceStock = async function(itemType, name, amount = 1) {
-  const stock = await this.findOne({ itemType, name });
+// ✅ อัพเดทล็อตตามการเปลี่ยนจำนวน: รับของ (restock) = ล็อตใหม่, คืนของ (cancel-return) = เติมล็อตที่ออเดอร์นั้นตัดไป, ลด = ตัดล็อต FIFO
+// คืนค่า { batch, batches } (ล็อตใหม่/ล็อตที่ระบุ และล็อตที่ถูกตัด/คืนจริง) เพื่อบันทึกลง movement
+const syncBatches = async (stock, delta, { reason, batch, expiresAt, purchaseOrder, order, session } = {}) => {
+  if (delta < 0) {
+    const consumed = await StockBatch.consume(stock._id, -delta, { batch, session });
+    return { batch, batches: consumed };
+  }
   
-  if (!stock) {
-    console.warn(`Stock not found for ${itemType}: ${name}`);
-    return null;
+  if (reason === 'restock') {
+    const [created] = await StockBatch.create([{
+      stock: stock._id,
+      itemType: stock.itemType,
+      name: stock.name,
+      quantity: delta,
+      remaining: delta,
+      expiresAt: expiresAt || null,
+      purchaseOrder
+    }], { session });
+    return { batch: created._id };
+  }
+  
+  if (reason === 'cancel-return' && order) {
+    const consumed = await StockMovement.getConsumedBatches(stock._id, order, { session });
+    const restored = await StockBatch.restore(consumed, delta, { session });
+    return { batches: restored };
+  }
+  
+  return {};
+};
+
+// ✅ เปลี่ยนจำนวนแบบ atomic + บันทึก StockMovement
+// ถ้าเป็นการลด จะลดเฉพาะเมื่อมีของพอ (คืนค่า null ถ้าไม่พอ/ไม่มีรายการ)
+stockSchema.statics.adjustQuantity = async function(query, delta, options = {}) {
+  const { reason, session } = options;
+  const filter = { ...query };
+  if (delta < 0) {
+    filter.quantity = { $gte: -delta };
   }
   
-  if (stock.quantity < amount) {
-    throw new Error(`Insufficient stock for ${name}. Available: ${stock.quantity}`);
+  const update = { $inc: { quantity: delta } };
+  if (reason === 'restock') {
+    update.$set = { lastRestocked: new Date() };
   }
   
-  stock.quantity -= amount;
-  await stock.save();
+  const stock = await this.findOneAndUpdate(filter, update, { new: true, session });
+  
+  if (stock) {
+    const { batch, batches } = await syncBatches(stock, delta, options);
+    await StockMovement.record(stock, delta, { ...options, batch, batches });
+  }
   
   return stock;
 };
 
-// เพิ่มสต๊อก
-stockSchema.statics.addStock = async function(itemType, name, amount) {
-  const stock = await this.findOne({ itemType, name });
+// ✅ ตั้งจำนวนใหม่ (นับสต๊อกจริง) บันทึกเป็น correction
+stockSchema.methods.setQuantity = async function(quantity, { reason = 'correction', user, note, stocktake, session } = {}) {
+  const delta = quantity - this.quantity;
+  this.quantity = quantity;
+  await this.save({ session });
   
-  if (!stock) {
-    return this.create({
-      itemType,
-      name,
-      quantity: amount,
-      lastRestocked: new Date()
-    });
+  if (delta !== 0) {
+    await syncBatches(this, delta, { reason, session });
+    await StockMovement.record(this, delta, { reason, user, note, stocktake, session });
   }
   
-  stock.quantity += amount;
-  stock.lastRestocked = new Date();
-  await stock.save();
+  return this;
+};
+
+// ✅ จองสต๊อกแบบ atomic: ลดเฉพาะเมื่อมีของพอ (คืนค่า false ถ้าไม่พอ/ไม่มีรายการ)
+stockSchema.statics.reserve = async function(itemType, name, amount = 1, { session, order, user } = {}) {
+  const stock = await this.adjustQuantity(
+    { itemType, name },
+    -amount,
+    { reason: 'sale', order, user, session }
+  );
   
-  return stock;
+  return !!stock;
 };
 
 // ✅ ตั้งค่าสต๊อก (สำหรับ admin ปรับจำนวน)
-stockSchema.statics.setStock = async function(itemType, name, quantity, reorderLevel, isActive) {
+stockSchema.statics.setStock = async function(itemType, name, quantity, reorderLevel, isActive, { user, note, unit } = {}) {
   let stock = await this.findOne({ itemType, name });
   
   if (!stock) {
@@ -88,15 +132,18 @@ stockSchema.statics.setStock = async function(itemType, name, quantity, reorderL
       reorderLevel: reorderLevel || 20,
       isActive: isActive !== undefined ? isActive : true
     });
-  } else {
-    stock.quantity = quantity;
-    if (reorderLevel !== undefined) stock.reorderLevel = reorderLevel;
-    if (isActive !== undefined) stock.isActive = isActive;
-    stock.lastRestocked = new Date();
+    if (unit) stock.unit = unit;
+    await stock.save();
+    await StockMovement.record(stock, quantity, { reason: 'initial', user, note });
+    return stock;
   }
   
-  await stock.save();
-  return stock;
+  if (reorderLevel !== undefined) stock.reorderLevel = reorderLevel;
+  if (isActive !== undefined) stock.isActive = isActive;
+  if (unit) stock.unit = unit;
+  stock.lastRestocked = new Date();
+  
+  return stock.setQuantity(quantity, { user, note });
 };
 
 // เช็คสต๊อกใกล้หมด
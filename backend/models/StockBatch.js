@@ -0,0 +1,152 @@
+// backend/models/StockBatch.js
+// ล็อตของสต๊อก (วันที่รับ + วันหมดอายุ) ใช้ตัดแบบหมดอายุก่อนออกก่อน (FIFO)
+// Stock.quantity = ผลรวม remaining ของทุกล็อต + ส่วนที่ไม่ได้แยกล็อต (สต๊อกเดิม/ปรับยอด)
+const mongoose = require('mongoose');
+
+const stockBatchSchema = new mongoose.Schema({
+  stock: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Stock',
+    required: true
+  },
+  itemType: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  remaining: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // ไม่ระบุ = ไม่มีวันหมดอายุ (ถูกตัดหลังล็อตที่มีวันหมดอายุ)
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  purchaseOrder: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PurchaseOrder'
+  },
+  // ตัดทิ้งเป็น waste เมื่อหมดอายุ
+  writtenOffAt: {
+    type: Date,
+    default: null
+  },
+  writtenOffQuantity: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+stockBatchSchema.index({ stock: 1, remaining: 1 });
+stockBatchSchema.index({ expiresAt: 1, remaining: 1 });
+
+// หมดอายุก่อนออกก่อน, ล็อตที่ไม่มีวันหมดอายุไว้ท้ายสุด, เสมอกันใช้วันที่รับ
+const compareBatches = (a, b) => {
+  const aExpiry = a.expiresAt ? a.expiresAt.getTime() : Infinity;
+  const bExpiry = b.expiresAt ? b.expiresAt.getTime() : Infinity;
+  if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+  return a.receivedAt - b.receivedAt;
+};
+
+// ✅ ตัดล็อตตามลำดับ FIFO (หรือเฉพาะล็อตที่ระบุ) คืนค่ารายการ { batch, quantity } ที่ถูกตัด
+// ไม่ตัดล็อตที่หมดอายุแล้วแม้ job ยังไม่ได้ตัดทิ้ง ถ้าล็อตไม่พอ ส่วนที่เหลือถือว่าตัดจากสต๊อกที่ไม่ได้แยกล็อต
+stockBatchSchema.statics.consume = async function(stockId, amount, { batch, session } = {}) {
+  const filter = batch
+    ? { _id: batch, stock: stockId, remaining: { $gt: 0 } }
+    : {
+      stock: stockId,
+      remaining: { $gt: 0 },
+      writtenOffAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+    };
+  const batches = (await this.find(filter).session(session)).sort(compareBatches);
+
+  const consumed = [];
+  let left = amount;
+
+  for (const openBatch of batches) {
+    let available = openBatch.remaining;
+
+    while (left > 0 && available > 0) {
+      const take = Math.min(available, left);
+      // ลดแบบมีเงื่อนไข ถ้ามีคนตัดล็อตเดียวกันไปพร้อมกัน จะอ่านยอดใหม่แล้วลองอีกครั้ง
+      const updated = await this.findOneAndUpdate(
+        { _id: openBatch._id, remaining: { $gte: take } },
+        { $inc: { remaining: -take } },
+        { new: true, session }
+      );
+
+      if (updated) {
+        consumed.push({ batch: openBatch._id, quantity: take });
+        left -= take;
+        break;
+      }
+
+      const current = await this.findById(openBatch._id).select('remaining').session(session);
+      available = current ? current.remaining : 0;
+    }
+
+    if (left <= 0) break;
+  }
+
+  return consumed;
+};
+
+// ✅ คืนของเข้าล็อตที่เคยถูกตัดไป (เช่นยกเลิกออเดอร์) ตามรายการ { batch, quantity } จาก consume
+// ไม่เกิน quantity ของล็อต ล็อตที่ถูกตัดทิ้งไปแล้วไม่รับคืน ส่วนที่คืนไม่ได้ถือเป็นสต๊อกที่ไม่ได้แยกล็อต
+stockBatchSchema.statics.restore = async function(consumed, amount, { session } = {}) {
+  const restored = [];
+  let left = amount;
+
+  for (const { batch, quantity } of consumed) {
+    if (left <= 0) break;
+
+    const give = Math.min(quantity, left);
+    const updated = await this.findOneAndUpdate(
+      {
+        _id: batch,
+        writtenOffAt: null,
+        $expr: { $lte: [{ $add: ['$remaining', give] }, '$quantity'] }
+      },
+      { $inc: { remaining: give } },
+      { new: true, session }
+    );
+    if (!updated) continue;
+
+    restored.push({ batch, quantity: give });
+    left -= give;
+  }
+
+  return restored;
+};
+
+// ✅ ล็อตที่จะหมดอายุภายใน N วัน (รวมที่หมดอายุแล้วแต่ยังไม่ถูกตัดทิ้ง)
+stockBatchSchema.statics.getExpiring = async function(days = 3) {
+  const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  return this.find({
+    remaining: { $gt: 0 },
+    writtenOffAt: null,
+    expiresAt: { $ne: null, $lte: until }
+  })
+    .populate('stock', 'unit isActive')
+    .sort('expiresAt');
+};
+
+module.exports = mongoose.model('StockBatch', stockBatchSchema);
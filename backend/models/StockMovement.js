@@ -0,0 +1,130 @@
+// backend/models/StockMovement.js
+// บันทึกทุกการเปลี่ยนแปลงของสต๊อก (ใช้ตรวจสอบของหาย/กระทบยอด)
+const mongoose = require('mongoose');
+
+const MOVEMENT_REASONS = ['initial', 'sale', 'restock', 'waste', 'correction', 'cancel-return'];
+const WASTE_CATEGORIES = ['spoiled', 'expired', 'dropped', 'preparation', 'other'];
+
+const stockMovementSchema = new mongoose.Schema({
+  stock: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Stock',
+    required: true
+  },
+  itemType: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  // + เพิ่ม / - ลด
+  delta: {
+    type: Number,
+    required: true
+  },
+  quantityAfter: {
+    type: Number,
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: MOVEMENT_REASONS,
+    required: true
+  },
+  // ประเภทของเสีย (เฉพาะ reason = waste)
+  wasteCategory: {
+    type: String,
+    enum: WASTE_CATEGORIES
+  },
+  order: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  purchaseOrder: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PurchaseOrder'
+  },
+  // รอบนับสต๊อกที่ทำให้เกิดการปรับยอด
+  stocktake: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Stocktake'
+  },
+  // ล็อตที่รับเข้า/ตัดทิ้ง (ถ้าระบุได้)
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StockBatch'
+  },
+  // ล็อตที่ถูกตัด/คืนจริง (ขายครั้งเดียวอาจตัดหลายล็อต) ใช้คืนเข้าล็อตเดิมตอนยกเลิกออเดอร์
+  batches: [{
+    _id: false,
+    batch: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'StockBatch'
+    },
+    quantity: Number
+  }],
+  // ต้นทุนต่อหน่วย (มีเมื่อรับของจากใบสั่งซื้อ)
+  unitCost: {
+    type: Number,
+    min: 0
+  },
+  totalCost: {
+    type: Number,
+    min: 0
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  note: {
+    type: String,
+    maxlength: 200
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+stockMovementSchema.index({ stock: 1, createdAt: -1 });
+stockMovementSchema.index({ reason: 1, createdAt: -1 });
+
+// ✅ บันทึก movement จาก stock document หลังเปลี่ยนจำนวนแล้ว
+stockMovementSchema.statics.record = async function(stock, delta, {
+  reason, wasteCategory, order, purchaseOrder, stocktake, batch, batches, unitCost, user, note, session
+} = {}) {
+  const [movement] = await this.create([{
+    stock: stock._id,
+    itemType: stock.itemType,
+    name: stock.name,
+    delta,
+    quantityAfter: stock.quantity,
+    reason,
+    wasteCategory,
+    order,
+    purchaseOrder,
+    stocktake,
+    batch,
+    batches,
+    unitCost,
+    totalCost: unitCost !== undefined ? Math.abs(delta) * unitCost : undefined,
+    user,
+    note
+  }], { session });
+
+  return movement;
+};
+
+// ✅ ล็อตที่ออเดอร์นี้ตัดไปจากสต๊อกรายการนี้ (จาก movement ตอนขาย)
+stockMovementSchema.statics.getConsumedBatches = async function(stockId, orderId, { session } = {}) {
+  const sales = await this.find({ stock: stockId, order: orderId, reason: 'sale' })
+    .select('batches')
+    .session(session);
+
+  return sales.flatMap(sale => sale.batches);
+};
+
+stockMovementSchema.statics.MOVEMENT_REASONS = MOVEMENT_REASONS;
+stockMovementSchema.statics.WASTE_CATEGORIES = WASTE_CATEGORIES;
+
+module.exports = mongoose.model('StockMovement', stockMovementSchema);
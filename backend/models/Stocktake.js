@@ -0,0 +1,105 @@
+// backend/models/Stocktake.js
+// รอบนับสต๊อกจริง: เริ่มนับ → กรอกจำนวน (บันทึกร่าง) → ตรวจส่วนต่าง → ยืนยัน (ปรับยอดเป็น correction)
+const mongoose = require('mongoose');
+
+const STOCKTAKE_STATUSES = ['in-progress', 'committed', 'cancelled'];
+
+const stocktakeLineSchema = new mongoose.Schema({
+  stock: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Stock',
+    required: true
+  },
+  itemType: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    default: ''
+  },
+  // จำนวนในระบบตอนเริ่มนับ
+  expectedQuantity: {
+    type: Number,
+    required: true
+  },
+  // null = ยังไม่ได้นับ
+  countedQuantity: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  countedAt: Date,
+  // จำนวนในระบบ ณ ตอนนับ (countedAt) และส่วนต่าง (counted - system)
+  // ยอดขายหลังนับจึงไม่ถูกนับซ้ำตอนยืนยัน
+  systemQuantity: Number,
+  variance: Number
+}, {
+  _id: false
+});
+
+const stocktakeSchema = new mongoose.Schema({
+  status: {
+    type: String,
+    enum: STOCKTAKE_STATUSES,
+    default: 'in-progress'
+  },
+  lines: [stocktakeLineSchema],
+  note: {
+    type: String,
+    maxlength: 500,
+    default: ''
+  },
+  startedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  committedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  committedAt: Date,
+  cancelledAt: Date
+}, {
+  timestamps: true
+});
+
+stocktakeSchema.index({ status: 1, createdAt: -1 });
+
+// ✅ บันทึกจำนวนที่นับได้ (ร่าง) พร้อมจำนวนในระบบขณะนั้น ข้ามรายการที่ไม่อยู่ในรอบนับนี้
+// quantityById: Map ของ stock id → quantity ปัจจุบัน
+stocktakeSchema.methods.saveCounts = function(counts, quantityById) {
+  const now = new Date();
+  let updated = 0;
+
+  counts.forEach(({ stock, countedQuantity }) => {
+    const line = this.lines.find(l => l.stock.toString() === stock.toString());
+    if (!line) return;
+
+    line.countedQuantity = countedQuantity === null || countedQuantity === '' ? null : Number(countedQuantity);
+    line.countedAt = now;
+    line.systemQuantity = line.countedQuantity === null ? undefined : quantityById.get(line.stock.toString()) ?? 0;
+    updated++;
+  });
+
+  return updated;
+};
+
+// สรุปจำนวนรายการที่นับแล้ว / มีส่วนต่าง
+stocktakeSchema.methods.getSummary = function() {
+  const counted = this.lines.filter(line => line.countedQuantity !== null);
+
+  return {
+    items: this.lines.length,
+    counted: counted.length,
+    withVariance: counted.filter(line => line.variance).length
+  };
+};
+
+stocktakeSchema.statics.STOCKTAKE_STATUSES = STOCKTAKE_STATUSES;
+
+module.exports = mongoose.model('Stocktake', stocktakeSchema);
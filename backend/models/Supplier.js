@@ -0,0 +1,83 @@
+// backend/models/Supplier.js
+const mongoose = require('mongoose');
+
+const supplierSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Supplier name is required'],
+    trim: true,
+    unique: true
+  },
+  contactName: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  phone: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    default: ''
+  },
+  leadTimeDays: {
+    type: Number,
+    min: 0,
+    default: 1
+  },
+  // สินค้าที่ซัพพลายเออร์นี้ส่งได้ (อ้างอิงชื่อใน Stock) + ราคาต่อหน่วย
+  items: [{
+    _id: false,
+    itemType: {
+      type: String,
+      enum: ['flavor', 'topping', 'ingredient'],
+      required: true
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    unitCost: {
+      type: Number,
+      min: 0,
+      required: true
+    }
+  }],
+  notes: {
+    type: String,
+    maxlength: 500,
+    default: ''
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+supplierSchema.index({ 'items.itemType': 1, 'items.name': 1 });
+
+// ✅ หาซัพพลายเออร์ที่ถูกที่สุดสำหรับสินค้าแต่ละรายการ
+supplierSchema.statics.findCheapestFor = async function(itemType, name) {
+  const suppliers = await this.find({
+    isActive: true,
+    items: { $elemMatch: { itemType, name } }
+  });
+
+  let best = null;
+  suppliers.forEach(supplier => {
+    const item = supplier.items.find(i => i.itemType === itemType && i.name === name);
+    if (!best || item.unitCost < best.unitCost) {
+      best = { supplier, unitCost: item.unitCost };
+    }
+  });
+
+  return best;
+};
+
+module.exports = mongoose.model('Supplier', supplierSchema);
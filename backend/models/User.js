@@ -35,8 +35,7 @@ const userSchema = new mongoose.Schema({
     stamps: {
       type: Number,
       default: 0,
-      min: 0,
-      max: 9
+      min: 0
     },
     totalFreeDrinks: {
       type: Number,
@@ -82,15 +81,27 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.addLoyaltyStamp = function() {
   this.loyaltyCard.stamps += 1;
   
-  // If 9 stamps reached, reset and give free drink
+  // If 9 stamps reached, reset and give free drink (สแตมป์ที่เกินจากการยกเลิกออเดอร์ทดไปรอบใหม่)
   if (this.loyaltyCard.stamps >= 9) {
-    this.loyaltyCard.stamps = 0;
+    this.loyaltyCard.stamps -= 9;
     this.loyaltyCard.totalFreeDrinks += 1;
     return true; // Indicates free drink earned
   }
   return false;
 };
 
+// Reverse loyalty stamp (ใช้ตอนยกเลิกออเดอร์)
+userSchema.methods.removeLoyaltyStamp = function(freeDrinkEarned) {
+  if (freeDrinkEarned) {
+    // ออเดอร์นี้ทำให้ได้แก้วฟรีและถูกยกเลิก: หักแก้วฟรีออก คืน 8 สแตมป์ (บวกกับที่สะสมเพิ่มหลังจากนั้น)
+    // ให้ออเดอร์ถัดไปได้แก้วฟรีแทน
+    this.loyaltyCard.stamps += 8;
+    this.loyaltyCard.totalFreeDrinks = Math.max(this.loyaltyCard.totalFreeDrinks - 1, 0);
+  } else {
+    this.loyaltyCard.stamps = Math.max(this.loyaltyCard.stamps - 1, 0);
+  }
+};
+
 // Hide sensitive data when converting to JSON
 userSchema.methods.toJSON = function() {
   const user = this.toObject();
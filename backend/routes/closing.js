@@ -0,0 +1,132 @@
+// backend/routes/closing.js - ปิดยอดประจำวัน / Z-report (Admin only)
+const express = require('express');
+const { body, param, query, validationResult } = require('express-validator');
+const DailyClose = require('../models/DailyClose');
+const { getClosingPreview, closeDay } = require('../services/dailyClose');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticate, isAdmin);
+
+const handleError = (res, error, fallbackMessage) => {
+  if (error.status) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({ message: fallbackMessage, error: error.message });
+};
+
+const checkValidation = (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return false;
+  }
+  return true;
+};
+
+// GET /api/closing - วันที่ปิดยอดแล้ว (ล่าสุดก่อน)
+router.get('/', [
+  query('limit').optional().isInt({ min: 1, max: 366 })
+], async (req, res) => {
+  try {
+    if (!checkValidation(req, res)) return;
+
+    const closes = await DailyClose.find()
+      .select('businessDate report.totalOrders report.netRevenue cash.expected cash.counted cash.overShort closedBy closedAt')
+      .populate('closedBy', 'fullName')
+      .sort('-businessDate')
+      .limit(Number(req.query.limit) || 60);
+
+    res.json({ closes });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch daily closes');
+  }
+});
+
+// GET /api/closing/preview?date=YYYY-MM-DD - ยอดของวัน (ค่าเริ่มต้นวันนี้) ก่อนปิด
+router.get('/preview', [
+  query('date').optional().isISO8601().withMessage('Invalid date')
+], async (req, res) => {
+  try {
+    if (!checkValidation(req, res)) return;
+
+    res.json(await getClosingPreview(req.query.date));
+  } catch (error) {
+    handleError(res, error, 'Failed to build closing preview');
+  }
+});
+
+// POST /api/closing - ปิดยอด + บันทึกการนับเงินสด
+router.post('/', [
+  body('date').isISO8601().withMessage('Date is required'),
+  body('openingFloat').optional().isFloat({ min: 0 }).withMessage('Opening float must be 0 or more'),
+  body('countedCash').optional().isFloat({ min: 0 }).withMessage('Counted cash must be 0 or more'),
+  body('denominations').optional().isArray(),
+  body('denominations.*.value').isIn(DailyClose.CASH_DENOMINATIONS).withMessage('Invalid denomination'),
+  body('denominations.*.count').isInt({ min: 0 }).withMessage('Count must be 0 or more'),
+  body('note').optional().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    if (!checkValidation(req, res)) return;
+
+    const { date, openingFloat, countedCash, denominations, note } = req.body;
+    const dailyClose = await closeDay(date, {
+      openingFloat: openingFloat !== undefined ? Number(openingFloat) : 0,
+      countedCash: countedCash !== undefined ? Number(countedCash) : undefined,
+      denominations: (denominations || []).map(({ value, count }) => ({ value: Number(value), count: Number(count) })),
+      note,
+      closedBy: req.user._id
+    });
+
+    res.status(201).json({ message: `${dailyClose.businessDate} closed`, dailyClose });
+  } catch (error) {
+    handleError(res, error, 'Failed to close day');
+  }
+});
+
+// GET /api/closing/:date - Z-report ที่เก็บไว้
+router.get('/:date', [
+  param('date').isISO8601().withMessage('Invalid date')
+], async (req, res) => {
+  try {
+    if (!checkValidation(req, res)) return;
+
+    const dailyClose = await DailyClose.findOne({ businessDate: req.params.date })
+      .populate('closedBy', 'fullName')
+      .populate('reprints.printedBy', 'fullName');
+
+    if (!dailyClose) {
+      return res.status(404).json({ message: `${req.params.date} has not been closed` });
+    }
+
+    res.json({ dailyClose });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch daily close');
+  }
+});
+
+// POST /api/closing/:date/reprint - บันทึกการพิมพ์ Z-report ซ้ำ
+router.post('/:date/reprint', [
+  param('date').isISO8601().withMessage('Invalid date')
+], async (req, res) => {
+  try {
+    if (!checkValidation(req, res)) return;
+
+    const dailyClose = await DailyClose.findOne({ businessDate: req.params.date });
+    if (!dailyClose) {
+      return res.status(404).json({ message: `${req.params.date} has not been closed` });
+    }
+
+    await dailyClose.recordReprint(req.user._id);
+    res.json({ message: 'Reprint recorded', reprints: dailyClose.reprints.length });
+  } catch (error) {
+    handleError(res, error, 'Failed to record reprint');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,461 @@
+// backend/routes/exports.js - ดาวน์โหลดรายงานเป็นไฟล์ (Admin only)
+// format=csv|xlsx|pdf, รายงานยอดขายรับช่วงเวลาแบบเดียวกับ /api/reports (+ compare=true)
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const Stock = require('../models/Stock');
+const StockBatch = require('../models/StockBatch');
+const MenuItem = require('../models/MenuItem');
+const PricingConfig = require('../models/PricingConfig');
+const Review = require('../models/Review');
+const User = require('../models/User');
+const DailyClose = require('../models/DailyClose');
+const {
+  compareSummary,
+  compareRows,
+  getSalesSummary,
+  getRevenueBreakdown,
+  getPaymentBreakdown,
+  getItemMix,
+  getTopCombos
+} = require('../services/reports');
+const { getWasteReport } = require('../services/waste');
+const { EXPORT_FORMATS, formatThaiDate, sendExport } = require('../services/exports');
+const { REPORT_PERIODS, resolveRangeQuery } = require('../utils/dateRange');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticate, isAdmin);
+
+const formatRules = [
+  query('format').isIn(EXPORT_FORMATS).withMessage(`format must be one of ${EXPORT_FORMATS.join(', ')}`)
+];
+
+// ตรวจ query แล้วส่ง export ที่ handler สร้าง
+const withExport = (handler, fallbackMessage) => async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    await sendExport(res, req.query.format, await handler(req));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`❌ ${fallbackMessage}:`, error);
+    res.status(500).json({ message: fallbackMessage, error: error.message });
+  }
+};
+
+// ช่วงที่แสดงในหัวรายงาน (end ไม่นับรวม จึงถอยไป 1 ms)
+const describeRange = ({ start, end }) => (start && end
+  ? `${formatThaiDate(start)} - ${formatThaiDate(end.getTime() - 1)}`
+  : 'All time');
+
+// คอลัมน์ช่วงก่อนหน้า + % เปลี่ยนแปลง ต่อท้ายเมื่อ export แบบเทียบช่วง
+const comparisonColumns = (comparing, format = 'number') => (comparing
+  ? [
+    { header: 'Previous', key: 'previous', format, width: 12 },
+    { header: 'Change %', key: 'change', format: 'percent', width: 10 }
+  ]
+  : []);
+
+const withPrevious = (rows, field) => rows.map(row => ({
+  ...row,
+  previous: row.previous ? row.previous[field] : undefined,
+  change: row.change ? row.change[field] : undefined
+}));
+
+// GET /api/exports/sales?format=&period=|startDate=&endDate=&compare=true
+router.get('/sales', [
+  ...formatRules,
+  query('period').optional().isIn(REPORT_PERIODS).withMessage('Invalid report period'),
+  query('year').optional().isInt({ min: 2000, max: 2100 }),
+  query('quarter').optional().isInt({ min: 1, max: 4 }),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+  query('compare').optional().isBoolean()
+], withExport(async (req) => {
+  const range = resolveRangeQuery(req.query);
+  const comparing = req.query.compare === 'true' && Boolean(range.previous);
+
+  const [summary, daily, hourly, paymentMethods, itemMix, combos, waste] = await Promise.all([
+    getSalesSummary(range),
+    getRevenueBreakdown(range, 'day'),
+    getRevenueBreakdown(range, 'hour'),
+    getPaymentBreakdown(range),
+    getItemMix(range),
+    getTopCombos(range, 10),
+    getWasteReport({ startDate: range.start, endDate: range.end })
+  ]);
+
+  let flavors = itemMix.flavors;
+  let toppings = itemMix.toppings;
+  let hours = hourly;
+  let payments = paymentMethods;
+  let summaryRows = [
+    { metric: 'Total Orders', key: 'totalOrders' },
+    { metric: 'Sold Orders', key: 'soldOrders' },
+    { metric: 'Cups', key: 'cups' },
+    { metric: 'Revenue', key: 'revenue' },
+    { metric: 'Discount', key: 'discount' },
+    { metric: 'Avg Order Value', key: 'averageOrderValue' },
+    { metric: 'Completion Rate %', key: 'completionRate' },
+    { metric: 'Avg Prep Time (min)', key: 'averagePrepMinutes' }
+  ].map(row => ({ metric: row.metric, value: summary[row.key], key: row.key }));
+
+  if (comparing) {
+    const [previousSummary, previousHourly, previousPayments, previousMix] = await Promise.all([
+      getSalesSummary(range.previous),
+      getRevenueBreakdown(range.previous, 'hour'),
+      getPaymentBreakdown(range.previous),
+      getItemMix(range.previous)
+    ]);
+    const change = compareSummary(summary, previousSummary);
+
+    summaryRows = summaryRows.map(row => ({ ...row, previous: previousSummary[row.key], change: change[row.key] }));
+    flavors = withPrevious(compareRows(flavors, previousMix.flavors, 'name', ['count', 'revenue']), 'count');
+    toppings = withPrevious(compareRows(toppings, previousMix.toppings, 'name', ['count', 'revenue']), 'count');
+    payments = withPrevious(compareRows(payments, previousPayments, 'method', ['orders', 'revenue']), 'revenue');
+    hours = withPrevious(
+      compareRows(hourly, previousHourly, 'hour', ['orders', 'cups', 'revenue', 'averageOrderValue']),
+      'orders'
+    );
+  }
+
+  const hourLabel = hour => `${String(hour).padStart(2, '0')}:00-${String(hour + 1).padStart(2, '0')}:00`;
+
+  return {
+    filename: 'sales_report',
+    title: 'Sales Report',
+    subtitle: comparing
+      ? `${describeRange(range)} vs ${describeRange(range.previous)}`
+      : describeRange(range),
+    sheets: [
+      {
+        name: 'Summary',
+        columns: [
+          { header: 'Metric', key: 'metric', width: 24 },
+          { header: 'Value', key: 'value', format: 'number', width: 14 },
+          ...comparisonColumns(comparing)
+        ],
+        rows: summaryRows
+      },
+      {
+        name: 'Daily Sales',
+        columns: [
+          { header: 'Date', key: 'date', format: 'date', width: 14 },
+          { header: 'Orders', key: 'orders', format: 'number' },
+          { header: 'Cups', key: 'cups', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          { header: 'Avg Order', key: 'averageOrderValue', format: 'currency' }
+        ],
+        rows: daily
+      },
+      {
+        name: 'Peak Hours',
+        columns: [
+          { header: 'Hour', key: 'label', width: 14 },
+          { header: 'Orders', key: 'orders', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          ...comparisonColumns(comparing)
+        ],
+        rows: hours
+          .map(row => ({ ...row, label: hourLabel(row.hour) }))
+          .sort((a, b) => b.orders - a.orders)
+      },
+      {
+        name: 'Payment Methods',
+        columns: [
+          { header: 'Method', key: 'method', width: 16 },
+          { header: 'Orders', key: 'orders', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          { header: 'Change Given', key: 'changeGiven', format: 'currency' },
+          ...comparisonColumns(comparing, 'currency')
+        ],
+        rows: payments
+      },
+      {
+        name: 'Flavors',
+        columns: [
+          { header: 'Flavor', key: 'name', width: 20 },
+          { header: 'Cups', key: 'count', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          ...comparisonColumns(comparing)
+        ],
+        rows: flavors
+      },
+      {
+        name: 'Toppings',
+        columns: [
+          { header: 'Topping', key: 'name', width: 20 },
+          { header: 'Count', key: 'count', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          ...comparisonColumns(comparing)
+        ],
+        rows: toppings
+      },
+      {
+        name: 'Top Combinations',
+        columns: [
+          { header: 'Combination', key: 'combo', width: 40 },
+          { header: 'Count', key: 'count', format: 'number' }
+        ],
+        rows: combos
+      },
+      {
+        name: 'Waste',
+        columns: [
+          { header: 'Item', key: 'name', width: 20 },
+          { header: 'Unit', key: 'unit', width: 8 },
+          { header: 'Used', key: 'used', format: 'number' },
+          { header: 'Wasted', key: 'wasted', format: 'number' },
+          { header: 'Waste %', key: 'wastePercent', format: 'percent' },
+          { header: 'Cost', key: 'wasteCost', format: 'currency' }
+        ],
+        rows: waste.byItem
+      }
+    ]
+  };
+}, 'Failed to export sales report'));
+
+// GET /api/exports/stock?format= - สต๊อกทั้งหมด + ใกล้หมด + ล็อตใกล้หมดอายุ (7 วัน)
+router.get('/stock', formatRules, withExport(async () => {
+  const [stocks, expiring] = await Promise.all([
+    Stock.find().sort('itemType name'),
+    StockBatch.getExpiring(7)
+  ]);
+
+  const stockColumns = [
+    { header: 'Type', key: 'itemType', width: 10 },
+    { header: 'Name', key: 'name', width: 20 },
+    { header: 'Quantity', key: 'quantity', format: 'number' },
+    { header: 'Unit', key: 'unit', width: 8 },
+    { header: 'Reorder Level', key: 'reorderLevel', format: 'number' }
+  ];
+
+  return {
+    filename: 'stock_data',
+    title: 'Stock Report',
+    sheets: [
+      {
+        name: 'Stock',
+        columns: [
+          ...stockColumns,
+          { header: 'Status', key: 'status', width: 10 },
+          { header: 'Last Restocked', key: 'lastRestocked', format: 'date', width: 14 }
+        ],
+        rows: stocks.map(stock => ({
+          ...stock.toObject(),
+          status: stock.isActive ? 'Active' : 'Inactive'
+        }))
+      },
+      {
+        name: 'Low Stock',
+        columns: stockColumns,
+        rows: stocks.filter(stock => stock.isActive && stock.quantity <= stock.reorderLevel)
+      },
+      {
+        name: 'Expiring Batches',
+        columns: [
+          { header: 'Type', key: 'itemType', width: 10 },
+          { header: 'Name', key: 'name', width: 20 },
+          { header: 'Remaining', key: 'remaining', format: 'number' },
+          { header: 'Received', key: 'receivedAt', format: 'date', width: 14 },
+          { header: 'Expires', key: 'expiresAt', format: 'date', width: 14 }
+        ],
+        rows: expiring
+      }
+    ]
+  };
+}, 'Failed to export stock'));
+
+// GET /api/exports/menu?format= - เมนูพร้อมราคาปัจจุบัน
+router.get('/menu', formatRules, withExport(async () => {
+  const [items, pricing] = await Promise.all([
+    MenuItem.find().sort('type displayOrder name'),
+    PricingConfig.getConfig()
+  ]);
+
+  return {
+    filename: 'menu_data',
+    title: 'Menu',
+    sheets: [
+      {
+        name: 'Menu Items',
+        columns: [
+          { header: 'Category', key: 'category', width: 10 },
+          { header: 'Name', key: 'name', width: 20 },
+          { header: 'Price', key: 'price', format: 'currency' },
+          { header: 'Status', key: 'status', width: 10 }
+        ],
+        rows: items.map(item => ({
+          category: item.type === 'flavor' ? 'Flavor' : 'Topping',
+          name: item.name,
+          price: item.type === 'flavor' ? pricing.getFlavorPrice(item.name) : pricing.getToppingPrice(item.name),
+          status: item.isActive ? 'Active' : 'Inactive'
+        }))
+      },
+      {
+        name: 'Sizes',
+        columns: [
+          { header: 'Size', key: 'size', width: 8 },
+          { header: 'Additional Price', key: 'price', format: 'currency', width: 16 }
+        ],
+        rows: ['S', 'M', 'L'].map(size => ({ size, price: pricing.getSizePrice(size) }))
+      }
+    ]
+  };
+}, 'Failed to export menu'));
+
+// GET /api/exports/reviews?format= - สถิติรีวิว + การกระจายคะแนน
+router.get('/reviews', formatRules, withExport(async () => {
+  const [rating, distribution, totalUsers] = await Promise.all([
+    Review.getAverageRating(),
+    Review.getRatingDistribution(),
+    User.countDocuments()
+  ]);
+
+  return {
+    filename: 'review_statistics',
+    title: 'Review Statistics',
+    sheets: [
+      {
+        name: 'Summary',
+        columns: [
+          { header: 'Metric', key: 'metric', width: 20 },
+          { header: 'Value', key: 'value', format: 'number' }
+        ],
+        rows: [
+          { metric: 'Total Reviews', value: rating.total },
+          { metric: 'Average Rating', value: rating.average },
+          { metric: 'Total Users', value: totalUsers }
+        ]
+      },
+      {
+        name: 'Rating Distribution',
+        columns: [
+          { header: 'Stars', key: 'stars', width: 10 },
+          { header: 'Count', key: 'count', format: 'number' }
+        ],
+        rows: [5, 4, 3, 2, 1].map(stars => ({ stars: `${stars} Stars`, count: distribution[stars] || 0 }))
+      }
+    ]
+  };
+}, 'Failed to export review statistics'));
+
+// GET /api/exports/users?format=&role=&isActive=&search= - รายชื่อผู้ใช้ (ตัวกรองเดียวกับหน้า User Management)
+router.get('/users', [
+  ...formatRules,
+  query('role').optional().isIn(['customer', 'admin']),
+  query('isActive').optional().isBoolean()
+], withExport(async (req) => {
+  const filter = {};
+  if (req.query.role) filter.role = req.query.role;
+  if (req.query.isActive !== undefined) filter.isActive = req.query.isActive === 'true';
+  if (req.query.search) {
+    filter.$or = [
+      { fullName: { $regex: req.query.search, $options: 'i' } },
+      { email: { $regex: req.query.search, $options: 'i' } }
+    ];
+  }
+
+  const users = await User.find(filter).select('-password').sort('-createdAt');
+
+  return {
+    filename: 'users',
+    title: 'Users',
+    sheets: [
+      {
+        name: 'Users',
+        columns: [
+          { header: 'Name', key: 'fullName', width: 20 },
+          { header: 'Email', key: 'email', width: 26 },
+          { header: 'Role', key: 'role', width: 10 },
+          { header: 'Orders', key: 'orderCount', format: 'number', width: 8 },
+          { header: 'Points', key: 'loyaltyPoints', format: 'number', width: 8 },
+          { header: 'Status', key: 'status', width: 10 },
+          { header: 'Joined', key: 'createdAt', format: 'date', width: 12 },
+          { header: 'Last Login', key: 'lastLogin', format: 'date', width: 12 }
+        ],
+        rows: users.map(user => ({
+          ...user.toObject(),
+          orderCount: user.orderHistory?.length || 0,
+          status: user.isActive ? 'Active' : 'Inactive'
+        }))
+      }
+    ]
+  };
+}, 'Failed to export users'));
+
+// GET /api/exports/z-report?format=&date=YYYY-MM-DD - Z-report ที่ปิดยอดแล้ว (นับเป็นการพิมพ์ซ้ำ)
+router.get('/z-report', [
+  ...formatRules,
+  query('date').isISO8601().withMessage('Date is required')
+], withExport(async (req) => {
+  const dailyClose = await DailyClose.findOne({ businessDate: req.query.date }).populate('closedBy', 'fullName');
+  if (!dailyClose) {
+    const error = new Error(`${req.query.date} has not been closed`);
+    error.status = 404;
+    throw error;
+  }
+
+  await dailyClose.recordReprint(req.user._id);
+  const { report, cash } = dailyClose;
+
+  return {
+    filename: `z_report_${dailyClose.businessDate}`,
+    title: `Z-Report ${formatThaiDate(dailyClose.businessDate)}`,
+    subtitle: `Closed ${formatThaiDate(dailyClose.closedAt)} by ${dailyClose.closedBy?.fullName || '-'}`,
+    sheets: [
+      {
+        name: 'Sales',
+        columns: [
+          { header: 'Item', key: 'label', width: 24 },
+          { header: 'Value', key: 'value', format: 'number', width: 14 }
+        ],
+        rows: [
+          { label: 'Orders', value: report.totalOrders },
+          { label: 'Sold Orders', value: report.soldOrders },
+          { label: 'Cups', value: report.cups },
+          { label: 'Gross Revenue', value: report.grossRevenue },
+          { label: 'Discounts', value: report.discounts },
+          { label: 'Net Revenue', value: report.netRevenue },
+          { label: 'Free Drinks', value: report.freeDrinks },
+          { label: 'Free Drink Value', value: report.freeDrinkValue },
+          { label: 'Cancellations', value: report.cancellations },
+          { label: 'Refunds', value: report.refunds },
+          { label: 'Refund Amount', value: report.refundAmount }
+        ]
+      },
+      {
+        name: 'Payment Methods',
+        columns: [
+          { header: 'Method', key: 'method', width: 16 },
+          { header: 'Orders', key: 'orders', format: 'number' },
+          { header: 'Revenue', key: 'revenue', format: 'currency' },
+          { header: 'Change Given', key: 'changeGiven', format: 'currency' }
+        ],
+        rows: report.byPaymentMethod
+      },
+      {
+        name: 'Cash',
+        columns: [
+          { header: 'Item', key: 'label', width: 24 },
+          { header: 'Amount', key: 'value', format: 'currency', width: 14 }
+        ],
+        rows: [
+          { label: 'Opening Float', value: cash.openingFloat },
+          { label: 'Expected Cash', value: cash.expected },
+          { label: 'Counted Cash', value: cash.counted },
+          { label: 'Over / Short', value: cash.overShort },
+          ...cash.denominations.map(({ value, count }) => ({ label: `${value} THB x ${count}`, value: value * count }))
+        ]
+      }
+    ]
+  };
+}, 'Failed to export Z-report'));
+
+module.exports = router;
@@ -0,0 +1,86 @@
+const express = require('express');
+const { param, query, validationResult } = require('express-validator');
+const JobRun = require('../models/JobRun');
+const { listJobs, runJob } = require('../jobs');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// GET /api/jobs (Admin only) - รายการ job + รอบล่าสุด
+router.get('/', authenticate, isAdmin, async (req, res) => {
+  try {
+    const latestRuns = await JobRun.getLatestRuns();
+
+    const jobs = listJobs().map(job => ({
+      ...job,
+      lastRun: latestRuns[job.name] || null
+    }));
+
+    res.json({ jobs });
+  } catch (error) {
+    console.error('❌ Error fetching jobs:', error);
+    res.status(500).json({
+      message: 'Failed to fetch jobs',
+      error: error.message
+    });
+  }
+});
+
+// GET /api/jobs/runs (Admin only)
+router.get('/runs', authenticate, isAdmin, [
+  query('job').optional().trim(),
+  query('status').optional().isIn(['running', 'success', 'failed']),
+  query('limit').optional().isInt({ min: 1, max: 200 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { job, status, limit = 50 } = req.query;
+    const filter = {};
+    if (job) filter.job = job;
+    if (status) filter.status = status;
+
+    const runs = await JobRun.find(filter)
+      .populate('triggeredBy', 'fullName')
+      .sort('-startedAt')
+      .limit(Number(limit));
+
+    res.json({ runs });
+  } catch (error) {
+    console.error('❌ Error fetching job runs:', error);
+    res.status(500).json({
+      message: 'Failed to fetch job runs',
+      error: error.message
+    });
+  }
+});
+
+// POST /api/jobs/:name/run (Admin only) - สั่งรันทันที
+router.post('/:name/run', authenticate, isAdmin, [
+  param('name').trim().notEmpty()
+], async (req, res) => {
+  try {
+    console.log('▶️ Manual job run:', req.params.name);
+
+    const run = await runJob(req.params.name, {
+      trigger: 'manual',
+      triggeredBy: req.user._id
+    });
+
+    res.json({
+      message: run.status === 'success' ? 'Job completed' : 'Job failed',
+      run
+    });
+  } catch (error) {
+    console.error('❌ Job run error:', error);
+    res.status(error.status || 500).json({
+      message: error.status ? error.message : 'Failed to run job',
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,176 @@
+// backend/routes/menu.js
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const MenuItem = require('../models/MenuItem');
+const Order = require('../models/Order');
+const Stock = require('../models/Stock');
+const Recipe = require('../models/Recipe');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// ฟิลด์ใน Order ที่อ้างอิงชื่อเมนูแต่ละประเภท
+const orderFieldFor = (type) => (type === 'flavor' ? 'items.shavedIce.flavor' : 'items.toppings.name');
+
+// GET /api/menu - เมนูที่เปิดขาย (สำหรับลูกค้า)
+router.get('/', async (req, res) => {
+  try {
+    const menu = await MenuItem.getMenu();
+    res.json(menu);
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch menu', error: error.message });
+  }
+});
+
+// Admin Routes
+
+// GET /api/menu/admin/all - เมนูทั้งหมด (รวมที่ปิดอยู่)
+router.get('/admin/all', authenticate, isAdmin, async (req, res) => {
+  try {
+    const { type } = req.query;
+    const filter = {};
+
+    if (type) filter.type = type;
+
+    const items = await MenuItem.find(filter).sort('type displayOrder name');
+    res.json({ items });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch menu items', error: error.message });
+  }
+});
+
+// POST /api/menu/admin - เพิ่มเมนูใหม่
+router.post('/admin', authenticate, isAdmin, [
+  body('name').trim().notEmpty().withMessage('Name is required'),
+  body('type').isIn(['flavor', 'topping']).withMessage('Invalid item type'),
+  body('description').optional().isLength({ max: 200 }),
+  body('displayOrder').optional().isInt(),
+  body('isActive').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, type, description, image, color, displayOrder, isActive } = req.body;
+
+    const existing = await MenuItem.findOne({ type, name });
+    if (existing) {
+      return res.status(400).json({ message: `${type} "${name}" already exists` });
+    }
+
+    const item = await MenuItem.create({
+      name,
+      type,
+      description,
+      image,
+      color,
+      displayOrder,
+      isActive
+    });
+
+    console.log('✅ Menu item created:', item.type, item.name);
+    res.status(201).json({
+      message: 'Menu item created successfully',
+      item
+    });
+  } catch (error) {
+    console.error('❌ Error creating menu item:', error);
+    res.status(500).json({ message: 'Failed to create menu item', error: error.message });
+  }
+});
+
+// PUT /api/menu/admin/:id - แก้ไขเมนู
+router.put('/admin/:id', authenticate, isAdmin, [
+  body('name').optional().trim().notEmpty(),
+  body('description').optional().isLength({ max: 200 }),
+  body('displayOrder').optional().isInt(),
+  body('isActive').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const item = await MenuItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({ message: 'Menu item not found' });
+    }
+
+    const { name, description, image, color, displayOrder, isActive } = req.body;
+    const oldName = item.name;
+
+    if (name && name !== oldName) {
+      const duplicate = await MenuItem.findOne({ type: item.type, name });
+      if (duplicate) {
+        return res.status(400).json({ message: `${item.type} "${name}" already exists` });
+      }
+
+      const usedInOrder = await Order.exists({ [orderFieldFor(item.type)]: oldName });
+      if (usedInOrder) {
+        return res.status(400).json({
+          message: `${oldName} has existing orders and cannot be renamed. Create a new item instead.`
+        });
+      }
+      item.name = name;
+    }
+
+    if (description !== undefined) item.description = description;
+    if (image !== undefined) item.image = image;
+    if (color !== undefined) item.color = color;
+    if (displayOrder !== undefined) item.displayOrder = displayOrder;
+    if (isActive !== undefined) item.isActive = isActive;
+
+    await item.save();
+
+    // ✅ เปลี่ยนชื่อสต๊อกตามเมนู เพื่อให้ยังจับคู่กันได้
+    if (item.name !== oldName) {
+      await Stock.updateMany(
+        { itemType: item.type, name: oldName },
+        { name: item.name }
+      );
+      await Recipe.updateOne(
+        { itemType: item.type, name: oldName },
+        { name: item.name }
+      );
+    }
+
+    res.json({
+      message: 'Menu item updated successfully',
+      item
+    });
+  } catch (error) {
+    console.error('❌ Error updating menu item:', error);
+    res.status(500).json({ message: 'Failed to update menu item', error: error.message });
+  }
+});
+
+// DELETE /api/menu/admin/:id - ลบเมนู
+router.delete('/admin/:id', authenticate, isAdmin, async (req, res) => {
+  try {
+    const item = await MenuItem.findById(req.params.id);
+
+    if (!item) {
+      return res.status(404).json({ message: 'Menu item not found' });
+    }
+
+    // เมนูที่เคยถูกสั่งแล้วห้ามลบ (ออเดอร์เก่ายังอ้างอิงชื่ออยู่) ให้ปิดการขายแทน
+    const usedInOrder = await Order.exists({ [orderFieldFor(item.type)]: item.name });
+    if (usedInOrder) {
+      return res.status(400).json({
+        message: `${item.name} has existing orders. Deactivate it instead of deleting.`
+      });
+    }
+
+    await item.deleteOne();
+
+    res.json({ message: 'Menu item deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to delete menu item', error: error.message });
+  }
+});
+
+module.exports = router;
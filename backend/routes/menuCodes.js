@@ -1,13 +1,36 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, param, validationResult } = require('express-validator');
 const MenuCode = require('../models/MenuCode');
 const { authenticate, isAdmin } = require('../middleware/auth');
 
 const router = express.Router();
 
+// ตั้งค่าอายุ/จำนวนครั้งที่ใช้ได้ ใช้ร่วมกันทั้งสร้างทีละโค้ดและสร้างเป็นชุด
+const codeOptionRules = [
+  body('mode').optional().isIn(MenuCode.CODE_MODES).withMessage('Mode must be single or multi'),
+  body('expiresAt').optional().isISO8601().withMessage('Invalid expiry date')
+    .custom(value => new Date(value) > new Date()).withMessage('Expiry date must be in the future'),
+  body('maxUsage').optional().isInt({ min: 1, max: 100 }).withMessage('Max usage must be between 1 and 100')
+];
+
+const getCodeOptions = ({ mode, expiresAt, maxUsage }) => ({
+  mode,
+  expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+  maxUsage: maxUsage ? Number(maxUsage) : undefined
+});
+
+const toCodeResponse = (menuCode) => ({
+  code: menuCode.code,
+  cupSize: menuCode.cupSize,
+  mode: menuCode.mode,
+  maxUsage: menuCode.maxUsage,
+  expiresAt: menuCode.expiresAt
+});
+
 // POST /api/menu-codes/generate (Admin only)
 router.post('/generate', authenticate, isAdmin, [
-  body('cupSize').isIn(['S', 'M', 'L']).withMessage('Invalid cup size')
+  body('cupSize').isIn(['S', 'M', 'L']).withMessage('Invalid cup size'),
+  ...codeOptionRules
 ], async (req, res) => {
   try {
     console.log('🎫 Generating menu code for size:', req.body.cupSize);
@@ -20,16 +43,13 @@ router.post('/generate', authenticate, isAdmin, [
     
     const { cupSize } = req.body;
     
-    const menuCode = await MenuCode.createCode(cupSize, req.user._id);
+    const menuCode = await MenuCode.createCode(cupSize, req.user._id, getCodeOptions(req.body));
     
     console.log('✅ Menu code generated:', menuCode.code);
     
     res.status(201).json({
       message: 'Menu code generated successfully',
-      code: menuCode.code,
-      cupSize: menuCode.cupSize,
-      maxUsage: menuCode.maxUsage,
-      expiresAt: menuCode.expiresAt
+      ...toCodeResponse(menuCode)
     });
   } catch (error) {
     console.error('❌ Menu code generation error:', error);
@@ -40,6 +60,46 @@ router.post('/generate', authenticate, isAdmin, [
   }
 });
 
+// POST /api/menu-codes/generate-batch (Admin only)
+router.post('/generate-batch', authenticate, isAdmin, [
+  body('count').isInt({ min: 1, max: MenuCode.MAX_BATCH_SIZE })
+    .withMessage(`Count must be between 1 and ${MenuCode.MAX_BATCH_SIZE}`),
+  body('cupSize').isIn(['S', 'M', 'L']).withMessage('Invalid cup size'),
+  ...codeOptionRules
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      console.log('❌ Validation errors:', errors.array());
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const { count, cupSize } = req.body;
+    console.log(`🎫 Generating batch of ${count} menu codes for size:`, cupSize);
+    
+    const { batchId, codes } = await MenuCode.createBatch({
+      count: Number(count),
+      cupSize,
+      createdBy: req.user._id,
+      ...getCodeOptions(req.body)
+    });
+    
+    console.log(`✅ Batch ${batchId} generated: ${codes.length} codes`);
+    
+    res.status(201).json({
+      message: `Generated ${codes.length} menu codes`,
+      batchId,
+      codes: codes.map(toCodeResponse)
+    });
+  } catch (error) {
+    console.error('❌ Batch generation error:', error);
+    res.status(error.status || 500).json({ 
+      message: error.status ? error.message : 'Failed to generate menu codes',
+      error: error.message 
+    });
+  }
+});
+
 // POST /api/menu-codes/validate
 router.post('/validate', [
   body('code').notEmpty().isLength({ min: 5, max: 5 })
@@ -104,10 +164,12 @@ router.get('/admin/all', authenticate, isAdmin, async (req, res) => {
     } else if (status === 'unused') {
       filter.usageCount = 0;
     } else if (status === 'expired') {
-      filter.usageCount = { $lt: 5 };
+      filter.$expr = { $lt: ['$usageCount', '$maxUsage'] };
       filter.expiresAt = { $lt: new Date() };
     } else if (status === 'full') {
-      filter.usageCount = { $gte: 5 };
+      filter.$expr = { $gte: ['$usageCount', '$maxUsage'] };
+    } else if (status === 'revoked') {
+      filter.revokedAt = { $ne: null };
     }
     
     if (cupSize) {
@@ -131,6 +193,32 @@ router.get('/admin/all', authenticate, isAdmin, async (req, res) => {
   }
 });
 
+// GET /api/menu-codes/admin/batch/:batchId (Admin only) - สำหรับหน้าพิมพ์ QR
+router.get('/admin/batch/:batchId', authenticate, isAdmin, [
+  param('batchId').trim().notEmpty()
+], async (req, res) => {
+  try {
+    const { batchId } = req.params;
+    console.log('🖨️ Fetching code batch:', batchId);
+    
+    const codes = await MenuCode.find({ batchId })
+      .select('code cupSize mode maxUsage usageCount expiresAt revokedAt createdAt')
+      .sort('code');
+    
+    if (codes.length === 0) {
+      return res.status(404).json({ message: 'Batch not found' });
+    }
+    
+    res.json({ batchId, codes });
+  } catch (error) {
+    console.error('❌ Error fetching batch:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch code batch',
+      error: error.message 
+    });
+  }
+});
+
 // DELETE /api/menu-codes/admin/cleanup (Admin only)
 router.delete('/admin/cleanup', authenticate, isAdmin, async (req, res) => {
   try {
@@ -162,11 +250,11 @@ router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
         $facet: {
           total: [{ $count: 'count' }],
           partiallyUsed: [
-            { $match: { usageCount: { $gte: 1, $lt: 5 } } },
+            { $match: { usageCount: { $gte: 1 }, $expr: { $lt: ['$usageCount', '$maxUsage'] } } },
             { $count: 'count' }
           ],
           fullyUsed: [
-            { $match: { usageCount: { $gte: 5 } } },
+            { $match: { $expr: { $gte: ['$usageCount', '$maxUsage'] } } },
             { $count: 'count' }
           ],
           unused: [
@@ -176,12 +264,16 @@ router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
           expired: [
             { 
               $match: { 
-                usageCount: { $lt: 5 },
-                expiresAt: { $lt: new Date() }
+                expiresAt: { $lt: new Date() },
+                $expr: { $lt: ['$usageCount', '$maxUsage'] }
               } 
             },
             { $count: 'count' }
           ],
+          revoked: [
+            { $match: { revokedAt: { $ne: null } } },
+            { $count: 'count' }
+          ],
           byCupSize: [
             { $group: { 
               _id: '$cupSize',
@@ -199,6 +291,7 @@ router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
       fullyUsed: stats[0].fullyUsed[0]?.count || 0,
       unused: stats[0].unused[0]?.count || 0,
       expired: stats[0].expired[0]?.count || 0,
+      revoked: stats[0].revoked[0]?.count || 0,
       byCupSize: stats[0].byCupSize
     };
     
@@ -213,4 +306,72 @@ router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
   }
 });
 
+// GET /api/menu-codes/admin/:code (Admin only) - รายละเอียดโค้ด + ออเดอร์ที่ใช้โค้ดนี้
+router.get('/admin/:code', authenticate, isAdmin, [
+  param('code').trim().isLength({ min: 5, max: 5 }).withMessage('Invalid code')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const code = req.params.code.toUpperCase();
+    console.log('🔍 Admin fetching code detail:', code);
+    
+    const menuCode = await MenuCode.findOne({ code })
+      .populate('createdBy', 'fullName')
+      .populate('revokedBy', 'fullName')
+      .populate('usedBy.order', 'orderId customerCode status items pricing.total createdAt');
+    
+    if (!menuCode) {
+      return res.status(404).json({ message: 'Menu code not found' });
+    }
+    
+    res.json({ code: menuCode, usage: menuCode.canBeUsed() });
+  } catch (error) {
+    console.error('❌ Error fetching code detail:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch menu code',
+      error: error.message 
+    });
+  }
+});
+
+// POST /api/menu-codes/admin/:code/revoke (Admin only)
+router.post('/admin/:code/revoke', authenticate, isAdmin, [
+  param('code').trim().isLength({ min: 5, max: 5 }).withMessage('Invalid code'),
+  body('reason').optional().trim().isLength({ max: 200 }).withMessage('Reason is too long')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const code = req.params.code.toUpperCase();
+    console.log('🚫 Revoking menu code:', code);
+    
+    const menuCode = await MenuCode.findOne({ code });
+    
+    if (!menuCode) {
+      return res.status(404).json({ message: 'Menu code not found' });
+    }
+    
+    await menuCode.revoke(req.user._id, req.body.reason);
+    
+    console.log('✅ Menu code revoked:', code);
+    res.json({
+      message: 'Menu code revoked',
+      code: menuCode
+    });
+  } catch (error) {
+    console.error('❌ Revoke error:', error);
+    res.status(error.status || 500).json({ 
+      message: error.status ? error.message : 'Failed to revoke menu code',
+      error: error.message 
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
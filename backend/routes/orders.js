@@ -1,19 +1,59 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, validationResult } = require('express-validator');
 const Order = require('../models/Order');
 const MenuCode = require('../models/MenuCode');
 const User = require('../models/User');
 const Stock = require('../models/Stock');
-const { authenticate, optionalAuth, isAdmin } = require('../middleware/auth');
+const MenuItem = require('../models/MenuItem');
+const Recipe = require('../models/Recipe');
+const PricingConfig = require('../models/PricingConfig');
+const DailyClose = require('../models/DailyClose');
+const { authenticate, authenticateStream, optionalAuth, isAdmin } = require('../middleware/auth');
+const { cancelOrder } = require('../services/orderCancellation');
+const { ORDER_EVENTS, publishOrderEvent, openOrderStream } = require('../services/orderEvents');
+const { startPayment } = require('../services/payments');
+const { assertDayOpen } = require('../services/dailyClose');
 
 const router = express.Router();
 
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// customerCode ในฐานข้อมูลขึ้นต้นด้วย # แต่ลูกค้าอาจพิมพ์มาแบบไม่มี #
+const normalizeCustomerCode = (code) => {
+  const upper = code.toUpperCase();
+  return upper.startsWith('#') ? upper.slice(1) : upper;
+};
+
+// เทียบค่าตรงตัว (ไม่สร้าง RegExp จาก URL ที่ลูกค้าส่งมา) รองรับโค้ดเก่าที่ไม่มี #
+const customerCodeQuery = (code) => ({ customerCode: { $in: [`#${code}`, code] } });
+
+// snapshot คิวคำนวณครั้งเดียวต่อ event แล้วแชร์ให้ทุก stream ของลูกค้า (ไม่ query ซ้ำตามจำนวน client)
+const queueSnapshots = new WeakMap();
+const getSharedQueueSnapshot = (event) => {
+  if (!queueSnapshots.has(event)) {
+    const snapshot = Order.getQueueSnapshot();
+    snapshot.catch(() => queueSnapshots.delete(event));
+    queueSnapshots.set(event, snapshot);
+  }
+  return queueSnapshots.get(event);
+};
+
 // POST /api/orders/create
 router.post('/create', optionalAuth, [
   body('menuCode').notEmpty().isLength({ min: 5, max: 5 }),
-  body('shavedIce').isObject(),
-  body('toppings').isArray(),
-  body('specialInstructions').optional().isLength({ max: 200 })
+  body('items').isArray({ min: 1, max: Order.MAX_ITEMS_PER_ORDER })
+    .withMessage(`An order must have between 1 and ${Order.MAX_ITEMS_PER_ORDER} items`),
+  body('items.*.cupSize').optional().isIn(['S', 'M', 'L']),
+  body('items.*.shavedIce').isObject(),
+  body('items.*.shavedIce.flavor').notEmpty(),
+  body('items.*.toppings').isArray({ max: 3 }).withMessage('Maximum 3 toppings per item'),
+  body('items.*.specialInstructions').optional().isLength({ max: 200 }),
+  body('paymentMethod').optional().isIn(Order.PAYMENT_METHODS).withMessage('Invalid payment method')
 ], async (req, res) => {
   try {
     console.log('📝 Creating order with data:', req.body);
@@ -27,38 +67,30 @@ router.post('/create', optionalAuth, [
       });
     }
     
-    const { menuCode, shavedIce, toppings, specialInstructions } = req.body;
-    
-    // ✅ Check stock availability
-    try {
-      const flavorStock = await Stock.findOne({ 
-        itemType: 'flavor', 
-        name: shavedIce.flavor 
-      });
-      
-      if (!flavorStock || flavorStock.quantity < 1) {
-        return res.status(400).json({ 
-          message: `Sorry, ${shavedIce.flavor} is out of stock` 
+    const { menuCode, items, paymentMethod } = req.body;
+
+    // ✅ ปิดยอดของวันนี้ไปแล้ว รับออเดอร์เพิ่มไม่ได้
+    if (await DailyClose.isClosed()) {
+      return res.status(409).json({ message: 'Sales for today are closed' });
+    }
+
+    // ✅ Check menu items are on sale
+    for (const item of items) {
+      if (!(await MenuItem.isActiveItem('flavor', item.shavedIce.flavor))) {
+        return res.status(400).json({
+          message: `Sorry, ${item.shavedIce.flavor} is not on the menu`
         });
       }
 
-      // Check toppings stock
-      for (const topping of toppings) {
-        const toppingStock = await Stock.findOne({ 
-          itemType: 'topping', 
-          name: topping.name 
-        });
-        
-        if (!toppingStock || toppingStock.quantity < 1) {
-          return res.status(400).json({ 
-            message: `Sorry, ${topping.name} is out of stock` 
+      for (const topping of item.toppings) {
+        if (!(await MenuItem.isActiveItem('topping', topping.name))) {
+          return res.status(400).json({
+            message: `Sorry, ${topping.name} is not on the menu`
           });
         }
       }
-    } catch (stockError) {
-      console.warn('⚠️ Stock check failed, continuing:', stockError);
     }
-    
+
     // Validate menu code
     let codeDoc;
     try {
@@ -82,19 +114,12 @@ router.post('/create', optionalAuth, [
       });
     }
     
-    // Check if expired
-    if (codeDoc.expiresAt < new Date()) {
-      console.log('❌ Menu code expired:', menuCode);
+    // ✅ Check expiry / revocation / usage limit
+    const usageCheck = codeDoc.canBeUsed();
+    if (!usageCheck.valid) {
+      console.log('❌ Menu code cannot be used:', menuCode, usageCheck.reason);
       return res.status(400).json({ 
-        message: 'Menu code has expired' 
-      });
-    }
-    
-    // ✅ Check if code usage limit reached
-    if (codeDoc.usageCount >= codeDoc.maxUsage) {
-      console.log('❌ Menu code usage limit reached:', menuCode);
-      return res.status(400).json({ 
-        message: 'Menu code usage limit reached (maximum 5 orders per code)' 
+        message: usageCheck.reason 
       });
     }
     
@@ -104,86 +129,126 @@ router.post('/create', optionalAuth, [
     const customerCode = `#${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
     console.log('🎫 Generated customer code:', customerCode);
     
-    // Create order
-    const order = new Order({
-      customerId: req.user?._id,
-      menuCode: menuCode.toUpperCase(),
-      customerCode,
-      cupSize: codeDoc.cupSize,
-      shavedIce,
-      toppings,
-      specialInstructions,
-      pricing: {
-        basePrice: 60,
-      },
-      paymentStatus: 'Paid' // ถือว่าจ่ายเงินเสร็จทันที
-    });
-    
-    // Calculate total
-    order.calculateTotal();
-    console.log('💰 Calculated total:', order.pricing.total);
+    const pricingConfig = await PricingConfig.getConfig();
     
-    // Check if user gets free drink
+    // ✅ จองสต็อก + บันทึกออเดอร์ + แต้มสะสม + ใช้โค้ด ใน transaction เดียว
+    // ถ้าวัตถุดิบใดไม่พอ ทั้งออเดอร์จะถูกยกเลิก ไม่มีการตัดสต็อกค้าง
+    const stockNeeded = await Recipe.getStockUsage(items.map(item => ({
+      ...item,
+      cupSize: item.cupSize || codeDoc.cupSize
+    })));
+    let order;
     let earnedFreeDrink = false;
-    if (req.user) {
-      try {
-        const user = await User.findById(req.user._id);
-        if (user) {
-          earnedFreeDrink = user.addLoyaltyStamp();
-          
-          if (earnedFreeDrink) {
-            order.isFreeDrink = true;
-            order.calculateTotal();
-            console.log('🎉 User earned free drink!');
-          }
-          
-          user.orderHistory.push(order._id);
-          user.loyaltyPoints += Math.floor(order.pricing.total / 10);
-          await user.save();
-          console.log('✅ User updated with loyalty points');
-        }
-      } catch (userError) {
-        console.error('⚠️ Error updating user, but continuing:', userError);
-      }
-    }
+    const session = await mongoose.startSession();
     
-    // Save order
     try {
-      await order.save();
+      // callback อาจถูกเรียกซ้ำเมื่อ transaction ชนกัน จึงสร้างออเดอร์ใหม่ทุกครั้ง
+      await session.withTransaction(async () => {
+        // เช็คซ้ำพร้อมล็อกของวัน กันปิดยอดพร้อมกับที่ออเดอร์กำลังถูกสร้าง
+        await assertDayOpen(new Date(), { session });
+        
+        // Create order (แก้วที่ไม่ได้ระบุขนาดจะใช้ขนาดจากโค้ด)
+        order = new Order({
+          customerId: req.user?._id,
+          menuCode: menuCode.toUpperCase(),
+          customerCode,
+          items: items.map(item => ({
+            cupSize: item.cupSize || codeDoc.cupSize,
+            shavedIce: item.shavedIce,
+            toppings: item.toppings,
+            specialInstructions: item.specialInstructions
+          })),
+          pricing: {},
+          // เข้าคิวครัวหลังได้รับการยืนยันชำระเงินเท่านั้น (services/payments)
+          status: 'AwaitingPayment',
+          paymentStatus: 'Unpaid',
+          paymentMethod
+        });
+        earnedFreeDrink = false;
+        
+        // Calculate total (snapshot current prices onto the order)
+        order.calculateTotal(pricingConfig);
+        console.log('💰 Calculated total:', order.pricing.total);
+        
+        for (const { itemType, name, quantity } of stockNeeded) {
+          const reserved = await Stock.reserve(itemType, name, quantity, {
+            session,
+            order: order._id,
+            user: req.user?._id
+          });
+          if (!reserved) {
+            throw createError(400, `Sorry, ${name} is out of stock`);
+          }
+        }
+        order.stockUsage = stockNeeded;
+        console.log('✅ Stock reserved');
+        
+        // Check if user gets free drink
+        if (req.user) {
+          const user = await User.findById(req.user._id).session(session);
+          if (user) {
+            earnedFreeDrink = user.addLoyaltyStamp();
+            
+            if (earnedFreeDrink) {
+              order.isFreeDrink = true;
+              order.calculateTotal();
+              console.log('🎉 User earned free drink!');
+            }
+            
+            const pointsAwarded = Math.floor(order.pricing.total / 10);
+            user.orderHistory.push(order._id);
+            user.loyaltyPoints += pointsAwarded;
+            await user.save({ session });
+            
+            order.loyalty = {
+              stampAdded: true,
+              freeDrinkEarned: earnedFreeDrink,
+              pointsAwarded
+            };
+            console.log('✅ User updated with loyalty points');
+          }
+        }
+        
+        await order.save({ session });
+        
+        // ✅ Update menu code usage count
+        await MenuCode.validateAndUse(menuCode, order._id, { session });
+      });
+      
       console.log('✅ Order saved successfully:', order.orderId);
-    } catch (saveError) {
-      console.error('❌ Error saving order:', saveError);
+      publishOrderEvent(ORDER_EVENTS.CREATED, order);
+    } catch (transactionError) {
+      if (transactionError.status === 400 || transactionError.name === 'ValidationError') {
+        console.log('❌ Order rejected:', transactionError.message);
+        return res.status(400).json({ message: transactionError.message });
+      }
+      
+      // ปิดยอดของวันนี้ไประหว่างสร้างออเดอร์
+      if (transactionError.status === 409) {
+        return res.status(409).json({ message: 'Sales for today are closed' });
+      }
+      
+      console.error('❌ Error saving order:', transactionError);
       return res.status(500).json({ 
         message: 'Failed to save order',
-        error: saveError.message 
+        error: transactionError.message 
       });
+    } finally {
+      await session.endSession();
     }
     
-    // ✅ Reduce stock
-    try {
-      await Stock.reduceStock('flavor', shavedIce.flavor, 1);
-      for (const topping of toppings) {
-        await Stock.reduceStock('topping', topping.name, 1);
-      }
-      console.log('✅ Stock reduced successfully');
-    } catch (stockError) {
-      console.error('⚠️ Error reducing stock:', stockError);
-    }
-    
-    // ✅ Update menu code usage count
-    try {
-      await MenuCode.validateAndUse(menuCode, order._id);
-      console.log('✅ Menu code usage updated');
-    } catch (codeError) {
-      console.error('⚠️ Error updating code usage:', codeError);
-    }
-    
-    // ✅ หมดอายุโค้ดทันทีหลังสั่งเสร็จและจ่ายเงินแล้ว
+    // ✅ เปิดการชำระเงินกับ provider (QR PromptPay / จ่ายที่เคาน์เตอร์)
     try {
-      await MenuCode.expireCode(menuCode);
-      console.log('✅ Menu code expired after order completed');
-    } catch (expireError) {
-      console.error('⚠️ Error expiring code:', expireError);
+      order = await startPayment(order);
+    } catch (paymentError) {
+      console.error('❌ Could not start payment:', paymentError.message);
+      await cancelOrder(order._id, {
+        reason: 'Payment could not be started',
+        paymentFailure: { status: 'failed', reason: paymentError.message }
+      }).catch(error => console.error('⚠️ Could not cancel unpaid order:', error.message));
+      return res.status(paymentError.status || 502).json({
+        message: paymentError.status ? paymentError.message : 'Payment is unavailable, please try again'
+      });
     }
     
     res.status(201).json({
@@ -203,15 +268,44 @@ router.post('/create', optionalAuth, [
   }
 });
 
+// GET /api/orders/track/:customerCode/stream - SSE อัปเดตสถานะของออเดอร์เดียว
+router.get('/track/:customerCode/stream', async (req, res) => {
+  try {
+    const code = normalizeCustomerCode(req.params.customerCode);
+    const order = await Order.findOne(customerCodeQuery(code));
+
+    if (!order) {
+      return res.status(404).json({ message: 'Order not found' });
+    }
+
+    console.log('📡 Customer stream opened:', order.customerCode);
+    const queue = await Order.getQueueInfo(order);
+    openOrderStream(req, res, {
+      filter: (changed) => changed._id.toString() === order._id.toString(),
+      initialEvents: [{ type: 'snapshot', data: { order, queue } }],
+      // ออเดอร์อื่นเปลี่ยนสถานะ = คิวขยับ จึงส่งลำดับคิวใหม่ให้ด้วย
+      onAnyEvent: async (event) => ({
+        type: 'queue',
+        data: { queue: Order.getQueueInfoFromSnapshot(order._id, await getSharedQueueSnapshot(event)) }
+      })
+    });
+  } catch (error) {
+    console.error('❌ Error opening order stream:', error);
+    res.status(500).json({ 
+      message: 'Failed to open order stream',
+      error: error.message 
+    });
+  }
+});
+
 // GET /api/orders/track/:customerCode
 router.get('/track/:customerCode', async (req, res) => {
   try {
-    let code = req.params.customerCode.toUpperCase();
-    if (code.startsWith('#')) code = code.slice(1);
+    const code = normalizeCustomerCode(req.params.customerCode);
 
     console.log('🔍 Tracking order:', code);
 
-    const order = await Order.findOne({ customerCode: new RegExp(`^#?${code}$`, 'i') });
+    const order = await Order.findOne(customerCodeQuery(code));
 
     if (!order) {
       console.log('❌ Order not found:', code);
@@ -219,7 +313,8 @@ router.get('/track/:customerCode', async (req, res) => {
     }
 
     console.log('✅ Order found:', order.orderId);
-    res.json({ order });
+    const queue = await Order.getQueueInfo(order);
+    res.json({ order, queue });
   } catch (error) {
     console.error('❌ Error tracking order:', error);
     res.status(500).json({ 
@@ -229,6 +324,16 @@ router.get('/track/:customerCode', async (req, res) => {
   }
 });
 
+// GET /api/orders/my-orders/stream - SSE อัปเดตออเดอร์ของผู้ใช้ที่ login
+router.get('/my-orders/stream', authenticateStream, (req, res) => {
+  const userId = req.user._id.toString();
+
+  console.log('📡 Customer stream opened for user:', userId);
+  openOrderStream(req, res, {
+    filter: (order) => order.customerId?.toString() === userId
+  });
+});
+
 // GET /api/orders/my-orders
 router.get('/my-orders', authenticate, async (req, res) => {
   try {
@@ -251,6 +356,14 @@ router.get('/my-orders', authenticate, async (req, res) => {
 
 // Admin Routes
 
+// GET /api/orders/stream - SSE ออเดอร์ใหม่ + การเปลี่ยนสถานะทั้งหมด (Admin)
+router.get('/stream', authenticateStream, isAdmin, (req, res) => {
+  console.log('📡 Admin stream opened:', req.user.email);
+  openOrderStream(req, res, {
+    initialEvents: [{ type: 'connected', data: { connectedAt: new Date() } }]
+  });
+});
+
 // GET /api/orders/admin/all
 router.get('/admin/all', authenticate, isAdmin, async (req, res) => {
   try {
@@ -287,12 +400,35 @@ router.get('/admin/all', authenticate, isAdmin, async (req, res) => {
 
 // PUT /api/orders/admin/:orderId/status
 router.put('/admin/:orderId/status', authenticate, isAdmin, [
-  body('status').isIn(['Pending', 'Preparing', 'Ready', 'Completed', 'Cancelled'])
+  body('status').isIn(Object.keys(Order.STATUS_TRANSITIONS)),
+  body('note').optional().isLength({ max: 200 })
 ], async (req, res) => {
   try {
     console.log('🔄 Updating order status:', req.params.orderId, '->', req.body.status);
     
-    const { status } = req.body;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed',
+        errors: errors.array() 
+      });
+    }
+    
+    const { status, note } = req.body;
+    
+    // ยกเลิกต้องคืนสต็อก/แต้ม/เงินด้วย จึงใช้ขั้นตอนเดียวกับ /cancel
+    if (status === 'Cancelled') {
+      const order = await cancelOrder(req.params.orderId, {
+        reason: note || 'Cancelled by admin',
+        cancelledBy: req.user._id
+      });
+      
+      return res.json({ 
+        message: 'Order status updated',
+        order 
+      });
+    }
+    
     const order = await Order.findById(req.params.orderId);
     
     if (!order) {
@@ -300,14 +436,25 @@ router.put('/admin/:orderId/status', authenticate, isAdmin, [
       return res.status(404).json({ message: 'Order not found' });
     }
     
-    await order.updateStatus(status);
+    // ออเดอร์ที่ยังไม่จ่ายต้องเข้าคิวผ่านการยืนยันชำระเงิน ไม่ใช่การเปลี่ยนสถานะตรงๆ
+    if (order.status === 'AwaitingPayment') {
+      return res.status(409).json({ message: 'Order is awaiting payment. Confirm the payment before sending it to the kitchen' });
+    }
+    
+    await order.updateStatus(status, req.user._id, note);
     console.log('✅ Order status updated');
+    publishOrderEvent(ORDER_EVENTS.STATUS_CHANGED, order);
     
     res.json({ 
       message: 'Order status updated',
       order 
     });
   } catch (error) {
+    if (error.status === 404 || error.status === 409) {
+      console.log('❌ Cannot update order status:', error.message);
+      return res.status(error.status).json({ message: error.message });
+    }
+    
     console.error('❌ Error updating order status:', error);
     res.status(500).json({ 
       message: 'Failed to update order status',
@@ -316,6 +463,45 @@ router.put('/admin/:orderId/status', authenticate, isAdmin, [
   }
 });
 
+// POST /api/orders/admin/:orderId/cancel - ยกเลิก + คืนสต็อก/แต้ม/เงิน
+router.post('/admin/:orderId/cancel', authenticate, isAdmin, [
+  body('reason').trim().notEmpty().withMessage('Cancellation reason is required')
+    .isLength({ max: 200 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed',
+        errors: errors.array() 
+      });
+    }
+    
+    console.log('🚫 Cancelling order:', req.params.orderId);
+    
+    const order = await cancelOrder(req.params.orderId, {
+      reason: req.body.reason,
+      cancelledBy: req.user._id
+    });
+    
+    res.json({
+      message: 'Order cancelled and refunded',
+      order
+    });
+  } catch (error) {
+    if (error.status === 404 || error.status === 409) {
+      console.log('❌ Cannot cancel order:', error.message);
+      return res.status(error.status).json({ message: error.message });
+    }
+    
+    console.error('❌ Error cancelling order:', error);
+    res.status(500).json({ 
+      message: 'Failed to cancel order',
+      error: error.message 
+    });
+  }
+});
+
 // GET /api/orders/admin/stats
 router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
   try {
@@ -345,8 +531,9 @@ router.get('/admin/stats', authenticate, isAdmin, async (req, res) => {
             { $count: 'count' }
           ],
           popularFlavors: [
+            { $unwind: '$items' },
             { $group: { 
-              _id: '$shavedIce.flavor',
+              _id: '$items.shavedIce.flavor',
               count: { $sum: 1 }
             }},
             { $sort: { count: -1 } },
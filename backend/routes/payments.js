@@ -0,0 +1,95 @@
+// backend/routes/payments.js - webhook ยืนยันการชำระเงิน + ยืนยันรับเงินที่เคาน์เตอร์
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Order = require('../models/Order');
+const { isMockEnabled, getProvider, handleWebhook, confirmCounterPayment } = require('../services/payments');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+const handleError = (res, error, fallbackMessage) => {
+  if (error.status) {
+    console.log(`❌ ${fallbackMessage}:`, error.message);
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({ message: fallbackMessage, error: error.message });
+};
+
+// POST /api/payments/webhook/:provider - provider แจ้งผลการชำระเงิน (ตรวจ signature)
+router.post('/webhook/:provider', async (req, res) => {
+  try {
+    const { order, duplicate } = await handleWebhook(req.params.provider, req);
+
+    res.json({
+      received: true,
+      duplicate,
+      orderId: order.orderId,
+      status: order.status
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to process payment webhook');
+  }
+});
+
+// POST /api/payments/admin/:orderId/confirm - รับเงินที่เคาน์เตอร์แล้ว
+// tenders: [{ method, amount, tendered?, reference? }] แบ่งจ่ายหลายวิธีได้ (ไม่ส่ง = จ่ายเต็มด้วยวิธีที่เลือกไว้)
+router.post('/admin/:orderId/confirm', authenticate, isAdmin, [
+  param('orderId').isMongoId().withMessage('Invalid order id'),
+  body('tenders').optional().isArray({ min: 1, max: 5 }).withMessage('Between 1 and 5 payments'),
+  body('tenders.*.method').isIn(Order.TENDER_METHODS).withMessage('Invalid payment method'),
+  body('tenders.*.amount').isFloat({ gt: 0 }).withMessage('Amount must be more than 0'),
+  body('tenders.*.tendered').optional().isFloat({ min: 0 }).withMessage('Tendered must be 0 or more'),
+  body('tenders.*.reference').optional().trim().isLength({ max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const tenders = (req.body.tenders || []).map(({ method, amount, tendered, reference }) => ({
+      method,
+      amount: Number(amount),
+      tendered: tendered !== undefined ? Number(tendered) : undefined,
+      reference: reference || undefined
+    }));
+    const order = await confirmCounterPayment(req.params.orderId, req.user._id, tenders);
+    res.json({ message: 'Payment confirmed', order });
+  } catch (error) {
+    handleError(res, error, 'Failed to confirm payment');
+  }
+});
+
+// POST /api/payments/mock/:reference - (dev) สั่ง mock gateway ให้ตอบผลทันที
+router.post('/mock/:reference', [
+  body('outcome').isIn(['success', 'failure']).withMessage('Outcome must be success or failure')
+], async (req, res) => {
+  try {
+    if (!isMockEnabled()) {
+      return res.status(404).json({ message: 'Mock payments are disabled' });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const order = await Order.findOne({ 'payment.reference': req.params.reference, 'payment.provider': 'mock' });
+    if (!order) {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
+
+    await getProvider('mock').simulate({
+      reference: order.payment.reference,
+      amount: order.payment.amount,
+      outcome: req.body.outcome
+    });
+
+    res.status(202).json({ message: `Mock ${req.body.outcome} sent` });
+  } catch (error) {
+    handleError(res, error, 'Failed to simulate payment');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,66 @@
+// backend/routes/pricing.js
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const PricingConfig = require('../models/PricingConfig');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// GET /api/pricing - ราคาปัจจุบัน (สำหรับแสดงในหน้าเมนู)
+router.get('/', async (req, res) => {
+  try {
+    const config = await PricingConfig.getConfig();
+    res.json({ pricing: config });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch pricing', error: error.message });
+  }
+});
+
+// PUT /api/pricing/admin - แก้ไขราคา (Admin only)
+router.put('/admin', authenticate, isAdmin, [
+  body('defaultBasePrice').optional().isFloat({ min: 0 }),
+  body('defaultToppingPrice').optional().isFloat({ min: 0 }),
+  body('flavorPrices').optional().isArray(),
+  body('flavorPrices.*.name').notEmpty(),
+  body('flavorPrices.*.price').isFloat({ min: 0 }),
+  body('toppingPrices').optional().isArray(),
+  body('toppingPrices.*.name').notEmpty(),
+  body('toppingPrices.*.price').isFloat({ min: 0 }),
+  body('sizePrices.S').optional().isFloat({ min: 0 }),
+  body('sizePrices.M').optional().isFloat({ min: 0 }),
+  body('sizePrices.L').optional().isFloat({ min: 0 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { defaultBasePrice, defaultToppingPrice, flavorPrices, toppingPrices, sizePrices } = req.body;
+    const config = await PricingConfig.getConfig();
+
+    if (defaultBasePrice !== undefined) config.defaultBasePrice = defaultBasePrice;
+    if (defaultToppingPrice !== undefined) config.defaultToppingPrice = defaultToppingPrice;
+    if (flavorPrices) config.flavorPrices = flavorPrices;
+    if (toppingPrices) config.toppingPrices = toppingPrices;
+    if (sizePrices) {
+      ['S', 'M', 'L'].forEach(size => {
+        if (sizePrices[size] !== undefined) config.sizePrices[size] = sizePrices[size];
+      });
+    }
+    config.updatedBy = req.user._id;
+
+    await config.save();
+
+    console.log('✅ Pricing updated by:', req.user.email);
+    res.json({
+      message: 'Pricing updated successfully',
+      pricing: config
+    });
+  } catch (error) {
+    console.error('❌ Error updating pricing:', error);
+    res.status(500).json({ message: 'Failed to update pricing', error: error.message });
+  }
+});
+
+module.exports = router;
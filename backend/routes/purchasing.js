@@ -0,0 +1,272 @@
+// backend/routes/purchasing.js - ซัพพลายเออร์ + ใบสั่งซื้อ (Admin only)
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Supplier = require('../models/Supplier');
+const PurchaseOrder = require('../models/PurchaseOrder');
+const { receivePurchaseOrder, generateFromLowStock } = require('../services/purchasing');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticate, isAdmin);
+
+const ITEM_TYPES = ['flavor', 'topping', 'ingredient'];
+
+const supplierRules = [
+  body('name').optional().trim().notEmpty().withMessage('Supplier name is required'),
+  body('email').optional({ checkFalsy: true }).isEmail().withMessage('Invalid email'),
+  body('leadTimeDays').optional().isInt({ min: 0 }).withMessage('Lead time must be 0 or more days'),
+  body('items').optional().isArray(),
+  body('items.*.itemType').isIn(ITEM_TYPES).withMessage('Invalid item type'),
+  body('items.*.name').trim().notEmpty().withMessage('Item name is required'),
+  body('items.*.unitCost').isFloat({ min: 0 }).withMessage('Invalid unit cost')
+];
+
+const lineRules = [
+  body('lines').isArray({ min: 1 }).withMessage('A purchase order needs at least one line'),
+  body('lines.*.itemType').isIn(ITEM_TYPES).withMessage('Invalid item type'),
+  body('lines.*.name').trim().notEmpty().withMessage('Item name is required'),
+  body('lines.*.quantity').isFloat({ gt: 0 }).withMessage('Quantity must be greater than 0'),
+  body('lines.*.unitCost').isFloat({ min: 0 }).withMessage('Invalid unit cost')
+];
+
+const handleError = (res, error, fallbackMessage) => {
+  if (error.status) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ message: error.message });
+  }
+  if (error.code === 11000) {
+    return res.status(400).json({ message: 'Supplier name already exists' });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({ message: fallbackMessage, error: error.message });
+};
+
+// ===== Suppliers =====
+
+// GET /api/purchasing/suppliers
+router.get('/suppliers', async (req, res) => {
+  try {
+    const filter = req.query.includeInactive === 'true' ? {} : { isActive: true };
+    const suppliers = await Supplier.find(filter).sort('name');
+    res.json({ suppliers });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch suppliers');
+  }
+});
+
+// POST /api/purchasing/suppliers
+router.post('/suppliers', [
+  body('name').trim().notEmpty().withMessage('Supplier name is required'),
+  ...supplierRules
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, contactName, phone, email, leadTimeDays, items, notes } = req.body;
+    const supplier = await Supplier.create({ name, contactName, phone, email, leadTimeDays, items, notes });
+
+    console.log('✅ Supplier created:', supplier.name);
+    res.status(201).json({ message: 'Supplier created successfully', supplier });
+  } catch (error) {
+    handleError(res, error, 'Failed to create supplier');
+  }
+});
+
+// PUT /api/purchasing/suppliers/:id
+router.put('/suppliers/:id', [
+  ...supplierRules,
+  body('isActive').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const supplier = await Supplier.findById(req.params.id);
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    ['name', 'contactName', 'phone', 'email', 'leadTimeDays', 'items', 'notes', 'isActive'].forEach(field => {
+      if (req.body[field] !== undefined) supplier[field] = req.body[field];
+    });
+    await supplier.save();
+
+    res.json({ message: 'Supplier updated successfully', supplier });
+  } catch (error) {
+    handleError(res, error, 'Failed to update supplier');
+  }
+});
+
+// ===== Purchase orders =====
+
+// GET /api/purchasing/orders
+router.get('/orders', [
+  query('status').optional().isIn(PurchaseOrder.PO_STATUSES)
+], async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.status) filter.status = req.query.status;
+
+    const purchaseOrders = await PurchaseOrder.find(filter)
+      .populate('supplier', 'name leadTimeDays')
+      .populate('createdBy', 'fullName')
+      .populate('receivedBy', 'fullName')
+      .sort('-createdAt')
+      .limit(100);
+
+    res.json({ purchaseOrders });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch purchase orders');
+  }
+});
+
+// POST /api/purchasing/orders/generate-from-low-stock
+router.post('/orders/generate-from-low-stock', async (req, res) => {
+  try {
+    const { purchaseOrders, unassigned, alreadyOrdered } = await generateFromLowStock({ createdBy: req.user._id });
+
+    res.status(201).json({
+      message: `Generated ${purchaseOrders.length} draft purchase orders`,
+      purchaseOrders,
+      unassigned,
+      alreadyOrdered
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to generate purchase orders');
+  }
+});
+
+// POST /api/purchasing/orders - สร้างใบสั่งซื้อ (draft)
+router.post('/orders', [
+  body('supplier').isMongoId().withMessage('Invalid supplier'),
+  body('expectedAt').optional().isISO8601(),
+  body('notes').optional().isLength({ max: 500 }),
+  ...lineRules
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const supplier = await Supplier.findById(req.body.supplier);
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const { lines, notes, expectedAt } = req.body;
+    const purchaseOrder = new PurchaseOrder({
+      supplier: supplier._id,
+      lines,
+      notes,
+      expectedAt: expectedAt || new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000),
+      createdBy: req.user._id
+    });
+    await purchaseOrder.save();
+
+    console.log('✅ Purchase order created:', purchaseOrder.poNumber);
+    res.status(201).json({ message: 'Purchase order created', purchaseOrder });
+  } catch (error) {
+    handleError(res, error, 'Failed to create purchase order');
+  }
+});
+
+// PUT /api/purchasing/orders/:id - แก้ไขได้เฉพาะ draft
+router.put('/orders/:id', [
+  body('expectedAt').optional().isISO8601(),
+  body('notes').optional().isLength({ max: 500 }),
+  ...lineRules
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (purchaseOrder.status !== 'draft') {
+      return res.status(409).json({ message: 'Only draft purchase orders can be edited' });
+    }
+
+    purchaseOrder.lines = req.body.lines;
+    if (req.body.notes !== undefined) purchaseOrder.notes = req.body.notes;
+    if (req.body.expectedAt) purchaseOrder.expectedAt = req.body.expectedAt;
+    await purchaseOrder.save();
+
+    res.json({ message: 'Purchase order updated', purchaseOrder });
+  } catch (error) {
+    handleError(res, error, 'Failed to update purchase order');
+  }
+});
+
+// POST /api/purchasing/orders/:id/send
+router.post('/orders/:id/send', async (req, res) => {
+  try {
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    purchaseOrder.setStatus('sent');
+    await purchaseOrder.save();
+
+    res.json({ message: 'Purchase order marked as sent', purchaseOrder });
+  } catch (error) {
+    handleError(res, error, 'Failed to send purchase order');
+  }
+});
+
+// POST /api/purchasing/orders/:id/receive - รับของเข้าสต๊อก
+router.post('/orders/:id/receive', [
+  body('receivedQuantities').optional().isObject(),
+  body('receivedQuantities.*').isFloat({ min: 0 }).withMessage('Received quantity must be 0 or more'),
+  body('expiryDates').optional().isObject(),
+  body('expiryDates.*').optional({ checkFalsy: true }).isISO8601().withMessage('Invalid expiry date')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const purchaseOrder = await receivePurchaseOrder(req.params.id, {
+      receivedBy: req.user._id,
+      receivedQuantities: req.body.receivedQuantities,
+      expiryDates: req.body.expiryDates
+    });
+
+    res.json({ message: 'Purchase order received into stock', purchaseOrder });
+  } catch (error) {
+    handleError(res, error, 'Failed to receive purchase order');
+  }
+});
+
+// POST /api/purchasing/orders/:id/cancel
+router.post('/orders/:id/cancel', async (req, res) => {
+  try {
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    purchaseOrder.setStatus('cancelled');
+    await purchaseOrder.save();
+
+    res.json({ message: 'Purchase order cancelled', purchaseOrder });
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel purchase order');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,110 @@
+// backend/routes/recipes.js
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Recipe = require('../models/Recipe');
+const Stock = require('../models/Stock');
+const MenuItem = require('../models/MenuItem');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+const itemParamRules = [
+  param('itemType').isIn(['flavor', 'topping']).withMessage('Invalid item type'),
+  param('name').trim().notEmpty()
+];
+
+// GET /api/recipes - สูตรทั้งหมด + วัตถุดิบที่มี (Admin only)
+router.get('/', authenticate, isAdmin, async (req, res) => {
+  try {
+    const [recipes, ingredients] = await Promise.all([
+      Recipe.find().sort('itemType name'),
+      Stock.find({ itemType: 'ingredient' }).sort('name')
+    ]);
+
+    res.json({ recipes, ingredients });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch recipes', error: error.message });
+  }
+});
+
+// PUT /api/recipes/:itemType/:name - สร้าง/แก้ไขสูตร (Admin only)
+router.put('/:itemType/:name', authenticate, isAdmin, [
+  ...itemParamRules,
+  body('ingredients').isArray({ min: 1 }).withMessage('A recipe needs at least one ingredient'),
+  body('ingredients.*.ingredient').trim().notEmpty().withMessage('Ingredient name is required'),
+  body('ingredients.*.quantities.S').isFloat({ min: 0 }).withMessage('Invalid quantity for S'),
+  body('ingredients.*.quantities.M').isFloat({ min: 0 }).withMessage('Invalid quantity for M'),
+  body('ingredients.*.quantities.L').isFloat({ min: 0 }).withMessage('Invalid quantity for L')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { itemType, name } = req.params;
+    const { ingredients } = req.body;
+
+    if (!(await MenuItem.isValidItem(itemType, name))) {
+      return res.status(404).json({ message: `${itemType} "${name}" is not on the menu` });
+    }
+
+    // วัตถุดิบต้องมีในสต๊อกก่อน (หน่วยอ้างอิงจาก Stock.unit)
+    const names = ingredients.map(i => i.ingredient);
+    const existing = await Stock.find({ itemType: 'ingredient', name: { $in: names } }).distinct('name');
+    const missing = names.filter(n => !existing.includes(n));
+    if (missing.length > 0) {
+      return res.status(400).json({ message: `Unknown ingredients: ${missing.join(', ')}` });
+    }
+
+    const recipe = await Recipe.findOneAndUpdate(
+      { itemType, name },
+      {
+        ingredients: ingredients.map(({ ingredient, quantities }) => ({
+          ingredient,
+          quantities: {
+            S: Number(quantities.S),
+            M: Number(quantities.M),
+            L: Number(quantities.L)
+          }
+        })),
+        updatedBy: req.user._id
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    console.log('✅ Recipe saved:', itemType, name);
+    res.json({
+      message: 'Recipe saved successfully',
+      recipe
+    });
+  } catch (error) {
+    console.error('❌ Error saving recipe:', error);
+    res.status(500).json({ message: 'Failed to save recipe', error: error.message });
+  }
+});
+
+// DELETE /api/recipes/:itemType/:name - ลบสูตร (กลับไปตัดสต๊อก 1 หน่วยต่อแก้ว)
+router.delete('/:itemType/:name', authenticate, isAdmin, itemParamRules, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const recipe = await Recipe.findOneAndDelete({
+      itemType: req.params.itemType,
+      name: req.params.name
+    });
+
+    if (!recipe) {
+      return res.status(404).json({ message: 'Recipe not found' });
+    }
+
+    res.json({ message: 'Recipe deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to delete recipe', error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,132 @@
+// backend/routes/reports.js - รายงานยอดขาย (Admin only)
+// ช่วงเวลา: period=today|yesterday|last-7-days|last-30-days|this-month|last-month|
+//   this-quarter|last-quarter|quarter (&year=&quarter=)|this-year|all
+// หรือ startDate / endDate: YYYY-MM-DD (วันตามเวลาไทย, endDate นับรวม) หรือ ISO timestamp
+// compare=true: แนบผลของช่วงก่อนหน้าที่เทียบเท่ากันใน comparison และใส่ previous / change (%) ในผลปัจจุบัน
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const {
+  compareSummary,
+  compareRows,
+  getSalesSummary,
+  getRevenueBreakdown,
+  getPaymentBreakdown,
+  getItemMix,
+  getTopCombos
+} = require('../services/reports');
+const { REPORT_PERIODS, resolveRangeQuery } = require('../utils/dateRange');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticate, isAdmin);
+
+const rangeRules = [
+  query('period').optional().isIn(REPORT_PERIODS).withMessage('Invalid report period'),
+  query('year').optional().isInt({ min: 2000, max: 2100 }).withMessage('Invalid year'),
+  query('quarter').optional().isInt({ min: 1, max: 4 }).withMessage('Quarter must be 1-4'),
+  query('startDate').optional().isISO8601().withMessage('Invalid start date'),
+  query('endDate').optional().isISO8601().withMessage('Invalid end date'),
+  query('compare').optional().isBoolean().withMessage('compare must be true or false')
+];
+
+// ตรวจ query แล้วส่ง range ให้ handler
+// ถ้าขอ compare และช่วงนี้มีช่วงก่อนหน้า (period=all ไม่มี) จะรัน handler ซ้ำกับช่วงก่อนหน้า
+// แล้วให้ compare(current, previous) คืนผลปัจจุบันที่ใส่ค่าเทียบแล้ว
+const withRange = (handler, fallbackMessage, compare) => async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const range = resolveRangeQuery(req.query);
+    let result = await handler(range, req);
+    let comparison;
+
+    if (compare && req.query.compare === 'true') {
+      comparison = null;
+      if (range.previous) {
+        const previous = await handler(range.previous, req);
+        result = compare(result, previous);
+        comparison = { startDate: range.previous.start, endDate: range.previous.end, ...previous };
+      }
+    }
+
+    res.json({
+      startDate: range.start || null,
+      endDate: range.end || null,
+      ...result,
+      ...(comparison !== undefined && { comparison })
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`❌ ${fallbackMessage}:`, error);
+    res.status(500).json({ message: fallbackMessage, error: error.message });
+  }
+};
+
+// GET /api/reports/summary - ยอดรวม, อัตราสำเร็จ, เวลาเตรียมเฉลี่ย
+router.get('/summary', rangeRules, withRange(
+  async (range) => ({ summary: await getSalesSummary(range) }),
+  'Failed to build sales summary',
+  (current, previous) => ({
+    ...current,
+    change: compareSummary(current.summary, previous.summary)
+  })
+));
+
+// GET /api/reports/revenue?groupBy=day|hour - ยอดขายรายวัน / รายชั่วโมง
+// เทียบรายชั่วโมงได้ทีละแถว ส่วนรายวันดูแถวของช่วงก่อนหน้าใน comparison.rows
+router.get('/revenue', [
+  ...rangeRules,
+  query('groupBy').optional().isIn(['day', 'hour']).withMessage('groupBy must be day or hour')
+], withRange(
+  async (range, req) => {
+    const groupBy = req.query.groupBy || 'day';
+    return { groupBy, rows: await getRevenueBreakdown(range, groupBy) };
+  },
+  'Failed to build revenue report',
+  (current, previous) => {
+    if (current.groupBy !== 'hour') return current;
+
+    return {
+      ...current,
+      rows: compareRows(current.rows, previous.rows, 'hour', ['orders', 'cups', 'revenue', 'averageOrderValue'])
+        .sort((a, b) => a.hour - b.hour)
+    };
+  }
+));
+
+// GET /api/reports/payments - ยอดตามวิธีชำระเงิน (แบ่งจ่ายนับแยกแต่ละวิธี)
+router.get('/payments', rangeRules, withRange(
+  async (range) => ({ methods: await getPaymentBreakdown(range) }),
+  'Failed to build payment method report',
+  (current, previous) => ({
+    methods: compareRows(current.methods, previous.methods, 'method', ['orders', 'revenue'])
+  })
+));
+
+// GET /api/reports/items - สัดส่วนรสชาติ / ท็อปปิ้ง / ขนาดแก้ว
+router.get('/items', rangeRules, withRange(
+  async (range) => getItemMix(range),
+  'Failed to build item mix report',
+  (current, previous) => ({
+    flavors: compareRows(current.flavors, previous.flavors, 'name', ['count', 'revenue']),
+    toppings: compareRows(current.toppings, previous.toppings, 'name', ['count', 'revenue']),
+    sizes: compareRows(current.sizes, previous.sizes, 'size', ['count'])
+  })
+));
+
+// GET /api/reports/combos?limit=5 - คอมโบยอดนิยม
+router.get('/combos', [
+  ...rangeRules,
+  query('limit').optional().isInt({ min: 1, max: 50 })
+], withRange(
+  async (range, req) => ({ combos: await getTopCombos(range, req.query.limit ? Number(req.query.limit) : undefined) }),
+  'Failed to build combo report'
+));
+
+module.exports = router;
@@ -47,8 +47,9 @@ router.post('/create', optionalAuth, [
       
       reviewData.order = orderId;
       reviewData.isVerified = true;
-      reviewData.shavedIceFlavor = order.shavedIce.flavor;
-      reviewData.toppings = order.toppings.map(t => t.name);
+      // ออเดอร์หลายแก้ว: ใช้รสของแก้วแรก และรวมท็อปปิ้งทุกแก้ว
+      reviewData.shavedIceFlavor = order.items[0]?.shavedIce.flavor;
+      reviewData.toppings = [...new Set(order.items.flatMap(item => item.toppings.map(t => t.name)))];
     }
     
     const review = new Review(reviewData);
@@ -60,6 +61,9 @@ router.post('/create', optionalAuth, [
     });
   } catch (error) {
     console.error('Review creation error:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: 'Failed to submit review' });
   }
 });
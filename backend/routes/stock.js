@@ -1,7 +1,14 @@
 // backend/routes/stock.js
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Stock = require('../models/Stock');
+const StockMovement = require('../models/StockMovement');
+const StockBatch = require('../models/StockBatch');
+const Recipe = require('../models/Recipe');
+const MenuItem = require('../models/MenuItem');
+const { logWaste, getWasteReport } = require('../services/waste');
+const { getStockForecast } = require('../services/forecasting');
+const { REPORT_PERIODS, resolveRangeQuery } = require('../utils/dateRange');
 const { authenticate, isAdmin } = require('../middleware/auth');
 
 const router = express.Router();
@@ -13,11 +20,13 @@ router.get('/', authenticate, isAdmin, async (req, res) => {
     
     const flavors = stocks.filter(s => s.itemType === 'flavor');
     const toppings = stocks.filter(s => s.itemType === 'topping');
+    const ingredients = stocks.filter(s => s.itemType === 'ingredient');
     const lowStock = await Stock.getLowStockItems();
     
     res.json({
       flavors,
       toppings,
+      ingredients,
       lowStock,
       total: stocks.length
     });
@@ -28,9 +37,10 @@ router.get('/', authenticate, isAdmin, async (req, res) => {
 
 // POST /api/stock - สร้าง/อัพเดทสต๊อก
 router.post('/', authenticate, isAdmin, [
-  body('itemType').isIn(['flavor', 'topping']),
-  body('name').notEmpty(),
-  body('quantity').isInt({ min: 0 })
+  body('itemType').isIn(['flavor', 'topping', 'ingredient']),
+  body('name').trim().notEmpty(),
+  body('quantity').isFloat({ min: 0 }),
+  body('unit').optional().trim().isLength({ min: 1, max: 20 })
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -38,9 +48,13 @@ router.post('/', authenticate, isAdmin, [
       return res.status(400).json({ errors: errors.array() });
     }
     
-    const { itemType, name, quantity, reorderLevel, isActive } = req.body;
+    const { itemType, name, quantity, reorderLevel, isActive, note, unit } = req.body;
     
-    const stock = await Stock.setStock(itemType, name, quantity, reorderLevel, isActive);
+    const stock = await Stock.setStock(itemType, name, Number(quantity), reorderLevel, isActive, {
+      user: req.user._id,
+      note,
+      unit
+    });
     
     res.json({
       message: 'Stock updated successfully',
@@ -52,29 +66,41 @@ router.post('/', authenticate, isAdmin, [
 });
 
 // PUT /api/stock/:id/adjust - ปรับสต๊อก (เพิ่ม/ลด)
+// reason: restock / waste / correction (ค่าเริ่มต้น: เพิ่ม = restock, ลด = correction)
+// expiresAt: วันหมดอายุของล็อตที่รับเข้า (เฉพาะ restock)
 router.put('/:id/adjust', authenticate, isAdmin, [
-  body('adjustment').isInt()
+  body('adjustment').isFloat().custom(value => Number(value) !== 0).withMessage('Adjustment cannot be zero'),
+  body('reason').optional().isIn(['restock', 'waste', 'correction']).withMessage('Invalid reason'),
+  body('note').optional().trim().isLength({ max: 200 }),
+  body('expiresAt').optional({ checkFalsy: true }).isISO8601().withMessage('Invalid expiry date')
 ], async (req, res) => {
   try {
-    const { adjustment } = req.body;
-    const stock = await Stock.findById(req.params.id);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
     
-    if (!stock) {
+    const adjustment = Number(req.body.adjustment);
+    const { note, expiresAt } = req.body;
+    const reason = req.body.reason || (adjustment > 0 ? 'restock' : 'correction');
+    
+    const existing = await Stock.findById(req.params.id);
+    
+    if (!existing) {
       return res.status(404).json({ message: 'Stock item not found' });
     }
     
-    stock.quantity += adjustment;
+    const stock = await Stock.adjustQuantity({ _id: existing._id }, adjustment, {
+      reason,
+      user: req.user._id,
+      note,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    });
     
-    if (stock.quantity < 0) {
+    if (!stock) {
       return res.status(400).json({ message: 'Stock cannot be negative' });
     }
     
-    if (adjustment > 0) {
-      stock.lastRestocked = new Date();
-    }
-    
-    await stock.save();
-    
     res.json({
       message: `Stock ${adjustment > 0 ? 'increased' : 'decreased'} successfully`,
       stock
@@ -84,21 +110,120 @@ router.put('/:id/adjust', authenticate, isAdmin, [
   }
 });
 
+// POST /api/stock/:id/waste - บันทึกของเสีย (เสีย/หมดอายุ/ทำหก/เตรียมของ)
+router.post('/:id/waste', authenticate, isAdmin, [
+  body('quantity').isFloat({ gt: 0 }).withMessage('Quantity must be greater than 0'),
+  body('category').isIn(StockMovement.WASTE_CATEGORIES).withMessage('Invalid waste category'),
+  body('note').optional().trim().isLength({ max: 200 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const { category, note } = req.body;
+    const stock = await logWaste(req.params.id, Number(req.body.quantity), {
+      category,
+      note,
+      user: req.user._id
+    });
+    
+    res.status(201).json({
+      message: `Logged ${req.body.quantity} ${stock.unit} of ${stock.name} as waste`,
+      stock
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'Failed to log waste', error: error.message });
+  }
+});
+
+// GET /api/stock/waste/report?period= หรือ ?startDate=&endDate= - ของเสียตามรายการ/ประเภท
+router.get('/waste/report', authenticate, isAdmin, [
+  query('period').optional().isIn(REPORT_PERIODS),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const { start, end } = resolveRangeQuery(req.query);
+    const report = await getWasteReport({ startDate: start, endDate: end });
+    
+    res.json({ startDate: start || null, endDate: end || null, ...report });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'Failed to build waste report', error: error.message });
+  }
+});
+
+// GET /api/stock/forecast?days=7&lookbackDays=28 - พยากรณ์การใช้ + แนะนำจุดสั่งซื้อ
+router.get('/forecast', authenticate, isAdmin, [
+  query('days').optional().isInt({ min: 1, max: 60 }),
+  query('lookbackDays').optional().isInt({ min: 7, max: 180 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const forecast = await getStockForecast({
+      days: req.query.days ? Number(req.query.days) : undefined,
+      lookbackDays: req.query.lookbackDays ? Number(req.query.lookbackDays) : undefined
+    });
+    
+    res.json(forecast);
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to build stock forecast', error: error.message });
+  }
+});
+
+// GET /api/stock/batches/expiring?days=3 - ล็อตที่ใกล้หมดอายุ
+router.get('/batches/expiring', authenticate, isAdmin, [
+  query('days').optional().isInt({ min: 0, max: 90 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const days = req.query.days !== undefined ? Number(req.query.days) : 3;
+    const batches = await StockBatch.getExpiring(days);
+    
+    res.json({ days, batches });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch expiring batches', error: error.message });
+  }
+});
+
 // PUT /api/stock/:id - อัพเดทรายละเอียดสต๊อก
 router.put('/:id', authenticate, isAdmin, async (req, res) => {
   try {
-    const { quantity, reorderLevel, isActive } = req.body;
+    const { quantity, reorderLevel, isActive, note } = req.body;
     const stock = await Stock.findById(req.params.id);
     
     if (!stock) {
       return res.status(404).json({ message: 'Stock item not found' });
     }
     
-    if (quantity !== undefined) stock.quantity = quantity;
     if (reorderLevel !== undefined) stock.reorderLevel = reorderLevel;
     if (isActive !== undefined) stock.isActive = isActive;
     
-    await stock.save();
+    if (quantity !== undefined) {
+      await stock.setQuantity(quantity, { user: req.user._id, note });
+    } else {
+      await stock.save();
+    }
     
     res.json({
       message: 'Stock updated successfully',
@@ -109,6 +234,40 @@ router.put('/:id', authenticate, isAdmin, async (req, res) => {
   }
 });
 
+// GET /api/stock/:id/movements - ประวัติการเปลี่ยนแปลงสต๊อก
+router.get('/:id/movements', authenticate, isAdmin, [
+  query('reason').optional().isIn(StockMovement.MOVEMENT_REASONS),
+  query('limit').optional().isInt({ min: 1, max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+    
+    const stock = await Stock.findById(req.params.id);
+    
+    if (!stock) {
+      return res.status(404).json({ message: 'Stock item not found' });
+    }
+    
+    const { reason, limit = 100 } = req.query;
+    const filter = { stock: stock._id };
+    if (reason) filter.reason = reason;
+    
+    const movements = await StockMovement.find(filter)
+      .populate('user', 'fullName')
+      .populate('order', 'orderId customerCode')
+      .populate('purchaseOrder', 'poNumber')
+      .sort('-createdAt')
+      .limit(Number(limit));
+    
+    res.json({ stock, movements });
+  } catch (error) {
+    res.status(500).json({ message: 'Failed to fetch stock movements', error: error.message });
+  }
+});
+
 // GET /api/stock/low - ดูสินค้าใกล้หมด
 router.get('/low', authenticate, isAdmin, async (req, res) => {
   try {
@@ -128,17 +287,28 @@ router.get('/available/:itemType', async (req, res) => {
       return res.status(400).json({ message: 'Invalid item type' });
     }
     
-    const items = await Stock.getAvailableItems(itemType);
+    // เมนูที่มีสูตร ดูจากวัตถุดิบ แทนสต๊อกของเมนูเอง
+    const [stockItems, recipeItems] = await Promise.all([
+      Stock.getAvailableItems(itemType),
+      Recipe.getAvailableItems(itemType)
+    ]);
+    const recipeNames = new Set(recipeItems.map(item => item.name));
+    
+    const items = [
+      ...stockItems.filter(item => !recipeNames.has(item.name)),
+      ...recipeItems.filter(item => item.quantity > 0)
+    ];
     res.json({ items });
   } catch (error) {
     res.status(500).json({ message: 'Failed to fetch available items', error: error.message });
   }
 });
 
-// POST /api/stock/check-availability - เช็คว่าสินค้ายังมีหรือไม่
+// POST /api/stock/check-availability - เช็คว่าสินค้ายังมีหรือไม่ (ระบุ cupSize เพื่อเช็คตามขนาดแก้ว)
 router.post('/check-availability', [
   body('itemType').isIn(['flavor', 'topping']),
-  body('name').notEmpty()
+  body('name').notEmpty(),
+  body('cupSize').optional().isIn(['S', 'M', 'L'])
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -146,13 +316,17 @@ router.post('/check-availability', [
       return res.status(400).json({ errors: errors.array() });
     }
     
-    const { itemType, name } = req.body;
-    const isAvailable = await Stock.isAvailable(itemType, name);
+    const { itemType, name, cupSize } = req.body;
+    const recipeItem = (await Recipe.getAvailableItems(itemType)).find(item => item.name === name);
+    const isAvailable = recipeItem
+      ? (cupSize ? recipeItem.servingsBySize[cupSize] : recipeItem.quantity) > 0
+      : await Stock.isAvailable(itemType, name);
     
     res.json({ 
       available: isAvailable,
       itemType,
-      name
+      name,
+      cupSize
     });
   } catch (error) {
     res.status(500).json({ message: 'Failed to check availability', error: error.message });
@@ -179,19 +353,14 @@ router.delete('/:id', authenticate, isAdmin, async (req, res) => {
 // POST /api/stock/initialize - เติมสต๊อกตามจำนวน reorder level
 router.post('/initialize', authenticate, isAdmin, async (req, res) => {
   try {
-    const defaultStock = [
-      // Flavors
-      { itemType: 'flavor', name: 'Strawberry', quantity: 50, reorderLevel: 20 },
-      { itemType: 'flavor', name: 'Thai Tea', quantity: 50, reorderLevel: 20 },
-      { itemType: 'flavor', name: 'Matcha', quantity: 50, reorderLevel: 20 },
-     
-      // Toppings
-      { itemType: 'topping', name: 'Apple', quantity: 50, reorderLevel: 20 },
-      { itemType: 'topping', name: 'Cherry', quantity: 50, reorderLevel: 20 },
-      { itemType: 'topping', name: 'Blueberry', quantity: 50, reorderLevel: 20 },
-      { itemType: 'topping', name: 'Raspberry', quantity: 50, reorderLevel: 20 },
-      { itemType: 'topping', name: 'Strawberry', quantity: 50, reorderLevel: 20 },
-    ];
+    // ✅ สร้างสต๊อกตามเมนูที่เปิดขายอยู่ในฐานข้อมูล
+    const menuItems = await MenuItem.getActiveItems();
+    const defaultStock = menuItems.map(item => ({
+      itemType: item.type,
+      name: item.name,
+      quantity: 50,
+      reorderLevel: 20
+    }));
     
     let created = 0; 
     let restocked = 0;
@@ -205,15 +374,18 @@ router.post('/initialize', authenticate, isAdmin, async (req, res) => {
       
       if (!existing) {
         // สร้างใหม่ให้เต็ม 100
-        await Stock.create(item);
+        await Stock.setStock(item.itemType, item.name, item.quantity, item.reorderLevel, true, {
+          user: req.user._id
+        });
         created++;
       } else if (existing.quantity <= existing.reorderLevel) {
         // ✅ เติมเพิ่มตามจำนวน reorder level
         // เช่น: เหลือ 5, reorder = 20 → เป็น 25 (5 + 20)
         const amountToAdd = existing.reorderLevel;
-        existing.quantity += amountToAdd;
-        existing.lastRestocked = new Date();
-        await existing.save();
+        await Stock.adjustQuantity({ _id: existing._id }, amountToAdd, {
+          reason: 'restock',
+          user: req.user._id
+        });
         restocked++;
         totalAdded += amountToAdd;
       }
@@ -241,15 +413,16 @@ router.put('/:id/restock', authenticate, isAdmin, async (req, res) => {
     
     const oldQuantity = stock.quantity;
     const amountToAdd = stock.reorderLevel;
-    stock.quantity += amountToAdd;
-    stock.lastRestocked = new Date();
-    await stock.save();
+    const restocked = await Stock.adjustQuantity({ _id: stock._id }, amountToAdd, {
+      reason: 'restock',
+      user: req.user._id
+    });
     
     res.json({
-      message: `Restocked ${stock.name}: ${oldQuantity} → ${stock.quantity} (+${amountToAdd})`,
-      stock,
+      message: `Restocked ${restocked.name}: ${oldQuantity} → ${restocked.quantity} (+${amountToAdd})`,
+      stock: restocked,
       oldQuantity,
-      newQuantity: stock.quantity,
+      newQuantity: restocked.quantity,
       added: amountToAdd
     });
   } catch (error) {
@@ -0,0 +1,169 @@
+// backend/routes/stocktakes.js - นับสต๊อกจริง (Admin only)
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Stocktake = require('../models/Stocktake');
+const Stock = require('../models/Stock');
+const { startStocktake, commitStocktake } = require('../services/stocktakes');
+const { authenticate, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(authenticate, isAdmin);
+
+const handleError = (res, error, fallbackMessage) => {
+  if (error.status) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(500).json({ message: fallbackMessage, error: error.message });
+};
+
+const getQuantityById = async (stockIds) => {
+  const stocks = await Stock.find({ _id: { $in: stockIds } }).select('quantity');
+  return new Map(stocks.map(stock => [stock._id.toString(), stock.quantity]));
+};
+
+// ระหว่างนับยังขายได้: รายการที่นับแล้วเทียบกับจำนวนในระบบตอนนับ ที่ยังไม่นับแสดงจำนวนปัจจุบัน
+const withLiveVariance = async (stocktake) => {
+  const result = stocktake.toObject();
+  if (stocktake.status !== 'in-progress') return result;
+
+  const quantityById = await getQuantityById(stocktake.lines.map(line => line.stock));
+
+  result.lines = result.lines.map(line => {
+    const systemQuantity = line.countedQuantity !== null && line.systemQuantity !== undefined
+      ? line.systemQuantity
+      : quantityById.get(line.stock.toString()) ?? 0;
+    return {
+      ...line,
+      systemQuantity,
+      variance: line.countedQuantity === null ? null : line.countedQuantity - systemQuantity
+    };
+  });
+
+  return result;
+};
+
+// GET /api/stocktakes - ประวัติการนับสต๊อก
+router.get('/', async (req, res) => {
+  try {
+    const stocktakes = await Stocktake.find()
+      .populate('startedBy', 'fullName')
+      .populate('committedBy', 'fullName')
+      .sort('-createdAt')
+      .limit(50);
+
+    res.json({
+      stocktakes: stocktakes.map(stocktake => ({
+        _id: stocktake._id,
+        status: stocktake.status,
+        note: stocktake.note,
+        startedBy: stocktake.startedBy,
+        committedBy: stocktake.committedBy,
+        createdAt: stocktake.createdAt,
+        committedAt: stocktake.committedAt,
+        ...stocktake.getSummary()
+      }))
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch stocktakes');
+  }
+});
+
+// POST /api/stocktakes - เริ่มรอบนับใหม่
+router.post('/', [
+  body('note').optional().trim().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const stocktake = await startStocktake({ startedBy: req.user._id, note: req.body.note });
+    res.status(201).json({ message: 'Stocktake started', stocktake });
+  } catch (error) {
+    handleError(res, error, 'Failed to start stocktake');
+  }
+});
+
+// GET /api/stocktakes/:id
+router.get('/:id', async (req, res) => {
+  try {
+    const stocktake = await Stocktake.findById(req.params.id)
+      .populate('startedBy', 'fullName')
+      .populate('committedBy', 'fullName');
+
+    if (!stocktake) {
+      return res.status(404).json({ message: 'Stocktake not found' });
+    }
+
+    res.json({ stocktake: await withLiveVariance(stocktake) });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch stocktake');
+  }
+});
+
+// PUT /api/stocktakes/:id/counts - บันทึกจำนวนที่นับได้ (ร่าง)
+router.put('/:id/counts', [
+  body('counts').isArray({ min: 1 }).withMessage('Counts are required'),
+  body('counts.*.stock').isMongoId().withMessage('Invalid stock item'),
+  body('counts.*.countedQuantity')
+    .custom(value => value === null || (!isNaN(value) && Number(value) >= 0))
+    .withMessage('Counted quantity must be 0 or more')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const stocktake = await Stocktake.findById(req.params.id);
+    if (!stocktake) {
+      return res.status(404).json({ message: 'Stocktake not found' });
+    }
+    if (stocktake.status !== 'in-progress') {
+      return res.status(409).json({ message: `Stocktake is already ${stocktake.status}` });
+    }
+
+    const quantityById = await getQuantityById(req.body.counts.map(count => count.stock));
+    const updated = stocktake.saveCounts(req.body.counts, quantityById);
+    await stocktake.save();
+
+    res.json({ message: `Saved ${updated} counts`, stocktake: await withLiveVariance(stocktake) });
+  } catch (error) {
+    handleError(res, error, 'Failed to save counts');
+  }
+});
+
+// POST /api/stocktakes/:id/commit - ยืนยันผลนับ ปรับสต๊อกตามจำนวนจริง
+router.post('/:id/commit', async (req, res) => {
+  try {
+    const stocktake = await commitStocktake(req.params.id, { committedBy: req.user._id });
+    res.json({ message: 'Stocktake committed', stocktake });
+  } catch (error) {
+    handleError(res, error, 'Failed to commit stocktake');
+  }
+});
+
+// POST /api/stocktakes/:id/cancel
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const stocktake = await Stocktake.findById(req.params.id);
+    if (!stocktake) {
+      return res.status(404).json({ message: 'Stocktake not found' });
+    }
+    if (stocktake.status !== 'in-progress') {
+      return res.status(409).json({ message: `Stocktake is already ${stocktake.status}` });
+    }
+
+    stocktake.status = 'cancelled';
+    stocktake.cancelledAt = new Date();
+    await stocktake.save();
+
+    res.json({ message: 'Stocktake cancelled', stocktake });
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel stocktake');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,88 @@
+// backend/scripts/migrateOrderItems.js
+// ย้ายออเดอร์รูปแบบเดิม (1 ออเดอร์ = 1 แก้ว) ไปเป็นรูปแบบ items[]
+
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const path = require('path');
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '.env') });
+
+async function migrateOrderItems() {
+  try {
+    console.log('🔗 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB\n');
+
+    // ใช้ collection ตรง ๆ เพราะ schema ใหม่ไม่มีฟิลด์เดิมแล้ว
+    const orders = mongoose.connection.collection('orders');
+    const legacyOrders = await orders.find({
+      items: { $exists: false },
+      shavedIce: { $exists: true }
+    }).toArray();
+
+    console.log(`📋 Found ${legacyOrders.length} legacy orders\n`);
+
+    let migrated = 0;
+
+    for (const order of legacyOrders) {
+      const pricing = order.pricing || {};
+      const toppings = (order.toppings || []).map(t => ({
+        name: t.name,
+        points: t.points || 0,
+        // ออเดอร์เก่าคิดท็อปปิ้งละ 10 บาท
+        price: t.price ?? 10
+      }));
+      const lineTotal = (pricing.basePrice || 0) + (pricing.sizePrice || 0) + (pricing.toppingsPrice || 0);
+
+      const item = {
+        _id: new mongoose.Types.ObjectId(),
+        cupSize: order.cupSize,
+        shavedIce: order.shavedIce,
+        toppings,
+        specialInstructions: order.specialInstructions || '',
+        pricing: {
+          basePrice: pricing.basePrice || 0,
+          sizePrice: pricing.sizePrice || 0,
+          toppingsPrice: pricing.toppingsPrice || 0,
+          total: lineTotal
+        },
+        isFreeDrink: !!order.isFreeDrink
+      };
+
+      await orders.updateOne(
+        { _id: order._id },
+        {
+          $set: {
+            items: [item],
+            'pricing.subtotal': lineTotal,
+            'pricing.discount': order.isFreeDrink ? lineTotal : 0
+          },
+          $unset: {
+            cupSize: '',
+            shavedIce: '',
+            toppings: '',
+            specialInstructions: '',
+            'pricing.basePrice': '',
+            'pricing.sizePrice': '',
+            'pricing.toppingsPrice': ''
+          }
+        }
+      );
+
+      console.log(`✅ Migrated: ${order.orderId || order._id}`);
+      migrated++;
+    }
+
+    console.log(`\n📊 Migrated: ${migrated}`);
+  } catch (error) {
+    console.error('❌ Error migrating orders:', error);
+  } finally {
+    await mongoose.connection.close();
+    console.log('\n👋 Database connection closed');
+    process.exit(0);
+  }
+}
+
+// Run
+migrateOrderItems();
@@ -0,0 +1,66 @@
+// backend/scripts/seedMenu.js
+
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+const path = require('path');
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '.env') });
+
+const MenuItem = require('../models/MenuItem');
+
+// เมนูเริ่มต้น (เดิมเคย hardcode ไว้ในหน้า menu/cart)
+const defaultMenu = [
+  // Flavors
+  { type: 'flavor', name: 'Strawberry', description: 'A sweet, icy kiss of summer!', image: '/images/strawberry-ice.png', color: '#B23434', displayOrder: 1 },
+  { type: 'flavor', name: 'Thai Tea', description: 'Bold. Creamy. Unmistakably Thai.', image: '/images/thai-tea-ice.png', color: '#CD9445', displayOrder: 2 },
+  { type: 'flavor', name: 'Matcha', description: 'Earthy. Creamy. Cool.', image: '/images/matcha-ice.png', color: '#527657', displayOrder: 3 },
+
+  // Toppings
+  { type: 'topping', name: 'Apple', description: 'Juicy crunch', image: '/images/apple.png', color: '#B51212', displayOrder: 1 },
+  { type: 'topping', name: 'Cherry', description: 'Sweet & tangy', image: '/images/cherry.png', color: '#B51212', displayOrder: 2 },
+  { type: 'topping', name: 'Blueberry', description: 'Sweet berries', image: '/images/blueberry.png', color: '#354088', displayOrder: 3 },
+  { type: 'topping', name: 'Raspberry', description: 'Bold & tangy', image: '/images/raspberry.png', color: '#B51212', displayOrder: 4 },
+  { type: 'topping', name: 'Strawberry', description: 'Sweet & juicy', image: '/images/strawberry.png', color: '#B51212', displayOrder: 5 },
+
+  // เคยอยู่ใน enum เดิมแต่ไม่ได้ขายแล้ว เก็บไว้ (ปิดขาย) ให้ออเดอร์/รีวิวเก่ายังผ่าน validator ตอน save
+  { type: 'flavor', name: 'Milk', displayOrder: 4, isActive: false },
+  { type: 'flavor', name: 'Green Tea', displayOrder: 5, isActive: false },
+  { type: 'topping', name: 'Banana', displayOrder: 6, isActive: false },
+  { type: 'topping', name: 'Mango', displayOrder: 7, isActive: false },
+];
+
+async function seedMenu() {
+  try {
+    console.log('🔗 Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connected to MongoDB\n');
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const item of defaultMenu) {
+      const existing = await MenuItem.findOne({ type: item.type, name: item.name });
+
+      if (!existing) {
+        await MenuItem.create(item);
+        console.log(`✅ Created: ${item.type.padEnd(8)} | ${item.name}`);
+        created++;
+      } else {
+        console.log(`ℹ️  Exists:  ${item.type.padEnd(8)} | ${item.name}`);
+        skipped++;
+      }
+    }
+
+    console.log(`\n📊 Created: ${created} | Skipped: ${skipped}`);
+  } catch (error) {
+    console.error('❌ Error seeding menu:', error);
+  } finally {
+    await mongoose.connection.close();
+    console.log('\n👋 Database connection closed');
+    process.exit(0);
+  }
+}
+
+// Run
+seedMenu();
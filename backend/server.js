@@ -12,6 +12,17 @@ const menuCodeRoutes = require('./routes/menuCodes');
 const reviewRoutes = require('./routes/reviews');
 const userRoutes = require('./routes/users');
 const stockRoutes = require('./routes/stock');
+const menuRoutes = require('./routes/menu');
+const pricingRoutes = require('./routes/pricing');
+const jobRoutes = require('./routes/jobs');
+const recipeRoutes = require('./routes/recipes');
+const purchasingRoutes = require('./routes/purchasing');
+const stocktakeRoutes = require('./routes/stocktakes');
+const reportRoutes = require('./routes/reports');
+const exportRoutes = require('./routes/exports');
+const closingRoutes = require('./routes/closing');
+const paymentRoutes = require('./routes/payments');
+const { startScheduler } = require('./jobs');
 
 const app = express();
 
@@ -46,11 +57,16 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Content-Range', 'X-Content-Range'],
+  exposedHeaders: ['Content-Range', 'X-Content-Range', 'Content-Disposition'],
   maxAge: 86400
 }));
 
-app.use(express.json());
+// เก็บ raw body ไว้ตรวจ signature ของ payment webhook
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Database connection
@@ -64,6 +80,16 @@ app.use('/api/menu-codes', menuCodeRoutes);
 app.use('/api/reviews', reviewRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/stock', stockRoutes);
+app.use('/api/menu', menuRoutes);
+app.use('/api/pricing', pricingRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/recipes', recipeRoutes);
+app.use('/api/purchasing', purchasingRoutes);
+app.use('/api/stocktakes', stocktakeRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/closing', closingRoutes);
+app.use('/api/payments', paymentRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -88,6 +114,16 @@ app.get('/', (req, res) => {
       reviews: '/api/reviews',
       users: '/api/users',
       stock: '/api/stock',
+      menu: '/api/menu',
+      pricing: '/api/pricing',
+      jobs: '/api/jobs',
+      recipes: '/api/recipes',
+      purchasing: '/api/purchasing',
+      stocktakes: '/api/stocktakes',
+      reports: '/api/reports',
+      exports: '/api/exports',
+      closing: '/api/closing',
+      payments: '/api/payments',
       health: '/api/health'
     }
   });
@@ -113,4 +149,7 @@ app.listen(PORT, () => {
   console.log(`🍧 Bingsu Backend Server running on port ${PORT}`);
   console.log(`📍 API available at http://localhost:${PORT}/api`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+  
+  // Background jobs (ข้ามรอบอัตโนมัติถ้ายังไม่เชื่อมต่อ MongoDB)
+  startScheduler();
 });
\ No newline at end of file
@@ -0,0 +1,211 @@
+// backend/services/dailyClose.js
+// สรุปยอดปิดวัน (Z-report) และบันทึกการปิดยอด + นับเงินสด
+
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const DailyClose = require('../models/DailyClose');
+const DayLock = require('../models/DayLock');
+const { PAYMENT_BREAKDOWN_STAGES, toPaymentRows } = require('./reports');
+const { toBusinessDate, businessDayRange } = require('../utils/dateRange');
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// ออเดอร์ที่ยกเลิกถูกคืนเงินแล้ว / ยังไม่ได้ชำระเงิน ไม่นับเป็นยอดขาย
+const SOLD = { status: { $nin: ['Cancelled', 'AwaitingPayment'] } };
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const roundMoney = value => Math.round(value * 100) / 100;
+
+const assertBusinessDate = (businessDate) => {
+  if (!DATE_ONLY.test(businessDate || '')) {
+    throw createError(400, 'Date must be YYYY-MM-DD');
+  }
+};
+
+/**
+ * Totals for one Bangkok business day: orders, gross/net revenue, free
+ * drinks, cancellations, refunds and revenue per payment method (split
+ * tenders counted per method, free drinks included as their own method).
+ */
+const buildZReport = async (businessDate, { session } = {}) => {
+  const { start, end } = businessDayRange(businessDate);
+
+  const [result] = await Order.aggregate([
+    { $match: { createdAt: { $gte: start, $lt: end } } },
+    {
+      $facet: {
+        byStatus: [
+          { $group: { _id: '$status', count: { $sum: 1 } } }
+        ],
+        sales: [
+          { $match: SOLD },
+          {
+            $group: {
+              _id: null,
+              orders: { $sum: 1 },
+              cups: { $sum: { $size: '$items' } },
+              grossRevenue: { $sum: '$pricing.subtotal' },
+              discounts: { $sum: '$pricing.discount' },
+              netRevenue: { $sum: '$pricing.total' },
+              freeDrinks: { $sum: { $size: { $filter: { input: '$items', cond: '$$this.isFreeDrink' } } } },
+              // ส่วนลดของออเดอร์มาจากแก้วฟรีเท่านั้น
+              freeDrinkValue: { $sum: { $cond: ['$isFreeDrink', '$pricing.discount', 0] } }
+            }
+          }
+        ],
+        byPaymentMethod: [
+          { $match: SOLD },
+          ...PAYMENT_BREAKDOWN_STAGES
+        ],
+        refunds: [
+          { $match: { paymentStatus: 'Refunded' } },
+          { $group: { _id: null, count: { $sum: 1 }, amount: { $sum: '$cancellation.refundAmount' } } }
+        ]
+      }
+    }
+  ]).session(session || null);
+
+  const ordersByStatus = result.byStatus.reduce((counts, { _id, count }) => {
+    counts[_id] = count;
+    return counts;
+  }, {});
+  const sales = result.sales[0] || {};
+  const refunds = result.refunds[0] || { count: 0, amount: 0 };
+
+  return {
+    totalOrders: Object.values(ordersByStatus).reduce((sum, count) => sum + count, 0),
+    ordersByStatus,
+    soldOrders: sales.orders || 0,
+    cups: sales.cups || 0,
+    grossRevenue: sales.grossRevenue || 0,
+    discounts: sales.discounts || 0,
+    netRevenue: sales.netRevenue || 0,
+    freeDrinks: sales.freeDrinks || 0,
+    freeDrinkValue: sales.freeDrinkValue || 0,
+    cancellations: ordersByStatus.Cancelled || 0,
+    refunds: refunds.count,
+    refundAmount: refunds.amount,
+    byPaymentMethod: toPaymentRows(result.byPaymentMethod)
+  };
+};
+
+const cashSalesOf = report =>
+  report.byPaymentMethod.find(entry => entry.method === 'cash')?.revenue || 0;
+
+/**
+ * Live Z-report for a day that can still be closed, or the archived close
+ * when the day is already locked.
+ */
+const getClosingPreview = async (businessDate = toBusinessDate()) => {
+  assertBusinessDate(businessDate);
+
+  const closed = await DailyClose.findOne({ businessDate }).populate('closedBy', 'fullName');
+  if (closed) {
+    return { businessDate, closed, report: closed.report, cashSales: cashSalesOf(closed.report), activeOrders: 0 };
+  }
+
+  const { start, end } = businessDayRange(businessDate);
+  const [report, activeOrders] = await Promise.all([
+    buildZReport(businessDate),
+    Order.countDocuments({ createdAt: { $gte: start, $lt: end }, status: { $in: Order.OPEN_STATUSES } })
+  ]);
+
+  return { businessDate, closed: null, report, cashSales: cashSalesOf(report), activeOrders };
+};
+
+/**
+ * Close a business day: snapshot the Z-report, reconcile the cash count
+ * (from denominations when given) against opening float + cash sales,
+ * and lock the day. The open-order check, snapshot and insert run in one
+ * transaction holding the day lock, so an order created or cancelled
+ * meanwhile either lands before the snapshot or is rejected as closed.
+ */
+const closeDay = async (businessDate, { openingFloat = 0, countedCash, denominations = [], note, closedBy }) => {
+  assertBusinessDate(businessDate);
+
+  if (businessDate > toBusinessDate()) {
+    throw createError(400, 'Cannot close a day that has not started yet');
+  }
+
+  const counted = denominations.length > 0
+    ? denominations.reduce((sum, { value, count }) => sum + value * count, 0)
+    : countedCash;
+  if (counted === undefined || counted === null) {
+    throw createError(400, 'Counted cash is required');
+  }
+
+  const { start, end } = businessDayRange(businessDate);
+  const session = await mongoose.startSession();
+
+  try {
+    let dailyClose;
+
+    await session.withTransaction(async () => {
+      await DayLock.touch(businessDate, { session });
+
+      if (await DailyClose.exists({ businessDate }).session(session)) {
+        throw createError(409, `${businessDate} is already closed`);
+      }
+
+      const activeOrders = await Order.countDocuments({
+        createdAt: { $gte: start, $lt: end },
+        status: { $in: Order.OPEN_STATUSES }
+      }).session(session);
+      if (activeOrders > 0) {
+        throw createError(409, `${activeOrders} orders are still awaiting payment or in progress. Complete or cancel them before closing.`);
+      }
+
+      const report = await buildZReport(businessDate, { session });
+      const expected = roundMoney(openingFloat + cashSalesOf(report));
+
+      [dailyClose] = await DailyClose.create([{
+        businessDate,
+        report,
+        cash: {
+          openingFloat,
+          expected,
+          counted,
+          denominations: denominations.filter(({ count }) => count > 0),
+          overShort: roundMoney(counted - expected)
+        },
+        note,
+        closedBy
+      }], { session });
+    });
+
+    console.log(`🔒 Closed ${businessDate}: ฿${dailyClose.report.netRevenue}, cash over/short ฿${dailyClose.cash.overShort}`);
+    return dailyClose;
+  } catch (error) {
+    // ปิดพร้อมกันสองคน
+    if (error.code === 11000) {
+      throw createError(409, `${businessDate} is already closed`);
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+};
+
+// ✅ กันแก้ไขออเดอร์ของวันที่ปิดยอดแล้ว
+// ภายใน transaction จะเขียนล็อกของวันด้วย เพื่อให้ชนกับการปิดยอดที่เกิดพร้อมกัน
+const assertDayOpen = async (value, { session } = {}) => {
+  if (session) {
+    await DayLock.touch(value, { session });
+  }
+
+  if (await DailyClose.isClosed(value, { session })) {
+    throw createError(409, `Business day ${toBusinessDate(value)} is closed`);
+  }
+};
+
+module.exports = {
+  buildZReport,
+  getClosingPreview,
+  closeDay,
+  assertDayOpen
+};
@@ -0,0 +1,230 @@
+// backend/services/exports.js
+// สร้างไฟล์ export (CSV / XLSX / PDF) จากข้อมูลรูปแบบเดียวกัน ให้ทุกหน้ารายงานใช้ร่วมกัน
+//
+// sheet = { name, columns: [{ header, key, width?, format? }], rows: [{ [key]: value }] }
+// format: 'number' | 'currency' | 'percent' | 'date' | 'datetime' (ไม่ระบุ = ข้อความ)
+
+const ExcelJS = require('exceljs');
+const PDFDocument = require('pdfkit');
+
+const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'];
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+const EXPORT_TIMEZONE = 'Asia/Bangkok';
+const NUMERIC_FORMATS = ['number', 'currency', 'percent'];
+
+// วันที่แบบไทย (พ.ศ.) เหมือน toLocaleDateString('th-TH') ฝั่งหน้าเว็บ
+const formatThaiDate = (value) =>
+  new Date(value).toLocaleDateString('th-TH', { timeZone: EXPORT_TIMEZONE });
+
+const formatThaiDateTime = (value) =>
+  new Date(value).toLocaleString('th-TH', { timeZone: EXPORT_TIMEZONE });
+
+// ค่าที่แสดงใน CSV / PDF
+const formatValue = (value, format) => {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (format) {
+    case 'date':
+      return formatThaiDate(value);
+    case 'datetime':
+      return formatThaiDateTime(value);
+    case 'number':
+      return String(Math.round(Number(value) * 100) / 100);
+    case 'currency':
+      return Number(value).toFixed(2);
+    case 'percent':
+      return `${Number(value).toFixed(1)}%`;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Escape one CSV field: quote values containing separators, quotes or line
+ * breaks, and prefix text that a spreadsheet would run as a formula.
+ */
+const escapeCSV = (value) => {
+  let text = String(value);
+
+  if (/^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// หลาย sheet ใน CSV = หลายตารางคั่นด้วยบรรทัดว่าง มีชื่อ sheet นำหน้า
+const toCSV = ({ sheets }) => {
+  const sections = sheets.map(sheet => {
+    const lines = [sheet.columns.map(column => escapeCSV(column.header)).join(',')];
+
+    sheet.rows.forEach(row => {
+      lines.push(sheet.columns.map(column => escapeCSV(formatValue(row[column.key], column.format))).join(','));
+    });
+
+    return (sheets.length > 1 ? [escapeCSV(sheet.name), ...lines] : lines).join('\r\n');
+  });
+
+  // BOM ให้ Excel อ่านภาษาไทยถูก
+  return Buffer.from('\uFEFF' + sections.join('\r\n\r\n') + '\r\n', 'utf8');
+};
+
+// 'number' ใช้รูปแบบ General ของ Excel
+const XLSX_NUMBER_FORMATS = {
+  currency: '#,##0.00',
+  percent: '0.0"%"'
+};
+
+const toXLSX = async ({ title, sheets }) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Bingsu';
+  workbook.title = title;
+  workbook.created = new Date();
+
+  sheets.forEach(sheet => {
+    // ชื่อ sheet ใน Excel ยาวได้ไม่เกิน 31 ตัวและห้ามมีอักขระบางตัว
+    const worksheet = workbook.addWorksheet(sheet.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width || Math.max(12, column.header.length + 4),
+      style: XLSX_NUMBER_FORMATS[column.format] ? { numFmt: XLSX_NUMBER_FORMATS[column.format] } : {}
+    }));
+
+    sheet.rows.forEach(row => {
+      worksheet.addRow(sheet.columns.reduce((values, column) => {
+        const value = row[column.key];
+        values[column.key] = NUMERIC_FORMATS.includes(column.format)
+          ? value ?? null
+          : formatValue(value, column.format);
+        return values;
+      }, {}));
+    });
+
+    const header = worksheet.getRow(1);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF69806C' } };
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const PDF_MARGIN = 40;
+const CELL_PADDING = 4;
+
+// วาดตาราง 1 sheet ขึ้นหน้าใหม่อัตโนมัติ (พร้อมหัวตารางซ้ำ)
+const drawTable = (doc, sheet) => {
+  const left = doc.page.margins.left;
+  const usableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const weights = sheet.columns.map(column => column.width || 12);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => usableWidth * weight / totalWeight);
+
+  const drawRow = (cells, { header = false, shaded = false } = {}) => {
+    doc.font(header ? 'Bold' : 'Regular').fontSize(9);
+    const height = Math.max(...cells.map((cell, i) =>
+      doc.heightOfString(cell, { width: widths[i] - CELL_PADDING * 2 })
+    )) + CELL_PADDING * 2;
+
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      if (!header) drawRow(sheet.columns.map(column => column.header), { header: true });
+    }
+
+    const top = doc.y;
+    if (header || shaded) {
+      doc.rect(left, top, usableWidth, height).fill(header ? '#69806C' : '#EBE6DE');
+    }
+
+    let x = left;
+    cells.forEach((cell, i) => {
+      const numeric = NUMERIC_FORMATS.includes(sheet.columns[i].format);
+      doc.fillColor(header ? '#FFFFFF' : '#333333')
+        .text(cell, x + CELL_PADDING, top + CELL_PADDING, {
+          width: widths[i] - CELL_PADDING * 2,
+          align: numeric && !header ? 'right' : 'left'
+        });
+      x += widths[i];
+    });
+
+    doc.x = left;
+    doc.y = top + height;
+  };
+
+  drawRow(sheet.columns.map(column => column.header), { header: true });
+
+  if (sheet.rows.length === 0) {
+    doc.font('Regular').fontSize(9).fillColor('#777777').text('No data', left, doc.y + CELL_PADDING);
+    return;
+  }
+
+  sheet.rows.forEach((row, index) => {
+    drawRow(sheet.columns.map(column => formatValue(row[column.key], column.format)), { shaded: index % 2 === 1 });
+  });
+};
+
+const toPDF = ({ title, subtitle, sheets }) => new Promise((resolve, reject) => {
+  const wide = sheets.some(sheet => sheet.columns.length > 6);
+  const doc = new PDFDocument({ size: 'A4', layout: wide ? 'landscape' : 'portrait', margin: PDF_MARGIN });
+  const chunks = [];
+
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  // ฟอนต์มาตรฐานของ PDF ไม่มีอักษรไทย ตั้ง PDF_FONT_PATH / PDF_BOLD_FONT_PATH (.ttf) เพื่อใช้ฟอนต์ไทย
+  doc.registerFont('Regular', process.env.PDF_FONT_PATH || 'Helvetica');
+  doc.registerFont('Bold', process.env.PDF_BOLD_FONT_PATH || process.env.PDF_FONT_PATH || 'Helvetica-Bold');
+
+  doc.font('Bold').fontSize(18).fillColor('#543429').text(title);
+  doc.font('Regular').fontSize(10).fillColor('#777777')
+    .text([subtitle, `Generated ${formatThaiDateTime(new Date())}`].filter(Boolean).join(' · '));
+
+  sheets.forEach(sheet => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+    doc.moveDown();
+    doc.font('Bold').fontSize(13).fillColor('#69806C').text(sheet.name);
+    doc.moveDown(0.3);
+    drawTable(doc, sheet);
+  });
+
+  doc.end();
+});
+
+const BUILDERS = {
+  csv: toCSV,
+  xlsx: toXLSX,
+  pdf: toPDF
+};
+
+/**
+ * Build the export in `format` and send it as a download named
+ * `<filename>_<YYYY-MM-DD>.<format>` (Bangkok date).
+ */
+const sendExport = async (res, format, { filename, title, subtitle, sheets }) => {
+  const buffer = await BUILDERS[format]({ title, subtitle, sheets });
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: EXPORT_TIMEZONE });
+
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}_${today}.${format}"`);
+  res.setHeader('Content-Length', buffer.length);
+  res.send(buffer);
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  formatThaiDate,
+  escapeCSV,
+  toCSV,
+  toXLSX,
+  toPDF,
+  sendExport
+};
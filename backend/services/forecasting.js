@@ -0,0 +1,155 @@
+// backend/services/forecasting.js
+// พยากรณ์การใช้สต๊อกจากยอดขายย้อนหลังแยกตามวันในสัปดาห์ + ชั่วโมง (เวลาไทย)
+// ใช้แนะนำ reorderLevel / จำนวนที่ควรสั่ง และคำนวณจำนวนวันที่สต๊อกจะพอใช้
+
+const StockMovement = require('../models/StockMovement');
+const Stock = require('../models/Stock');
+const Supplier = require('../models/Supplier');
+
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_LOOKBACK_DAYS = 28;
+const DEFAULT_LEAD_TIME_DAYS = 1;
+// สต๊อกเผื่อ (วัน) นอกเหนือจาก lead time ของซัพพลายเออร์
+const SAFETY_DAYS = 1;
+// ไม่คำนวณวันคงเหลือเกินนี้
+const MAX_FORECAST_DAYS = 60;
+
+// วันในสัปดาห์ (0 = อาทิตย์) และชั่วโมงตามเวลาไทย
+const bangkokSlot = (time) => {
+  const local = new Date(time + BANGKOK_OFFSET_MS);
+  return { weekday: local.getUTCDay(), hour: local.getUTCHours() };
+};
+
+const emptyProfile = () => Array.from({ length: 7 }, () => new Array(24).fill(0));
+
+// จำนวนครั้งที่แต่ละวันในสัปดาห์อยู่ในช่วงย้อนหลัง (ใช้หาค่าเฉลี่ย)
+const countWeekdays = (lookbackDays, now) => {
+  const counts = new Array(7).fill(0);
+  for (let i = 0; i < lookbackDays; i++) {
+    counts[bangkokSlot(now - i * DAY_MS).weekday]++;
+  }
+  return counts;
+};
+
+/**
+ * Average units used per weekday/hour slot for every stock item with sales
+ * in the lookback window. Returns a Map of stock id → profile[weekday][hour].
+ */
+const getUsageProfiles = async ({ lookbackDays = DEFAULT_LOOKBACK_DAYS, now = Date.now() } = {}) => {
+  const rows = await StockMovement.aggregate([
+    {
+      $match: {
+        reason: { $in: ['sale', 'cancel-return'] },
+        createdAt: { $gte: new Date(now - lookbackDays * DAY_MS) }
+      }
+    },
+    {
+      $group: {
+        _id: {
+          stock: '$stock',
+          weekday: { $subtract: [{ $dayOfWeek: { date: '$createdAt', timezone: 'Asia/Bangkok' } }, 1] },
+          hour: { $hour: { date: '$createdAt', timezone: 'Asia/Bangkok' } }
+        },
+        used: { $sum: { $multiply: ['$delta', -1] } }
+      }
+    }
+  ]);
+
+  const weekdayCounts = countWeekdays(lookbackDays, now);
+  const profiles = new Map();
+
+  rows.forEach(({ _id, used }) => {
+    const key = _id.stock.toString();
+    const profile = profiles.get(key) || emptyProfile();
+    profile[_id.weekday][_id.hour] += Math.max(used, 0) / (weekdayCounts[_id.weekday] || 1);
+    profiles.set(key, profile);
+  });
+
+  return profiles;
+};
+
+// การใช้ที่คาดไว้ใน N ชั่วโมงข้างหน้า
+const forecastUsage = (profile, hours, now = Date.now()) => {
+  let total = 0;
+  for (let i = 0; i < hours; i++) {
+    const { weekday, hour } = bangkokSlot(now + i * HOUR_MS);
+    total += profile[weekday][hour];
+  }
+  return total;
+};
+
+// เดินทีละชั่วโมงจนกว่าจะใช้หมด (null = ไม่มีการใช้ หรือพอใช้เกิน MAX_FORECAST_DAYS)
+const daysUntilEmpty = (profile, quantity, now = Date.now()) => {
+  if (quantity <= 0) return 0;
+
+  let used = 0;
+  for (let i = 0; i < MAX_FORECAST_DAYS * 24; i++) {
+    const { weekday, hour } = bangkokSlot(now + i * HOUR_MS);
+    used += profile[weekday][hour];
+    if (used >= quantity) {
+      return Math.round((i + 1) / 24 * 10) / 10;
+    }
+  }
+  return null;
+};
+
+/**
+ * Forecast usage for the next `days` days and suggest a reorder level
+ * (usage over supplier lead time + safety days) and an order quantity
+ * that covers the forecast and leaves the suggested reorder level on hand.
+ */
+const getStockForecast = async ({ days = 7, lookbackDays = DEFAULT_LOOKBACK_DAYS } = {}) => {
+  const now = Date.now();
+  const [stocks, profiles] = await Promise.all([
+    Stock.find({ isActive: true }).sort('itemType name'),
+    getUsageProfiles({ lookbackDays, now })
+  ]);
+
+  const items = [];
+
+  for (const stock of stocks) {
+    const profile = profiles.get(stock._id.toString());
+    const weeklyUsage = profile ? profile.flat().reduce((sum, value) => sum + value, 0) : 0;
+    const averageDailyUsage = weeklyUsage / 7;
+
+    const item = {
+      stock: stock._id,
+      itemType: stock.itemType,
+      name: stock.name,
+      unit: stock.unit,
+      quantity: stock.quantity,
+      reorderLevel: stock.reorderLevel,
+      averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+      forecastUsage: 0,
+      daysRemaining: null,
+      leadTimeDays: null,
+      suggestedReorderLevel: null,
+      suggestedOrderQuantity: null
+    };
+
+    if (averageDailyUsage > 0) {
+      const supplier = await Supplier.findCheapestFor(stock.itemType, stock.name);
+      const leadTimeDays = supplier ? supplier.supplier.leadTimeDays : DEFAULT_LEAD_TIME_DAYS;
+      const forecast = forecastUsage(profile, days * 24, now);
+      const suggestedReorderLevel = Math.ceil(averageDailyUsage * (leadTimeDays + SAFETY_DAYS));
+
+      item.forecastUsage = Math.round(forecast * 100) / 100;
+      item.daysRemaining = daysUntilEmpty(profile, stock.quantity, now);
+      item.leadTimeDays = leadTimeDays;
+      item.suggestedReorderLevel = suggestedReorderLevel;
+      item.suggestedOrderQuantity = Math.max(0, Math.ceil(forecast + suggestedReorderLevel - stock.quantity));
+    }
+
+    items.push(item);
+  }
+
+  return { days, lookbackDays, items };
+};
+
+module.exports = {
+  getUsageProfiles,
+  getStockForecast
+};
@@ -0,0 +1,121 @@
+// backend/services/orderCancellation.js
+// ยกเลิกออเดอร์: คืนสต็อก, ย้อนแต้มสะสม, คืนเงิน ภายใน transaction เดียว
+
+const mongoose = require('mongoose');
+const MenuCode = require('../models/MenuCode');
+const Order = require('../models/Order');
+const Stock = require('../models/Stock');
+const User = require('../models/User');
+const { ORDER_EVENTS, publishOrderEvent } = require('./orderEvents');
+const { assertDayOpen } = require('./dailyClose');
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// คืนวัตถุดิบตาม stockUsage ที่บันทึกไว้ตอนสั่ง
+const restoreStock = async (order, cancelledBy, session) => {
+  for (const { itemType, name, quantity } of order.stockUsage) {
+    if (quantity <= 0) continue;
+
+    await Stock.adjustQuantity(
+      { itemType, name },
+      quantity,
+      { reason: 'cancel-return', order: order._id, user: cancelledBy, session }
+    );
+  }
+};
+
+// ย้อนสแตมป์/แต้ม/แก้วฟรีที่ออเดอร์นี้เคยให้ไว้
+const reverseLoyalty = async (order, session) => {
+  if (!order.customerId || !order.loyalty?.stampAdded) return false;
+
+  const user = await User.findById(order.customerId).session(session);
+  if (!user) return false;
+
+  user.removeLoyaltyStamp(order.loyalty.freeDrinkEarned);
+  user.loyaltyPoints = Math.max(user.loyaltyPoints - (order.loyalty.pointsAwarded || 0), 0);
+  await user.save({ session });
+
+  return true;
+};
+
+/**
+ * Cancel an order and undo its side effects atomically.
+ * Requires MongoDB running as a replica set (Atlas is).
+ *
+ * paymentFailure ({ status, reason }) cancels only while the order is still
+ * awaiting its pending payment, so a payment confirmed in the meantime is
+ * never cancelled (409 instead). It also gives the menu code usage back so
+ * the customer can order again with the same code.
+ */
+const cancelOrder = async (orderId, { reason, cancelledBy, paymentFailure }) => {
+  const session = await mongoose.startSession();
+
+  try {
+    let cancelledOrder;
+
+    await session.withTransaction(async () => {
+      const order = await Order.findById(orderId).session(session);
+
+      if (!order) {
+        throw createError(404, 'Order not found');
+      }
+
+      if (!order.canTransitionTo('Cancelled')) {
+        throw createError(409, `Cannot cancel an order that is ${order.status}`);
+      }
+
+      // ไม่มี payment.status = เปิด charge ไม่สำเร็จ ยังยกเลิกได้
+      const paymentOpen = !order.payment?.status || order.payment.status === 'pending';
+      if (paymentFailure && (order.status !== 'AwaitingPayment' || !paymentOpen)) {
+        throw createError(409, `Order ${order.orderId} is no longer awaiting payment`);
+      }
+
+      // วันที่ปิดยอดแล้วห้ามคืนเงิน ไม่งั้น Z-report จะไม่ตรง
+      await assertDayOpen(order.createdAt, { session });
+
+      await restoreStock(order, cancelledBy, session);
+      const loyaltyReversed = await reverseLoyalty(order, session);
+
+      if (paymentFailure && order.menuCode) {
+        await MenuCode.releaseUsage(order.menuCode, order._id, { session });
+      }
+
+      const refundAmount = order.paymentStatus === 'Paid' ? order.pricing.total : 0;
+      if (order.paymentStatus === 'Paid') {
+        order.paymentStatus = 'Refunded';
+      }
+
+      // ยกเลิกระหว่างรอจ่าย: ปิด charge ไว้ไม่ให้ webhook ที่มาทีหลังดันออเดอร์เข้าครัว
+      if (order.payment?.status === 'pending') {
+        order.payment.status = paymentFailure?.status || 'failed';
+        order.payment.failureReason = paymentFailure?.reason || reason;
+      }
+
+      order.cancellation = {
+        reason,
+        cancelledBy,
+        refundAmount,
+        stockRestored: true,
+        loyaltyReversed
+      };
+
+      // document ถูกโหลดด้วย session จึง save ภายใน transaction เดียวกัน
+      await order.updateStatus('Cancelled', cancelledBy, reason);
+      cancelledOrder = order;
+    });
+
+    console.log('✅ Order cancelled:', cancelledOrder.orderId);
+    publishOrderEvent(ORDER_EVENTS.STATUS_CHANGED, cancelledOrder);
+    return cancelledOrder;
+  } finally {
+    await session.endSession();
+  }
+};
+
+module.exports = {
+  cancelOrder
+};
@@ -0,0 +1,81 @@
+// backend/services/orderEvents.js
+// ส่งอัปเดตออเดอร์แบบ real-time ผ่าน Server-Sent Events
+
+const EventEmitter = require('events');
+
+const HEARTBEAT_INTERVAL = 25000; // กัน proxy ตัด connection ที่เงียบนานเกินไป
+const RECONNECT_DELAY = 3000;
+
+const ORDER_EVENTS = {
+  CREATED: 'order-created',
+  STATUS_CHANGED: 'order-status-changed'
+};
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // 1 listener ต่อ 1 client ที่เปิด stream อยู่
+
+// ประกาศ event หลัง commit แล้วเท่านั้น (ไม่งั้น client จะเห็นออเดอร์ที่ถูก rollback)
+const publishOrderEvent = (type, order) => {
+  const payload = order.toJSON ? order.toJSON() : order;
+  emitter.emit('order', { type, order: payload });
+};
+
+const writeEvent = (res, type, data) => {
+  res.write(`event: ${type}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Open an SSE response and forward order events that pass `filter`.
+ * `initialEvents` are sent right after the connection opens.
+ * `onAnyEvent` may return extra events to send whenever any order changes.
+ */
+const openOrderStream = (req, res, { filter = () => true, initialEvents = [], onAnyEvent } = {}) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  initialEvents.forEach(({ type, data }) => writeEvent(res, type, data));
+
+  // event object เดียวกันถูกส่งให้ทุก stream จึงใช้เป็น key แชร์ผลคำนวณต่อ event ได้
+  const listener = async (event) => {
+    const { type, order } = event;
+    if (filter(order)) {
+      writeEvent(res, type, { order });
+    }
+
+    if (onAnyEvent) {
+      try {
+        const extra = await onAnyEvent(event);
+        if (extra && !res.writableEnded) writeEvent(res, extra.type, extra.data);
+      } catch (error) {
+        console.error('⚠️ Error building stream event:', error);
+      }
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  emitter.on('order', listener);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    emitter.off('order', listener);
+  });
+};
+
+const getStreamClientCount = () => emitter.listenerCount('order');
+
+module.exports = {
+  ORDER_EVENTS,
+  publishOrderEvent,
+  openOrderStream,
+  getStreamClientCount
+};
@@ -0,0 +1,13 @@
+// backend/services/payments/counter.js
+// จ่ายที่เคาน์เตอร์ (เงินสด/บัตร): ไม่มี webhook พนักงานเป็นคนยืนยันว่ารับเงินแล้ว
+
+const counterProvider = {
+  name: 'counter',
+  manualConfirmation: true,
+
+  createCharge: async () => ({})
+};
+
+module.exports = {
+  counterProvider
+};
@@ -0,0 +1,288 @@
+// backend/services/payments/index.js
+// ชำระเงินของออเดอร์: ออเดอร์ใหม่อยู่ในสถานะ AwaitingPayment (Unpaid)
+// จนกว่าจะได้รับการยืนยันจาก provider แล้วจึงเข้าคิวครัว (Pending)
+
+const Order = require('../../models/Order');
+const { cancelOrder } = require('../orderCancellation');
+const { ORDER_EVENTS, publishOrderEvent } = require('../orderEvents');
+const { promptPayProvider } = require('./promptpay');
+const { mockProvider } = require('./mock');
+const { counterProvider } = require('./counter');
+
+const PAYMENT_EXPIRY_MINUTES = Number(process.env.PAYMENT_EXPIRY_MINUTES) || 15;
+
+/**
+ * Provider interface:
+ * - name: stored on order.payment.provider
+ * - createCharge({ reference, amount, order }) → { qrPayload?, expiresAt? }
+ * - parseWebhook(req) → { reference, status, amount, transactionId, reason }
+ *   (throws 401 for a bad signature); omitted when there is no webhook
+ * - manualConfirmation: staff confirm the payment instead of a webhook
+ */
+const providers = {
+  [promptPayProvider.name]: promptPayProvider,
+  [mockProvider.name]: mockProvider,
+  [counterProvider.name]: counterProvider
+};
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const isMockEnabled = () => process.env.PAYMENT_PROVIDER === 'mock';
+
+// PromptPay ผ่าน provider จริง (หรือ mock ตอน dev) ที่เหลือจ่ายที่เคาน์เตอร์
+const getProviderFor = (paymentMethod) => {
+  if (paymentMethod !== 'promptpay') return counterProvider;
+  return isMockEnabled() ? mockProvider : promptPayProvider;
+};
+
+const getProvider = (name) => providers[name];
+
+const roundMoney = value => Math.round(value * 100) / 100;
+
+/**
+ * Validate counter tenders against the amount due and turn them into
+ * payment entries. Only cash may be over-tendered; the rest is change.
+ */
+const buildTenderEntries = (tenders, due, recordedBy) => {
+  const entries = tenders.map(({ method, amount, tendered, reference }) => {
+    if (method === 'free-drink') {
+      throw createError(400, 'Free drinks are applied automatically');
+    }
+    if (method === 'voucher' && !reference) {
+      throw createError(400, 'Voucher payments need the voucher code as reference');
+    }
+
+    const entry = { method, amount: roundMoney(amount), reference, recordedBy };
+
+    if (method === 'cash') {
+      entry.tendered = roundMoney(tendered !== undefined ? tendered : amount);
+      if (entry.tendered < entry.amount) {
+        throw createError(400, `Cash tendered ฿${entry.tendered} is less than ฿${entry.amount}`);
+      }
+      entry.change = roundMoney(entry.tendered - entry.amount);
+    } else if (tendered !== undefined && roundMoney(tendered) !== entry.amount) {
+      throw createError(400, 'Change can only be given for cash');
+    }
+
+    return entry;
+  });
+
+  const total = roundMoney(entries.reduce((sum, entry) => sum + entry.amount, 0));
+  if (total !== roundMoney(due)) {
+    throw createError(400, `Payments total ฿${total} but ฿${roundMoney(due)} is due`);
+  }
+
+  return entries;
+};
+
+/**
+ * Mark the order paid and move it into the kitchen queue.
+ * Claims the payment in a single conditional update, so only one of
+ * webhook / counter / expiry / cancel wins. Returns null when the order
+ * is no longer awaiting its pending payment.
+ */
+const confirmPayment = async (order, { entries = [], transactionId, confirmedBy, note }) => {
+  const paidAt = new Date();
+
+  const paidOrder = await Order.findOneAndUpdate(
+    { _id: order._id, status: 'AwaitingPayment', 'payment.status': 'pending' },
+    {
+      $set: {
+        status: 'Pending',
+        paymentStatus: 'Paid',
+        'payment.status': 'succeeded',
+        'payment.paidAt': paidAt,
+        'payment.transactionId': transactionId,
+        'timestamps.paid': paidAt
+      },
+      $push: {
+        payments: { $each: entries.map(entry => ({ ...entry, paidAt })) },
+        statusHistory: { from: 'AwaitingPayment', to: 'Pending', changedBy: confirmedBy, changedAt: paidAt, note }
+      }
+    },
+    { new: true }
+  );
+
+  if (!paidOrder) return null;
+
+  console.log(`💳 Payment confirmed for ${paidOrder.orderId} (${paidOrder.payment.provider})`);
+  publishOrderEvent(ORDER_EVENTS.STATUS_CHANGED, paidOrder);
+  return paidOrder;
+};
+
+// จ่ายไม่สำเร็จ/หมดเวลา → ยกเลิกออเดอร์ (คืนสต็อก + แต้ม ผ่าน cancelOrder)
+// ถ้าระหว่างนั้นออเดอร์จ่ายแล้วหรือถูกยกเลิกไปแล้ว คืน null ไม่ยกเลิกซ้ำ
+const failPayment = async (order, { status, reason }) => {
+  try {
+    const cancelledOrder = await cancelOrder(order._id, {
+      reason: `Payment ${status}: ${reason}`,
+      paymentFailure: { status, reason }
+    });
+    console.log(`❌ Payment ${status} for ${order.orderId}: ${reason}`);
+    return cancelledOrder;
+  } catch (error) {
+    if (error.status !== 409) throw error;
+    console.log(`ℹ️ Payment ${status} ignored for ${order.orderId}: ${error.message}`);
+    return null;
+  }
+};
+
+/**
+ * Open a charge with the provider for the order's payment method.
+ * Orders with nothing to pay (free drink covers everything) go straight
+ * to the kitchen.
+ */
+const startPayment = async (order) => {
+  const provider = getProviderFor(order.paymentMethod);
+  const amount = order.pricing.total;
+
+  order.payment = {
+    provider: provider.name,
+    reference: order.orderId,
+    status: 'pending',
+    amount
+  };
+  // แก้วฟรีจากบัตรสะสมแต้มบันทึกเป็นการชำระส่วนหนึ่ง (= ส่วนลดของออเดอร์)
+  order.payments = order.pricing.discount > 0
+    ? [{ method: 'free-drink', amount: order.pricing.discount, reference: 'loyalty' }]
+    : [];
+
+  if (amount > 0) {
+    const charge = await provider.createCharge({ reference: order.orderId, amount, order });
+    order.payment.qrPayload = charge.qrPayload;
+    order.payment.expiresAt = charge.expiresAt || new Date(Date.now() + PAYMENT_EXPIRY_MINUTES * 60 * 1000);
+  }
+  await order.save();
+
+  if (amount <= 0) {
+    return (await confirmPayment(order, { note: 'Nothing to pay' })) || order;
+  }
+
+  console.log(`💳 Payment started for ${order.orderId}: ${provider.name} ฿${amount}`);
+  return order;
+};
+
+/**
+ * Apply a provider webhook. Repeated deliveries for a payment that is no
+ * longer pending are acknowledged without changing anything.
+ */
+const handleWebhook = async (providerName, req) => {
+  const provider = getProvider(providerName);
+  if (!provider || !provider.parseWebhook) {
+    throw createError(404, `Unknown payment provider: ${providerName}`);
+  }
+
+  const event = provider.parseWebhook(req);
+  const order = await Order.findOne({ 'payment.reference': event.reference, 'payment.provider': provider.name });
+  if (!order) {
+    throw createError(404, `Payment not found: ${event.reference}`);
+  }
+
+  // ส่งซ้ำ หรือแพ้ race กับการยืนยัน/หมดเวลา/ยกเลิก ที่เกิดพร้อมกัน
+  const settled = async (current) => {
+    if (event.status === 'succeeded' && current.payment.status !== 'succeeded') {
+      // เงินเข้าหลังออเดอร์ถูกยกเลิก ต้องคืนเงินเอง
+      console.warn(`⚠️ Payment received for ${current.orderId} after it was ${current.payment.status}`);
+    }
+    return { order: current, duplicate: true };
+  };
+
+  if (order.payment.status !== 'pending') {
+    return settled(order);
+  }
+
+  if (event.status === 'succeeded') {
+    if (event.amount !== undefined && Math.abs(event.amount - order.payment.amount) > 0.001) {
+      throw createError(409, `Paid amount ฿${event.amount} does not match ฿${order.payment.amount}`);
+    }
+
+    const paidOrder = await confirmPayment(order, {
+      entries: [{ method: 'promptpay', amount: order.payment.amount, reference: event.transactionId }],
+      transactionId: event.transactionId,
+      note: `Paid via ${provider.name}`
+    });
+    return paidOrder ? { order: paidOrder, duplicate: false } : settled(await Order.findById(order._id));
+  }
+
+  const cancelledOrder = await failPayment(order, { status: event.status, reason: event.reason || 'Declined' });
+  return cancelledOrder ? { order: cancelledOrder, duplicate: false } : settled(await Order.findById(order._id));
+};
+
+// พนักงานยืนยันว่ารับเงินที่เคาน์เตอร์แล้ว (แบ่งจ่ายหลายวิธีได้)
+// ไม่ส่ง tenders มา = จ่ายเต็มจำนวนด้วยวิธีที่ลูกค้าเลือกไว้
+const confirmCounterPayment = async (orderId, confirmedBy, tenders = []) => {
+  const order = await Order.findById(orderId);
+
+  if (!order) {
+    throw createError(404, 'Order not found');
+  }
+
+  if (order.status !== 'AwaitingPayment' || order.payment?.status !== 'pending') {
+    throw createError(409, `Order ${order.orderId} is not awaiting payment`);
+  }
+
+  if (!getProvider(order.payment.provider)?.manualConfirmation) {
+    throw createError(409, `Order ${order.orderId} is paid through ${order.payment.provider}. Wait for the payment confirmation.`);
+  }
+
+  const due = order.payment.amount;
+  const entries = buildTenderEntries(
+    tenders.length > 0 ? tenders : [{ method: order.paymentMethod, amount: due }],
+    due,
+    confirmedBy
+  );
+
+  const methods = [...new Set(entries.map(entry => entry.method))].join(' + ');
+  const paidOrder = await confirmPayment(order, { entries, confirmedBy, note: `Paid at counter (${methods})` });
+  if (!paidOrder) {
+    throw createError(409, `Order ${order.orderId} is not awaiting payment`);
+  }
+  return paidOrder;
+};
+
+// ออเดอร์ที่รอจ่ายจนหมดเวลา (หรือเปิด charge ไม่สำเร็จ) → ยกเลิก
+const expireStalePayments = async () => {
+  const now = new Date();
+  const staleOrders = await Order.find({
+    status: 'AwaitingPayment',
+    $or: [
+      { 'payment.expiresAt': { $lt: now } },
+      {
+        'payment.expiresAt': { $exists: false },
+        'timestamps.ordered': { $lt: new Date(now.getTime() - PAYMENT_EXPIRY_MINUTES * 60 * 1000) }
+      }
+    ]
+  }).select('_id orderId');
+
+  const expired = [];
+  const failed = [];
+
+  for (const order of staleOrders) {
+    try {
+      // ออเดอร์อาจเพิ่งจ่ายหรือถูกยกเลิกไประหว่างนั้น (null) ข้ามไป
+      if (await failPayment(order, { status: 'expired', reason: 'Payment timed out' })) {
+        expired.push(order.orderId);
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not expire ${order.orderId}:`, error.message);
+      failed.push({ orderId: order.orderId, error: error.message });
+    }
+  }
+
+  return { checked: staleOrders.length, expired, failed };
+};
+
+module.exports = {
+  PAYMENT_EXPIRY_MINUTES,
+  isMockEnabled,
+  getProvider,
+  buildTenderEntries,
+  startPayment,
+  handleWebhook,
+  confirmCounterPayment,
+  expireStalePayments
+};
@@ -0,0 +1,71 @@
+// backend/services/payments/mock.js
+// Payment gateway จำลองสำหรับ development: ตอบกลับผ่าน webhook จริงของเราเอง
+// MOCK_PAYMENT_OUTCOME = success | failure | timeout | manual (ค่าเริ่มต้น success)
+// MOCK_PAYMENT_DELAY_MS = เวลาก่อนส่ง webhook (ค่าเริ่มต้น 5000)
+
+const { SIGNATURE_HEADER, signPayload, parseSignedWebhook } = require('./signature');
+const { buildPromptPayPayload } = require('./promptpay');
+
+const MOCK_OUTCOMES = ['success', 'failure', 'timeout', 'manual'];
+const DEFAULT_DELAY_MS = 5000;
+// ใช้สร้าง QR ตัวอย่างเมื่อไม่ได้ตั้ง PROMPTPAY_ID
+const SAMPLE_PROMPTPAY_ID = '0812345678';
+
+const webhookUrl = () =>
+  `${process.env.PAYMENT_WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 5000}`}/api/payments/webhook/mock`;
+
+/**
+ * Send the webhook a real gateway would send for `outcome`.
+ * `timeout` sends nothing, so the order expires like an abandoned payment.
+ */
+const simulate = async ({ reference, amount, outcome }) => {
+  if (outcome === 'timeout' || outcome === 'manual') {
+    console.log(`🧪 Mock payment ${reference}: ${outcome}, no webhook sent`);
+    return;
+  }
+
+  const rawBody = JSON.stringify(outcome === 'success'
+    ? { reference, status: 'succeeded', amount, transactionId: `MOCK-${Date.now().toString(36).toUpperCase()}` }
+    : { reference, status: 'failed', amount, reason: 'Declined by mock gateway' });
+
+  try {
+    const response = await fetch(webhookUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signPayload(rawBody)
+      },
+      body: rawBody
+    });
+    console.log(`🧪 Mock payment ${reference}: ${outcome} → webhook ${response.status}`);
+  } catch (error) {
+    console.error(`⚠️ Mock payment ${reference}: could not reach webhook:`, error.message);
+  }
+};
+
+const mockProvider = {
+  name: 'mock',
+
+  createCharge: async ({ reference, amount }) => {
+    const outcome = MOCK_OUTCOMES.includes(process.env.MOCK_PAYMENT_OUTCOME)
+      ? process.env.MOCK_PAYMENT_OUTCOME
+      : 'success';
+    const delay = Number(process.env.MOCK_PAYMENT_DELAY_MS) || DEFAULT_DELAY_MS;
+
+    // unref: ไม่ค้าง process ไว้รอ webhook จำลอง
+    setTimeout(() => simulate({ reference, amount, outcome }), delay).unref();
+
+    return {
+      qrPayload: buildPromptPayPayload({ id: process.env.PROMPTPAY_ID || SAMPLE_PROMPTPAY_ID, amount, reference })
+    };
+  },
+
+  parseWebhook: parseSignedWebhook,
+
+  simulate
+};
+
+module.exports = {
+  MOCK_OUTCOMES,
+  mockProvider
+};
@@ -0,0 +1,64 @@
+// backend/services/payments/signature.js
+// webhook ของ payment provider ลงชื่อด้วย HMAC-SHA256 ของ raw body
+// header: X-Payment-Signature: <hex>
+
+const crypto = require('crypto');
+
+const SIGNATURE_HEADER = 'x-payment-signature';
+const WEBHOOK_STATUSES = ['succeeded', 'failed', 'expired'];
+const DEV_WEBHOOK_SECRET = 'dev-payment-webhook-secret';
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// production ต้องตั้ง PAYMENT_WEBHOOK_SECRET เสมอ
+const getWebhookSecret = () => {
+  if (process.env.PAYMENT_WEBHOOK_SECRET) {
+    return process.env.PAYMENT_WEBHOOK_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw createError(503, 'Payment webhook secret is not configured');
+  }
+  return DEV_WEBHOOK_SECRET;
+};
+
+const signPayload = (rawBody) =>
+  crypto.createHmac('sha256', getWebhookSecret()).update(rawBody).digest('hex');
+
+/**
+ * Verify the signature of a webhook request and return the payment event:
+ * { reference, status, amount, transactionId, reason }.
+ * Requires express.json to keep the raw body (see server.js).
+ */
+const parseSignedWebhook = (req) => {
+  const signature = String(req.get(SIGNATURE_HEADER) || '');
+  const expected = signPayload(req.rawBody || '');
+
+  const valid = signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  if (!valid) {
+    throw createError(401, 'Invalid webhook signature');
+  }
+
+  const { reference, status, amount, transactionId, reason } = req.body || {};
+  if (!reference || !WEBHOOK_STATUSES.includes(status)) {
+    throw createError(400, 'Webhook must include a reference and a valid status');
+  }
+
+  return {
+    reference: String(reference),
+    status,
+    amount: amount !== undefined ? Number(amount) : undefined,
+    transactionId: transactionId ? String(transactionId) : undefined,
+    reason: reason ? String(reason).slice(0, 200) : undefined
+  };
+};
+
+module.exports = {
+  SIGNATURE_HEADER,
+  signPayload,
+  parseSignedWebhook
+};
@@ -0,0 +1,145 @@
+// backend/services/purchasing.js
+// รับของตามใบสั่งซื้อ และสร้างใบสั่งซื้อจากสต๊อกที่ใกล้หมด
+
+const mongoose = require('mongoose');
+const PurchaseOrder = require('../models/PurchaseOrder');
+const Supplier = require('../models/Supplier');
+const Stock = require('../models/Stock');
+
+// สั่งให้กลับไปที่ 2 เท่าของ reorderLevel
+const REORDER_TARGET_MULTIPLIER = 2;
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+/**
+ * Receive a sent purchase order: add stock and record a costed movement per line.
+ * `receivedQuantities` (keyed by line id) overrides the ordered quantity for short deliveries,
+ * `expiryDates` (keyed by line id) sets the expiry of the batch each line creates.
+ */
+const receivePurchaseOrder = async (purchaseOrderId, { receivedBy, receivedQuantities = {}, expiryDates = {} }) => {
+  const session = await mongoose.startSession();
+
+  try {
+    let purchaseOrder;
+
+    await session.withTransaction(async () => {
+      purchaseOrder = await PurchaseOrder.findById(purchaseOrderId).session(session);
+
+      if (!purchaseOrder) {
+        throw createError(404, 'Purchase order not found');
+      }
+
+      purchaseOrder.setStatus('received');
+      purchaseOrder.receivedBy = receivedBy;
+
+      for (const line of purchaseOrder.lines) {
+        const lineId = line._id.toString();
+        const override = receivedQuantities[lineId];
+        line.receivedQuantity = override !== undefined ? Number(override) : line.quantity;
+        if (line.receivedQuantity <= 0) continue;
+
+        // สินค้าใหม่ที่ยังไม่มีในสต๊อก สร้างไว้ที่ 0 ก่อนแล้วค่อยเพิ่ม
+        const exists = await Stock.exists({ itemType: line.itemType, name: line.name }).session(session);
+        if (!exists) {
+          await Stock.create([{ itemType: line.itemType, name: line.name, quantity: 0 }], { session });
+        }
+
+        await Stock.adjustQuantity(
+          { itemType: line.itemType, name: line.name },
+          line.receivedQuantity,
+          {
+            reason: 'restock',
+            purchaseOrder: purchaseOrder._id,
+            unitCost: line.unitCost,
+            expiresAt: expiryDates[lineId] ? new Date(expiryDates[lineId]) : undefined,
+            user: receivedBy,
+            note: purchaseOrder.poNumber,
+            session
+          }
+        );
+      }
+
+      await purchaseOrder.save({ session });
+    });
+
+    console.log('✅ Purchase order received:', purchaseOrder.poNumber);
+    return purchaseOrder;
+  } finally {
+    await session.endSession();
+  }
+};
+
+// รายการที่อยู่ในใบสั่งซื้อที่ยังไม่ได้รับของ (draft/sent) แล้ว
+const getOnOrderKeys = async () => {
+  const openOrders = await PurchaseOrder.find({ status: { $in: ['draft', 'sent'] } }).select('lines');
+  const keys = new Set();
+
+  openOrders.forEach(purchaseOrder => purchaseOrder.lines.forEach(line => {
+    if (line.quantity > 0) keys.add(`${line.itemType}:${line.name}`);
+  }));
+
+  return keys;
+};
+
+/**
+ * Create one draft purchase order per supplier for active low-stock items,
+ * using each item's cheapest active supplier. Items already on a draft or
+ * sent purchase order are skipped so repeated runs do not order twice.
+ */
+const generateFromLowStock = async ({ createdBy }) => {
+  const lowStock = (await Stock.getLowStockItems()).filter(item => item.isActive);
+  const onOrder = await getOnOrderKeys();
+  const linesBySupplier = new Map();
+  const unassigned = [];
+  const alreadyOrdered = [];
+
+  for (const item of lowStock) {
+    if (onOrder.has(`${item.itemType}:${item.name}`)) {
+      alreadyOrdered.push({ itemType: item.itemType, name: item.name, quantity: item.quantity });
+      continue;
+    }
+
+    const best = await Supplier.findCheapestFor(item.itemType, item.name);
+
+    if (!best) {
+      unassigned.push({ itemType: item.itemType, name: item.name, quantity: item.quantity });
+      continue;
+    }
+
+    const target = item.reorderLevel * REORDER_TARGET_MULTIPLIER;
+    const key = best.supplier._id.toString();
+    const entry = linesBySupplier.get(key) || { supplier: best.supplier, lines: [] };
+    entry.lines.push({
+      itemType: item.itemType,
+      name: item.name,
+      quantity: Math.max(target - item.quantity, 1),
+      unitCost: best.unitCost
+    });
+    linesBySupplier.set(key, entry);
+  }
+
+  const purchaseOrders = [];
+  for (const { supplier, lines } of linesBySupplier.values()) {
+    const purchaseOrder = new PurchaseOrder({
+      supplier: supplier._id,
+      lines,
+      createdBy,
+      expectedAt: new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000),
+      notes: 'Generated from low stock'
+    });
+    await purchaseOrder.save();
+    purchaseOrders.push(purchaseOrder);
+  }
+
+  console.log(`✅ Generated ${purchaseOrders.length} purchase orders from ${lowStock.length} low-stock items`);
+  return { purchaseOrders, unassigned, alreadyOrdered };
+};
+
+module.exports = {
+  receivePurchaseOrder,
+  generateFromLowStock
+};
@@ -0,0 +1,301 @@
+// backend/services/reports.js
+// รายงานยอดขายด้วย aggregation ฝั่ง server (แบ่งวัน/ชั่วโมงตามเวลาไทย)
+
+const Order = require('../models/Order');
+
+const REPORT_TIMEZONE = 'Asia/Bangkok';
+
+// ออเดอร์ที่ยกเลิกถูกคืนเงินแล้ว / ยังไม่ได้ชำระเงิน ไม่นับเป็นยอดขาย
+const SOLD = { status: { $nin: ['Cancelled', 'AwaitingPayment'] } };
+
+const matchRange = ({ start, end }, extra = {}) => {
+  const match = { ...extra };
+  if (start || end) {
+    match.createdAt = {};
+    if (start) match.createdAt.$gte = start;
+    if (end) match.createdAt.$lt = end;
+  }
+  return match;
+};
+
+/**
+ * Totals for the range: orders by status, revenue, cups, completion rate
+ * and average prep time (paid → ready, ordered → ready for older orders).
+ */
+const getSalesSummary = async (range) => {
+  const [result] = await Order.aggregate([
+    { $match: matchRange(range) },
+    {
+      $facet: {
+        byStatus: [
+          { $group: { _id: '$status', count: { $sum: 1 } } }
+        ],
+        sales: [
+          { $match: SOLD },
+          {
+            $group: {
+              _id: null,
+              orders: { $sum: 1 },
+              revenue: { $sum: '$pricing.total' },
+              discount: { $sum: '$pricing.discount' },
+              cups: { $sum: { $size: '$items' } }
+            }
+          }
+        ],
+        prep: [
+          { $match: { 'timestamps.ready': { $exists: true }, 'timestamps.ordered': { $exists: true } } },
+          {
+            $group: {
+              _id: null,
+              averageMs: { $avg: { $subtract: ['$timestamps.ready', Order.QUEUED_AT] } },
+              orders: { $sum: 1 }
+            }
+          }
+        ]
+      }
+    }
+  ]);
+
+  const ordersByStatus = result.byStatus.reduce((counts, { _id, count }) => {
+    counts[_id] = count;
+    return counts;
+  }, {});
+  const totalOrders = Object.values(ordersByStatus).reduce((sum, count) => sum + count, 0);
+  const sales = result.sales[0] || { orders: 0, revenue: 0, discount: 0, cups: 0 };
+  const prep = result.prep[0];
+
+  return {
+    totalOrders,
+    ordersByStatus,
+    soldOrders: sales.orders,
+    revenue: sales.revenue,
+    discount: sales.discount,
+    cups: sales.cups,
+    averageOrderValue: sales.orders > 0 ? sales.revenue / sales.orders : 0,
+    completionRate: totalOrders > 0 ? (ordersByStatus.Completed || 0) / totalOrders * 100 : 0,
+    averagePrepMinutes: prep ? Math.round(prep.averageMs / 60000 * 10) / 10 : null,
+    prepSampleSize: prep ? prep.orders : 0
+  };
+};
+
+/**
+ * Revenue grouped by Bangkok calendar day (`day`) or by hour of day (`hour`, 0-23).
+ */
+const getRevenueBreakdown = async (range, groupBy = 'day') => {
+  const key = groupBy === 'hour'
+    ? { $hour: { date: '$createdAt', timezone: REPORT_TIMEZONE } }
+    : { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: REPORT_TIMEZONE } };
+
+  const rows = await Order.aggregate([
+    { $match: matchRange(range, SOLD) },
+    {
+      $group: {
+        _id: key,
+        orders: { $sum: 1 },
+        cups: { $sum: { $size: '$items' } },
+        revenue: { $sum: '$pricing.total' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  return rows.map(({ _id, orders, cups, revenue }) => ({
+    [groupBy === 'hour' ? 'hour' : 'date']: _id,
+    orders,
+    cups,
+    revenue,
+    averageOrderValue: orders > 0 ? revenue / orders : 0
+  }));
+};
+
+// แยกยอดตามวิธีชำระจาก payments[] (รวมแก้วฟรี = ส่วนลด ผลรวมทุกวิธีจึงเท่ากับยอดก่อนหักส่วนลด)
+// ออเดอร์เก่าที่ยังไม่มี payments[] ใช้ paymentMethod + ส่วนลดแก้วฟรีแทน
+const PAYMENT_BREAKDOWN_STAGES = [
+  {
+    $project: {
+      entries: {
+        $cond: [
+          { $gt: [{ $size: { $ifNull: ['$payments', []] } }, 0] },
+          '$payments',
+          {
+            $filter: {
+              input: [
+                { method: { $ifNull: ['$paymentMethod', 'cash'] }, amount: '$pricing.total' },
+                { method: 'free-drink', amount: '$pricing.discount' }
+              ],
+              cond: { $gt: ['$$this.amount', 0] }
+            }
+          }
+        ]
+      }
+    }
+  },
+  { $unwind: '$entries' },
+  // ออเดอร์ที่จ่ายเงินสดหลายครั้งนับเป็น 1 ออเดอร์
+  {
+    $group: {
+      _id: { order: '$_id', method: '$entries.method' },
+      amount: { $sum: '$entries.amount' },
+      change: { $sum: { $ifNull: ['$entries.change', 0] } }
+    }
+  },
+  {
+    $group: {
+      _id: '$_id.method',
+      orders: { $sum: 1 },
+      revenue: { $sum: '$amount' },
+      changeGiven: { $sum: '$change' }
+    }
+  },
+  { $sort: { revenue: -1, _id: 1 } }
+];
+
+const toPaymentRows = rows => rows.map(({ _id, orders, revenue, changeGiven }) => ({ method: _id, orders, revenue, changeGiven }));
+
+/**
+ * Revenue per payment method (cash, card, PromptPay, voucher, free drink...).
+ */
+const getPaymentBreakdown = async (range) => {
+  const rows = await Order.aggregate([
+    { $match: matchRange(range, SOLD) },
+    ...PAYMENT_BREAKDOWN_STAGES
+  ]);
+
+  return toPaymentRows(rows);
+};
+
+/**
+ * Cups sold per flavor, topping and cup size.
+ */
+const getItemMix = async (range) => {
+  const [result] = await Order.aggregate([
+    { $match: matchRange(range, SOLD) },
+    { $unwind: '$items' },
+    {
+      $facet: {
+        flavors: [
+          {
+            $group: {
+              _id: '$items.shavedIce.flavor',
+              count: { $sum: 1 },
+              revenue: { $sum: '$items.pricing.total' }
+            }
+          },
+          { $sort: { count: -1, _id: 1 } }
+        ],
+        toppings: [
+          { $unwind: '$items.toppings' },
+          {
+            $group: {
+              _id: '$items.toppings.name',
+              count: { $sum: 1 },
+              revenue: { $sum: '$items.toppings.price' }
+            }
+          },
+          { $sort: { count: -1, _id: 1 } }
+        ],
+        sizes: [
+          { $group: { _id: '$items.cupSize', count: { $sum: 1 } } },
+          { $sort: { _id: 1 } }
+        ]
+      }
+    }
+  ]);
+
+  const toEntries = rows => rows.map(({ _id, count, revenue }) => ({ name: _id, count, revenue }));
+
+  return {
+    flavors: toEntries(result.flavors),
+    toppings: toEntries(result.toppings),
+    sizes: result.sizes.map(({ _id, count }) => ({ size: _id, count }))
+  };
+};
+
+/**
+ * Most common flavor + topping combinations (topping order ignored).
+ */
+const getTopCombos = async (range, limit = 5) => {
+  const rows = await Order.aggregate([
+    { $match: matchRange(range, SOLD) },
+    { $unwind: '$items' },
+    {
+      $group: {
+        _id: {
+          flavor: '$items.shavedIce.flavor',
+          toppings: { $sortArray: { input: '$items.toppings.name', sortBy: 1 } }
+        },
+        count: { $sum: 1 }
+      }
+    },
+    { $sort: { count: -1 } },
+    { $limit: limit }
+  ]);
+
+  return rows.map(({ _id, count }) => ({
+    flavor: _id.flavor,
+    toppings: _id.toppings,
+    combo: `${_id.flavor} + ${_id.toppings.length > 0 ? _id.toppings.join(', ') : 'No toppings'}`,
+    count
+  }));
+};
+
+// ตัวเลขใน summary ที่เทียบกับช่วงก่อนหน้า
+const SUMMARY_METRICS = [
+  'totalOrders',
+  'soldOrders',
+  'revenue',
+  'discount',
+  'cups',
+  'averageOrderValue',
+  'completionRate',
+  'averagePrepMinutes'
+];
+
+// % เปลี่ยนแปลงจากช่วงก่อนหน้า (null = เทียบไม่ได้ เช่นช่วงก่อนเป็น 0)
+const percentChange = (current, previous) => {
+  if (current === null || current === undefined || previous === null || previous === undefined) return null;
+  if (previous === 0) return current === 0 ? 0 : null;
+  return Math.round((current - previous) / previous * 1000) / 10;
+};
+
+const compareSummary = (current, previous) => SUMMARY_METRICS.reduce((change, metric) => {
+  change[metric] = percentChange(current[metric], previous[metric]);
+  return change;
+}, {});
+
+/**
+ * Attach `previous` values and `change` (%) for `fields` to each row, matched
+ * by `key`. Rows that only exist in the previous period are appended with zeros
+ * so drops to nothing still show up.
+ */
+const compareRows = (current, previous, key, fields) => {
+  const previousByKey = new Map(previous.map(row => [row[key], row]));
+  const currentKeys = new Set(current.map(row => row[key]));
+  const zeroed = row => fields.reduce((empty, field) => ({ ...empty, [field]: 0 }), { [key]: row[key] });
+
+  return [
+    ...current,
+    ...previous.filter(row => !currentKeys.has(row[key])).map(zeroed)
+  ].map(row => {
+    const before = previousByKey.get(row[key]) || zeroed(row);
+    return {
+      ...row,
+      previous: fields.reduce((values, field) => ({ ...values, [field]: before[field] }), {}),
+      change: fields.reduce((values, field) => ({ ...values, [field]: percentChange(row[field], before[field]) }), {})
+    };
+  });
+};
+
+module.exports = {
+  REPORT_TIMEZONE,
+  PAYMENT_BREAKDOWN_STAGES,
+  toPaymentRows,
+  percentChange,
+  compareSummary,
+  compareRows,
+  getSalesSummary,
+  getRevenueBreakdown,
+  getPaymentBreakdown,
+  getItemMix,
+  getTopCombos
+};
@@ -0,0 +1,115 @@
+// backend/services/stocktakes.js
+// เริ่มรอบนับสต๊อก และยืนยันผลนับเป็นการปรับยอด (correction) ใน ledger
+
+const mongoose = require('mongoose');
+const Stocktake = require('../models/Stocktake');
+const Stock = require('../models/Stock');
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+/**
+ * Start a count session with a snapshot of every active stock item.
+ * Only one session can be in progress at a time.
+ */
+const startStocktake = async ({ startedBy, note }) => {
+  const open = await Stocktake.exists({ status: 'in-progress' });
+  if (open) {
+    throw createError(409, 'A stocktake is already in progress');
+  }
+
+  const stocks = await Stock.find({ isActive: true }).sort('itemType name');
+  const stocktake = await Stocktake.create({
+    startedBy,
+    note,
+    lines: stocks.map(stock => ({
+      stock: stock._id,
+      itemType: stock.itemType,
+      name: stock.name,
+      unit: stock.unit,
+      expectedQuantity: stock.quantity
+    }))
+  });
+
+  console.log(`📋 Stocktake started with ${stocktake.lines.length} items`);
+  return stocktake;
+};
+
+/**
+ * Correction for one counted line. Variance is counted minus the system
+ * quantity saved with the count (current quantity for counts saved before
+ * that was recorded). Stock can only go down to zero, so the delta applied
+ * is capped by what is left now.
+ */
+const getCorrection = (line, currentQuantity) => {
+  const systemQuantity = line.systemQuantity === undefined || line.systemQuantity === null
+    ? currentQuantity
+    : line.systemQuantity;
+  const variance = line.countedQuantity - systemQuantity;
+
+  return { systemQuantity, variance, delta: Math.max(variance, -currentQuantity) };
+};
+
+/**
+ * Apply every counted line as a correction. Variance is measured against the
+ * system quantity saved with the count, and applied as a delta so sales made
+ * after counting stay deducted. Uncounted lines are left untouched.
+ */
+const commitStocktake = async (stocktakeId, { committedBy }) => {
+  const session = await mongoose.startSession();
+
+  try {
+    let stocktake;
+
+    await session.withTransaction(async () => {
+      stocktake = await Stocktake.findById(stocktakeId).session(session);
+
+      if (!stocktake) {
+        throw createError(404, 'Stocktake not found');
+      }
+      if (stocktake.status !== 'in-progress') {
+        throw createError(409, `Stocktake is already ${stocktake.status}`);
+      }
+
+      for (const line of stocktake.lines) {
+        if (line.countedQuantity === null) continue;
+
+        const stock = await Stock.findById(line.stock).session(session);
+        if (!stock) continue;
+
+        const { systemQuantity, variance, delta } = getCorrection(line, stock.quantity);
+        line.systemQuantity = systemQuantity;
+        line.variance = variance;
+
+        if (delta !== 0) {
+          await Stock.adjustQuantity({ _id: stock._id }, delta, {
+            reason: 'correction',
+            stocktake: stocktake._id,
+            user: committedBy,
+            note: 'Stocktake count',
+            session
+          });
+        }
+      }
+
+      stocktake.status = 'committed';
+      stocktake.committedBy = committedBy;
+      stocktake.committedAt = new Date();
+      await stocktake.save({ session });
+    });
+
+    console.log(`✅ Stocktake committed: ${stocktake.getSummary().withVariance} items adjusted`);
+    return stocktake;
+  } finally {
+    await session.endSession();
+  }
+};
+
+module.exports = {
+  getCorrection,
+  startStocktake,
+  commitStocktake
+};
@@ -0,0 +1,140 @@
+// backend/services/waste.js
+// บันทึกของเสีย (ตัดสต๊อก + ต้นทุน) และรายงานของเสียเทียบกับการใช้จริง
+
+const Stock = require('../models/Stock');
+const StockMovement = require('../models/StockMovement');
+const Supplier = require('../models/Supplier');
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// ต้นทุนต่อหน่วยล่าสุด: จากการรับของตามใบสั่งซื้อ หรือราคาซัพพลายเออร์ที่ถูกที่สุด
+const getLatestUnitCost = async (stock) => {
+  const lastCosted = await StockMovement.findOne({
+    stock: stock._id,
+    unitCost: { $ne: null }
+  }).sort('-createdAt');
+
+  if (lastCosted) return lastCosted.unitCost;
+
+  const cheapest = await Supplier.findCheapestFor(stock.itemType, stock.name);
+  return cheapest ? cheapest.unitCost : undefined;
+};
+
+/**
+ * Remove wasted stock and record it as a costed `waste` movement.
+ * `batch` writes off a specific batch instead of consuming first-expiring-first.
+ */
+const logWaste = async (stockId, quantity, { category = 'other', note, user, batch } = {}) => {
+  const existing = await Stock.findById(stockId);
+
+  if (!existing) {
+    throw createError(404, 'Stock item not found');
+  }
+
+  const unitCost = await getLatestUnitCost(existing);
+  const stock = await Stock.adjustQuantity({ _id: existing._id }, -quantity, {
+    reason: 'waste',
+    wasteCategory: category,
+    unitCost,
+    batch,
+    user,
+    note
+  });
+
+  if (!stock) {
+    throw createError(400, `Cannot waste more than in stock. Available: ${existing.quantity}`);
+  }
+
+  console.log(`🗑️ Waste logged: ${quantity} ${stock.unit} ${stock.name} (${category})`);
+  return stock;
+};
+
+/**
+ * Waste per item and per category between two dates. Waste % is
+ * waste / (sold + waste), with cancelled orders' returned stock netted out of sales.
+ */
+const getWasteReport = async ({ startDate, endDate }) => {
+  const createdAt = {};
+  if (startDate) createdAt.$gte = startDate;
+  if (endDate) createdAt.$lt = endDate;
+
+  const match = { reason: { $in: ['waste', 'sale', 'cancel-return'] } };
+  if (startDate || endDate) match.createdAt = createdAt;
+
+  const groups = await StockMovement.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: { stock: '$stock', reason: '$reason', wasteCategory: '$wasteCategory' },
+        itemType: { $first: '$itemType' },
+        name: { $first: '$name' },
+        quantity: { $sum: '$delta' },
+        cost: { $sum: { $ifNull: ['$totalCost', 0] } },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  const stocks = await Stock.find({ _id: { $in: groups.map(g => g._id.stock) } }).select('unit');
+  const unitById = new Map(stocks.map(s => [s._id.toString(), s.unit]));
+
+  const items = new Map();
+  const categories = new Map();
+
+  groups.forEach(group => {
+    const key = group._id.stock.toString();
+    const item = items.get(key) || {
+      itemType: group.itemType,
+      name: group.name,
+      unit: unitById.get(key) || '',
+      used: 0,
+      wasted: 0,
+      wasteCost: 0
+    };
+
+    if (group._id.reason === 'waste') {
+      item.wasted += -group.quantity;
+      item.wasteCost += group.cost;
+
+      const categoryKey = group._id.wasteCategory || 'other';
+      const category = categories.get(categoryKey) || { category: categoryKey, entries: 0, cost: 0 };
+      category.entries += group.count;
+      category.cost += group.cost;
+      categories.set(categoryKey, category);
+    } else {
+      // sale เป็นค่าลบ, cancel-return เป็นค่าบวก
+      item.used += -group.quantity;
+    }
+
+    items.set(key, item);
+  });
+
+  const byItem = [...items.values()]
+    .filter(item => item.wasted > 0)
+    .map(item => ({
+      ...item,
+      used: Math.max(item.used, 0),
+      wastePercent: item.wasted / (Math.max(item.used, 0) + item.wasted) * 100
+    }))
+    .sort((a, b) => b.wasteCost - a.wasteCost || b.wastePercent - a.wastePercent);
+
+  const byCategory = [...categories.values()].sort((a, b) => b.cost - a.cost);
+
+  return {
+    byItem,
+    byCategory,
+    totals: {
+      wasteCost: byItem.reduce((sum, item) => sum + item.wasteCost, 0),
+      entries: byCategory.reduce((sum, category) => sum + category.entries, 0)
+    }
+  };
+};
+
+module.exports = {
+  logWaste,
+  getWasteReport
+};
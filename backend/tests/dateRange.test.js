@@ -0,0 +1,73 @@
+// backend/tests/dateRange.test.js - ช่วงวันที่ของรายงานตามเวลาไทย
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseReportDate,
+  toBusinessDate,
+  businessDayRange,
+  resolvePeriod,
+  resolveRangeQuery
+} = require('../utils/dateRange');
+
+// 2026-03-15 10:00 เวลาไทย
+const NOW = new Date('2026-03-15T03:00:00Z');
+
+const iso = range => ({ start: range.start.toISOString(), end: range.end.toISOString() });
+
+test('a date-only boundary is Bangkok midnight, end of day is the next midnight', () => {
+  assert.equal(parseReportDate('2026-03-15').toISOString(), '2026-03-14T17:00:00.000Z');
+  assert.equal(parseReportDate('2026-03-15', { endOfDay: true }).toISOString(), '2026-03-15T17:00:00.000Z');
+  assert.equal(parseReportDate(''), undefined);
+});
+
+test('business date follows Bangkok time across UTC midnight', () => {
+  assert.equal(toBusinessDate(new Date('2026-03-14T16:59:59Z')), '2026-03-14');
+  assert.equal(toBusinessDate(new Date('2026-03-14T17:00:00Z')), '2026-03-15');
+});
+
+test('business day range covers 00:00-24:00 Bangkok time', () => {
+  assert.deepEqual(iso(businessDayRange('2026-03-15')), {
+    start: '2026-03-14T17:00:00.000Z',
+    end: '2026-03-15T17:00:00.000Z'
+  });
+});
+
+test('today is compared with yesterday', () => {
+  const range = resolvePeriod('today', { now: NOW });
+  assert.deepEqual(iso(range), { start: '2026-03-14T17:00:00.000Z', end: '2026-03-15T17:00:00.000Z' });
+  assert.deepEqual(iso(range.previous), { start: '2026-03-13T17:00:00.000Z', end: '2026-03-14T17:00:00.000Z' });
+});
+
+test('last 7 days includes today and is compared with the 7 days before', () => {
+  const range = resolvePeriod('last-7-days', { now: NOW });
+  assert.deepEqual(iso(range), { start: '2026-03-08T17:00:00.000Z', end: '2026-03-15T17:00:00.000Z' });
+  assert.deepEqual(iso(range.previous), { start: '2026-03-01T17:00:00.000Z', end: '2026-03-08T17:00:00.000Z' });
+});
+
+test('last month wraps into the previous year', () => {
+  const range = resolvePeriod('last-month', { now: new Date('2026-01-10T03:00:00Z') });
+  assert.deepEqual(iso(range), { start: '2025-11-30T17:00:00.000Z', end: '2025-12-31T17:00:00.000Z' });
+  assert.deepEqual(iso(range.previous), { start: '2025-10-31T17:00:00.000Z', end: '2025-11-30T17:00:00.000Z' });
+});
+
+test('a quarter needs a year and a quarter between 1 and 4', () => {
+  const range = resolvePeriod('quarter', { year: 2025, quarter: 4, now: NOW });
+  assert.deepEqual(iso(range), { start: '2025-09-30T17:00:00.000Z', end: '2025-12-31T17:00:00.000Z' });
+  assert.throws(() => resolvePeriod('quarter', { year: 2025, quarter: 5 }), { status: 400 });
+  assert.throws(() => resolvePeriod('fortnight'), { status: 400 });
+});
+
+test('all time has no bounds and nothing to compare with', () => {
+  assert.deepEqual(resolvePeriod('all', { now: NOW }), { start: undefined, end: undefined, previous: null });
+});
+
+test('a custom range includes its end date and is compared with an equally long range before it', () => {
+  const range = resolveRangeQuery({ startDate: '2026-03-10', endDate: '2026-03-12' });
+  assert.deepEqual(iso(range), { start: '2026-03-09T17:00:00.000Z', end: '2026-03-12T17:00:00.000Z' });
+  assert.deepEqual(iso(range.previous), { start: '2026-03-06T17:00:00.000Z', end: '2026-03-09T17:00:00.000Z' });
+});
+
+test('a custom range must start before it ends, open-ended ranges have no previous period', () => {
+  assert.throws(() => resolveRangeQuery({ startDate: '2026-03-12', endDate: '2026-03-10' }), { status: 400 });
+  assert.equal(resolveRangeQuery({ startDate: '2026-03-10' }).previous, null);
+});
@@ -0,0 +1,39 @@
+// backend/tests/loyalty.test.js - ย้อนสแตมป์ตอนยกเลิกออเดอร์
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const User = require('../models/User');
+
+const cardOf = (stamps, totalFreeDrinks) =>
+  new User({ loyaltyCard: { stamps, totalFreeDrinks } });
+
+test('removes one stamp from an order that did not earn a free drink', () => {
+  const user = cardOf(3, 1);
+  user.removeLoyaltyStamp(false);
+  assert.equal(user.loyaltyCard.stamps, 2);
+  assert.equal(user.loyaltyCard.totalFreeDrinks, 1);
+});
+
+test('never goes below zero stamps', () => {
+  const user = cardOf(0, 0);
+  user.removeLoyaltyStamp(false);
+  assert.equal(user.loyaltyCard.stamps, 0);
+});
+
+test('reversing a free-drink order restores 8 stamps and takes the free drink back', () => {
+  const user = cardOf(0, 1);
+  user.removeLoyaltyStamp(true);
+  assert.equal(user.loyaltyCard.stamps, 8);
+  assert.equal(user.loyaltyCard.totalFreeDrinks, 0);
+});
+
+test('stamps earned after the free-drink order are kept and the next order earns the free drink', () => {
+  const user = cardOf(3, 1);
+  user.removeLoyaltyStamp(true);
+  assert.equal(user.loyaltyCard.stamps, 11);
+  assert.equal(user.loyaltyCard.totalFreeDrinks, 0);
+
+  // 11 + 1 = 12 → ได้แก้วฟรีคืน เหลือ 3 สแตมป์ทดไปรอบใหม่
+  assert.equal(user.addLoyaltyStamp(), true);
+  assert.equal(user.loyaltyCard.stamps, 3);
+  assert.equal(user.loyaltyCard.totalFreeDrinks, 1);
+});
@@ -0,0 +1,61 @@
+// backend/tests/promptpay.test.js - EMVCo payload + CRC ของ PromptPay QR
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { crc16, buildPromptPayPayload } = require('../services/payments/promptpay');
+
+// แยก payload เป็น { id: value } ตามรูปแบบ ID + ความยาว 2 หลัก + ค่า
+const parseFields = (payload) => {
+  const fields = {};
+  let index = 0;
+  while (index < payload.length) {
+    const id = payload.slice(index, index + 2);
+    const length = Number(payload.slice(index + 2, index + 4));
+    fields[id] = payload.slice(index + 4, index + 4 + length);
+    index += 4 + length;
+  }
+  return fields;
+};
+
+test('crc16 matches the CRC-16/CCITT-FALSE check value', () => {
+  assert.equal(crc16('123456789'), '29B1');
+});
+
+test('crc16 matches a published PromptPay QR', () => {
+  // ตัวอย่าง 000-000-0000 ยอด 4.22 บาท
+  assert.equal(crc16('00020101021229370016A000000677010111011300660000000005802TH530376454044.226304'), 'E469');
+});
+
+test('a mobile number becomes 0066 + number without the leading zero', () => {
+  const fields = parseFields(buildPromptPayPayload({ id: '081-234-5678' }));
+  assert.equal(fields['29'], '0016A00000067701011101130066812345678');
+});
+
+test('without an amount the QR is reusable, with an amount it is single-use', () => {
+  assert.equal(parseFields(buildPromptPayPayload({ id: '0812345678' }))['01'], '11');
+
+  const fields = parseFields(buildPromptPayPayload({ id: '0812345678', amount: 85.5 }));
+  assert.equal(fields['01'], '12');
+  assert.equal(fields['54'], '85.50');
+  assert.equal(fields['53'], '764');
+  assert.equal(fields['58'], 'TH');
+});
+
+test('13-digit tax IDs and 15-digit e-wallet IDs use their own tags', () => {
+  assert.match(parseFields(buildPromptPayPayload({ id: '1234567890123' }))['29'], /02131234567890123$/);
+  assert.match(parseFields(buildPromptPayPayload({ id: '123456789012345' }))['29'], /0315123456789012345$/);
+});
+
+test('the reference is stripped to letters and digits in the additional data field', () => {
+  const fields = parseFields(buildPromptPayPayload({ id: '0812345678', amount: 10, reference: 'ORD-2026-0001' }));
+  assert.equal(fields['62'], '0511ORD20260001');
+});
+
+test('the payload ends with the CRC of everything before it', () => {
+  const payload = buildPromptPayPayload({ id: '0812345678', amount: 120, reference: 'ORD1' });
+  assert.equal(payload.slice(-8, -4), '6304');
+  assert.equal(payload.slice(-4), crc16(payload.slice(0, -4)));
+});
+
+test('an invalid PromptPay ID is rejected with 400', () => {
+  assert.throws(() => buildPromptPayPayload({ id: '12345' }), { status: 400 });
+});
@@ -0,0 +1,61 @@
+// backend/tests/reportComparison.test.js - % เปลี่ยนแปลงเทียบกับช่วงก่อนหน้า
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { percentChange, compareRows } = require('../services/reports');
+
+test('percent change is rounded to one decimal', () => {
+  assert.equal(percentChange(150, 100), 50);
+  assert.equal(percentChange(50, 100), -50);
+  assert.equal(percentChange(1, 3), -66.7);
+});
+
+test('percent change from zero is 0 when still zero, otherwise undefined (null)', () => {
+  assert.equal(percentChange(0, 0), 0);
+  assert.equal(percentChange(10, 0), null);
+});
+
+test('percent change is null when either side is missing', () => {
+  assert.equal(percentChange(null, 10), null);
+  assert.equal(percentChange(10, undefined), null);
+});
+
+test('compareRows matches rows by key and attaches previous values and change', () => {
+  const rows = compareRows(
+    [{ method: 'cash', orders: 4, revenue: 300 }],
+    [{ method: 'cash', orders: 2, revenue: 200 }],
+    'method',
+    ['orders', 'revenue']
+  );
+
+  assert.deepEqual(rows, [{
+    method: 'cash',
+    orders: 4,
+    revenue: 300,
+    previous: { orders: 2, revenue: 200 },
+    change: { orders: 100, revenue: 50 }
+  }]);
+});
+
+test('compareRows treats rows missing from the previous period as zero', () => {
+  const [row] = compareRows([{ name: 'Matcha', count: 5 }], [], 'name', ['count']);
+
+  assert.deepEqual(row.previous, { count: 0 });
+  assert.deepEqual(row.change, { count: null });
+});
+
+test('compareRows keeps rows that dropped to nothing', () => {
+  const rows = compareRows(
+    [{ name: 'Matcha', count: 5 }],
+    [{ name: 'Matcha', count: 5 }, { name: 'Thai Tea', count: 4 }],
+    'name',
+    ['count']
+  );
+
+  assert.equal(rows.length, 2);
+  assert.deepEqual(rows[1], {
+    name: 'Thai Tea',
+    count: 0,
+    previous: { count: 4 },
+    change: { count: -100 }
+  });
+});
@@ -0,0 +1,71 @@
+// backend/tests/stocktake.test.js - บันทึกผลนับพร้อมจำนวนในระบบตอนนับ
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Stocktake = require('../models/Stocktake');
+const { getCorrection } = require('../services/stocktakes');
+
+const stockId = new mongoose.Types.ObjectId();
+const otherId = new mongoose.Types.ObjectId();
+
+const newStocktake = () => new Stocktake({
+  lines: [{ stock: stockId, itemType: 'ingredient', name: 'Milk', unit: 'ml', expectedQuantity: 10 }]
+});
+
+test('saves the system quantity at count time with each count', () => {
+  const stocktake = newStocktake();
+  const updated = stocktake.saveCounts([{ stock: stockId, countedQuantity: '7' }], new Map([[stockId.toString(), 8]]));
+
+  const [line] = stocktake.lines;
+  assert.equal(updated, 1);
+  assert.equal(line.countedQuantity, 7);
+  assert.equal(line.systemQuantity, 8);
+  assert.ok(line.countedAt instanceof Date);
+});
+
+test('clearing a count also clears its system quantity', () => {
+  const stocktake = newStocktake();
+  stocktake.saveCounts([{ stock: stockId, countedQuantity: 7 }], new Map([[stockId.toString(), 8]]));
+  stocktake.saveCounts([{ stock: stockId, countedQuantity: null }], new Map());
+
+  assert.equal(stocktake.lines[0].countedQuantity, null);
+  assert.equal(stocktake.lines[0].systemQuantity, undefined);
+});
+
+test('ignores items that are not part of the stocktake', () => {
+  const stocktake = newStocktake();
+  const updated = stocktake.saveCounts([{ stock: otherId, countedQuantity: 3 }], new Map());
+
+  assert.equal(updated, 0);
+  assert.equal(stocktake.lines[0].countedQuantity, null);
+});
+
+test('summary counts lines with a variance', () => {
+  const stocktake = newStocktake();
+  stocktake.lines[0].countedQuantity = 7;
+  stocktake.lines[0].variance = -1;
+
+  assert.deepEqual(stocktake.getSummary(), { items: 1, counted: 1, withVariance: 1 });
+});
+
+test('variance is measured against the quantity at count time', () => {
+  // นับได้ 7 ตอนระบบมี 8 แล้วขายไปอีก 3 ก่อนยืนยัน → ปรับ -1 ไม่คืน 3 ที่ขายไปกลับเข้าสต๊อก
+  assert.deepEqual(
+    getCorrection({ countedQuantity: 7, systemQuantity: 8 }, 5),
+    { systemQuantity: 8, variance: -1, delta: -1 }
+  );
+});
+
+test('counts saved without a system quantity fall back to the current quantity', () => {
+  assert.deepEqual(
+    getCorrection({ countedQuantity: 7, systemQuantity: undefined }, 5),
+    { systemQuantity: 5, variance: 2, delta: 2 }
+  );
+});
+
+test('a correction never takes stock below zero', () => {
+  assert.deepEqual(
+    getCorrection({ countedQuantity: 0, systemQuantity: 10 }, 4),
+    { systemQuantity: 10, variance: -10, delta: -4 }
+  );
+});
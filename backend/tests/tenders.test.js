@@ -0,0 +1,59 @@
+// backend/tests/tenders.test.js - ตรวจการแบ่งจ่ายที่เคาน์เตอร์
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { buildTenderEntries } = require('../services/payments');
+
+const STAFF = 'staff-1';
+
+test('a single exact tender becomes one payment entry', () => {
+  assert.deepEqual(buildTenderEntries([{ method: 'card', amount: 120 }], 120, STAFF), [
+    { method: 'card', amount: 120, reference: undefined, recordedBy: STAFF }
+  ]);
+});
+
+test('cash records what was tendered and the change', () => {
+  const [entry] = buildTenderEntries([{ method: 'cash', amount: 85, tendered: 100 }], 85, STAFF);
+  assert.equal(entry.tendered, 100);
+  assert.equal(entry.change, 15);
+});
+
+test('cash without a tendered amount is treated as exact', () => {
+  const [entry] = buildTenderEntries([{ method: 'cash', amount: 85 }], 85, STAFF);
+  assert.equal(entry.tendered, 85);
+  assert.equal(entry.change, 0);
+});
+
+test('split tenders must add up to the amount due', () => {
+  const entries = buildTenderEntries([
+    { method: 'voucher', amount: 50, reference: 'GIFT-01' },
+    { method: 'cash', amount: 35.1, tendered: 40 },
+    { method: 'promptpay', amount: 35.2 }
+  ], 120.3, STAFF);
+
+  assert.deepEqual(entries.map(entry => entry.method), ['voucher', 'cash', 'promptpay']);
+  assert.equal(entries[1].change, 4.9);
+
+  assert.throws(
+    () => buildTenderEntries([{ method: 'card', amount: 50 }, { method: 'cash', amount: 60 }], 120, STAFF),
+    { status: 400, message: /total ฿110 but ฿120 is due/ }
+  );
+});
+
+test('cash tendered must cover the cash amount', () => {
+  assert.throws(
+    () => buildTenderEntries([{ method: 'cash', amount: 85, tendered: 80 }], 85, STAFF),
+    { status: 400 }
+  );
+});
+
+test('only cash can be over-tendered', () => {
+  assert.throws(
+    () => buildTenderEntries([{ method: 'card', amount: 85, tendered: 100 }], 85, STAFF),
+    { status: 400, message: /only be given for cash/ }
+  );
+});
+
+test('vouchers need a code and free drinks cannot be entered by staff', () => {
+  assert.throws(() => buildTenderEntries([{ method: 'voucher', amount: 85 }], 85, STAFF), { status: 400 });
+  assert.throws(() => buildTenderEntries([{ method: 'free-drink', amount: 85 }], 85, STAFF), { status: 400 });
+});
@@ -0,0 +1,156 @@
+// backend/utils/dateRange.js
+// ช่วงวันที่ของรายงานตามปฏิทินไทย (Asia/Bangkok, UTC+7 ไม่มี DST)
+// ทุกช่วงเป็น { start, end } โดย end ไม่นับรวม (exclusive)
+
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const REPORT_PERIODS = [
+  'today',
+  'yesterday',
+  'last-7-days',
+  'last-30-days',
+  'this-month',
+  'last-month',
+  'this-quarter',
+  'last-quarter',
+  'quarter',
+  'this-year',
+  'all'
+];
+
+// เที่ยงคืนเวลาไทยของวันที่ระบุ (month/day เกินช่วงได้ Date.UTC จะเลื่อนให้เอง)
+const bangkokMidnight = (year, month, day) => new Date(Date.UTC(year, month, day) - BANGKOK_OFFSET_MS);
+
+const bangkokToday = (now = new Date()) => {
+  const local = new Date(now.getTime() + BANGKOK_OFFSET_MS);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+};
+
+const createError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+/**
+ * Parse a report boundary. `YYYY-MM-DD` is a Bangkok calendar day:
+ * the start of that day, or the start of the next day when `endOfDay` is set
+ * (so the end date is inclusive). Anything else is parsed as an ISO timestamp.
+ */
+const parseReportDate = (value, { endOfDay = false } = {}) => {
+  if (!value) return undefined;
+
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    const start = bangkokMidnight(year, month - 1, day).getTime();
+    return new Date(endOfDay ? start + DAY_MS : start);
+  }
+
+  return new Date(value);
+};
+
+// วันทำการ (YYYY-MM-DD ตามเวลาไทย) ของเวลาที่ระบุ
+const toBusinessDate = (value = new Date()) =>
+  new Date(new Date(value).getTime() + BANGKOK_OFFSET_MS).toISOString().slice(0, 10);
+
+// ช่วง 00:00 - 24:00 เวลาไทยของวันทำการ YYYY-MM-DD
+const businessDayRange = (businessDate) => ({
+  start: parseReportDate(businessDate),
+  end: parseReportDate(businessDate, { endOfDay: true })
+});
+
+// ช่วง N วันย้อนหลังนับรวมวันนี้ + ช่วงก่อนหน้าที่ยาวเท่ากัน
+const lastDays = ({ year, month, day }, days) => ({
+  start: bangkokMidnight(year, month, day - days + 1),
+  end: bangkokMidnight(year, month, day + 1),
+  previous: {
+    start: bangkokMidnight(year, month, day - 2 * days + 1),
+    end: bangkokMidnight(year, month, day - days + 1)
+  }
+});
+
+// ช่วงเดือน (monthSpan = 1) / ไตรมาส (3) / ปี (12) ที่เริ่มจาก startMonth + ช่วงก่อนหน้า
+const calendarSpan = (year, startMonth, monthSpan) => ({
+  start: bangkokMidnight(year, startMonth, 1),
+  end: bangkokMidnight(year, startMonth + monthSpan, 1),
+  previous: {
+    start: bangkokMidnight(year, startMonth - monthSpan, 1),
+    end: bangkokMidnight(year, startMonth, 1)
+  }
+});
+
+/**
+ * Resolve a named period to { start, end, previous }. `quarter` needs
+ * `year` and `quarter` (1-4). `all` has no bounds and no previous period.
+ */
+const resolvePeriod = (period, { year, quarter, now = new Date() } = {}) => {
+  const today = bangkokToday(now);
+  const currentQuarterStart = Math.floor(today.month / 3) * 3;
+
+  switch (period) {
+    case 'today':
+      return lastDays(today, 1);
+    case 'yesterday':
+      return lastDays({ ...today, day: today.day - 1 }, 1);
+    case 'last-7-days':
+      return lastDays(today, 7);
+    case 'last-30-days':
+      return lastDays(today, 30);
+    case 'this-month':
+      return calendarSpan(today.year, today.month, 1);
+    case 'last-month':
+      return calendarSpan(today.year, today.month - 1, 1);
+    case 'this-quarter':
+      return calendarSpan(today.year, currentQuarterStart, 3);
+    case 'last-quarter':
+      return calendarSpan(today.year, currentQuarterStart - 3, 3);
+    case 'quarter': {
+      const q = Number(quarter);
+      if (!year || !(q >= 1 && q <= 4)) {
+        throw createError(400, 'A quarter report needs year and quarter (1-4)');
+      }
+      return calendarSpan(Number(year), (q - 1) * 3, 3);
+    }
+    case 'this-year':
+      return calendarSpan(today.year, 0, 12);
+    case 'all':
+      return { start: undefined, end: undefined, previous: null };
+    default:
+      throw createError(400, `Unknown report period: ${period}`);
+  }
+};
+
+/**
+ * Resolve report query params: `period` (+ `year`/`quarter`), or a custom
+ * `startDate`/`endDate`. A custom range is compared with the equally long
+ * range right before it; an open-ended range has no previous period.
+ */
+const resolveRangeQuery = ({ period, year, quarter, startDate, endDate } = {}) => {
+  if (period) {
+    return resolvePeriod(period, { year, quarter });
+  }
+
+  const start = parseReportDate(startDate);
+  const end = parseReportDate(endDate, { endOfDay: true });
+
+  if (start && end && start >= end) {
+    throw createError(400, 'Start date must be before end date');
+  }
+
+  const previous = start && end
+    ? { start: new Date(start.getTime() - (end - start)), end: start }
+    : null;
+
+  return { start, end, previous };
+};
+
+module.exports = {
+  REPORT_PERIODS,
+  parseReportDate,
+  toBusinessDate,
+  businessDayRange,
+  resolvePeriod,
+  resolveRangeQuery
+};
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import { api, ExportFormat, ExportReport, ReportRange } from '@/utils/api';
+
+interface ExportButtonsProps {
+  report: ExportReport;
+  filters?: ReportRange | Record<string, string>;
+  disabled?: boolean;
+  // ปุ่มเล็กสำหรับแถบเครื่องมือในหน้า data-management
+  compact?: boolean;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: '📊 CSV' },
+  { format: 'xlsx', label: '📗 Excel' },
+  { format: 'pdf', label: '📄 PDF' }
+];
+
+// ปุ่มดาวน์โหลดรายงานจาก /api/exports ใช้ร่วมกันทุกหน้ารายงาน
+export default function ExportButtons({ report, filters = {}, disabled = false, compact = false }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await api.downloadExport(report, format, filters);
+    } catch (error: any) {
+      console.error('Failed to export:', error);
+      alert(error?.message || 'Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={disabled || exporting !== null}
+          className={`bg-[#69806C] text-white hover:bg-[#5a6e5e] transition disabled:opacity-50 ${
+            compact ? "px-4 py-2 rounded font-['Iceland']" : 'px-6 py-3 rounded-lg text-lg'
+          }`}
+        >
+          {exporting === format ? 'Exporting...' : label}
+        </button>
+      ))}
+    </div>
+  );
+}
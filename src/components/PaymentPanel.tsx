@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { api, Order } from '@/utils/api';
+
+interface PaymentPanelProps {
+  order: Pick<Order, 'customerCode' | 'status' | 'pricing' | 'payment'>;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+// ขั้นตอนชำระเงินของออเดอร์ที่ยังรอจ่าย: QR PromptPay หรือแจ้งให้จ่ายที่เคาน์เตอร์
+export default function PaymentPanel({ order }: PaymentPanelProps) {
+  const payment = order.payment;
+  const [qrImage, setQrImage] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [simulating, setSimulating] = useState(false);
+
+  useEffect(() => {
+    if (!payment?.qrPayload) {
+      setQrImage('');
+      return;
+    }
+
+    QRCode.toDataURL(payment.qrPayload, { margin: 1, width: 240 })
+      .then(setQrImage)
+      .catch(error => console.error('Failed to render payment QR:', error));
+  }, [payment?.qrPayload]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const simulate = async (outcome: 'success' | 'failure') => {
+    if (!payment) return;
+
+    setSimulating(true);
+    try {
+      await api.simulateMockPayment(payment.reference, outcome);
+    } catch (error: any) {
+      alert(error.message || 'Failed to simulate payment');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  if (!payment) return null;
+
+  if (payment.status === 'succeeded') {
+    return (
+      <div className="bg-green-100 text-green-800 rounded-lg p-4 text-center font-['Iceland'] text-xl">
+        ✅ Payment received - your order is in the queue
+      </div>
+    );
+  }
+
+  if (payment.status === 'failed' || payment.status === 'expired') {
+    return (
+      <div className="bg-red-100 text-red-800 rounded-lg p-4 text-center font-['Iceland'] text-xl">
+        ❌ Payment {payment.status}{payment.failureReason ? `: ${payment.failureReason}` : ''}
+      </div>
+    );
+  }
+
+  const remainingMs = payment.expiresAt ? new Date(payment.expiresAt).getTime() - now : null;
+
+  return (
+    <div className="bg-[#EBE6DE] rounded-lg p-4 text-center font-['Iceland']">
+      {payment.qrPayload ? (
+        <>
+          <p className="text-xl text-[#543429] mb-2">Scan to pay with PromptPay</p>
+          {qrImage && <img src={qrImage} alt="PromptPay QR" className="mx-auto mb-2 bg-white p-2 rounded" />}
+        </>
+      ) : (
+        <p className="text-xl text-[#543429] mb-2">
+          Please pay at the counter with code <strong>{order.customerCode.replace('#', '')}</strong>
+        </p>
+      )}
+
+      <p className="text-3xl font-bold text-[#69806C]">฿{payment.amount.toFixed(2)}</p>
+      <p className="text-gray-600">
+        ⏳ Waiting for payment{remainingMs !== null ? ` (${formatCountdown(remainingMs)} left)` : ''}
+      </p>
+
+      {payment.provider === 'mock' && (
+        <div className="flex gap-2 justify-center mt-4">
+          <button
+            onClick={() => simulate('success')}
+            disabled={simulating}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+          >
+            🧪 Simulate paid
+          </button>
+          <button
+            onClick={() => simulate('failure')}
+            disabled={simulating}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition disabled:opacity-50"
+          >
+            🧪 Simulate failure
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
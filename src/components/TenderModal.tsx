@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState } from 'react';
+import { PaymentMethod, Tender } from '@/utils/api';
+import { COUNTER_TENDER_METHODS, PAYMENT_METHOD_LABELS } from '@/utils/paymentMethods';
+
+interface TenderModalProps {
+  orderId: string;
+  amountDue: number;
+  paymentMethod?: PaymentMethod;
+  onClose: () => void;
+  onConfirm: (tenders: Tender[]) => Promise<void>;
+}
+
+interface TenderRow {
+  method: Tender['method'];
+  amount: string;
+  tendered: string;
+  reference: string;
+}
+
+const MAX_TENDERS = 5;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// รับเงินที่เคาน์เตอร์: แบ่งจ่ายได้หลายวิธี เงินสดคิดเงินทอนให้
+export default function TenderModal({ orderId, amountDue, paymentMethod, onClose, onConfirm }: TenderModalProps) {
+  const [rows, setRows] = useState<TenderRow[]>([{
+    method: paymentMethod && paymentMethod !== 'promptpay' ? paymentMethod : 'cash',
+    amount: amountDue.toFixed(2),
+    tendered: '',
+    reference: ''
+  }]);
+  const [saving, setSaving] = useState(false);
+
+  const allocated = roundMoney(rows.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0));
+  const remaining = roundMoney(amountDue - allocated);
+  const changeDue = roundMoney(rows.reduce((sum, row) => {
+    if (row.method !== 'cash' || !row.tendered) return sum;
+    return sum + Math.max((parseFloat(row.tendered) || 0) - (parseFloat(row.amount) || 0), 0);
+  }, 0));
+  const shortCash = rows.some(row =>
+    row.method === 'cash' && row.tendered !== '' && (parseFloat(row.tendered) || 0) < (parseFloat(row.amount) || 0)
+  );
+  const missingVoucher = rows.some(row => row.method === 'voucher' && !row.reference.trim());
+
+  const updateRow = (index: number, changes: Partial<TenderRow>) => {
+    setRows(rows.map((row, idx) => idx === index ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    setRows([...rows, {
+      method: 'card',
+      amount: remaining > 0 ? remaining.toFixed(2) : '',
+      tendered: '',
+      reference: ''
+    }]);
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await onConfirm(rows.map(row => ({
+        method: row.method,
+        amount: parseFloat(row.amount) || 0,
+        tendered: row.method === 'cash' && row.tendered ? parseFloat(row.tendered) : undefined,
+        reference: row.reference.trim() || undefined
+      })));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full font-['Iceland']">
+        <h2 className="text-3xl text-[#543429] mb-1">Take Payment</h2>
+        <p className="text-gray-600 mb-4">Order #{orderId} - ฿{amountDue.toFixed(2)} due</p>
+
+        <div className="space-y-3 mb-4">
+          {rows.map((row, idx) => (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-end">
+              <label className="col-span-3">
+                <span className="text-sm text-gray-600">Method</span>
+                <select
+                  value={row.method}
+                  onChange={(e) => updateRow(idx, { method: e.target.value as Tender['method'], tendered: '' })}
+                  className="w-full p-2 border rounded"
+                >
+                  {COUNTER_TENDER_METHODS.map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-3">
+                <span className="text-sm text-gray-600">Amount (฿)</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={row.amount}
+                  onChange={(e) => updateRow(idx, { amount: e.target.value })}
+                  className="w-full p-2 border rounded"
+                />
+              </label>
+              {row.method === 'cash' ? (
+                <label className="col-span-3">
+                  <span className="text-sm text-gray-600">Received (฿)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.tendered}
+                    onChange={(e) => updateRow(idx, { tendered: e.target.value })}
+                    placeholder={row.amount}
+                    className="w-full p-2 border rounded"
+                  />
+                </label>
+              ) : (
+                <label className="col-span-3">
+                  <span className="text-sm text-gray-600">{row.method === 'voucher' ? 'Voucher code' : 'Reference'}</span>
+                  <input
+                    type="text"
+                    maxLength={100}
+                    value={row.reference}
+                    onChange={(e) => updateRow(idx, { reference: e.target.value })}
+                    className="w-full p-2 border rounded"
+                  />
+                </label>
+              )}
+              <div className="col-span-3 flex items-center gap-2 pb-2">
+                {row.method === 'cash' && row.tendered && (parseFloat(row.tendered) || 0) >= (parseFloat(row.amount) || 0) && (
+                  <span className="text-sm text-blue-600">
+                    Change ฿{((parseFloat(row.tendered) || 0) - (parseFloat(row.amount) || 0)).toFixed(2)}
+                  </span>
+                )}
+                {rows.length > 1 && (
+                  <button
+                    onClick={() => setRows(rows.filter((_, rowIdx) => rowIdx !== idx))}
+                    className="ml-auto text-red-500 hover:text-red-700"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {rows.length < MAX_TENDERS && (
+          <button
+            onClick={addRow}
+            className="mb-4 px-4 py-2 bg-gray-100 text-[#69806C] rounded hover:bg-gray-200 transition"
+          >
+            + Split payment
+          </button>
+        )}
+
+        <div className="bg-[#EBE6DE] rounded-lg p-4 mb-4 text-lg">
+          <div className="flex justify-between">
+            <span>Allocated</span>
+            <span className="font-bold">฿{allocated.toFixed(2)}</span>
+          </div>
+          <div className={`flex justify-between ${remaining === 0 ? 'text-[#69806C]' : 'text-red-600'}`}>
+            <span>Remaining</span>
+            <span className="font-bold">฿{remaining.toFixed(2)}</span>
+          </div>
+          {changeDue > 0 && (
+            <div className="flex justify-between text-blue-600 text-2xl">
+              <span>Change to give</span>
+              <span className="font-bold">฿{changeDue.toFixed(2)}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 px-6 py-3 bg-gray-400 text-white text-xl rounded-lg hover:bg-gray-500 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving || remaining !== 0 || shortCash || missingVoucher}
+            className="flex-1 px-6 py-3 bg-[#69806C] text-white text-xl rounded-lg hover:bg-[#5a6e5e] transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Confirm Payment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
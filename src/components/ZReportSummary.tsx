@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { ZReport } from '@/utils/api';
+import { getPaymentMethodLabel } from '@/utils/paymentMethods';
+
+interface ZReportSummaryProps {
+  report: ZReport;
+}
+
+// ยอดขายของ Z-report ใช้ทั้งหน้าปิดยอดและหน้าพิมพ์ซ้ำ
+export default function ZReportSummary({ report }: ZReportSummaryProps) {
+  const rows: Array<[string, string]> = [
+    ['Orders', `${report.totalOrders}`],
+    ['Sold Orders', `${report.soldOrders} (${report.cups} cups)`],
+    ['Gross Revenue', `฿${report.grossRevenue.toFixed(2)}`],
+    ['Discounts', `-฿${report.discounts.toFixed(2)}`],
+    ['Free Drinks', `${report.freeDrinks} (฿${report.freeDrinkValue.toFixed(2)})`],
+    ['Cancellations', `${report.cancellations}`],
+    ['Refunds', `${report.refunds} (฿${report.refundAmount.toFixed(2)})`]
+  ];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b py-2">
+            <span className="text-gray-600">{label}</span>
+            <span className="font-bold">{value}</span>
+          </div>
+        ))}
+        <div className="flex justify-between py-2 text-2xl text-[#69806C]">
+          <span>Net Revenue</span>
+          <span className="font-bold">฿{report.netRevenue.toFixed(2)}</span>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-lg text-[#543429] mb-2">By payment method</h4>
+        {report.byPaymentMethod.length === 0 ? (
+          <p className="text-gray-500">No sales</p>
+        ) : (
+          report.byPaymentMethod.map(entry => (
+            <div key={entry.method} className="bg-[#EBE6DE] rounded-lg p-3 mb-2 flex justify-between items-center">
+              <span>
+                {getPaymentMethodLabel(entry.method)} ({entry.orders})
+                {entry.changeGiven ? <span className="block text-sm text-gray-600">Change given ฿{entry.changeGiven.toFixed(2)}</span> : null}
+              </span>
+              <span className="font-bold">฿{entry.revenue.toFixed(2)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
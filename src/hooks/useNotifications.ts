@@ -1,6 +1,7 @@
 // src/hooks/useNotifications.ts
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { api, isAuthenticated, isAdmin } from '@/utils/api';
+import { useOrderStream, OrderStreamEvent } from './useOrderStream';
 
 interface Notification {
   id: string;
@@ -16,6 +17,64 @@ export function useNotifications() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [lastChecked, setLastChecked] = useState(new Date());
 
+  const seenIds = useRef(new Set<string>());
+
+  const addNotification = (notification: Notification) => {
+    if (seenIds.current.has(notification.id)) return;
+    seenIds.current.add(notification.id);
+
+    setNotifications(prev => [notification, ...prev]);
+    setUnreadCount(prev => prev + 1);
+  };
+
+  // ✅ Real-time events (Admin: ออเดอร์ใหม่, Customer: ออเดอร์พร้อมรับ)
+  const handleOrderEvent = (type: OrderStreamEvent, data: any) => {
+    const order = data?.order;
+    if (!order) return;
+
+    // ออเดอร์เข้าคิวเมื่อจ่ายเงินแล้ว (สร้างแล้วจ่ายทันที หรือ AwaitingPayment → Pending)
+    const enteredQueue = order.status === 'Pending' &&
+      (type === 'order-created' || type === 'order-status-changed');
+
+    if (enteredQueue && isAdmin()) {
+      addNotification({
+        id: `order-${order._id}`,
+        type: 'new_order',
+        message: `New order ${order.orderId} - ${order.items.map((item: any) => item.shavedIce.flavor).join(', ')}`,
+        orderId: order._id,
+        timestamp: new Date(order.createdAt),
+        read: false
+      });
+
+      // Browser notification only (no sound)
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('🍧 New Bingsu Order!', {
+          body: `Order ${order.orderId} received`,
+          icon: '/favicon.ico'
+        });
+      }
+    }
+
+    if (type === 'order-status-changed' && !isAdmin() && order.status === 'Ready') {
+      addNotification({
+        id: `ready-${order._id}`,
+        type: 'order_ready',
+        message: `Your order ${order.customerCode} is ready!`,
+        orderId: order._id,
+        timestamp: new Date(),
+        read: false
+      });
+
+      // Browser notification only (no sound)
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('🎉 Your Bingsu is Ready!', {
+          body: 'Come pick up your order!',
+          icon: '/favicon.ico'
+        });
+      }
+    }
+  };
+
   // Check for new orders (Admin)
   const checkNewOrders = async () => {
     if (!isAdmin()) return;
@@ -32,7 +91,7 @@ export function useNotifications() {
         const newNotifications = newOrders.map((order: any) => ({
           id: `order-${order._id}`,
           type: 'new_order' as const,
-          message: `New order ${order.orderId} - ${order.shavedIce.flavor}`,
+          message: `New order ${order.orderId} - ${order.items.map((item: any) => item.shavedIce.flavor).join(', ')}`,
           orderId: order._id,
           timestamp: new Date(order.createdAt),
           read: false
@@ -119,23 +178,33 @@ export function useNotifications() {
     setUnreadCount(0);
   };
 
-  // Auto-check every 10 seconds
-  useEffect(() => {
-    if (!isAuthenticated()) return;
+  const [authenticated, setAuthenticated] = useState(false);
+  const [admin, setAdmin] = useState(false);
 
-    requestNotificationPermission();
+  useEffect(() => {
+    setAuthenticated(isAuthenticated());
+    setAdmin(isAdmin());
 
-    const interval = setInterval(() => {
+    if (isAuthenticated()) {
+      requestNotificationPermission();
+    }
+  }, []);
+
+  // ✅ Subscribe to order stream (poll ทุก 10 วินาทีเมื่อ stream หลุด)
+  useOrderStream({
+    path: admin ? '/stream' : '/my-orders/stream',
+    withToken: true,
+    enabled: authenticated,
+    onEvent: handleOrderEvent,
+    poll: () => {
       if (isAdmin()) {
         checkNewOrders();
       } else {
         checkReadyOrders();
       }
       setLastChecked(new Date());
-    }, 10000);
-
-    return () => clearInterval(interval);
-  }, [lastChecked]);
+    }
+  });
 
   return {
     notifications,
@@ -0,0 +1,114 @@
+// src/hooks/useOrderStream.ts
+import { useEffect, useRef, useState } from 'react';
+import { getOrderStreamUrl } from '@/utils/api';
+
+export type OrderStreamEvent = 'snapshot' | 'order-created' | 'order-status-changed' | 'queue';
+
+export type OrderStreamMode = 'connecting' | 'stream' | 'polling';
+
+interface UseOrderStreamOptions {
+  // path ต่อจาก /api/orders เช่น '/stream' หรือ '/track/ABCDE/stream'
+  path: string | null;
+  enabled?: boolean;
+  withToken?: boolean;
+  onEvent: (type: OrderStreamEvent, data: any) => void;
+  // ใช้ตอน stream หลุด จนกว่าจะต่อใหม่ได้
+  poll?: () => void | Promise<void>;
+  pollInterval?: number;
+}
+
+const STREAM_EVENTS: OrderStreamEvent[] = ['snapshot', 'order-created', 'order-status-changed', 'queue'];
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+export function useOrderStream({
+  path,
+  enabled = true,
+  withToken = false,
+  onEvent,
+  poll,
+  pollInterval = 10000
+}: UseOrderStreamOptions) {
+  const [mode, setMode] = useState<OrderStreamMode>('connecting');
+
+  // เก็บ callback ล่าสุดไว้ใน ref จะได้ไม่ต้องต่อ stream ใหม่ทุกครั้งที่ render
+  const onEventRef = useRef(onEvent);
+  const pollRef = useRef(poll);
+  onEventRef.current = onEvent;
+  pollRef.current = poll;
+
+  useEffect(() => {
+    if (!enabled || !path) return;
+
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = MIN_RETRY_DELAY;
+    let closed = false;
+
+    const startPolling = () => {
+      if (pollTimer || !pollRef.current) return;
+      setMode('polling');
+      pollTimer = setInterval(() => {
+        pollRef.current?.();
+      }, pollInterval);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const connect = () => {
+      if (closed) return;
+
+      source = new EventSource(getOrderStreamUrl(path, withToken));
+
+      source.onopen = () => {
+        retryDelay = MIN_RETRY_DELAY;
+        stopPolling();
+        setMode('stream');
+        // ดึงข้อมูลล่าสุดหนึ่งครั้ง เผื่อพลาด event ตอนหลุด
+        pollRef.current?.();
+      };
+
+      STREAM_EVENTS.forEach(type => {
+        source!.addEventListener(type, (event) => {
+          try {
+            onEventRef.current(type, JSON.parse((event as MessageEvent).data));
+          } catch (error) {
+            console.error('Failed to parse order event:', error);
+          }
+        });
+      });
+
+      // ✅ หลุด: ใช้ polling ระหว่างรอ แล้วต่อใหม่แบบ exponential backoff
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (closed) return;
+
+        startPolling();
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+      };
+    };
+
+    if (typeof window !== 'undefined' && 'EventSource' in window) {
+      connect();
+    } else {
+      startPolling();
+    }
+
+    return () => {
+      closed = true;
+      source?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [path, enabled, withToken, pollInterval]);
+
+  return { mode };
+}
@@ -0,0 +1,155 @@
+// src/pages/admin/closing/[date].tsx - Z-report ที่ปิดยอดแล้ว (พิมพ์ซ้ำ/ส่งออก)
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, DailyClose } from '@/utils/api';
+import ZReportSummary from '@/components/ZReportSummary';
+import ExportButtons from '@/components/ExportButtons';
+
+export default function ZReportPage() {
+  const router = useRouter();
+  const { date } = router.query;
+  const [dailyClose, setDailyClose] = useState<DailyClose | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    if (!router.isReady) return;
+    fetchDailyClose();
+  }, [router.isReady, date]);
+
+  const fetchDailyClose = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getDailyClose(date as string);
+      setDailyClose(result.dailyClose);
+    } catch (error) {
+      console.error('Failed to fetch daily close:', error);
+      setDailyClose(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    try {
+      await api.recordZReportReprint(date as string);
+      await fetchDailyClose();
+    } catch (error: any) {
+      alert(error.message || 'Failed to record reprint');
+      return;
+    }
+    window.print();
+  };
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland'] print:bg-white">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg print:hidden">
+        <Link href="/admin/closing">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Z-report {date}</h1>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6">
+        {loading ? (
+          <p className="text-center text-xl text-[#69806C] py-12">Loading...</p>
+        ) : !dailyClose ? (
+          <div className="bg-white rounded-xl shadow-lg p-6 text-center">
+            <p className="text-xl text-gray-500 mb-4">{date} has not been closed</p>
+            <Link href="/admin/closing">
+              <span className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition cursor-pointer inline-block">
+                Back to End of Day
+              </span>
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-6 print:hidden">
+              <button
+                onClick={handlePrint}
+                className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition"
+              >
+                🖨️ Print
+              </button>
+              <div className="ml-auto">
+                <ExportButtons report="z-report" filters={{ date: dailyClose.businessDate }} />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6 print:shadow-none">
+              <div className="flex flex-wrap justify-between mb-6">
+                <h2 className="text-3xl text-[#543429]">Z-report {dailyClose.businessDate}</h2>
+                <p className="text-gray-600">
+                  Closed {new Date(dailyClose.closedAt).toLocaleString('th-TH')}
+                  {dailyClose.closedBy ? ` by ${dailyClose.closedBy.fullName}` : ''}
+                </p>
+              </div>
+
+              <ZReportSummary report={dailyClose.report} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6 print:shadow-none">
+              <h2 className="text-2xl text-[#543429] mb-4">Cash</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <div className="flex justify-between border-b py-2">
+                    <span className="text-gray-600">Opening float</span>
+                    <span className="font-bold">฿{dailyClose.cash.openingFloat.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between border-b py-2">
+                    <span className="text-gray-600">Expected in drawer</span>
+                    <span className="font-bold">฿{dailyClose.cash.expected.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between border-b py-2">
+                    <span className="text-gray-600">Counted</span>
+                    <span className="font-bold">฿{dailyClose.cash.counted.toFixed(2)}</span>
+                  </div>
+                  <div className={`flex justify-between py-2 text-2xl ${dailyClose.cash.overShort < 0 ? 'text-red-600' : dailyClose.cash.overShort > 0 ? 'text-blue-600' : 'text-[#69806C]'}`}>
+                    <span>Over/Short</span>
+                    <span className="font-bold">฿{dailyClose.cash.overShort.toFixed(2)}</span>
+                  </div>
+                  {dailyClose.note && (
+                    <p className="mt-4 text-gray-700">📝 {dailyClose.note}</p>
+                  )}
+                </div>
+
+                <div>
+                  {dailyClose.cash.denominations.length === 0 ? (
+                    <p className="text-gray-500">Counted as a single total</p>
+                  ) : (
+                    dailyClose.cash.denominations.map(({ value, count }) => (
+                      <div key={value} className="flex justify-between border-b py-1">
+                        <span>฿{value} × {count}</span>
+                        <span>฿{(value * count).toFixed(2)}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {dailyClose.reprints && dailyClose.reprints.length > 0 && (
+              <div className="bg-white rounded-xl shadow-lg p-6 print:hidden">
+                <h2 className="text-2xl text-[#543429] mb-4">Reprints ({dailyClose.reprints.length})</h2>
+                {dailyClose.reprints.map((reprint, idx) => (
+                  <p key={idx} className="text-gray-600">
+                    {new Date(reprint.printedAt).toLocaleString('th-TH')} — {reprint.printedBy?.fullName || '-'}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+// src/pages/admin/closing/index.tsx - ปิดยอดประจำวัน: ตรวจยอด นับเงินสด แล้วล็อกวัน
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, ClosingPreview, DailyClose } from '@/utils/api';
+import ZReportSummary from '@/components/ZReportSummary';
+
+// ธนบัตร/เหรียญ ตรงกับ DailyClose.CASH_DENOMINATIONS ฝั่ง backend
+const CASH_DENOMINATIONS = [1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+const toBangkokDate = (time: number) => new Date(time + 7 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export default function ClosingPage() {
+  const router = useRouter();
+  const today = toBangkokDate(Date.now());
+  const [date, setDate] = useState(today);
+  const [preview, setPreview] = useState<ClosingPreview | null>(null);
+  const [closes, setCloses] = useState<DailyClose[]>([]);
+  const [openingFloat, setOpeningFloat] = useState('0');
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    fetchCloses();
+  }, []);
+
+  useEffect(() => {
+    if (!isAdmin()) return;
+    fetchPreview();
+  }, [date]);
+
+  const fetchPreview = async () => {
+    setLoading(true);
+    try {
+      setPreview(await api.getClosingPreview(date));
+    } catch (error: any) {
+      console.error('Failed to fetch closing preview:', error);
+      setPreview(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCloses = async () => {
+    try {
+      const result = await api.getDailyCloses();
+      setCloses(result.closes);
+    } catch (error) {
+      console.error('Failed to fetch daily closes:', error);
+    }
+  };
+
+  const denominations = CASH_DENOMINATIONS.map(value => ({ value, count: parseInt(counts[value] || '0', 10) || 0 }));
+  const counted = denominations.reduce((sum, { value, count }) => sum + value * count, 0);
+  const expected = (parseFloat(openingFloat) || 0) + (preview?.cashSales || 0);
+  const overShort = counted - expected;
+
+  const handleClose = async () => {
+    if (!preview) return;
+    if (!confirm(`Close ${date}? Orders for this day can no longer be created or cancelled.`)) return;
+
+    setClosing(true);
+    try {
+      await api.closeDay({
+        date,
+        openingFloat: parseFloat(openingFloat) || 0,
+        countedCash: counted,
+        denominations: denominations.filter(({ count }) => count > 0),
+        note: note.trim() || undefined
+      });
+      router.push(`/admin/closing/${date}`);
+    } catch (error: any) {
+      alert(error.message || 'Failed to close day');
+      setClosing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">End of Day</h1>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <label className="text-xl text-[#543429]">Business day</label>
+            <input
+              type="date"
+              value={date}
+              max={today}
+              onChange={(e) => setDate(e.target.value)}
+              className="p-2 border rounded"
+            />
+          </div>
+
+          {loading ? (
+            <p className="text-center text-xl text-[#69806C] py-12">Loading...</p>
+          ) : !preview ? (
+            <p className="text-center text-xl text-gray-500 py-12">Could not load sales for this day</p>
+          ) : (
+            <>
+              {preview.closed && (
+                <div className="bg-green-100 text-green-800 rounded-lg p-4 mb-6 flex flex-wrap items-center gap-4">
+                  <span className="text-xl">
+                    🔒 Closed {new Date(preview.closed.closedAt).toLocaleString('th-TH')}
+                    {preview.closed.closedBy ? ` by ${preview.closed.closedBy.fullName}` : ''}
+                  </span>
+                  <Link href={`/admin/closing/${date}`} className="ml-auto">
+                    <span className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition cursor-pointer inline-block">
+                      View Z-report
+                    </span>
+                  </Link>
+                </div>
+              )}
+
+              {!preview.closed && preview.activeOrders > 0 && (
+                <div className="bg-yellow-100 text-yellow-800 rounded-lg p-4 mb-6 text-xl">
+                  ⚠️ {preview.activeOrders} orders are still awaiting payment or in progress. Complete or cancel them before closing.
+                </div>
+              )}
+
+              <ZReportSummary report={preview.report} />
+            </>
+          )}
+        </div>
+
+        {preview && !preview.closed && !loading && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+            <h2 className="text-2xl text-[#543429] mb-4">Cash Count</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block mb-4">
+                  <span className="text-gray-700">Opening float (฿)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                    className="w-full p-2 border rounded"
+                  />
+                </label>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {CASH_DENOMINATIONS.map(value => (
+                    <label key={value} className="block">
+                      <span className="text-gray-700">฿{value}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={counts[value] || ''}
+                        onChange={(e) => setCounts({ ...counts, [value]: e.target.value })}
+                        placeholder="0"
+                        className="w-full p-2 border rounded"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between border-b py-2">
+                  <span className="text-gray-600">Cash sales</span>
+                  <span className="font-bold">฿{preview.cashSales.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between border-b py-2">
+                  <span className="text-gray-600">Expected in drawer</span>
+                  <span className="font-bold">฿{expected.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between border-b py-2">
+                  <span className="text-gray-600">Counted</span>
+                  <span className="font-bold">฿{counted.toFixed(2)}</span>
+                </div>
+                <div className={`flex justify-between py-2 text-2xl ${overShort === 0 ? 'text-[#69806C]' : overShort > 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                  <span>{overShort === 0 ? 'Balanced' : overShort > 0 ? 'Over' : 'Short'}</span>
+                  <span className="font-bold">฿{overShort.toFixed(2)}</span>
+                </div>
+
+                <label className="block mt-4">
+                  <span className="text-gray-700">Note (optional)</span>
+                  <textarea
+                    maxLength={500}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="e.g. Explain any cash difference"
+                    className="w-full p-2 border rounded"
+                    rows={3}
+                  />
+                </label>
+
+                <button
+                  onClick={handleClose}
+                  disabled={closing || preview.activeOrders > 0}
+                  className="w-full mt-4 px-6 py-3 bg-[#543429] text-white text-xl rounded hover:opacity-90 transition disabled:opacity-50"
+                >
+                  {closing ? 'Closing...' : '🔒 Close Day'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          {closes.length === 0 ? (
+            <p className="text-center text-xl text-gray-500 py-12">No closed days yet</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="bg-[#69806C] text-white">
+                <tr>
+                  <th className="p-3">Date</th>
+                  <th className="p-3 text-center">Orders</th>
+                  <th className="p-3 text-right">Net Revenue</th>
+                  <th className="p-3 text-right">Expected Cash</th>
+                  <th className="p-3 text-right">Counted</th>
+                  <th className="p-3 text-right">Over/Short</th>
+                  <th className="p-3">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {closes.map(close => (
+                  <tr
+                    key={close._id}
+                    onClick={() => router.push(`/admin/closing/${close.businessDate}`)}
+                    className="border-b hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="p-3">{close.businessDate}</td>
+                    <td className="p-3 text-center">{close.report.totalOrders}</td>
+                    <td className="p-3 text-right">฿{close.report.netRevenue.toFixed(2)}</td>
+                    <td className="p-3 text-right">฿{close.cash.expected.toFixed(2)}</td>
+                    <td className="p-3 text-right">฿{close.cash.counted.toFixed(2)}</td>
+                    <td className={`p-3 text-right ${close.cash.overShort < 0 ? 'text-red-600' : close.cash.overShort > 0 ? 'text-blue-600' : ''}`}>
+                      ฿{close.cash.overShort.toFixed(2)}
+                    </td>
+                    <td className="p-3">{close.closedBy?.fullName || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
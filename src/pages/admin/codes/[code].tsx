@@ -0,0 +1,177 @@
+// src/pages/admin/codes/[code].tsx - รายละเอียดรหัสโค้ด + ออเดอร์ทั้งหมดที่ใช้โค้ดนี้
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, MenuCodeDetail } from '@/utils/api';
+import { getCodeState } from '@/utils/menuCodeStatus';
+
+export default function MenuCodeDetailPage() {
+  const router = useRouter();
+  const { code } = router.query;
+  const [menuCode, setMenuCode] = useState<MenuCodeDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    if (code) fetchCode(code as string);
+  }, [router.isReady, code]);
+
+  const fetchCode = async (value: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await api.getMenuCodeDetail(value);
+      setMenuCode(result.code);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!menuCode) return;
+
+    const reason = prompt(`Revoke code ${menuCode.code}? Enter a reason (optional):`);
+    if (reason === null) return;
+
+    setRevoking(true);
+    try {
+      await api.revokeMenuCode(menuCode.code, reason.trim() || undefined);
+      await fetchCode(menuCode.code);
+    } catch (err: any) {
+      alert(err.message || 'Failed to revoke code');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const state = menuCode ? getCodeState(menuCode) : null;
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin/codes">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Code {code}</h1>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-6">
+        {loading ? (
+          <p className="text-center text-xl text-[#69806C] py-12">Loading code...</p>
+        ) : error ? (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+        ) : menuCode && state && (
+          <>
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-5xl font-bold tracking-widest text-[#947E5A]">{menuCode.code}</p>
+                <span className={`px-4 py-1 rounded-full text-lg ${state.style}`}>{state.label}</span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-lg">
+                <div>
+                  <p className="text-gray-600">Cup Size</p>
+                  <p className="font-bold text-[#543429]">{menuCode.cupSize}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Mode</p>
+                  <p className="font-bold text-[#543429]">{menuCode.mode === 'single' ? 'Single-use' : 'Multi-use'}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Used</p>
+                  <p className="font-bold text-[#543429]">{menuCode.usageCount} / {menuCode.maxUsage}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Created</p>
+                  <p className="font-bold text-[#543429]">
+                    {new Date(menuCode.createdAt).toLocaleString('th-TH')}
+                    {menuCode.createdBy && ` · ${menuCode.createdBy.fullName}`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Expires</p>
+                  <p className="font-bold text-[#543429]">{new Date(menuCode.expiresAt).toLocaleString('th-TH')}</p>
+                </div>
+                {menuCode.batchId && (
+                  <div>
+                    <p className="text-gray-600">Batch</p>
+                    <Link href={`/admin/create-code/batch/${menuCode.batchId}`}>
+                      <span className="font-bold text-[#69806C] underline cursor-pointer">{menuCode.batchId}</span>
+                    </Link>
+                  </div>
+                )}
+              </div>
+
+              {menuCode.revokedAt ? (
+                <div className="mt-6 p-4 bg-red-50 rounded-lg text-red-800">
+                  Revoked {new Date(menuCode.revokedAt).toLocaleString('th-TH')}
+                  {menuCode.revokedBy && ` by ${menuCode.revokedBy.fullName}`}
+                  {menuCode.revokeReason && ` — ${menuCode.revokeReason}`}
+                </div>
+              ) : (
+                <button
+                  onClick={handleRevoke}
+                  disabled={revoking}
+                  className="mt-6 px-6 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {revoking ? 'Revoking...' : '🚫 Revoke Code'}
+                </button>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-2xl text-[#69806C] mb-4">Orders placed with this code ({menuCode.usedBy.length})</h2>
+              {menuCode.usedBy.length === 0 ? (
+                <p className="text-gray-500">This code has not been used yet.</p>
+              ) : (
+                <table className="w-full text-left">
+                  <thead className="border-b text-gray-600">
+                    <tr>
+                      <th className="py-2">Used at</th>
+                      <th className="py-2">Order</th>
+                      <th className="py-2">Customer code</th>
+                      <th className="py-2">Cups</th>
+                      <th className="py-2">Total</th>
+                      <th className="py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {menuCode.usedBy.map((usage, idx) => (
+                      <tr key={usage.order?._id || idx} className="border-b last:border-0">
+                        <td className="py-2">{new Date(usage.usedAt).toLocaleString('th-TH')}</td>
+                        {usage.order ? (
+                          <>
+                            <td className="py-2">{usage.order.orderId}</td>
+                            <td className="py-2">{usage.order.customerCode}</td>
+                            <td className="py-2">{usage.order.items.length}</td>
+                            <td className="py-2">฿{usage.order.pricing.total}</td>
+                            <td className="py-2">{usage.order.status}</td>
+                          </>
+                        ) : (
+                          <td className="py-2 text-gray-400" colSpan={5}>Order no longer exists</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
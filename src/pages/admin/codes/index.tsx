@@ -0,0 +1,175 @@
+// src/pages/admin/codes/index.tsx - รายการรหัสโค้ดทั้งหมด
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, MenuCodeDetail } from '@/utils/api';
+import { getCodeState } from '@/utils/menuCodeStatus';
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: 'unused', label: 'Unused' },
+  { value: 'used', label: 'Used' },
+  { value: 'full', label: 'Fully used' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'revoked', label: 'Revoked' }
+];
+
+interface CodeStats {
+  total: number;
+  unused: number;
+  partiallyUsed: number;
+  fullyUsed: number;
+  expired: number;
+  revoked: number;
+}
+
+export default function MenuCodesPage() {
+  const router = useRouter();
+  const [codes, setCodes] = useState<MenuCodeDetail[]>([]);
+  const [stats, setStats] = useState<CodeStats | null>(null);
+  const [status, setStatus] = useState('');
+  const [cupSize, setCupSize] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    fetchStats();
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin()) fetchCodes();
+  }, [status, cupSize]);
+
+  const fetchCodes = async () => {
+    setLoading(true);
+    try {
+      const filters: { status?: string; cupSize?: string } = {};
+      if (status) filters.status = status;
+      if (cupSize) filters.cupSize = cupSize;
+
+      const result = await api.getAllMenuCodes(filters);
+      setCodes(result.codes);
+    } catch (error) {
+      console.error('Failed to fetch codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchStats = async () => {
+    try {
+      setStats(await api.getMenuCodeStats());
+    } catch (error) {
+      console.error('Failed to fetch code stats:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Menu Codes</h1>
+        <Link href="/admin/create-code" className="ml-auto">
+          <span className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg text-white transition cursor-pointer">
+            + Create Code
+          </span>
+        </Link>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+            {[
+              { label: 'Total', value: stats.total },
+              { label: 'Unused', value: stats.unused },
+              { label: 'Partially used', value: stats.partiallyUsed },
+              { label: 'Fully used', value: stats.fullyUsed },
+              { label: 'Expired', value: stats.expired },
+              { label: 'Revoked', value: stats.revoked }
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-lg shadow p-4 text-center">
+                <p className="text-gray-600">{card.label}</p>
+                <p className="text-3xl font-bold text-[#543429]">{card.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => setStatus(filter.value)}
+              className={`px-4 py-2 rounded-lg transition ${
+                status === filter.value ? 'bg-[#69806C] text-white' : 'bg-white text-[#543429] hover:bg-gray-100'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+          <select
+            value={cupSize}
+            onChange={(e) => setCupSize(e.target.value)}
+            className="ml-auto p-2 rounded-lg border"
+          >
+            <option value="">All sizes</option>
+            <option value="S">S</option>
+            <option value="M">M</option>
+            <option value="L">L</option>
+          </select>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          {loading ? (
+            <p className="text-center text-xl text-[#69806C] py-12">Loading codes...</p>
+          ) : codes.length === 0 ? (
+            <p className="text-center text-xl text-gray-500 py-12">No codes found</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="bg-[#69806C] text-white">
+                <tr>
+                  <th className="p-3">Code</th>
+                  <th className="p-3">Size</th>
+                  <th className="p-3">Mode</th>
+                  <th className="p-3">Used</th>
+                  <th className="p-3">Expires</th>
+                  <th className="p-3">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {codes.map(code => {
+                  const state = getCodeState(code);
+                  return (
+                    <tr
+                      key={code._id}
+                      onClick={() => router.push(`/admin/codes/${code.code}`)}
+                      className="border-t hover:bg-[#EBE6DE]/50 cursor-pointer"
+                    >
+                      <td className="p-3 text-xl font-bold tracking-widest text-[#543429]">{code.code}</td>
+                      <td className="p-3">{code.cupSize}</td>
+                      <td className="p-3">{code.mode === 'single' ? 'Single-use' : 'Multi-use'}</td>
+                      <td className="p-3">{code.usageCount} / {code.maxUsage}</td>
+                      <td className="p-3">{new Date(code.expiresAt).toLocaleString('th-TH')}</td>
+                      <td className="p-3">
+                        <span className={`px-3 py-1 rounded-full text-sm ${state.style}`}>{state.label}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
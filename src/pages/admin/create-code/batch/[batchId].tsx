@@ -0,0 +1,103 @@
+// src/pages/admin/create-code/batch/[batchId].tsx - แผ่นตั๋ว QR สำหรับพิมพ์ (สร้าง QR ในเครื่อง ไม่ใช้บริการภายนอก)
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import QRCode from 'qrcode';
+import { isAdmin, api, BatchMenuCode } from '@/utils/api';
+
+interface Ticket extends BatchMenuCode {
+  qr: string;
+}
+
+export default function CodeBatchPrintPage() {
+  const router = useRouter();
+  const { batchId } = router.query;
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    if (batchId) {
+      loadBatch(batchId as string);
+    }
+  }, [router.isReady, batchId]);
+
+  const loadBatch = async (id: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await api.getMenuCodeBatch(id);
+      const origin = window.location.origin;
+
+      // QR ลิงก์ตรงไปหน้าเมนูพร้อมโค้ด
+      const withQr = await Promise.all(
+        result.codes.map(async (code) => ({
+          ...code,
+          qr: await QRCode.toDataURL(`${origin}/menu?code=${code.code}`, { margin: 1, width: 240 })
+        }))
+      );
+      setTickets(withQr);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load codes');
+      console.error('Batch load error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-[#EBE6DE] print:bg-white font-['Iceland']">
+      {/* Header */}
+      <div className="w-full h-[60px] bg-[#69806C] flex items-center px-10 shadow-lg print:hidden">
+        <Link href="/admin/create-code">
+          <span className="text-white text-2xl cursor-pointer">{'<'}</span>
+        </Link>
+        <h1 className="ml-6 text-white text-2xl">Batch {batchId}</h1>
+        <button
+          onClick={() => window.print()}
+          disabled={loading || tickets.length === 0}
+          className="ml-auto px-6 py-2 bg-white/20 hover:bg-white/30 rounded-lg text-white transition disabled:opacity-50"
+        >
+          🖨️ Print
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-6 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-center text-2xl text-[#69806C] py-12">Generating QR codes...</p>
+      ) : (
+        <div className="p-6 print:p-0 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 print:grid-cols-4 gap-4">
+          {tickets.map(ticket => (
+            <div
+              key={ticket.code}
+              className="bg-white rounded-lg border-2 border-dashed border-[#947E5A] p-3 text-center break-inside-avoid"
+            >
+              <p className="text-lg text-[#69806C]">Bingsu · Size {ticket.cupSize}</p>
+              <img src={ticket.qr} alt={`QR code ${ticket.code}`} className="w-full max-w-[160px] mx-auto" />
+              <p className="text-3xl font-bold tracking-widest text-[#543429]">{ticket.code}</p>
+              <p className="text-xs text-gray-500">
+                Up to {ticket.maxUsage} orders · Expires {new Date(ticket.expiresAt).toLocaleString('th-TH')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
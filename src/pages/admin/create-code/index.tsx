@@ -5,7 +5,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
-import { isAuthenticated, isAdmin, api } from '@/utils/api';
+import { isAuthenticated, isAdmin, api, MenuCodeMode } from '@/utils/api';
 
 export default function CreateCodePage() {
   const router = useRouter();
@@ -15,6 +15,15 @@ export default function CreateCodePage() {
   const [error, setError] = useState('');
   const [expiresAt, setExpiresAt] = useState<Date | null>(null);
 
+  // ✅ Code settings (ใช้ทั้งสร้างทีละโค้ดและสร้างเป็นชุด)
+  const [mode, setMode] = useState<MenuCodeMode>('multi');
+  const [maxUsage, setMaxUsage] = useState(5);
+  const [expiresAtInput, setExpiresAtInput] = useState('');
+  const [generatedMaxUsage, setGeneratedMaxUsage] = useState<number | null>(null);
+
+  // ✅ Batch generation (พิมพ์เป็นแผ่น QR)
+  const [batchCount, setBatchCount] = useState(20);
+
   useEffect(() => {
     if (!isAuthenticated()) {
       alert('Please login to access Admin');
@@ -29,6 +38,12 @@ export default function CreateCodePage() {
     }
   }, []);
 
+  const getCodeOptions = () => ({
+    mode,
+    maxUsage: mode === 'single' ? 1 : maxUsage,
+    expiresAt: expiresAtInput ? new Date(expiresAtInput).toISOString() : undefined
+  });
+
   const handleConfirm = async () => {
     if (!selectedSize) {
       setError('Please select a cup size');
@@ -39,8 +54,9 @@ export default function CreateCodePage() {
     setError('');
 
     try {
-      const result = await api.generateMenuCode(selectedSize);
+      const result = await api.generateMenuCode(selectedSize, getCodeOptions());
       setGeneratedCode(result.code);
+      setGeneratedMaxUsage(result.maxUsage);
       setExpiresAt(new Date(result.expiresAt));
     } catch (err: any) {
       setError(err.message || 'Failed to generate code');
@@ -50,11 +66,35 @@ export default function CreateCodePage() {
     }
   };
 
+  const handleGenerateBatch = async () => {
+    if (!selectedSize) {
+      setError('Please select a cup size');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await api.generateMenuCodeBatch({
+        count: batchCount,
+        cupSize: selectedSize,
+        ...getCodeOptions()
+      });
+      router.push(`/admin/create-code/batch/${result.batchId}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate codes');
+      console.error('Batch generation error:', err);
+      setLoading(false);
+    }
+  };
+
   const handleReset = () => {
     setSelectedSize(null);
     setGeneratedCode(null);
     setError('');
     setExpiresAt(null);
+    setGeneratedMaxUsage(null);
   };
 
   return (
@@ -106,6 +146,49 @@ export default function CreateCodePage() {
         </div>
       </div>
 
+      {/* Code Settings */}
+      {selectedSize && !generatedCode && (
+        <div className="w-full max-w-xl mb-8 bg-white rounded-xl shadow-md p-6 font-['Iceland']">
+          <h2 className="text-2xl text-[#69806C] mb-4">Code Settings</h2>
+          <div className="flex gap-4 mb-4">
+            {(['single', 'multi'] as MenuCodeMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`flex-1 py-2 rounded-lg text-lg transition ${
+                  mode === option ? 'bg-[#69806C] text-white' : 'bg-[#EBE6DE] text-[#543429]'
+                }`}
+              >
+                {option === 'single' ? 'Single-use (1 order)' : 'Multi-use'}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col">
+              <span className="text-gray-600">Max orders per code</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={mode === 'single' ? 1 : maxUsage}
+                disabled={mode === 'single'}
+                onChange={(e) => setMaxUsage(Number(e.target.value))}
+                className="mt-1 p-2 border rounded disabled:bg-gray-100"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-600">Expires (default 24h)</span>
+              <input
+                type="datetime-local"
+                value={expiresAtInput}
+                onChange={(e) => setExpiresAtInput(e.target.value)}
+                className="mt-1 p-2 border rounded"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
       {/* Confirm Button */}
       {selectedSize && !generatedCode && (
         <button
@@ -117,6 +200,31 @@ export default function CreateCodePage() {
         </button>
       )}
 
+      {/* Batch Generation */}
+      {selectedSize && !generatedCode && (
+        <div className="w-full max-w-xl mt-10 bg-white rounded-xl shadow-md p-6 font-['Iceland']">
+          <h2 className="text-2xl text-[#69806C] mb-4">Print a Batch of Codes ({selectedSize})</h2>
+          <label className="flex flex-col">
+            <span className="text-gray-600">Number of codes (uses the settings above)</span>
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={batchCount}
+              onChange={(e) => setBatchCount(Number(e.target.value))}
+              className="mt-1 p-2 border rounded"
+            />
+          </label>
+          <button
+            onClick={handleGenerateBatch}
+            disabled={loading || batchCount < 1}
+            className="mt-6 w-full bg-[#947E5A] text-white text-xl py-3 rounded-xl shadow-md hover:scale-105 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Generating...' : `🖨️ Generate ${batchCount} Codes & Print`}
+          </button>
+        </div>
+      )}
+
       {/* Display Generated Code */}
       {generatedCode && (
         <div className="mt-10 text-center">
@@ -127,6 +235,11 @@ export default function CreateCodePage() {
           <p className="text-gray-600 mt-4 font-['Iceland']">
             Cup Size: <span className="font-bold text-[#69806C]">{selectedSize}</span>
           </p>
+          {generatedMaxUsage && (
+            <p className="text-gray-600 mt-2 font-['Iceland']">
+              {generatedMaxUsage === 1 ? 'Single-use code' : `Up to ${generatedMaxUsage} orders`}
+            </p>
+          )}
           {expiresAt && (
             <p className="text-sm text-gray-500 mt-2 font-['Iceland']">
               Expires: {expiresAt.toLocaleString('th-TH')}
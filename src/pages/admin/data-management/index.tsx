@@ -4,18 +4,33 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { api, isAdmin, getCurrentUser } from '@/utils/api';
+import {
+  api,
+  isAdmin,
+  getCurrentUser,
+  MenuItem,
+  StockMovement,
+  StockItemType,
+  StockBatch,
+  StockForecastItem,
+  WasteCategory
+} from '@/utils/api';
 import { useRouter } from 'next/router';
+import ExportButtons from '@/components/ExportButtons';
 
 interface MenuData {
-  flavors: Array<{ name: string; price: number; active: boolean }>;
-  toppings: Array<{ name: string; price: number; active: boolean }>;
+  flavors: Array<{ _id: string; name: string; price: number; active: boolean }>;
+  toppings: Array<{ _id: string; name: string; price: number; active: boolean }>;
   sizes: Array<{ size: string; price: number }>;
 }
 
+const INGREDIENT_UNITS = ['ml', 'g', 'pcs', 'cups', 'spoons'];
+const EXPIRY_WINDOWS = [1, 3, 7, 14];
+const WASTE_CATEGORIES: WasteCategory[] = ['spoiled', 'expired', 'dropped', 'preparation', 'other'];
+
 interface StockItem {
   _id: string;
-  itemType: 'flavor' | 'topping';
+  itemType: StockItemType;
   name: string;
   quantity: number;
   unit: string;
@@ -51,25 +66,32 @@ export default function DataManagementPage() {
   const [editingStock, setEditingStock] = useState<StockItem | null>(null);
   const [showStockModal, setShowStockModal] = useState(false);
   const [stockLoading, setStockLoading] = useState(false);
+  const [stockNote, setStockNote] = useState('');
+  const [historyStock, setHistoryStock] = useState<StockItem | null>(null);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [newIngredient, setNewIngredient] = useState({ name: '', unit: 'ml', quantity: 0, reorderLevel: 0 });
+  const [forecasts, setForecasts] = useState<Record<string, StockForecastItem>>({});
+  const [expiringDays, setExpiringDays] = useState(3);
+  const [expiringBatches, setExpiringBatches] = useState<StockBatch[]>([]);
+  const [batchStock, setBatchStock] = useState<StockItem | null>(null);
+  const [batchForm, setBatchForm] = useState({ quantity: 0, expiresAt: '' });
+  const [wasteForm, setWasteForm] = useState({ stockId: '', quantity: 0, category: 'spoiled' as WasteCategory, note: '' });
+  
+  // Menu Catalog State
+  const [menuLoading, setMenuLoading] = useState(false);
+  const [newMenuItem, setNewMenuItem] = useState({
+    name: '',
+    type: 'flavor' as 'flavor' | 'topping',
+    description: '',
+    image: '',
+    color: '#69806C'
+  });
   
   const [menuData, setMenuData] = useState<MenuData>({
-    flavors: [
-      { name: 'Strawberry', price: 60, active: true },
-      { name: 'Thai Tea', price: 60, active: true },
-      { name: 'Matcha', price: 60, active: true },
-    ],
-    toppings: [
-      { name: 'Apple', price: 10, active: true },
-      { name: 'Cherry', price: 10, active: true },
-      { name: 'Blueberry', price: 10, active: true },
-      { name: 'Raspberry', price: 10, active: true },
-      { name: 'Strawberry', price: 10, active: true },
-    ],
-    sizes: [
-      { size: 'S', price: 0 },
-      { size: 'M', price: 10 },
-      { size: 'L', price: 20 },
-    ]
+    flavors: [],
+    toppings: [],
+    sizes: []
   });
   
   const [stats, setStats] = useState<Stats>({
@@ -118,6 +140,8 @@ export default function DataManagementPage() {
         await loadAllUsers();
       } else if (activeTab === 'stock') {
         await loadStockData();
+      } else if (activeTab === 'menu') {
+        await loadMenuItems();
       }
     } catch (error: any) {
       console.error('Failed to fetch data:', error);
@@ -126,14 +150,89 @@ export default function DataManagementPage() {
     }
   };
 
+  // Menu Catalog Functions
+  const loadMenuItems = async () => {
+    setMenuLoading(true);
+    try {
+      const [result, pricingResult] = await Promise.all([
+        api.getAllMenuItems(),
+        api.getPricing()
+      ]);
+      const items: MenuItem[] = result?.items || [];
+      const pricing = pricingResult.pricing;
+      const priceOf = (list: Array<{ name: string; price: number }>, name: string, fallback: number) =>
+        list.find(p => p.name === name)?.price ?? fallback;
+      
+      setMenuData({
+        flavors: items.filter(i => i.type === 'flavor').map(i => ({
+          _id: i._id,
+          name: i.name,
+          price: priceOf(pricing.flavorPrices, i.name, pricing.defaultBasePrice),
+          active: i.isActive
+        })),
+        toppings: items.filter(i => i.type === 'topping').map(i => ({
+          _id: i._id,
+          name: i.name,
+          price: priceOf(pricing.toppingPrices, i.name, pricing.defaultToppingPrice),
+          active: i.isActive
+        })),
+        sizes: (['S', 'M', 'L'] as const).map(size => ({
+          size,
+          price: pricing.sizePrices?.[size] ?? 0
+        }))
+      });
+    } catch (error) {
+      console.error('Failed to load menu items:', error);
+      alert('Failed to load menu items');
+    } finally {
+      setMenuLoading(false);
+    }
+  };
+
+  const handleCreateMenuItem = async () => {
+    if (!newMenuItem.name.trim()) {
+      alert('Please enter a name');
+      return;
+    }
+    
+    setMenuLoading(true);
+    try {
+      await api.createMenuItem({ ...newMenuItem, name: newMenuItem.name.trim() });
+      setNewMenuItem({ name: '', type: newMenuItem.type, description: '', image: '', color: '#69806C' });
+      await loadMenuItems();
+      alert('Menu item added successfully!');
+    } catch (error: any) {
+      console.error('Failed to create menu item:', error);
+      alert(error?.message || 'Failed to create menu item');
+    } finally {
+      setMenuLoading(false);
+    }
+  };
+
+  const handleDeleteMenuItem = async (itemId: string, itemName: string) => {
+    if (!confirm(`Delete ${itemName} from the menu? This action cannot be undone.`)) return;
+    
+    setMenuLoading(true);
+    try {
+      await api.deleteMenuItem(itemId);
+      await loadMenuItems();
+    } catch (error: any) {
+      console.error('Failed to delete menu item:', error);
+      alert(error?.message || 'Failed to delete menu item');
+    } finally {
+      setMenuLoading(false);
+    }
+  };
+
   // Stock Management Functions
   const loadStockData = async () => {
     setStockLoading(true);
     try {
       const result = await api.getStock();
-      const allStock = [...(result?.flavors || []), ...(result?.toppings || [])];
+      const allStock = [...(result?.flavors || []), ...(result?.toppings || []), ...(result?.ingredients || [])];
       setStockItems(allStock);
       setLowStockItems(result?.lowStock || []);
+      await Promise.all([loadExpiringBatches(), loadForecast()]);
     } catch (error) {
       console.error('Failed to load stock:', error);
       alert('Failed to load stock data');
@@ -142,6 +241,116 @@ export default function DataManagementPage() {
     }
   };
 
+  // ✅ ล็อตที่ใกล้หมดอายุ (ล็อตที่หมดอายุแล้วจะถูก job ตัดเป็น waste อัตโนมัติ)
+  const loadExpiringBatches = async (days = expiringDays) => {
+    try {
+      const result = await api.getExpiringBatches(days);
+      setExpiringBatches(result.batches);
+    } catch (error) {
+      console.error('Failed to load expiring batches:', error);
+    }
+  };
+
+  // ✅ พยากรณ์การใช้ 7 วัน: วันคงเหลือ + reorder level ที่แนะนำ
+  const loadForecast = async () => {
+    try {
+      const result = await api.getStockForecast(7);
+      setForecasts(Object.fromEntries(result.items.map(item => [item.stock, item])));
+    } catch (error) {
+      console.error('Failed to load stock forecast:', error);
+    }
+  };
+
+  const handleApplyReorderLevel = async (item: StockItem, reorderLevel: number) => {
+    if (!confirm(`Set reorder level for ${item.name} to ${reorderLevel} ${item.unit}?`)) return;
+
+    setStockLoading(true);
+    try {
+      await api.updateStock(item._id, { reorderLevel });
+      await loadStockData();
+    } catch (error: any) {
+      alert('Failed to update reorder level: ' + error.message);
+    } finally {
+      setStockLoading(false);
+    }
+  };
+
+  const handleChangeExpiringDays = async (days: number) => {
+    setExpiringDays(days);
+    await loadExpiringBatches(days);
+  };
+
+  // ✅ รับของเข้าเป็นล็อตใหม่ พร้อมวันหมดอายุ
+  const handleReceiveBatch = async () => {
+    if (!batchStock || batchForm.quantity <= 0) {
+      alert('Enter a quantity greater than 0');
+      return;
+    }
+
+    setStockLoading(true);
+    try {
+      await api.adjustStock(batchStock._id, batchForm.quantity, 'restock', undefined, batchForm.expiresAt || undefined);
+      setBatchStock(null);
+      setBatchForm({ quantity: 0, expiresAt: '' });
+      await loadStockData();
+    } catch (error: any) {
+      alert('Failed to receive batch: ' + error.message);
+    } finally {
+      setStockLoading(false);
+    }
+  };
+
+  // ✅ เพิ่มวัตถุดิบจริง (ใช้ในสูตร) เช่น ไซรัป ml, ผลไม้ g
+  const handleAddIngredient = async () => {
+    if (!newIngredient.name.trim()) {
+      alert('Please enter an ingredient name');
+      return;
+    }
+
+    setStockLoading(true);
+    try {
+      await api.setStock(
+        'ingredient',
+        newIngredient.name.trim(),
+        newIngredient.quantity,
+        newIngredient.reorderLevel,
+        true,
+        newIngredient.unit
+      );
+      setNewIngredient({ name: '', unit: 'ml', quantity: 0, reorderLevel: 0 });
+      await loadStockData();
+    } catch (error: any) {
+      alert('Failed to add ingredient: ' + error.message);
+    } finally {
+      setStockLoading(false);
+    }
+  };
+
+  // ✅ บันทึกของเสีย (ตัดสต๊อก + คิดต้นทุน)
+  const handleLogWaste = async () => {
+    if (!wasteForm.stockId || wasteForm.quantity <= 0) {
+      alert('Select an item and enter a quantity greater than 0');
+      return;
+    }
+
+    setStockLoading(true);
+    try {
+      const result = await api.logWaste(
+        wasteForm.stockId,
+        wasteForm.quantity,
+        wasteForm.category,
+        wasteForm.note.trim() || undefined
+      );
+      setWasteForm({ stockId: '', quantity: 0, category: 'spoiled', note: '' });
+      await loadStockData();
+      alert(result.message);
+    } catch (error: any) {
+      alert('Failed to log waste: ' + error.message);
+    } finally {
+      setStockLoading(false);
+    }
+  };
+
   const handleInitializeStock = async () => {
     if (!confirm('This will create initial stock entries. Continue?')) return;
     
@@ -166,12 +375,14 @@ export default function DataManagementPage() {
       await api.updateStock(editingStock._id, {
         quantity: editingStock.quantity,
         reorderLevel: editingStock.reorderLevel,
-        isActive: editingStock.isActive
+        isActive: editingStock.isActive,
+        note: stockNote.trim() || undefined
       });
       
       await loadStockData();
       setShowStockModal(false);
       setEditingStock(null);
+      setStockNote('');
       alert('Stock updated successfully!');
     } catch (error) {
       console.error('Failed to update stock:', error);
@@ -210,6 +421,22 @@ export default function DataManagementPage() {
       setStockLoading(false);
     }
   };
+  // ✅ ประวัติการเปลี่ยนแปลงสต๊อก (ขาย/เติม/ของเสีย/ปรับยอด/คืนจากยกเลิก)
+  const handleShowHistory = async (item: StockItem) => {
+    setHistoryStock(item);
+    setStockMovements([]);
+    setHistoryLoading(true);
+    try {
+      const result = await api.getStockMovements(item._id);
+      setStockMovements(result.movements);
+    } catch (error: any) {
+      alert('Failed to load stock history: ' + error.message);
+      setHistoryStock(null);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
   const loadAllUsers = async () => {
     try {
       const filters: any = {};
@@ -235,10 +462,47 @@ export default function DataManagementPage() {
     setMenuData(updated);
   };
 
-  const toggleItemActive = (type: 'flavors' | 'toppings', index: number) => {
-    const updated = { ...menuData };
-    updated[type][index].active = !updated[type][index].active;
-    setMenuData(updated);
+  const updateSizePrice = (index: number, newPrice: number) => {
+    const sizes = [...menuData.sizes];
+    sizes[index] = { ...sizes[index], price: newPrice };
+    setMenuData({ ...menuData, sizes });
+  };
+
+  // ✅ บันทึกราคาลงฐานข้อมูล (ออเดอร์เก่ายังคงใช้ราคาที่ snapshot ไว้)
+  const handleSavePrices = async () => {
+    setMenuLoading(true);
+    try {
+      await api.updatePricing({
+        flavorPrices: menuData.flavors.map(f => ({ name: f.name, price: f.price })),
+        toppingPrices: menuData.toppings.map(t => ({ name: t.name, price: t.price })),
+        sizePrices: menuData.sizes.reduce(
+          (acc, s) => ({ ...acc, [s.size]: s.price }),
+          {} as { S: number; M: number; L: number }
+        )
+      });
+      alert('Prices saved successfully!');
+      await loadMenuItems();
+    } catch (error: any) {
+      console.error('Failed to save prices:', error);
+      alert(error?.message || 'Failed to save prices');
+    } finally {
+      setMenuLoading(false);
+    }
+  };
+
+  const toggleItemActive = async (type: 'flavors' | 'toppings', index: number) => {
+    const item = menuData[type][index];
+    
+    setMenuLoading(true);
+    try {
+      await api.updateMenuItem(item._id, { isActive: !item.active });
+      await loadMenuItems();
+    } catch (error: any) {
+      console.error('Failed to update menu item:', error);
+      alert(error?.message || 'Failed to update menu item');
+    } finally {
+      setMenuLoading(false);
+    }
   };
 
   const handleEditUser = (user: any) => {
@@ -303,73 +567,6 @@ export default function DataManagementPage() {
     }
   };
 
-  const exportMenuCSV = () => {
-    let csv = 'Category,Name,Price,Status\n';
-    
-    menuData.flavors.forEach(flavor => {
-      csv += `Flavor,${flavor.name},${flavor.price},${flavor.active ? 'Active' : 'Inactive'}\n`;
-    });
-    
-    menuData.toppings.forEach(topping => {
-      csv += `Topping,${topping.name},${topping.price},${topping.active ? 'Active' : 'Inactive'}\n`;
-    });
-    
-    csv += '\nSize,Additional Price\n';
-    menuData.sizes.forEach(size => {
-      csv += `${size.size},${size.price}\n`;
-    });
-    
-    downloadCSV(csv, 'menu_data');
-  };
-
-  const exportReviewStatsCSV = () => {
-    let csv = 'Review Statistics Report\n\n';
-    csv += 'Metric,Value\n';
-    csv += `Total Reviews,${stats.totalReviews}\n`;
-    csv += `Average Rating,${stats.averageRating.toFixed(2)}\n`;
-    csv += `Total Orders,${stats.totalOrders}\n`;
-    csv += `Total Revenue,${stats.totalRevenue}\n\n`;
-    
-    csv += 'Rating Distribution\n';
-    csv += 'Stars,Count\n';
-    
-    if (stats.ratingDistribution) {
-      for (let i = 5; i >= 1; i--) {
-        csv += `${i} Stars,${stats.ratingDistribution[i] || 0}\n`;
-      }
-    }
-    
-    downloadCSV(csv, 'review_statistics');
-  };
-
-  const exportStockCSV = () => {
-    let csv = 'Type,Name,Quantity,Unit,Reorder Level,Status,Last Restocked\n';
-    
-    stockItems.forEach(item => {
-      const lastRestockedDate = new Date(item.lastRestocked).toLocaleDateString();
-      csv += `${item.itemType},${item.name},${item.quantity},${item.unit},${item.reorderLevel},`;
-      csv += `${item.isActive ? 'Active' : 'Inactive'},${lastRestockedDate}\n`;
-    });
-    
-    csv += '\n\nLow Stock Alert\n';
-    csv += 'Name,Type,Current Quantity,Reorder Level\n';
-    lowStockItems.forEach(item => {
-      csv += `${item.name},${item.itemType},${item.quantity},${item.reorderLevel}\n`;
-    });
-    
-    downloadCSV(csv, 'stock_data');
-  };
-
-  const downloadCSV = (csvContent: string, filename: string) => {
-    const dataUri = 'data:text/csv;charset=utf-8,\uFEFF' + encodeURIComponent(csvContent);
-    const exportFileDefaultName = `${filename}_${new Date().toISOString().split('T')[0]}.csv`;
-    
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
-  };
-
   return (
     <div className="min-h-screen bg-[#EBE6DE]">
       {/* Header */}
@@ -429,15 +626,71 @@ export default function DataManagementPage() {
         {activeTab === 'menu' && (
           <div className="space-y-8">
             <div className="bg-white rounded-xl shadow-lg p-6">
-              <div className="flex justify-between items-center mb-4">
-                <h3 className="text-2xl text-[#69806C] font-['Iceland']">Shaved Ice Flavors</h3>
+              <h3 className="text-2xl text-[#69806C] font-['Iceland'] mb-4">Add Menu Item</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <select
+                  value={newMenuItem.type}
+                  onChange={(e) => setNewMenuItem({ ...newMenuItem, type: e.target.value as 'flavor' | 'topping' })}
+                  className="p-2 border border-gray-300 rounded font-['Iceland']"
+                >
+                  <option value="flavor">Flavor</option>
+                  <option value="topping">Topping</option>
+                </select>
+                <input
+                  type="text"
+                  placeholder="Name (e.g. Mango)"
+                  value={newMenuItem.name}
+                  onChange={(e) => setNewMenuItem({ ...newMenuItem, name: e.target.value })}
+                  className="p-2 border border-gray-300 rounded font-['Iceland']"
+                />
+                <input
+                  type="text"
+                  placeholder="Description"
+                  value={newMenuItem.description}
+                  onChange={(e) => setNewMenuItem({ ...newMenuItem, description: e.target.value })}
+                  maxLength={200}
+                  className="p-2 border border-gray-300 rounded font-['Iceland']"
+                />
+                <input
+                  type="text"
+                  placeholder="Image path (e.g. /images/mango.png)"
+                  value={newMenuItem.image}
+                  onChange={(e) => setNewMenuItem({ ...newMenuItem, image: e.target.value })}
+                  className="p-2 border border-gray-300 rounded font-['Iceland']"
+                />
+                <div className="flex items-center gap-2">
+                  <label className="text-gray-700 font-['Iceland']">Color</label>
+                  <input
+                    type="color"
+                    value={newMenuItem.color}
+                    onChange={(e) => setNewMenuItem({ ...newMenuItem, color: e.target.value })}
+                    className="w-12 h-10 border rounded"
+                  />
+                </div>
                 <button
-                  onClick={exportMenuCSV}
-                  className="px-4 py-2 bg-[#69806C] text-white rounded font-['Iceland'] hover:bg-[#5a6e5e] transition"
+                  onClick={handleCreateMenuItem}
+                  disabled={menuLoading}
+                  className="px-4 py-2 bg-[#69806C] text-white rounded font-['Iceland'] hover:bg-[#5a6e5e] transition disabled:opacity-50"
                 >
-                  📊 Export Menu as CSV
+                  ➕ Add Item
                 </button>
               </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-2xl text-[#69806C] font-['Iceland']">Shaved Ice Flavors</h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSavePrices}
+                    disabled={menuLoading}
+                    className="px-4 py-2 bg-[#947E5A] text-white rounded font-['Iceland'] hover:bg-[#7a6848] transition disabled:opacity-50"
+                  >
+                    💾 Save Prices
+                  </button>
+                  <ExportButtons report="menu" compact />
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
@@ -450,7 +703,7 @@ export default function DataManagementPage() {
                   </thead>
                   <tbody>
                     {menuData.flavors.map((flavor, index) => (
-                      <tr key={`${flavor.name}-${index}`} className="border-b">
+                      <tr key={flavor._id} className="border-b">
                         <td className="py-3 font-['Iceland']">{flavor.name}</td>
                         <td className="py-3">
                           <input
@@ -471,16 +724,26 @@ export default function DataManagementPage() {
                           </span>
                         </td>
                         <td className="py-3">
-                          <button
-                            onClick={() => toggleItemActive('flavors', index)}
-                            className={`px-3 py-1 rounded text-sm font-['Iceland'] ${
-                              flavor.active
-                                ? 'bg-red-500 text-white hover:bg-red-600'
-                                : 'bg-green-500 text-white hover:bg-green-600'
-                            }`}
-                          >
-                            {flavor.active ? 'Disable' : 'Enable'}
-                          </button>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => toggleItemActive('flavors', index)}
+                              disabled={menuLoading}
+                              className={`px-3 py-1 rounded text-sm font-['Iceland'] disabled:opacity-50 ${
+                                flavor.active
+                                  ? 'bg-red-500 text-white hover:bg-red-600'
+                                  : 'bg-green-500 text-white hover:bg-green-600'
+                              }`}
+                            >
+                              {flavor.active ? 'Disable' : 'Enable'}
+                            </button>
+                            <button
+                              onClick={() => handleDeleteMenuItem(flavor._id, flavor.name)}
+                              disabled={menuLoading}
+                              className="px-3 py-1 bg-gray-500 text-white rounded text-sm font-['Iceland'] hover:bg-gray-600 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -503,7 +766,7 @@ export default function DataManagementPage() {
                   </thead>
                   <tbody>
                     {menuData.toppings.map((topping, index) => (
-                      <tr key={`${topping.name}-${index}`} className="border-b">
+                      <tr key={topping._id} className="border-b">
                         <td className="py-3 font-['Iceland']">{topping.name}</td>
                         <td className="py-3">
                           <input
@@ -524,16 +787,26 @@ export default function DataManagementPage() {
                           </span>
                         </td>
                         <td className="py-3">
-                          <button
-                            onClick={() => toggleItemActive('toppings', index)}
-                            className={`px-3 py-1 rounded text-sm font-['Iceland'] ${
-                              topping.active
-                                ? 'bg-red-500 text-white hover:bg-red-600'
-                                : 'bg-green-500 text-white hover:bg-green-600'
-                            }`}
-                          >
-                            {topping.active ? 'Disable' : 'Enable'}
-                          </button>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => toggleItemActive('toppings', index)}
+                              disabled={menuLoading}
+                              className={`px-3 py-1 rounded text-sm font-['Iceland'] disabled:opacity-50 ${
+                                topping.active
+                                  ? 'bg-red-500 text-white hover:bg-red-600'
+                                  : 'bg-green-500 text-white hover:bg-green-600'
+                              }`}
+                            >
+                              {topping.active ? 'Disable' : 'Enable'}
+                            </button>
+                            <button
+                              onClick={() => handleDeleteMenuItem(topping._id, topping.name)}
+                              disabled={menuLoading}
+                              className="px-3 py-1 bg-gray-500 text-white rounded text-sm font-['Iceland'] hover:bg-gray-600 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -545,10 +818,19 @@ export default function DataManagementPage() {
             <div className="bg-white rounded-xl shadow-lg p-6">
               <h3 className="text-2xl text-[#69806C] font-['Iceland'] mb-4">Size Pricing</h3>
               <div className="grid grid-cols-3 gap-4">
-                {menuData.sizes.map((size) => (
+                {menuData.sizes.map((size, index) => (
                   <div key={size.size} className="bg-gray-50 p-4 rounded-lg text-center">
                     <div className="text-3xl font-['Iceland'] text-[#69806C] mb-2">{size.size}</div>
-                    <div className="text-xl font-['Iceland']">+฿{size.price}</div>
+                    <div className="flex items-center justify-center gap-1 text-xl font-['Iceland']">
+                      <span>+฿</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={size.price}
+                        onChange={(e) => updateSizePrice(index, Number(e.target.value))}
+                        className="w-20 p-1 border rounded font-['Iceland']"
+                      />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -601,6 +883,16 @@ export default function DataManagementPage() {
               >
                 Search
               </button>
+              <ExportButtons
+                report="users"
+                filters={{
+                  ...(filterRole && { role: filterRole }),
+                  ...(filterStatus && { isActive: filterStatus }),
+                  ...(searchTerm && { search: searchTerm })
+                }}
+                disabled={users.length === 0}
+                compact
+              />
             </div>
             
             {loading ? (
@@ -711,16 +1003,132 @@ export default function DataManagementPage() {
                   >
                     🔧 Initialize Stock
                   </button> */}
-                  <button
-                    onClick={exportStockCSV}
-                    disabled={stockItems.length === 0}
-                    className="px-4 py-2 bg-[#69806C] text-white rounded font-['Iceland'] hover:bg-[#5a6e5e] transition disabled:opacity-50"
-                  >
-                    📊 Export Stock CSV
-                  </button>
+                  <Link href="/admin/recipes">
+                    <span className="px-4 py-2 bg-[#947E5A] text-white rounded font-['Iceland'] hover:bg-[#7d6a4b] transition cursor-pointer inline-block">
+                      🧾 Recipes
+                    </span>
+                  </Link>
+                  <Link href="/admin/stocktake">
+                    <span className="px-4 py-2 bg-[#947E5A] text-white rounded font-['Iceland'] hover:bg-[#7d6a4b] transition cursor-pointer inline-block">
+                      📋 Stocktake
+                    </span>
+                  </Link>
+                  <ExportButtons report="stock" disabled={stockItems.length === 0} compact />
                 </div>
               </div>
 
+              {/* Add Ingredient */}
+              <div className="mb-6 p-4 bg-[#EBE6DE] rounded-lg flex flex-wrap items-end gap-3 font-['Iceland']">
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Ingredient</span>
+                  <input
+                    type="text"
+                    value={newIngredient.name}
+                    onChange={(e) => setNewIngredient({ ...newIngredient, name: e.target.value })}
+                    placeholder="e.g. Mango syrup"
+                    className="p-2 border rounded"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Unit</span>
+                  <select
+                    value={newIngredient.unit}
+                    onChange={(e) => setNewIngredient({ ...newIngredient, unit: e.target.value })}
+                    className="p-2 border rounded"
+                  >
+                    {INGREDIENT_UNITS.map(unit => (
+                      <option key={unit} value={unit}>{unit}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Quantity</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={newIngredient.quantity}
+                    onChange={(e) => setNewIngredient({ ...newIngredient, quantity: Number(e.target.value) })}
+                    className="p-2 border rounded w-28"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Reorder Level</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={newIngredient.reorderLevel}
+                    onChange={(e) => setNewIngredient({ ...newIngredient, reorderLevel: Number(e.target.value) })}
+                    className="p-2 border rounded w-28"
+                  />
+                </label>
+                <button
+                  onClick={handleAddIngredient}
+                  disabled={stockLoading}
+                  className="px-4 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                >
+                  + Add Ingredient
+                </button>
+              </div>
+
+              {/* Log Waste */}
+              <div className="mb-6 p-4 bg-red-50 rounded-lg flex flex-wrap items-end gap-3 font-['Iceland']">
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Wasted Item</span>
+                  <select
+                    value={wasteForm.stockId}
+                    onChange={(e) => setWasteForm({ ...wasteForm, stockId: e.target.value })}
+                    className="p-2 border rounded"
+                  >
+                    <option value="">Select...</option>
+                    {stockItems.map(item => (
+                      <option key={item._id} value={item._id}>
+                        {item.name} ({item.quantity} {item.unit})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Quantity</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={wasteForm.quantity}
+                    onChange={(e) => setWasteForm({ ...wasteForm, quantity: Number(e.target.value) })}
+                    className="p-2 border rounded w-28"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="text-sm text-gray-600">Reason</span>
+                  <select
+                    value={wasteForm.category}
+                    onChange={(e) => setWasteForm({ ...wasteForm, category: e.target.value as WasteCategory })}
+                    className="p-2 border rounded capitalize"
+                  >
+                    {WASTE_CATEGORIES.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col flex-1 min-w-[160px]">
+                  <span className="text-sm text-gray-600">Note (optional)</span>
+                  <input
+                    type="text"
+                    maxLength={200}
+                    value={wasteForm.note}
+                    onChange={(e) => setWasteForm({ ...wasteForm, note: e.target.value })}
+                    placeholder="e.g. Tub left out overnight"
+                    className="p-2 border rounded"
+                  />
+                </label>
+                <button
+                  onClick={handleLogWaste}
+                  disabled={stockLoading}
+                  className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition disabled:opacity-50"
+                >
+                  🗑️ Log Waste
+                </button>
+              </div>
+
               {/* Low Stock Alert */}
               {lowStockItems.length > 0 && (
                 <div className="mb-6 p-4 bg-red-50 border-2 border-red-200 rounded-lg">
@@ -730,13 +1138,52 @@ export default function DataManagementPage() {
                   <div className="flex flex-wrap gap-2">
                     {lowStockItems.map(item => (
                       <span key={item._id} className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-['Iceland']">
-                        {item.name}: {item.quantity}/{item.reorderLevel}
+                        {item.name}: {item.quantity}/{item.reorderLevel} {item.unit}
                       </span>
                     ))}
                   </div>
                 </div>
               )}
 
+              {/* Expiring Batches */}
+              <div className="mb-6 p-4 bg-yellow-50 border-2 border-yellow-200 rounded-lg">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <h4 className="text-[#947E5A] font-['Iceland'] text-lg font-bold">
+                    ⏳ Expiring in the next
+                  </h4>
+                  <select
+                    value={expiringDays}
+                    onChange={(e) => handleChangeExpiringDays(Number(e.target.value))}
+                    className="p-1 border rounded font-['Iceland']"
+                  >
+                    {EXPIRY_WINDOWS.map(days => (
+                      <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                    ))}
+                  </select>
+                  <span className="text-[#947E5A] font-['Iceland']">({expiringBatches.length} batches)</span>
+                </div>
+                {expiringBatches.length === 0 ? (
+                  <p className="text-gray-500 font-['Iceland']">No batches expiring soon</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {expiringBatches.map(batch => {
+                      const expired = batch.expiresAt && new Date(batch.expiresAt) <= new Date();
+                      return (
+                        <span
+                          key={batch._id}
+                          className={`px-3 py-1 rounded-full text-sm font-['Iceland'] ${
+                            expired ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-[#543429]'
+                          }`}
+                        >
+                          {batch.name}: {batch.remaining} {batch.stock?.unit} · {expired ? 'expired' : 'expires'}{' '}
+                          {new Date(batch.expiresAt!).toLocaleDateString('th-TH')}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
               {/* Stock Table */}
               {stockLoading ? (
                 <div className="text-center py-8">
@@ -764,6 +1211,7 @@ export default function DataManagementPage() {
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Quantity</th>
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Unit</th>
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Reorder Level</th>
+                        <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Days Left</th>
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Status</th>
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Last Restocked</th>
                         <th className="text-center py-3 px-4 font-['Iceland'] text-gray-700">Actions</th>
@@ -778,7 +1226,9 @@ export default function DataManagementPage() {
                             <span className={`px-2 py-1 rounded text-sm font-['Iceland'] ${
                               item.itemType === 'flavor' 
                                 ? 'bg-blue-100 text-blue-700' 
-                                : 'bg-green-100 text-green-700'
+                                : item.itemType === 'topping'
+                                  ? 'bg-green-100 text-green-700'
+                                  : 'bg-orange-100 text-orange-700'
                             }`}>
                               {item.itemType}
                             </span>
@@ -801,6 +1251,35 @@ export default function DataManagementPage() {
                           </td>
                           <td className="py-3 px-4 text-center font-['Iceland']">
                             {item.reorderLevel}
+                            {forecasts[item._id]?.suggestedReorderLevel != null &&
+                              forecasts[item._id].suggestedReorderLevel !== item.reorderLevel && (
+                              <button
+                                onClick={() => handleApplyReorderLevel(item, forecasts[item._id].suggestedReorderLevel!)}
+                                disabled={stockLoading}
+                                title={`Based on ${forecasts[item._id].averageDailyUsage} ${item.unit}/day and ${forecasts[item._id].leadTimeDays} day lead time`}
+                                className="block mx-auto mt-1 text-xs text-[#947E5A] underline hover:text-[#543429] disabled:opacity-50"
+                              >
+                                suggest {forecasts[item._id].suggestedReorderLevel}
+                              </button>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-center font-['Iceland']">
+                            {forecasts[item._id]?.daysRemaining != null ? (
+                              <>
+                                <span className={`font-bold ${
+                                  forecasts[item._id].daysRemaining! <= 2 ? 'text-red-600' : 'text-gray-800'
+                                }`}>
+                                  {forecasts[item._id].daysRemaining}
+                                </span>
+                                {forecasts[item._id].suggestedOrderQuantity ? (
+                                  <span className="block text-xs text-gray-500">
+                                    order {forecasts[item._id].suggestedOrderQuantity} {item.unit}
+                                  </span>
+                                ) : null}
+                              </>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
                           </td>
                           <td className="py-3 px-4 text-center">
                             <span className={`px-2 py-1 rounded text-sm font-['Iceland'] ${
@@ -826,6 +1305,18 @@ export default function DataManagementPage() {
                               <span>Restock</span>
                             </button>
                             
+                            {/* ปุ่ม Receive Batch */}
+                            <button
+                              onClick={() => {
+                                setBatchStock(item);
+                                setBatchForm({ quantity: 0, expiresAt: '' });
+                              }}
+                              disabled={stockLoading}
+                              className="px-3 py-2 bg-[#69806C] text-white rounded text-sm font-['Iceland'] hover:bg-[#5a6e5e] disabled:opacity-50"
+                            >
+                              + Batch
+                            </button>
+
                             {/* ปุ่ม Edit */}
                             <button
                               onClick={() => {
@@ -837,6 +1328,14 @@ export default function DataManagementPage() {
                             >
                               Edit
                             </button>
+
+                            {/* ปุ่ม History */}
+                            <button
+                              onClick={() => handleShowHistory(item)}
+                              className="px-3 py-2 bg-[#947E5A] text-white rounded text-sm font-['Iceland'] hover:bg-[#7d6a4b]"
+                            >
+                              History
+                            </button>
                           </div>
                         </td>
                         </tr>
@@ -894,12 +1393,7 @@ export default function DataManagementPage() {
             <div className="bg-white rounded-xl shadow-lg p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-2xl text-[#69806C] font-['Iceland']">Review Statistics</h3>
-                <button
-                  onClick={exportReviewStatsCSV}
-                  className="px-4 py-2 bg-[#69806C] text-white rounded font-['Iceland'] hover:bg-[#5a6e5e] transition"
-                >
-                  📊 Export Stats as CSV
-                </button>
+                <ExportButtons report="reviews" compact />
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
@@ -994,6 +1488,17 @@ export default function DataManagementPage() {
                 />
                 <label className="text-gray-700 font-['Iceland']">Active</label>
               </div>
+              <div>
+                <label className="block text-gray-700 font-['Iceland'] mb-2">Note (why the quantity changed)</label>
+                <input
+                  type="text"
+                  value={stockNote}
+                  onChange={(e) => setStockNote(e.target.value)}
+                  placeholder="e.g. Counted after closing"
+                  maxLength={200}
+                  className="w-full p-2 border rounded font-['Iceland']"
+                />
+              </div>
             </div>
             <div className="flex gap-4 mt-6">
               <button
@@ -1075,6 +1580,7 @@ export default function DataManagementPage() {
                 onClick={() => {
                   setShowStockModal(false);
                   setEditingStock(null);
+                  setStockNote('');
                 }}
                 disabled={stockLoading}
                 className="flex-1 px-4 py-2 bg-gray-500 text-white rounded font-['Iceland'] hover:bg-gray-600 disabled:opacity-50"
@@ -1085,6 +1591,118 @@ export default function DataManagementPage() {
           </div>
         </div>
       )}
+      {/* Receive Batch Modal */}
+      {batchStock && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl p-8 max-w-md w-full mx-4">
+            <h3 className="text-2xl text-[#69806C] font-['Iceland'] mb-6">Receive Batch: {batchStock.name}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-gray-700 font-['Iceland'] mb-2">Quantity ({batchStock.unit})</label>
+                <input
+                  type="number"
+                  value={batchForm.quantity}
+                  onChange={(e) => setBatchForm({ ...batchForm, quantity: Number(e.target.value) })}
+                  className="w-full p-2 border rounded font-['Iceland']"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 font-['Iceland'] mb-2">Expiry Date (optional)</label>
+                <input
+                  type="date"
+                  value={batchForm.expiresAt}
+                  onChange={(e) => setBatchForm({ ...batchForm, expiresAt: e.target.value })}
+                  className="w-full p-2 border rounded font-['Iceland']"
+                />
+              </div>
+            </div>
+            <div className="flex gap-4 mt-6">
+              <button
+                onClick={handleReceiveBatch}
+                disabled={stockLoading}
+                className="flex-1 px-4 py-2 bg-[#69806C] text-white rounded font-['Iceland'] hover:bg-[#5a6e5e] disabled:opacity-50"
+              >
+                Receive
+              </button>
+              <button
+                onClick={() => setBatchStock(null)}
+                disabled={stockLoading}
+                className="flex-1 px-4 py-2 bg-gray-500 text-white rounded font-['Iceland'] hover:bg-gray-600 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Stock History Modal */}
+      {historyStock && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl p-8 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-2xl text-[#69806C] font-['Iceland']">
+                Stock History: {historyStock.name}
+              </h3>
+              <button
+                onClick={() => setHistoryStock(null)}
+                className="text-gray-500 hover:text-gray-700 text-2xl"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="overflow-y-auto">
+              {historyLoading ? (
+                <p className="text-center py-8 font-['Iceland'] text-gray-600">Loading history...</p>
+              ) : stockMovements.length === 0 ? (
+                <p className="text-center py-8 font-['Iceland'] text-gray-600">No stock movements recorded yet</p>
+              ) : (
+                <table className="w-full font-['Iceland']">
+                  <thead>
+                    <tr className="border-b-2 border-[#69806C] text-gray-700">
+                      <th className="text-left py-2 px-3">Date</th>
+                      <th className="text-left py-2 px-3">Reason</th>
+                      <th className="text-center py-2 px-3">Change</th>
+                      <th className="text-center py-2 px-3">After</th>
+                      <th className="text-left py-2 px-3">Order</th>
+                      <th className="text-right py-2 px-3">Cost</th>
+                      <th className="text-left py-2 px-3">By</th>
+                      <th className="text-left py-2 px-3">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stockMovements.map(movement => (
+                      <tr key={movement._id} className="border-b">
+                        <td className="py-2 px-3 text-sm text-gray-600">
+                          {new Date(movement.createdAt).toLocaleString('th-TH')}
+                        </td>
+                        <td className="py-2 px-3">
+                          <span className="px-2 py-1 rounded text-sm bg-gray-100 text-gray-700">
+                            {movement.reason}{movement.wasteCategory ? ` · ${movement.wasteCategory}` : ''}
+                          </span>
+                        </td>
+                        <td className={`py-2 px-3 text-center font-bold ${movement.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {movement.delta > 0 ? '+' : ''}{movement.delta}
+                        </td>
+                        <td className="py-2 px-3 text-center">{movement.quantityAfter}</td>
+                        <td className="py-2 px-3 text-sm">
+                          {movement.order?.orderId || movement.purchaseOrder?.poNumber || '-'}
+                        </td>
+                        <td className="py-2 px-3 text-sm text-right">
+                          {movement.totalCost !== undefined ? `฿${movement.totalCost.toFixed(2)}` : '-'}
+                        </td>
+                        <td className="py-2 px-3 text-sm">{movement.user?.fullName || '-'}</td>
+                        <td className="py-2 px-3 text-sm text-gray-600">{movement.note || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -56,9 +56,13 @@ export default function AdminPage() {
 
   const adminButtons = [
     { text: 'สร้างรหัสโค้ด', href: '/admin/create-code' },
+    { text: 'จัดการรหัสโค้ด', href: '/admin/codes' },
     { text: 'ดูรายการออเดอร์', href: '/admin/orders' },
+    { text: 'หน้าจอครัว', href: '/admin/kitchen' },
     { text: 'การจัดการข้อมูล', href: '/admin/data-management' },
+    { text: 'สั่งซื้อวัตถุดิบ', href: '/admin/purchasing' },
     { text: 'รายงานยอดขาย', href: '/admin/sales-report' },
+    { text: 'ปิดยอดประจำวัน', href: '/admin/closing' },
   ];
 
   if (loading) {
@@ -0,0 +1,223 @@
+// src/pages/admin/kitchen/index.tsx - หน้าจอครัว (ตั๋วออเดอร์ขนาดใหญ่ กดครั้งเดียวเลื่อนสถานะ)
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, Order } from '@/utils/api';
+import { useOrderStream, OrderStreamEvent } from '@/hooks/useOrderStream';
+import { getNextStatus } from '@/utils/orderStatus';
+
+const KITCHEN_STATUSES = ['Pending', 'Preparing'];
+const TARGET_PREP_KEY = 'kitchenTargetPrepMinutes';
+const DEFAULT_TARGET_PREP_MINUTES = 10;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// เริ่มนับเวลาตอนจ่ายเงินแล้ว (ออเดอร์เก่าที่ไม่มี paid ใช้เวลาสั่ง)
+const queuedAt = (order: Order) => new Date(order.timestamps?.paid || order.timestamps?.ordered || order.createdAt).getTime();
+
+export default function KitchenPage() {
+  const router = useRouter();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [targetPrepMinutes, setTargetPrepMinutes] = useState(DEFAULT_TARGET_PREP_MINUTES);
+  const [bumping, setBumping] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    const saved = Number(localStorage.getItem(TARGET_PREP_KEY));
+    if (saved > 0) setTargetPrepMinutes(saved);
+
+    fetchOrders();
+  }, []);
+
+  // ✅ นาฬิกาสำหรับตัวจับเวลาบนตั๋ว
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchOrders = async () => {
+    try {
+      const results = await Promise.all(
+        KITCHEN_STATUSES.map(status => api.getAllOrders({ status }))
+      );
+      setOrders(results.flatMap(result => result.orders || []));
+    } catch (error) {
+      console.error('Failed to fetch kitchen orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ✅ Real-time: ออเดอร์ใหม่เข้าคิว / ออเดอร์ที่พร้อมแล้วออกจากจอ
+  const { mode: streamMode } = useOrderStream({
+    path: '/stream',
+    withToken: true,
+    onEvent: (type: OrderStreamEvent, data: any) => {
+      const changed: Order | undefined = data?.order;
+      if (!changed) return;
+
+      setOrders(prev => {
+        const others = prev.filter(o => o._id !== changed._id);
+        return KITCHEN_STATUSES.includes(changed.status) ? [...others, changed] : others;
+      });
+    },
+    poll: fetchOrders
+  });
+
+  const handleTargetChange = (minutes: number) => {
+    if (!minutes || minutes < 1) return;
+    setTargetPrepMinutes(minutes);
+    localStorage.setItem(TARGET_PREP_KEY, String(minutes));
+  };
+
+  const bumpOrder = async (order: Order) => {
+    const nextStatus = getNextStatus(order.status);
+    if (!nextStatus) return;
+
+    setBumping(order._id);
+    try {
+      const result = await api.updateOrderStatus(order._id, nextStatus);
+      const updated: Order = result.order;
+      setOrders(prev => KITCHEN_STATUSES.includes(updated.status)
+        ? prev.map(o => o._id === updated._id ? updated : o)
+        : prev.filter(o => o._id !== updated._id)
+      );
+    } catch (error: any) {
+      alert(error.message || 'Failed to update status');
+      await fetchOrders();
+    } finally {
+      setBumping(null);
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen?.();
+    }
+  };
+
+  const tickets = [...orders].sort((a, b) => queuedAt(a) - queuedAt(b));
+  const targetMs = targetPrepMinutes * 60 * 1000;
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Kitchen</h1>
+        <span className="ml-4 px-3 py-1 bg-white/20 rounded-full text-white text-sm">
+          {tickets.length} in queue
+        </span>
+
+        <div className="ml-auto flex items-center gap-4 text-white">
+          <label className="flex items-center gap-2">
+            <span>Target prep (min)</span>
+            <input
+              type="number"
+              min={1}
+              value={targetPrepMinutes}
+              onChange={(e) => handleTargetChange(Number(e.target.value))}
+              className="w-16 p-1 rounded text-gray-800 text-center"
+            />
+          </label>
+          <span className="text-sm text-white/70">
+            {streamMode === 'stream' ? '● Live' : streamMode === 'polling' ? '○ Polling' : '○ Connecting...'}
+          </span>
+          <button
+            onClick={toggleFullscreen}
+            className="px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg transition"
+          >
+            ⛶ Full screen
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <p className="text-center text-2xl text-[#69806C] py-12">Loading orders...</p>
+        ) : tickets.length === 0 ? (
+          <p className="text-center text-3xl text-gray-500 py-24">🍧 No orders in the queue</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+            {tickets.map(order => {
+              const elapsed = now - queuedAt(order);
+              const overdue = elapsed > targetMs;
+              const nextStatus = getNextStatus(order.status);
+
+              return (
+                <div
+                  key={order._id}
+                  className={`bg-white rounded-xl shadow-lg overflow-hidden flex flex-col border-4 ${
+                    overdue ? 'border-red-500 animate-pulse' : 'border-transparent'
+                  }`}
+                >
+                  <div className={`px-4 py-3 flex justify-between items-center text-white ${
+                    order.status === 'Pending' ? 'bg-yellow-500' : 'bg-blue-500'
+                  }`}>
+                    <div>
+                      <p className="text-3xl font-bold">{order.customerCode}</p>
+                      <p className="text-sm opacity-80">{order.status}</p>
+                    </div>
+                    <p className={`text-4xl font-bold ${overdue ? 'text-red-100' : ''}`}>
+                      {formatElapsed(elapsed)}
+                    </p>
+                  </div>
+
+                  <div className="flex-1 p-4 space-y-4">
+                    {order.items.map((item, idx) => (
+                      <div key={item._id || idx} className={idx > 0 ? 'pt-4 border-t border-dashed' : ''}>
+                        <div className="flex items-center gap-3">
+                          <span className="w-12 h-12 rounded-full bg-[#69806C] text-white text-3xl flex items-center justify-center">
+                            {item.cupSize}
+                          </span>
+                          <span className="text-3xl text-[#543429]">{item.shavedIce.flavor}</span>
+                        </div>
+                        <p className="mt-2 text-xl text-gray-700">
+                          {item.toppings.length > 0
+                            ? `+ ${item.toppings.map(t => t.name).join(', ')}`
+                            : 'No toppings'}
+                        </p>
+                        {item.specialInstructions && (
+                          <p className="mt-2 p-2 bg-yellow-50 rounded text-lg text-[#947E5A]">
+                            📝 {item.specialInstructions}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {nextStatus && (
+                    <button
+                      onClick={() => bumpOrder(order)}
+                      disabled={bumping === order._id}
+                      className="w-full py-5 bg-[#69806C] text-white text-2xl hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                    >
+                      {bumping === order._id ? 'Updating...' : `Mark as ${nextStatus}`}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,19 +4,26 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { api } from '@/utils/api';
+import { api, OrderItem, OrderPayment, OrderStatusChange, PaymentEntry, PaymentMethod, Tender } from '@/utils/api';
+import { useOrderStream, OrderStreamEvent } from '@/hooks/useOrderStream';
+import { getNextStatus } from '@/utils/orderStatus';
+import { getPaymentMethodLabel } from '@/utils/paymentMethods';
+import TenderModal from '@/components/TenderModal';
 
 interface Order {
   _id: string;
   orderId: string;
   customerCode: string;
-  cupSize: string;
-  shavedIce: { flavor: string };
-  toppings: Array<{ name: string }>;
+  items: OrderItem[];
   pricing: { total: number };
   status: string;
+  statusHistory?: OrderStatusChange[];
+  paymentStatus?: string;
+  paymentMethod?: PaymentMethod;
+  payments?: PaymentEntry[];
+  payment?: OrderPayment;
+  cancellation?: { reason?: string; refundAmount?: number };
   createdAt: string;
-  specialInstructions?: string;
 }
 
 export default function AdminOrdersPage() {
@@ -34,6 +41,7 @@ export default function AdminOrdersPage() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [lastRefresh, setLastRefresh] = useState(new Date());
   const [newOrdersCount, setNewOrdersCount] = useState(0);
+  const [payingOrder, setPayingOrder] = useState<Order | null>(null);
 
   useEffect(() => {
     fetchOrders();
@@ -41,16 +49,48 @@ export default function AdminOrdersPage() {
     requestNotificationPermission();
   }, [filter]);
 
-  // ✅ Auto-refresh every 10 seconds
-  useEffect(() => {
-    if (!autoRefresh) return;
+  // ✅ Real-time updates (SSE) - ถ้า stream หลุดจะ poll ทุก 10 วินาทีแทน
+  const { mode: streamMode } = useOrderStream({
+    path: '/stream',
+    withToken: true,
+    enabled: autoRefresh,
+    onEvent: (type, data) => handleOrderEvent(type, data),
+    poll: () => fetchOrdersSilent()
+  });
 
-    const interval = setInterval(() => {
-      fetchOrdersSilent();
-    }, 10000);
+  const matchesFilter = (order: Order) => filter === 'all' || order.status === filter;
 
-    return () => clearInterval(interval);
-  }, [autoRefresh, filter, orders]);
+  const handleOrderEvent = (type: OrderStreamEvent, data: any) => {
+    const changed: Order | undefined = data?.order;
+    if (!changed) return;
+
+    if (type === 'order-created') {
+      if (matchesFilter(changed)) {
+        setOrders(prev => prev.some(o => o._id === changed._id) ? prev : [changed, ...prev]);
+      }
+      setNewOrdersCount(prev => prev + 1);
+
+      // ✅ แจ้งเตือน (ไม่มีเสียง)
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('🍧 New Bingsu Order!', {
+          body: `Order #${changed.orderId} received`,
+          icon: '/favicon.ico',
+          silent: true
+        });
+      }
+    } else if (type === 'order-status-changed') {
+      setOrders(prev => {
+        const others = prev.filter(o => o._id !== changed._id);
+        if (!matchesFilter(changed)) return others;
+        return prev.some(o => o._id === changed._id)
+          ? prev.map(o => o._id === changed._id ? changed : o)
+          : [changed, ...others];
+      });
+    }
+
+    setLastRefresh(new Date());
+    fetchStats();
+  };
 
   const requestNotificationPermission = async () => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -129,6 +169,39 @@ export default function AdminOrdersPage() {
     }
   };
 
+  // ✅ รับเงินที่เคาน์เตอร์แล้ว (แบ่งจ่ายได้) → เข้าคิวครัว
+  const confirmPayment = async (tenders: Tender[]) => {
+    if (!payingOrder) return;
+
+    try {
+      await api.confirmOrderPayment(payingOrder._id, tenders);
+      setPayingOrder(null);
+      await fetchOrders();
+      await fetchStats();
+    } catch (error: any) {
+      alert(error.message || 'Failed to confirm payment');
+    }
+  };
+
+  // ✅ ยกเลิกออเดอร์ (คืนสต็อก/แต้ม/เงิน)
+  const cancelOrder = async (order: Order) => {
+    const reason = prompt(`Cancel order #${order.orderId}?\nPlease enter a reason:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('Cancellation reason is required');
+      return;
+    }
+
+    try {
+      await api.cancelOrder(order._id, reason.trim());
+      await fetchOrders();
+      await fetchStats();
+      alert('Order cancelled. Stock and loyalty have been restored.');
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel order');
+    }
+  };
+
   const handleRefreshNow = () => {
     setNewOrdersCount(0);
     fetchOrders();
@@ -136,6 +209,7 @@ export default function AdminOrdersPage() {
 
   const getStatusColor = (status: string) => {
     const colors = {
+      'AwaitingPayment': 'text-orange-600 bg-orange-50',
       'Pending': 'text-yellow-600 bg-yellow-50',
       'Preparing': 'text-blue-600 bg-blue-50',
       'Ready': 'text-green-600 bg-green-50',
@@ -145,15 +219,6 @@ export default function AdminOrdersPage() {
     return colors[status as keyof typeof colors] || 'text-gray-600 bg-gray-50';
   };
 
-  const getNextStatus = (currentStatus: string) => {
-    const statusFlow = {
-      'Pending': 'Preparing',
-      'Preparing': 'Ready',
-      'Ready': 'Completed'
-    };
-    return statusFlow[currentStatus as keyof typeof statusFlow];
-  };
-
   return (
     <div className="min-h-screen bg-[#EBE6DE]">
       <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
@@ -171,7 +236,9 @@ export default function AdminOrdersPage() {
               onChange={(e) => setAutoRefresh(e.target.checked)}
               className="w-4 h-4"
             />
-            <span className="text-sm">Auto-refresh (10s)</span>
+            <span className="text-sm">
+              Live updates{autoRefresh && ` (${streamMode === 'stream' ? 'connected' : streamMode === 'polling' ? 'polling 10s' : 'connecting...'})`}
+            </span>
           </label>
           
           <button
@@ -217,7 +284,7 @@ export default function AdminOrdersPage() {
 
       <div className="p-6 max-w-7xl mx-auto">
         <div className="flex gap-2 mb-6">
-          {['all', 'Pending', 'Preparing', 'Ready', 'Completed'].map((status) => (
+          {['all', 'AwaitingPayment', 'Pending', 'Preparing', 'Ready', 'Completed'].map((status) => (
             <button
               key={status}
               onClick={() => setFilter(status)}
@@ -261,31 +328,39 @@ export default function AdminOrdersPage() {
                   </span>
                 </div>
 
-                <div className="border-t border-b py-3 mb-3">
-                  <div className="grid grid-cols-2 gap-2 text-sm">
-                    <div>
-                      <span className="text-gray-600">Size:</span>
-                      <span className="ml-2 font-bold">{order.cupSize}</span>
-                    </div>
-                    <div>
-                      <span className="text-gray-600">Flavor:</span>
-                      <span className="ml-2 font-bold">{order.shavedIce.flavor}</span>
-                    </div>
-                    <div className="col-span-2">
-                      <span className="text-gray-600">Toppings:</span>
-                      <span className="ml-2 font-bold">
-                        {order.toppings.length > 0 
-                          ? order.toppings.map(t => t.name).join(', ')
-                          : 'None'}
-                      </span>
-                    </div>
-                  </div>
-                  {order.specialInstructions && (
-                    <div className="mt-2">
-                      <span className="text-gray-600 text-sm">Note:</span>
-                      <span className="ml-2 text-sm italic">{order.specialInstructions}</span>
+                <div className="border-t border-b py-3 mb-3 space-y-3">
+                  {order.items.map((item, idx) => (
+                    <div key={item._id || idx} className={idx > 0 ? 'pt-3 border-t border-dashed' : ''}>
+                      <p className="text-sm font-bold text-[#947E5A] mb-1">
+                        Cup {idx + 1} of {order.items.length}
+                        {item.isFreeDrink && <span className="ml-2 text-green-600">🎁 Free</span>}
+                      </p>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div>
+                          <span className="text-gray-600">Size:</span>
+                          <span className="ml-2 font-bold">{item.cupSize}</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Flavor:</span>
+                          <span className="ml-2 font-bold">{item.shavedIce.flavor}</span>
+                        </div>
+                        <div className="col-span-2">
+                          <span className="text-gray-600">Toppings:</span>
+                          <span className="ml-2 font-bold">
+                            {item.toppings.length > 0 
+                              ? item.toppings.map(t => t.name).join(', ')
+                              : 'None'}
+                          </span>
+                        </div>
+                      </div>
+                      {item.specialInstructions && (
+                        <div className="mt-2">
+                          <span className="text-gray-600 text-sm">Note:</span>
+                          <span className="ml-2 text-sm italic">{item.specialInstructions}</span>
+                        </div>
+                      )}
                     </div>
-                  )}
+                  ))}
                 </div>
 
                 <div className="flex justify-between items-center mb-4">
@@ -297,9 +372,55 @@ export default function AdminOrdersPage() {
                   </p>
                 </div>
 
+                {order.payments && order.payments.length > 0 && (
+                  <div className="mb-4 text-sm text-gray-600">
+                    {order.payments.map((entry, idx) => (
+                      <p key={idx}>
+                        💳 {getPaymentMethodLabel(entry.method)}: ฿{entry.amount.toFixed(2)}
+                        {entry.change ? ` (received ฿${entry.tendered?.toFixed(2)}, change ฿${entry.change.toFixed(2)})` : ''}
+                        {entry.reference && entry.method !== 'free-drink' ? ` · ${entry.reference}` : ''}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {order.status === 'Cancelled' && order.cancellation?.reason && (
+                  <div className="mb-4 p-3 bg-red-50 rounded-lg text-sm text-red-700">
+                    <p>Reason: <span className="italic">{order.cancellation.reason}</span></p>
+                    {order.paymentStatus === 'Refunded' && (
+                      <p>Refunded: ฿{order.cancellation.refundAmount || 0}</p>
+                    )}
+                  </div>
+                )}
+
+                {order.statusHistory && order.statusHistory.length > 0 && (
+                  <details className="mb-4 text-sm text-gray-600">
+                    <summary className="cursor-pointer text-[#947E5A]">Status history</summary>
+                    <ul className="mt-2 space-y-1">
+                      {order.statusHistory.map((change, idx) => (
+                        <li key={idx}>
+                          {new Date(change.changedAt).toLocaleTimeString()} — {change.from ? `${change.from} → ` : ''}{change.to}
+                          {change.note && <span className="italic"> ({change.note})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
                 <div className="flex gap-2">
                   {order.status !== 'Completed' && order.status !== 'Cancelled' && (
                     <>
+                      {order.status === 'AwaitingPayment' && order.payment?.provider === 'counter' && (
+                        <button
+                          onClick={() => setPayingOrder(order)}
+                          className="flex-1 px-4 py-2 bg-[#69806C] text-white rounded-lg hover:bg-[#5a6e5e]"
+                        >
+                          Confirm Payment
+                        </button>
+                      )}
+                      {order.status === 'AwaitingPayment' && order.payment?.provider !== 'counter' && (
+                        <span className="flex-1 text-center py-2 text-gray-500">Waiting for {order.payment?.provider || 'payment'}</span>
+                      )}
                       {getNextStatus(order.status) && (
                         <button
                           onClick={() => updateOrderStatus(order._id, getNextStatus(order.status)!)}
@@ -309,7 +430,7 @@ export default function AdminOrdersPage() {
                         </button>
                       )}
                       <button
-                        onClick={() => updateOrderStatus(order._id, 'Cancelled')}
+                        onClick={() => cancelOrder(order)}
                         className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600"
                       >
                         Cancel
@@ -325,6 +446,16 @@ export default function AdminOrdersPage() {
           </div>
         )}
       </div>
+
+      {payingOrder && (
+        <TenderModal
+          orderId={payingOrder.orderId}
+          amountDue={payingOrder.payment?.amount ?? payingOrder.pricing.total}
+          paymentMethod={payingOrder.paymentMethod}
+          onClose={() => setPayingOrder(null)}
+          onConfirm={confirmPayment}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
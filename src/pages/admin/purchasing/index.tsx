@@ -0,0 +1,679 @@
+// src/pages/admin/purchasing/index.tsx - ซัพพลายเออร์ + ใบสั่งซื้อวัตถุดิบ
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import {
+  api,
+  isAdmin,
+  Supplier,
+  SupplierItem,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  StockItemType
+} from '@/utils/api';
+
+type Tab = 'orders' | 'suppliers';
+
+interface StockOption {
+  _id: string;
+  itemType: StockItemType;
+  name: string;
+  unit?: string;
+}
+
+const STATUS_FILTERS: Array<{ value: PurchaseOrderStatus | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'received', label: 'Received' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+const emptySupplier = (): Omit<Supplier, '_id'> => ({
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  leadTimeDays: 1,
+  items: [],
+  notes: '',
+  isActive: true
+});
+
+export default function PurchasingPage() {
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('orders');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [stockOptions, setStockOptions] = useState<StockOption[]>([]);
+  const [status, setStatus] = useState<PurchaseOrderStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // Supplier form
+  const [editingSupplierId, setEditingSupplierId] = useState<string | null>(null);
+  const [supplierForm, setSupplierForm] = useState<Omit<Supplier, '_id'> | null>(null);
+
+  // New purchase order form
+  const [newOrderSupplier, setNewOrderSupplier] = useState('');
+  const [newOrderLines, setNewOrderLines] = useState<PurchaseOrderLine[]>([]);
+
+  // Receiving: line id → จำนวนที่รับจริง
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  const [expiryDates, setExpiryDates] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    loadSuppliers();
+    loadStockOptions();
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin()) loadPurchaseOrders();
+  }, [status]);
+
+  const loadSuppliers = async () => {
+    try {
+      const result = await api.getSuppliers(true);
+      setSuppliers(result.suppliers);
+    } catch (error) {
+      console.error('Failed to load suppliers:', error);
+    }
+  };
+
+  const loadStockOptions = async () => {
+    try {
+      const result = await api.getStock();
+      setStockOptions([...(result?.flavors || []), ...(result?.toppings || []), ...(result?.ingredients || [])]);
+    } catch (error) {
+      console.error('Failed to load stock:', error);
+    }
+  };
+
+  const loadPurchaseOrders = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getPurchaseOrders(status || undefined);
+      setPurchaseOrders(result.purchaseOrders);
+    } catch (error) {
+      console.error('Failed to load purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ===== Purchase orders =====
+
+  const handleGenerate = async () => {
+    setBusy(true);
+    try {
+      const result = await api.generatePurchaseOrdersFromLowStock();
+      const unassigned = result.unassigned.map(item => item.name).join(', ');
+      const alreadyOrdered = result.alreadyOrdered.map(item => item.name).join(', ');
+      alert([
+        result.message,
+        alreadyOrdered && `Already on order: ${alreadyOrdered}`,
+        unassigned && `No supplier for: ${unassigned}`
+      ].filter(Boolean).join('\n'));
+      await loadPurchaseOrders();
+    } catch (error: any) {
+      alert(error.message || 'Failed to generate purchase orders');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectNewOrderSupplier = (supplierId: string) => {
+    setNewOrderSupplier(supplierId);
+    const supplier = suppliers.find(s => s._id === supplierId);
+    setNewOrderLines((supplier?.items || []).map(item => ({ ...item, quantity: 0 })));
+  };
+
+  const handleCreateOrder = async () => {
+    const lines = newOrderLines.filter(line => line.quantity > 0);
+    if (!newOrderSupplier || lines.length === 0) {
+      alert('Choose a supplier and enter at least one quantity');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await api.createPurchaseOrder({ supplier: newOrderSupplier, lines });
+      setNewOrderSupplier('');
+      setNewOrderLines([]);
+      await loadPurchaseOrders();
+    } catch (error: any) {
+      alert(error.message || 'Failed to create purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStatusAction = async (purchaseOrder: PurchaseOrder, action: 'send' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel ${purchaseOrder.poNumber}?`)) return;
+
+    setBusy(true);
+    try {
+      await api.updatePurchaseOrderStatus(purchaseOrder._id, action);
+      await loadPurchaseOrders();
+    } catch (error: any) {
+      alert(error.message || 'Failed to update purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startReceiving = (purchaseOrder: PurchaseOrder) => {
+    setReceivingId(purchaseOrder._id);
+    setReceivedQuantities(Object.fromEntries(purchaseOrder.lines.map(line => [line._id!, line.quantity])));
+    setExpiryDates({});
+  };
+
+  const handleReceive = async (purchaseOrder: PurchaseOrder) => {
+    setBusy(true);
+    try {
+      await api.receivePurchaseOrder(purchaseOrder._id, receivedQuantities, expiryDates);
+      setReceivingId(null);
+      await loadPurchaseOrders();
+      alert(`${purchaseOrder.poNumber} received into stock`);
+    } catch (error: any) {
+      alert(error.message || 'Failed to receive purchase order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ===== Suppliers =====
+
+  const openSupplierForm = (supplier?: Supplier) => {
+    setEditingSupplierId(supplier?._id || null);
+    setSupplierForm(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName,
+      phone: supplier.phone,
+      email: supplier.email,
+      leadTimeDays: supplier.leadTimeDays,
+      items: supplier.items.map(item => ({ ...item })),
+      notes: supplier.notes,
+      isActive: supplier.isActive
+    } : emptySupplier());
+  };
+
+  const updateSupplierItem = (index: number, changes: Partial<SupplierItem>) => {
+    if (!supplierForm) return;
+    setSupplierForm({
+      ...supplierForm,
+      items: supplierForm.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const handleSaveSupplier = async () => {
+    if (!supplierForm || !supplierForm.name.trim()) {
+      alert('Supplier name is required');
+      return;
+    }
+
+    const data = { ...supplierForm, items: supplierForm.items.filter(item => item.name) };
+
+    setBusy(true);
+    try {
+      if (editingSupplierId) {
+        await api.updateSupplier(editingSupplierId, data);
+      } else {
+        await api.createSupplier(data);
+      }
+      setSupplierForm(null);
+      await loadSuppliers();
+    } catch (error: any) {
+      alert(error.message || 'Failed to save supplier');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleSupplierActive = async (supplier: Supplier) => {
+    try {
+      await api.updateSupplier(supplier._id, { isActive: !supplier.isActive });
+      await loadSuppliers();
+    } catch (error: any) {
+      alert(error.message || 'Failed to update supplier');
+    }
+  };
+
+  const activeSuppliers = suppliers.filter(s => s.isActive);
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Purchasing</h1>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="flex gap-2 mb-6">
+          {(['orders', 'suppliers'] as Tab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-6 py-2 rounded-lg text-lg transition ${
+                tab === t ? 'bg-[#69806C] text-white' : 'bg-white text-[#543429] hover:bg-gray-100'
+              }`}
+            >
+              {t === 'orders' ? 'Purchase Orders' : 'Suppliers'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'orders' && (
+          <>
+            {/* New purchase order */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <h2 className="text-2xl text-[#543429]">New Purchase Order</h2>
+                <button
+                  onClick={handleGenerate}
+                  disabled={busy}
+                  className="ml-auto px-4 py-2 bg-[#947E5A] text-white rounded hover:bg-[#7d6a4b] transition disabled:opacity-50"
+                >
+                  ⚡ Generate from Low Stock
+                </button>
+              </div>
+
+              <select
+                value={newOrderSupplier}
+                onChange={(e) => selectNewOrderSupplier(e.target.value)}
+                className="w-full md:w-1/2 p-2 border rounded mb-4"
+              >
+                <option value="">Select supplier...</option>
+                {activeSuppliers.map(supplier => (
+                  <option key={supplier._id} value={supplier._id}>
+                    {supplier.name} ({supplier.leadTimeDays} day lead time)
+                  </option>
+                ))}
+              </select>
+
+              {newOrderSupplier && (
+                newOrderLines.length === 0 ? (
+                  <p className="text-gray-500">This supplier has no items. Add items in the Suppliers tab.</p>
+                ) : (
+                  <>
+                    <table className="w-full text-left mb-4">
+                      <thead className="text-gray-600 border-b">
+                        <tr>
+                          <th className="py-2">Item</th>
+                          <th className="py-2 text-right">Unit cost</th>
+                          <th className="py-2 text-center">Quantity</th>
+                          <th className="py-2 text-right">Subtotal</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {newOrderLines.map((line, index) => (
+                          <tr key={`${line.itemType}-${line.name}`} className="border-b">
+                            <td className="py-2">{line.name} <span className="text-sm text-gray-500">({line.itemType})</span></td>
+                            <td className="py-2 text-right">฿{line.unitCost}</td>
+                            <td className="py-2 text-center">
+                              <input
+                                type="number"
+                                min="0"
+                                value={line.quantity}
+                                onChange={(e) => setNewOrderLines(prev => prev.map((l, i) => (
+                                  i === index ? { ...l, quantity: Number(e.target.value) } : l
+                                )))}
+                                className="w-24 p-2 border rounded text-center"
+                              />
+                            </td>
+                            <td className="py-2 text-right">฿{(line.quantity * line.unitCost).toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <button
+                      onClick={handleCreateOrder}
+                      disabled={busy}
+                      className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                    >
+                      Create Draft
+                    </button>
+                  </>
+                )
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {STATUS_FILTERS.map(filter => (
+                <button
+                  key={filter.value}
+                  onClick={() => setStatus(filter.value)}
+                  className={`px-4 py-2 rounded-lg transition ${
+                    status === filter.value ? 'bg-[#69806C] text-white' : 'bg-white text-[#543429] hover:bg-gray-100'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+
+            {loading ? (
+              <p className="text-center text-xl text-[#69806C] py-12">Loading purchase orders...</p>
+            ) : purchaseOrders.length === 0 ? (
+              <p className="text-center text-xl text-gray-500 py-12">No purchase orders found</p>
+            ) : (
+              <div className="space-y-4">
+                {purchaseOrders.map(purchaseOrder => {
+                  const receiving = receivingId === purchaseOrder._id;
+
+                  return (
+                    <div key={purchaseOrder._id} className="bg-white rounded-xl shadow p-5">
+                      <div className="flex flex-wrap items-center gap-3 mb-3">
+                        <span className="text-xl font-bold text-[#543429]">{purchaseOrder.poNumber}</span>
+                        <span className={`px-2 py-1 rounded text-sm ${STATUS_COLORS[purchaseOrder.status]}`}>
+                          {purchaseOrder.status}
+                        </span>
+                        <span className="text-gray-600">{purchaseOrder.supplier?.name}</span>
+                        <span className="ml-auto text-xl text-[#69806C]">฿{purchaseOrder.total.toFixed(2)}</span>
+                      </div>
+
+                      <table className="w-full text-left text-sm mb-3">
+                        <thead className="text-gray-500 border-b">
+                          <tr>
+                            <th className="py-1">Item</th>
+                            <th className="py-1 text-center">Ordered</th>
+                            <th className="py-1 text-center">Received</th>
+                            {receiving && <th className="py-1 text-center">Expires</th>}
+                            <th className="py-1 text-right">Unit cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {purchaseOrder.lines.map(line => (
+                            <tr key={line._id} className="border-b last:border-0">
+                              <td className="py-1">{line.name}</td>
+                              <td className="py-1 text-center">{line.quantity}</td>
+                              <td className="py-1 text-center">
+                                {receiving ? (
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={receivedQuantities[line._id!] ?? 0}
+                                    onChange={(e) => setReceivedQuantities(prev => ({
+                                      ...prev,
+                                      [line._id!]: Number(e.target.value)
+                                    }))}
+                                    className="w-20 p-1 border rounded text-center"
+                                  />
+                                ) : (
+                                  line.receivedQuantity ?? '-'
+                                )}
+                              </td>
+                              {receiving && (
+                                <td className="py-1 text-center">
+                                  <input
+                                    type="date"
+                                    value={expiryDates[line._id!] || ''}
+                                    onChange={(e) => setExpiryDates(prev => ({ ...prev, [line._id!]: e.target.value }))}
+                                    className="p-1 border rounded"
+                                  />
+                                </td>
+                              )}
+                              <td className="py-1 text-right">฿{line.unitCost}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                        <span>Created {new Date(purchaseOrder.createdAt).toLocaleString('th-TH')}</span>
+                        {purchaseOrder.expectedAt && purchaseOrder.status === 'sent' && (
+                          <span>· Expected {new Date(purchaseOrder.expectedAt).toLocaleDateString('th-TH')}</span>
+                        )}
+                        {purchaseOrder.receivedAt && (
+                          <span>
+                            · Received {new Date(purchaseOrder.receivedAt).toLocaleString('th-TH')}
+                            {purchaseOrder.receivedBy?.fullName && ` by ${purchaseOrder.receivedBy.fullName}`}
+                          </span>
+                        )}
+
+                        <div className="ml-auto flex gap-2">
+                          {purchaseOrder.status === 'draft' && (
+                            <button
+                              onClick={() => handleStatusAction(purchaseOrder, 'send')}
+                              disabled={busy}
+                              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:opacity-50"
+                            >
+                              Mark as Sent
+                            </button>
+                          )}
+                          {purchaseOrder.status === 'sent' && (
+                            receiving ? (
+                              <>
+                                <button
+                                  onClick={() => setReceivingId(null)}
+                                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+                                >
+                                  Back
+                                </button>
+                                <button
+                                  onClick={() => handleReceive(purchaseOrder)}
+                                  disabled={busy}
+                                  className="px-4 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                                >
+                                  Confirm Receipt
+                                </button>
+                              </>
+                            ) : (
+                              <button
+                                onClick={() => startReceiving(purchaseOrder)}
+                                className="px-4 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition"
+                              >
+                                📦 Receive
+                              </button>
+                            )
+                          )}
+                          {['draft', 'sent'].includes(purchaseOrder.status) && !receiving && (
+                            <button
+                              onClick={() => handleStatusAction(purchaseOrder, 'cancel')}
+                              disabled={busy}
+                              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === 'suppliers' && (
+          <>
+            <div className="flex mb-4">
+              <button
+                onClick={() => openSupplierForm()}
+                className="ml-auto px-4 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition"
+              >
+                + Add Supplier
+              </button>
+            </div>
+
+            {supplierForm && (
+              <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+                <h2 className="text-2xl text-[#543429] mb-4">{editingSupplierId ? 'Edit Supplier' : 'New Supplier'}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  {([
+                    { key: 'name', label: 'Name' },
+                    { key: 'contactName', label: 'Contact name' },
+                    { key: 'phone', label: 'Phone' },
+                    { key: 'email', label: 'Email' }
+                  ] as Array<{ key: 'name' | 'contactName' | 'phone' | 'email'; label: string }>).map(field => (
+                    <label key={field.key} className="block">
+                      <span className="text-gray-700">{field.label}</span>
+                      <input
+                        type="text"
+                        value={supplierForm[field.key]}
+                        onChange={(e) => setSupplierForm({ ...supplierForm, [field.key]: e.target.value })}
+                        className="w-full p-2 border rounded"
+                      />
+                    </label>
+                  ))}
+                  <label className="block">
+                    <span className="text-gray-700">Lead time (days)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={supplierForm.leadTimeDays}
+                      onChange={(e) => setSupplierForm({ ...supplierForm, leadTimeDays: Number(e.target.value) })}
+                      className="w-full p-2 border rounded"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-gray-700">Notes</span>
+                    <input
+                      type="text"
+                      value={supplierForm.notes}
+                      onChange={(e) => setSupplierForm({ ...supplierForm, notes: e.target.value })}
+                      className="w-full p-2 border rounded"
+                    />
+                  </label>
+                </div>
+
+                <h3 className="text-xl text-[#69806C] mb-2">Items supplied</h3>
+                <div className="space-y-2 mb-4">
+                  {supplierForm.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <select
+                        value={`${item.itemType}:${item.name}`}
+                        onChange={(e) => {
+                          const [itemType, ...rest] = e.target.value.split(':');
+                          updateSupplierItem(index, { itemType: itemType as StockItemType, name: rest.join(':') });
+                        }}
+                        className="flex-1 p-2 border rounded"
+                      >
+                        <option value=":">Select item...</option>
+                        {stockOptions.map(option => (
+                          <option key={option._id} value={`${option.itemType}:${option.name}`}>
+                            {option.name} ({option.itemType}{option.unit ? `, ${option.unit}` : ''})
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-gray-500">฿</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.unitCost}
+                        onChange={(e) => updateSupplierItem(index, { unitCost: Number(e.target.value) })}
+                        className="w-28 p-2 border rounded text-center"
+                      />
+                      <button
+                        onClick={() => setSupplierForm({
+                          ...supplierForm,
+                          items: supplierForm.items.filter((_, i) => i !== index)
+                        })}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setSupplierForm({
+                      ...supplierForm,
+                      items: [...supplierForm.items, { itemType: 'ingredient', name: '', unitCost: 0 }]
+                    })}
+                    className="px-4 py-2 bg-[#EBE6DE] text-[#543429] rounded hover:bg-[#ddd6ca] transition"
+                  >
+                    + Item
+                  </button>
+                </div>
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setSupplierForm(null)}
+                    className="px-6 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveSupplier}
+                    disabled={busy}
+                    className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                  >
+                    {busy ? 'Saving...' : '💾 Save Supplier'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+              {suppliers.length === 0 ? (
+                <p className="text-center text-xl text-gray-500 py-12">No suppliers yet</p>
+              ) : (
+                <table className="w-full text-left">
+                  <thead className="bg-[#69806C] text-white">
+                    <tr>
+                      <th className="p-3">Name</th>
+                      <th className="p-3">Contact</th>
+                      <th className="p-3 text-center">Lead time</th>
+                      <th className="p-3">Items</th>
+                      <th className="p-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {suppliers.map(supplier => (
+                      <tr key={supplier._id} className={`border-b ${supplier.isActive ? '' : 'opacity-50'}`}>
+                        <td className="p-3 font-bold text-[#543429]">{supplier.name}</td>
+                        <td className="p-3 text-sm">
+                          <div>{supplier.contactName}</div>
+                          <div className="text-gray-500">{[supplier.phone, supplier.email].filter(Boolean).join(' · ')}</div>
+                        </td>
+                        <td className="p-3 text-center">{supplier.leadTimeDays} days</td>
+                        <td className="p-3 text-sm">
+                          {supplier.items.map(item => `${item.name} ฿${item.unitCost}`).join(', ') || '-'}
+                        </td>
+                        <td className="p-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => openSupplierForm(supplier)}
+                            className="px-3 py-1 bg-[#947E5A] text-white rounded hover:bg-[#7d6a4b] transition mr-2"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => toggleSupplierActive(supplier)}
+                            className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+                          >
+                            {supplier.isActive ? 'Deactivate' : 'Activate'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
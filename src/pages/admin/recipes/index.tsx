@@ -0,0 +1,261 @@
+// src/pages/admin/recipes/index.tsx - สูตร: วัตถุดิบที่ใช้ต่อแก้ว (S/M/L) ของแต่ละรสชาติ/ท็อปปิ้ง
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, Recipe, RecipeIngredient } from '@/utils/api';
+
+type RecipeItemType = 'flavor' | 'topping';
+
+interface MenuEntry {
+  _id: string;
+  name: string;
+  type: RecipeItemType;
+}
+
+interface IngredientStock {
+  _id: string;
+  name: string;
+  unit: string;
+  quantity: number;
+}
+
+const CUP_SIZES: Array<'S' | 'M' | 'L'> = ['S', 'M', 'L'];
+
+const emptyIngredient = (): RecipeIngredient => ({ ingredient: '', quantities: { S: 0, M: 0, L: 0 } });
+
+export default function RecipesPage() {
+  const router = useRouter();
+  const [menuItems, setMenuItems] = useState<MenuEntry[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<IngredientStock[]>([]);
+  const [selected, setSelected] = useState<MenuEntry | null>(null);
+  const [draft, setDraft] = useState<RecipeIngredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [menuResult, recipeResult] = await Promise.all([
+        api.getAllMenuItems(),
+        api.getRecipes()
+      ]);
+      setMenuItems(menuResult.items || []);
+      setRecipes(recipeResult.recipes);
+      setIngredients(recipeResult.ingredients);
+    } catch (error) {
+      console.error('Failed to load recipes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const findRecipe = (item: MenuEntry) => recipes.find(r => r.itemType === item.type && r.name === item.name);
+
+  const selectItem = (item: MenuEntry) => {
+    setSelected(item);
+    const recipe = findRecipe(item);
+    setDraft(recipe ? recipe.ingredients.map(i => ({ ...i, quantities: { ...i.quantities } })) : [emptyIngredient()]);
+  };
+
+  const updateDraft = (index: number, changes: Partial<RecipeIngredient>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateQuantity = (index: number, size: 'S' | 'M' | 'L', value: number) => {
+    setDraft(prev => prev.map((row, i) => (
+      i === index ? { ...row, quantities: { ...row.quantities, [size]: value } } : row
+    )));
+  };
+
+  const unitFor = (name: string) => ingredients.find(i => i.name === name)?.unit || '';
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    const rows = draft.filter(row => row.ingredient);
+    if (rows.length === 0) {
+      alert('Add at least one ingredient');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.saveRecipe(selected.type, selected.name, rows);
+      await loadData();
+      alert(`Recipe for ${selected.name} saved`);
+    } catch (error: any) {
+      alert(error.message || 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !findRecipe(selected)) return;
+    if (!confirm(`Delete the recipe for ${selected.name}? Orders will use 1 unit of its own stock again.`)) return;
+
+    setSaving(true);
+    try {
+      await api.deleteRecipe(selected.type, selected.name);
+      await loadData();
+      setDraft([emptyIngredient()]);
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin/data-management">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Recipes</h1>
+      </div>
+
+      {loading ? (
+        <p className="text-center text-xl text-[#69806C] py-12">Loading recipes...</p>
+      ) : (
+        <div className="max-w-6xl mx-auto p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Menu list */}
+          <div className="bg-white rounded-xl shadow-lg p-4 space-y-4">
+            {(['flavor', 'topping'] as RecipeItemType[]).map(type => (
+              <div key={type}>
+                <h2 className="text-xl text-[#69806C] mb-2 capitalize">{type}s</h2>
+                <div className="space-y-1">
+                  {menuItems.filter(item => item.type === type).map(item => (
+                    <button
+                      key={item._id}
+                      onClick={() => selectItem(item)}
+                      className={`w-full flex justify-between px-3 py-2 rounded text-left transition ${
+                        selected?._id === item._id ? 'bg-[#69806C] text-white' : 'hover:bg-[#EBE6DE]'
+                      }`}
+                    >
+                      <span>{item.name}</span>
+                      <span className="text-sm opacity-70">{findRecipe(item) ? '🧾' : '1 unit'}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Recipe editor */}
+          <div className="md:col-span-2 bg-white rounded-xl shadow-lg p-6">
+            {!selected ? (
+              <p className="text-center text-gray-500 py-12">Select a flavor or topping to edit its recipe</p>
+            ) : (
+              <>
+                <h2 className="text-2xl text-[#543429] mb-2">{selected.name}</h2>
+                <p className="text-gray-500 mb-6">
+                  Amount of each ingredient used per cup. Without a recipe, each cup uses 1 unit of this item&apos;s own stock.
+                </p>
+
+                {ingredients.length === 0 ? (
+                  <p className="p-4 bg-yellow-50 rounded text-[#947E5A]">
+                    No ingredients yet. Add ingredients in the Stock tab of Data Management first.
+                  </p>
+                ) : (
+                  <table className="w-full text-left mb-4">
+                    <thead className="text-gray-600 border-b">
+                      <tr>
+                        <th className="py-2">Ingredient</th>
+                        {CUP_SIZES.map(size => (
+                          <th key={size} className="py-2 text-center">{size}</th>
+                        ))}
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {draft.map((row, index) => (
+                        <tr key={index} className="border-b">
+                          <td className="py-2 pr-2">
+                            <select
+                              value={row.ingredient}
+                              onChange={(e) => updateDraft(index, { ingredient: e.target.value })}
+                              className="w-full p-2 border rounded"
+                            >
+                              <option value="">Select...</option>
+                              {ingredients.map(ingredient => (
+                                <option key={ingredient._id} value={ingredient.name}>
+                                  {ingredient.name} ({ingredient.unit})
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          {CUP_SIZES.map(size => (
+                            <td key={size} className="py-2 px-1">
+                              <div className="flex items-center gap-1">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={row.quantities[size]}
+                                  onChange={(e) => updateQuantity(index, size, Number(e.target.value))}
+                                  className="w-20 p-2 border rounded text-center"
+                                />
+                                <span className="text-sm text-gray-500">{unitFor(row.ingredient)}</span>
+                              </div>
+                            </td>
+                          ))}
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              ✕
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => setDraft(prev => [...prev, emptyIngredient()])}
+                    disabled={ingredients.length === 0}
+                    className="px-4 py-2 bg-[#EBE6DE] text-[#543429] rounded hover:bg-[#ddd6ca] transition disabled:opacity-50"
+                  >
+                    + Ingredient
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || ingredients.length === 0}
+                    className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : '💾 Save Recipe'}
+                  </button>
+                  {findRecipe(selected) && (
+                    <button
+                      onClick={handleDelete}
+                      disabled={saving}
+                      className="ml-auto px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition disabled:opacity-50"
+                    >
+                      Delete Recipe
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
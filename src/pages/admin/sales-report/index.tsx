@@ -1,57 +1,98 @@
-// src/pages/admin/sales-report/index.tsx - แสดงทั้งหมด เรียงมาก→น้อย + เพิ่มเวลา
+// src/pages/admin/sales-report/index.tsx - รายงานยอดขายจาก /api/reports (aggregation ฝั่ง server)
 
 'use client';
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { api, isAdmin } from '@/utils/api';
+import {
+  api,
+  isAdmin,
+  WasteReport,
+  ReportRange,
+  SalesSummary,
+  RevenueRow,
+  ItemMix,
+  ComboEntry,
+  PaymentBreakdownRow,
+  ReportPeriod,
+  ReportChange,
+  SummaryMetric
+} from '@/utils/api';
 import { useRouter } from 'next/router';
+import ExportButtons from '@/components/ExportButtons';
+import { getPaymentMethodLabel } from '@/utils/paymentMethods';
 
-interface Order {
-  orderId: string;
-  customerCode: string;
-  cupSize: string;
-  shavedIce: { flavor: string };
-  toppings: Array<{ name: string }>;
-  pricing: { total: number };
-  status: string;
-  createdAt: string;
-}
+type Period = ReportPeriod | 'custom';
 
-interface SalesData {
-  date: string;
-  time: string;
-  orders: number;
-  revenue: number;
-  avgOrderValue: number;
-}
+const PERIOD_OPTIONS: Array<{ value: Period; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 'last-7-days', label: 'Last 7 Days' },
+  { value: 'last-30-days', label: 'Last 30 Days' },
+  { value: 'this-month', label: 'This Month' },
+  { value: 'last-month', label: 'Last Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'custom', label: 'Custom' },
+  { value: 'all', label: 'All Time' }
+];
 
-interface TopItem {
-  name: string;
-  count: number;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// วันที่ YYYY-MM-DD ตามเวลาไทย
+const toBangkokDate = (time: number) => new Date(time + 7 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const currentYear = Number(toBangkokDate(Date.now()).slice(0, 4));
+const currentQuarter = Math.floor((Number(toBangkokDate(Date.now()).slice(5, 7)) - 1) / 3) + 1;
+
+const formatHourRange = (hour: number) =>
+  `${hour.toString().padStart(2, '0')}:00-${(hour + 1).toString().padStart(2, '0')}:00`;
+
+// ช่วงที่ server ตอบกลับมา (endDate ไม่นับรวม จึงถอยไป 1 ms ก่อนแสดง)
+const formatRange = (startDate: string | null, endDate: string | null) => {
+  if (!startDate || !endDate) return 'All time';
+  const format = (time: number) => new Date(time).toLocaleDateString('th-TH', { timeZone: 'Asia/Bangkok' });
+  return `${format(new Date(startDate).getTime())} - ${format(new Date(endDate).getTime() - 1)}`;
+};
+
+const formatChange = (value?: number | null) =>
+  value === null || value === undefined ? '-' : `${value > 0 ? '+' : ''}${value}%`;
 
-interface PeakTime {
-  timeRange: string;
-  count: number;
+// ▲/▼ % เทียบกับช่วงก่อนหน้า
+function ChangeBadge({ value, light = false }: { value?: number | null; light?: boolean }) {
+  if (value === undefined) return null;
+
+  const color = value === null || value === 0
+    ? (light ? 'text-white/70' : 'text-gray-500')
+    : value > 0
+      ? (light ? 'text-green-200' : 'text-green-600')
+      : (light ? 'text-red-200' : 'text-red-600');
+
+  return (
+    <span className={`text-sm font-bold ${color}`}>
+      {value !== null && value !== 0 && (value > 0 ? '▲ ' : '▼ ')}{formatChange(value)}
+    </span>
+  );
 }
 
 export default function SalesReportPage() {
   const router = useRouter();
-  const [period, setPeriod] = useState<'today' | 'week' | 'month' | 'all'>('today');
-  const [salesData, setSalesData] = useState<SalesData[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [period, setPeriod] = useState<Period>('today');
+  const [year, setYear] = useState(currentYear);
+  const [quarter, setQuarter] = useState(currentQuarter);
+  const [customStart, setCustomStart] = useState(toBangkokDate(Date.now() - 6 * DAY_MS));
+  const [customEnd, setCustomEnd] = useState(toBangkokDate(Date.now()));
+  const [compare, setCompare] = useState(false);
+  const [rangeLabel, setRangeLabel] = useState('');
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [previousSummary, setPreviousSummary] = useState<SalesSummary | null>(null);
+  const [summaryChange, setSummaryChange] = useState<ReportChange<SummaryMetric> | undefined>();
+  const [previousLabel, setPreviousLabel] = useState('');
+  const [dailySales, setDailySales] = useState<RevenueRow[]>([]);
+  const [hourlySales, setHourlySales] = useState<RevenueRow[]>([]);
+  const [itemMix, setItemMix] = useState<ItemMix>({ flavors: [], toppings: [], sizes: [] });
+  const [combos, setCombos] = useState<ComboEntry[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentBreakdownRow[]>([]);
+  const [wasteReport, setWasteReport] = useState<WasteReport | null>(null);
   const [loading, setLoading] = useState(true);
-  const [summary, setSummary] = useState({
-    totalOrders: 0,
-    totalRevenue: 0,
-    avgOrderValue: 0,
-    topFlavors: [] as TopItem[],
-    topToppings: [] as TopItem[],
-    peakTimes: [] as PeakTime[],
-    topCombinations: [] as { combo: string; count: number }[],
-    completionRate: 0
-  });
 
   useEffect(() => {
     if (!isAdmin()) {
@@ -59,172 +100,69 @@ export default function SalesReportPage() {
       return;
     }
     fetchData();
-  }, [period]);
+  }, [period, year, quarter, customStart, customEnd, compare]);
+
+  const getRange = (): ReportRange => {
+    if (period === 'custom') return { startDate: customStart, endDate: customEnd };
+    if (period === 'quarter') return { period, year, quarter };
+    return { period };
+  };
 
   const fetchData = async () => {
+    if (period === 'custom' && (!customStart || !customEnd || customStart > customEnd)) return;
+
     setLoading(true);
+    const range = getRange();
+    const compared: ReportRange = { ...range, compare };
+
     try {
-      const result = await api.getAllOrders();
-      const allOrders = result.orders || [];
-      setOrders(allOrders);
-      calculateSalesData(allOrders);
+      const [summaryResult, dailyResult, hourlyResult, itemResult, comboResult, paymentResult] = await Promise.all([
+        api.getSalesSummary(compared),
+        api.getRevenueReport(range, 'day'),
+        api.getRevenueReport(compared, 'hour'),
+        api.getItemMixReport(compared),
+        api.getComboReport(range, 5),
+        api.getPaymentReport(compared)
+      ]);
+      setRangeLabel(formatRange(summaryResult.startDate, summaryResult.endDate));
+      setSummary(summaryResult.summary);
+      setSummaryChange(summaryResult.change);
+      setPreviousSummary(summaryResult.comparison?.summary || null);
+      setPreviousLabel(summaryResult.comparison
+        ? formatRange(summaryResult.comparison.startDate, summaryResult.comparison.endDate)
+        : '');
+      setDailySales([...dailyResult.rows].reverse());
+      setHourlySales(hourlyResult.rows);
+      setItemMix(itemResult);
+      setCombos(comboResult.combos);
+      setPaymentMethods(paymentResult.methods);
     } catch (error: any) {
-      console.error('Failed to fetch orders:', error);
-      setOrders([]);
-      calculateSalesData([]);
+      console.error('Failed to fetch sales report:', error);
+      setSummary(null);
+      setSummaryChange(undefined);
+      setPreviousSummary(null);
+      setPreviousLabel('');
+      setDailySales([]);
+      setHourlySales([]);
+      setItemMix({ flavors: [], toppings: [], sizes: [] });
+      setCombos([]);
+      setPaymentMethods([]);
+    }
+
+    // ✅ ของเสียช่วงเดียวกับยอดขาย
+    try {
+      setWasteReport(await api.getWasteReport(range));
+    } catch (error) {
+      console.error('Failed to fetch waste report:', error);
+      setWasteReport(null);
     } finally {
       setLoading(false);
     }
   };
 
-  const calculateSalesData = (allOrders: Order[]) => {
-    const now = new Date();
-    const filteredOrders = allOrders.filter(order => {
-      const orderDate = new Date(order.createdAt);
-      
-      switch (period) {
-        case 'today':
-          return orderDate.toDateString() === now.toDateString();
-        case 'week':
-          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          return orderDate >= weekAgo;
-        case 'month':
-          const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          return orderDate >= monthAgo;
-        default:
-          return true;
-      }
-    });
-
-    // ✅ Group by date AND time
-    const groupedData: { [key: string]: Order[] } = {};
-    filteredOrders.forEach(order => {
-      const orderDate = new Date(order.createdAt);
-      const dateKey = orderDate.toLocaleDateString('th-TH');
-      const timeKey = orderDate.toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' });
-      const fullKey = `${dateKey} ${timeKey}`;
-      
-      if (!groupedData[fullKey]) groupedData[fullKey] = [];
-      groupedData[fullKey].push(order);
-    });
-
-    // Calculate daily sales with time
-    const dailySales: SalesData[] = Object.entries(groupedData).map(([dateTime, orders]) => {
-      const [date, time] = dateTime.split(' ');
-      return {
-        date,
-        time,
-        orders: orders.length,
-        revenue: orders.reduce((sum, order) => sum + (order.pricing?.total || 0), 0),
-        avgOrderValue: orders.reduce((sum, order) => sum + (order.pricing?.total || 0), 0) / orders.length
-      };
-    }).sort((a, b) => new Date(`${b.date} ${b.time}`).getTime() - new Date(`${a.date} ${a.time}`).getTime());
-
-    setSalesData(dailySales);
-
-    const totalOrders = filteredOrders.length;
-    const totalRevenue = filteredOrders.reduce((sum, order) => sum + (order.pricing?.total || 0), 0);
-
-    // ✅ Top Flavors - แสดงทั้งหมดเรียงจากมาก→น้อย
-    const flavorCount: { [key: string]: number } = {};
-    filteredOrders.forEach(order => {
-      const flavor = order.shavedIce?.flavor || 'Unknown';
-      flavorCount[flavor] = (flavorCount[flavor] || 0) + 1;
-    });
-    
-    const topFlavors = Object.entries(flavorCount)
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count); // เรียงมาก→น้อย
-
-    // ✅ Top Toppings - แสดงทั้งหมดเรียงจากมาก→น้อย
-    const toppingCount: { [key: string]: number } = {};
-    filteredOrders.forEach(order => {
-      order.toppings?.forEach(topping => {
-        toppingCount[topping.name] = (toppingCount[topping.name] || 0) + 1;
-      });
-    });
-    
-    const topToppings = Object.entries(toppingCount)
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count); // เรียงมาก→น้อย
-
-    // ✅ Peak Times - แสดงทั้งหมดเรียงจากมาก→น้อย
-    const hourCount: { [key: string]: number } = {};
-    filteredOrders.forEach(order => {
-      const hour = new Date(order.createdAt).getHours();
-      const timeRange = `${hour.toString().padStart(2, '0')}:00-${(hour + 1).toString().padStart(2, '0')}:00`;
-      hourCount[timeRange] = (hourCount[timeRange] || 0) + 1;
-    });
-    
-    const peakTimes = Object.entries(hourCount)
-      .map(([timeRange, count]) => ({ timeRange, count }))
-      .sort((a, b) => b.count - a.count); // เรียงมาก→น้อย
-
-    // Top Combinations
-    const comboCount: { [key: string]: number } = {};
-    filteredOrders.forEach(order => {
-      const toppings = order.toppings?.map(t => t.name).sort().join(', ') || 'No toppings';
-      const combo = `${order.shavedIce?.flavor} + ${toppings}`;
-      comboCount[combo] = (comboCount[combo] || 0) + 1;
-    });
-    
-    const topCombinations = Object.entries(comboCount)
-      .map(([combo, count]) => ({ combo, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5);
-
-    // Completion rate
-    const completedOrders = filteredOrders.filter(order => order.status === 'Completed').length;
-    const completionRate = totalOrders > 0 ? (completedOrders / totalOrders) * 100 : 0;
-
-    setSummary({
-      totalOrders,
-      totalRevenue,
-      avgOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
-      topFlavors,
-      topToppings,
-      peakTimes,
-      topCombinations,
-      completionRate
-    });
-  };
-
-  const exportToCSV = () => {
-    let csv = 'Date,Time,Orders,Revenue,Avg Order Value\n';
-    salesData.forEach(data => {
-      csv += `${data.date},${data.time},${data.orders},${data.revenue},${data.avgOrderValue.toFixed(2)}\n`;
-    });
-    
-    csv += '\n\nSummary\n';
-    csv += `Period,${period}\n`;
-    csv += `Total Orders,${summary.totalOrders}\n`;
-    csv += `Total Revenue,${summary.totalRevenue}\n`;
-    csv += `Avg Order Value,${summary.avgOrderValue.toFixed(2)}\n`;
-    csv += `Completion Rate,${summary.completionRate.toFixed(1)}%\n\n`;
-    
-    csv += 'Top Flavors (All)\n';
-    summary.topFlavors.forEach((f, i) => {
-      csv += `${i + 1}. ${f.name},${f.count}\n`;
-    });
-    
-    csv += '\nTop Toppings (All)\n';
-    summary.topToppings.forEach((t, i) => {
-      csv += `${i + 1}. ${t.name},${t.count}\n`;
-    });
-    
-    csv += '\nPeak Times (All)\n';
-    summary.peakTimes.forEach((p, i) => {
-      csv += `${i + 1}. ${p.timeRange},${p.count}\n`;
-    });
-    
-    const dataUri = 'data:text/csv;charset=utf-8,\uFEFF' + encodeURIComponent(csv);
-    const exportFileDefaultName = `sales_report_${period}_${new Date().toISOString().split('T')[0]}.csv`;
-    
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
-  };
+  // ✅ ช่วงเวลาขายดี เรียงตามจำนวนออเดอร์ มาก→น้อย
+  const peakTimes = [...hourlySales].sort((a, b) => b.orders - a.orders);
+  const comparing = compare && previousSummary !== null;
 
   return (
     <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
@@ -236,48 +174,145 @@ export default function SalesReportPage() {
       </div>
 
       <div className="max-w-7xl mx-auto p-6">
-        <div className="bg-white rounded-lg shadow-md p-1 inline-flex mb-8">
-          <div className="flex gap-2">
-            {(['today', 'week', 'month', 'all'] as const).map(p => (
+        <div className="bg-white rounded-lg shadow-md p-1 inline-flex mb-4">
+          <div className="flex flex-wrap gap-2">
+            {PERIOD_OPTIONS.map(option => (
               <button
-                key={p}
-                onClick={() => setPeriod(p)}
+                key={option.value}
+                onClick={() => setPeriod(option.value)}
                 className={`px-4 py-2 rounded-lg text-lg transition ${
-                  period === p
+                  period === option.value
                     ? 'bg-[#69806C] text-white'
                     : 'bg-gray-100 text-[#69806C] hover:bg-gray-200'
                 }`}
               >
-                {p === 'today' ? 'Today' : 
-                 p === 'week' ? 'Last 7 Days' :
-                 p === 'month' ? 'Last 30 Days' : 'All Time'}
+                {option.label}
               </button>
             ))}
           </div>
         </div>
 
+        <div className="flex flex-wrap items-center gap-4 mb-8">
+          {period === 'quarter' && (
+            <div className="flex items-center gap-2">
+              <select
+                value={quarter}
+                onChange={(e) => setQuarter(Number(e.target.value))}
+                className="p-2 border rounded bg-white"
+              >
+                {[1, 2, 3, 4].map(q => (
+                  <option key={q} value={q}>Q{q}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="2000"
+                max="2100"
+                value={year}
+                onChange={(e) => setYear(Number(e.target.value))}
+                className="w-24 p-2 border rounded"
+              />
+            </div>
+          )}
+
+          {period === 'custom' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={customStart}
+                max={customEnd}
+                onChange={(e) => setCustomStart(e.target.value)}
+                className="p-2 border rounded"
+              />
+              <span>-</span>
+              <input
+                type="date"
+                value={customEnd}
+                min={customStart}
+                onChange={(e) => setCustomEnd(e.target.value)}
+                className="p-2 border rounded"
+              />
+            </div>
+          )}
+
+          <label className={`flex items-center gap-2 ${period === 'all' ? 'opacity-50' : ''}`}>
+            <input
+              type="checkbox"
+              checked={compare}
+              disabled={period === 'all'}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="w-4 h-4"
+            />
+            <span className="text-lg">Compare to previous period</span>
+          </label>
+
+          {rangeLabel && (
+            <span className="ml-auto text-gray-600">
+              {rangeLabel}
+              {comparing && <> vs {previousLabel}</>}
+            </span>
+          )}
+        </div>
+
         {loading ? (
           <div className="text-center py-12">
             <p className="text-gray-500 text-xl">Loading sales data...</p>
           </div>
+        ) : !summary ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-xl">Failed to load sales data</p>
+          </div>
         ) : (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
               <div className="bg-white rounded-lg shadow-lg p-6">
                 <p className="text-gray-600 text-sm mb-2">Total Orders</p>
                 <p className="text-3xl font-bold text-[#69806C]">{summary.totalOrders}</p>
+                <p className="text-sm text-gray-500 mt-1">{summary.cups} cups</p>
+                {comparing && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    prev {previousSummary!.totalOrders} <ChangeBadge value={summaryChange?.totalOrders} />
+                  </p>
+                )}
               </div>
               <div className="bg-white rounded-lg shadow-lg p-6">
                 <p className="text-gray-600 text-sm mb-2">Total Revenue</p>
-                <p className="text-3xl font-bold text-[#69806C]">฿{summary.totalRevenue}</p>
+                <p className="text-3xl font-bold text-[#69806C]">฿{summary.revenue}</p>
+                {comparing && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    prev ฿{previousSummary!.revenue} <ChangeBadge value={summaryChange?.revenue} />
+                  </p>
+                )}
               </div>
               <div className="bg-white rounded-lg shadow-lg p-6">
                 <p className="text-gray-600 text-sm mb-2">Avg Order Value</p>
-                <p className="text-3xl font-bold text-[#69806C]">฿{summary.avgOrderValue.toFixed(2)}</p>
+                <p className="text-3xl font-bold text-[#69806C]">฿{summary.averageOrderValue.toFixed(2)}</p>
+                {comparing && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    prev ฿{previousSummary!.averageOrderValue.toFixed(2)} <ChangeBadge value={summaryChange?.averageOrderValue} />
+                  </p>
+                )}
               </div>
               <div className="bg-white rounded-lg shadow-lg p-6">
                 <p className="text-gray-600 text-sm mb-2">Completion Rate</p>
                 <p className="text-3xl font-bold text-[#69806C]">{summary.completionRate.toFixed(1)}%</p>
+                {comparing && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    prev {previousSummary!.completionRate.toFixed(1)}% <ChangeBadge value={summaryChange?.completionRate} />
+                  </p>
+                )}
+              </div>
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <p className="text-gray-600 text-sm mb-2">Avg Prep Time</p>
+                <p className="text-3xl font-bold text-[#69806C]">
+                  {summary.averagePrepMinutes !== null ? `${summary.averagePrepMinutes} min` : '-'}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">{summary.prepSampleSize} orders</p>
+                {comparing && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    prev {previousSummary!.averagePrepMinutes ?? '-'} min <ChangeBadge value={summaryChange?.averagePrepMinutes} />
+                  </p>
+                )}
               </div>
             </div>
 
@@ -285,12 +320,19 @@ export default function SalesReportPage() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
               <div className="bg-gradient-to-br from-[#69806C] to-[#947E5A] rounded-lg shadow-xl p-6 text-white">
                 <h3 className="text-2xl font-bold mb-4">🍧 Top Flavors (All)</h3>
-                {summary.topFlavors.length > 0 ? (
+                {itemMix.flavors.length > 0 ? (
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {summary.topFlavors.map((flavor, idx) => (
+                    {itemMix.flavors.map((flavor, idx) => (
                       <div key={idx} className="bg-white/20 backdrop-blur-sm rounded-lg p-3 flex justify-between items-center">
                         <span className="font-bold">#{idx + 1} {flavor.name}</span>
-                        <span className="text-xl font-bold">{flavor.count}</span>
+                        <span className="text-right">
+                          <span className="text-xl font-bold">{flavor.count}</span>
+                          {flavor.previous && (
+                            <span className="block text-xs">
+                              prev {flavor.previous.count} <ChangeBadge value={flavor.change?.count} light />
+                            </span>
+                          )}
+                        </span>
                       </div>
                     ))}
                   </div>
@@ -301,12 +343,19 @@ export default function SalesReportPage() {
 
               <div className="bg-gradient-to-br from-[#947E5A] to-[#69806C] rounded-lg shadow-xl p-6 text-white">
                 <h3 className="text-2xl font-bold mb-4">🍓 Top Toppings (All)</h3>
-                {summary.topToppings.length > 0 ? (
+                {itemMix.toppings.length > 0 ? (
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {summary.topToppings.map((topping, idx) => (
+                    {itemMix.toppings.map((topping, idx) => (
                       <div key={idx} className="bg-white/20 backdrop-blur-sm rounded-lg p-3 flex justify-between items-center">
                         <span className="font-bold">#{idx + 1} {topping.name}</span>
-                        <span className="text-xl font-bold">{topping.count}</span>
+                        <span className="text-right">
+                          <span className="text-xl font-bold">{topping.count}</span>
+                          {topping.previous && (
+                            <span className="block text-xs">
+                              prev {topping.previous.count} <ChangeBadge value={topping.change?.count} light />
+                            </span>
+                          )}
+                        </span>
                       </div>
                     ))}
                   </div>
@@ -317,12 +366,19 @@ export default function SalesReportPage() {
 
               <div className="bg-gradient-to-br from-[#69806C] to-[#947E5A] rounded-lg shadow-xl p-6 text-white">
                 <h3 className="text-2xl font-bold mb-4">⏰ Peak Times (All)</h3>
-                {summary.peakTimes.length > 0 ? (
+                {peakTimes.length > 0 ? (
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {summary.peakTimes.map((peak, idx) => (
+                    {peakTimes.map((peak, idx) => (
                       <div key={idx} className="bg-white/20 backdrop-blur-sm rounded-lg p-3 flex justify-between items-center">
-                        <span className="font-bold">{peak.timeRange}</span>
-                        <span className="text-xl font-bold">{peak.count}</span>
+                        <span className="font-bold">{formatHourRange(peak.hour!)}</span>
+                        <span className="text-right">
+                          <span className="text-xl font-bold">{peak.orders}</span>
+                          {peak.previous && (
+                            <span className="block text-xs">
+                              prev {peak.previous.orders} <ChangeBadge value={peak.change?.orders} light />
+                            </span>
+                          )}
+                        </span>
                       </div>
                     ))}
                   </div>
@@ -335,9 +391,9 @@ export default function SalesReportPage() {
             {/* Top Combinations */}
             <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
               <h3 className="text-2xl text-[#69806C] mb-4">🎯 Top Combinations</h3>
-              {summary.topCombinations.length > 0 ? (
+              {combos.length > 0 ? (
                 <div className="space-y-3">
-                  {summary.topCombinations.map((combo, idx) => (
+                  {combos.map((combo, idx) => (
                     <div key={idx} className="flex justify-between items-center border-b pb-2">
                       <div className="flex items-center gap-3">
                         <span className="text-2xl font-bold text-[#947E5A]">#{idx + 1}</span>
@@ -352,11 +408,40 @@ export default function SalesReportPage() {
               )}
             </div>
 
-            {/* Daily Sales with Time */}
+            {/* Payment Methods */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+              <h3 className="text-2xl text-[#69806C] mb-4">💳 Revenue by Payment Method</h3>
+              {paymentMethods.length > 0 ? (
+                <div className="space-y-3">
+                  {paymentMethods.map(row => (
+                    <div key={row.method} className="flex justify-between items-center border-b pb-2">
+                      <div>
+                        <span className="text-lg">{getPaymentMethodLabel(row.method)}</span>
+                        <span className="block text-sm text-gray-500">
+                          {row.orders} orders{row.changeGiven > 0 ? ` · change given ฿${row.changeGiven.toFixed(2)}` : ''}
+                        </span>
+                      </div>
+                      <span className="text-right">
+                        <span className="text-xl font-bold text-[#69806C]">฿{row.revenue.toFixed(2)}</span>
+                        {row.previous && (
+                          <span className="block text-xs text-gray-500">
+                            prev ฿{row.previous.revenue.toFixed(2)} <ChangeBadge value={row.change?.revenue} />
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500">No data</p>
+              )}
+            </div>
+
+            {/* Daily Sales */}
             <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
               <h3 className="text-2xl text-[#69806C] mb-4">📊 Sales Breakdown</h3>
               
-              {salesData.length === 0 ? (
+              {dailySales.length === 0 ? (
                 <p className="text-gray-500 text-center py-8">No sales data</p>
               ) : (
                 <div className="overflow-x-auto">
@@ -364,29 +449,30 @@ export default function SalesReportPage() {
                     <thead>
                       <tr className="border-b-2 border-[#69806C]">
                         <th className="text-left py-2 px-4">Date</th>
-                        <th className="text-left py-2 px-4">Time</th>
                         <th className="text-center py-2 px-4">Orders</th>
+                        <th className="text-center py-2 px-4">Cups</th>
                         <th className="text-right py-2 px-4">Revenue</th>
                         <th className="text-right py-2 px-4">Avg Order</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {salesData.map((data, idx) => (
+                      {dailySales.map((data, idx) => (
                         <tr key={idx} className="border-b hover:bg-gray-50">
                           <td className="py-2 px-4">{data.date}</td>
-                          <td className="py-2 px-4">{data.time}</td>
                           <td className="text-center py-2 px-4">{data.orders}</td>
+                          <td className="text-center py-2 px-4">{data.cups}</td>
                           <td className="text-right py-2 px-4">฿{data.revenue}</td>
-                          <td className="text-right py-2 px-4">฿{data.avgOrderValue.toFixed(2)}</td>
+                          <td className="text-right py-2 px-4">฿{data.averageOrderValue.toFixed(2)}</td>
                         </tr>
                       ))}
                     </tbody>
                     <tfoot>
                       <tr className="border-t-2 border-[#69806C] font-bold">
-                        <td className="py-2 px-4" colSpan={2}>Total</td>
-                        <td className="text-center py-2 px-4">{summary.totalOrders}</td>
-                        <td className="text-right py-2 px-4">฿{summary.totalRevenue}</td>
-                        <td className="text-right py-2 px-4">฿{summary.avgOrderValue.toFixed(2)}</td>
+                        <td className="py-2 px-4">Total</td>
+                        <td className="text-center py-2 px-4">{summary.soldOrders}</td>
+                        <td className="text-center py-2 px-4">{summary.cups}</td>
+                        <td className="text-right py-2 px-4">฿{summary.revenue}</td>
+                        <td className="text-right py-2 px-4">฿{summary.averageOrderValue.toFixed(2)}</td>
                       </tr>
                     </tfoot>
                   </table>
@@ -394,14 +480,63 @@ export default function SalesReportPage() {
               )}
             </div>
 
+            {/* Waste */}
+            {wasteReport && (
+              <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+                <div className="flex flex-wrap items-baseline gap-4 mb-4">
+                  <h3 className="text-2xl text-[#69806C]">🗑️ Waste</h3>
+                  <span className="text-gray-600">{wasteReport.totals.entries} entries</span>
+                  <span className="ml-auto text-2xl font-bold text-red-600">฿{wasteReport.totals.wasteCost.toFixed(2)}</span>
+                </div>
+
+                {wasteReport.byItem.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No waste recorded</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="md:col-span-2 overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b-2 border-[#69806C]">
+                            <th className="text-left py-2 px-4">Item</th>
+                            <th className="text-center py-2 px-4">Used</th>
+                            <th className="text-center py-2 px-4">Wasted</th>
+                            <th className="text-center py-2 px-4">Waste %</th>
+                            <th className="text-right py-2 px-4">Cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {wasteReport.byItem.map(item => (
+                            <tr key={`${item.itemType}-${item.name}`} className="border-b hover:bg-gray-50">
+                              <td className="py-2 px-4">{item.name}</td>
+                              <td className="text-center py-2 px-4">{item.used} {item.unit}</td>
+                              <td className="text-center py-2 px-4">{item.wasted} {item.unit}</td>
+                              <td className={`text-center py-2 px-4 font-bold ${
+                                item.wastePercent >= 10 ? 'text-red-600' : 'text-gray-800'
+                              }`}>
+                                {item.wastePercent.toFixed(1)}%
+                              </td>
+                              <td className="text-right py-2 px-4">฿{item.wasteCost.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="space-y-2">
+                      <h4 className="text-lg text-[#543429]">By reason</h4>
+                      {wasteReport.byCategory.map(category => (
+                        <div key={category.category} className="bg-[#EBE6DE] rounded-lg p-3 flex justify-between items-center">
+                          <span className="capitalize">{category.category} ({category.entries})</span>
+                          <span className="font-bold">฿{category.cost.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-center">
-              <button
-                onClick={exportToCSV}
-                disabled={salesData.length === 0}
-                className="px-8 py-3 bg-[#69806C] text-white rounded-lg hover:bg-[#5a6e5e] transition text-lg disabled:opacity-50"
-              >
-                📊 Export CSV
-              </button>
+              <ExportButtons report="sales" filters={{ ...getRange(), compare }} disabled={!summary} />
             </div>
           </>
         )}
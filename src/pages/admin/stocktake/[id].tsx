@@ -0,0 +1,239 @@
+// src/pages/admin/stocktake/[id].tsx - กรอกจำนวนที่นับได้ ตรวจส่วนต่าง และยืนยันผลนับ
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, Stocktake } from '@/utils/api';
+
+export default function StocktakeDetailPage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  // stock id → ค่าที่กรอก ('' = ยังไม่ได้นับ)
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [showVarianceOnly, setShowVarianceOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    if (id) fetchStocktake(id as string);
+  }, [router.isReady, id]);
+
+  const applyStocktake = (value: Stocktake) => {
+    setStocktake(value);
+    setCounts(Object.fromEntries(value.lines.map(line => [
+      line.stock,
+      line.countedQuantity === null ? '' : String(line.countedQuantity)
+    ])));
+  };
+
+  const fetchStocktake = async (value: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await api.getStocktake(value);
+      applyStocktake(result.stocktake);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load stocktake');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!stocktake) return null;
+
+    const result = await api.saveStocktakeCounts(
+      stocktake._id,
+      stocktake.lines.map(line => ({
+        stock: line.stock,
+        countedQuantity: counts[line.stock] === '' ? null : Number(counts[line.stock])
+      }))
+    );
+    applyStocktake(result.stocktake);
+    return result.stocktake;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveDraft();
+    } catch (err: any) {
+      alert(err.message || 'Failed to save counts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!stocktake) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveDraft();
+      const adjusted = saved?.lines.filter(line => line.variance).length || 0;
+      const uncounted = saved?.lines.filter(line => line.countedQuantity === null).length || 0;
+
+      if (!confirm(
+        `Commit this stocktake?\n${adjusted} items will be corrected.` +
+        (uncounted ? `\n${uncounted} uncounted items will be left unchanged.` : '')
+      )) {
+        return;
+      }
+
+      await api.updateStocktakeStatus(stocktake._id, 'commit');
+      await fetchStocktake(stocktake._id);
+    } catch (err: any) {
+      alert(err.message || 'Failed to commit stocktake');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake || !confirm('Cancel this stocktake? Counts will not be applied.')) return;
+
+    setSaving(true);
+    try {
+      await api.updateStocktakeStatus(stocktake._id, 'cancel');
+      router.push('/admin/stocktake');
+    } catch (err: any) {
+      alert(err.message || 'Failed to cancel stocktake');
+      setSaving(false);
+    }
+  };
+
+  const editable = stocktake?.status === 'in-progress';
+  const lines = (stocktake?.lines || []).filter(line => !showVarianceOnly || line.variance);
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin/stocktake">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">
+          Stocktake {stocktake && new Date(stocktake.createdAt).toLocaleDateString('th-TH')}
+        </h1>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6">
+        {loading ? (
+          <p className="text-center text-xl text-[#69806C] py-12">Loading stocktake...</p>
+        ) : error || !stocktake ? (
+          <p className="text-center text-xl text-red-600 py-12">{error || 'Stocktake not found'}</p>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-lg p-6 mb-6 flex flex-wrap items-center gap-4">
+              <div>
+                <p className="text-xl text-[#543429] capitalize">{stocktake.status}</p>
+                <p className="text-sm text-gray-500">
+                  Started by {stocktake.startedBy?.fullName || '-'}
+                  {stocktake.committedAt && (
+                    <> · Committed {new Date(stocktake.committedAt).toLocaleString('th-TH')} by {stocktake.committedBy?.fullName || '-'}</>
+                  )}
+                </p>
+                {stocktake.note && <p className="text-gray-600">{stocktake.note}</p>}
+              </div>
+              <label className="ml-auto flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={showVarianceOnly}
+                  onChange={(e) => setShowVarianceOnly(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span>Variances only</span>
+              </label>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-6">
+              <table className="w-full text-left">
+                <thead className="bg-[#69806C] text-white">
+                  <tr>
+                    <th className="p-3">Item</th>
+                    <th className="p-3 text-center">At start</th>
+                    <th className="p-3 text-center">System at count</th>
+                    <th className="p-3 text-center">Counted</th>
+                    <th className="p-3 text-center">Variance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map(line => (
+                    <tr key={line.stock} className="border-b">
+                      <td className="p-3">
+                        <span className="font-bold">{line.name}</span>
+                        <span className="ml-2 text-sm text-gray-500">{line.itemType}</span>
+                      </td>
+                      <td className="p-3 text-center text-gray-500">{line.expectedQuantity} {line.unit}</td>
+                      <td className="p-3 text-center">{line.systemQuantity ?? '-'} {line.unit}</td>
+                      <td className="p-3 text-center">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min="0"
+                            value={counts[line.stock] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [line.stock]: e.target.value }))}
+                            placeholder="-"
+                            className="w-24 p-2 border rounded text-center"
+                          />
+                        ) : (
+                          line.countedQuantity ?? '-'
+                        )}
+                      </td>
+                      <td className={`p-3 text-center font-bold ${
+                        !line.variance ? 'text-gray-500' : line.variance > 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {line.variance === null || line.variance === undefined
+                          ? '-'
+                          : `${line.variance > 0 ? '+' : ''}${line.variance}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {lines.length === 0 && (
+                <p className="text-center text-gray-500 py-8">No items to show</p>
+              )}
+            </div>
+
+            {editable && (
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={handleCancel}
+                  disabled={saving}
+                  className="px-6 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition disabled:opacity-50"
+                >
+                  Cancel Count
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="ml-auto px-6 py-2 bg-[#947E5A] text-white rounded hover:bg-[#7d6a4b] transition disabled:opacity-50"
+                >
+                  💾 Save Draft & Review
+                </button>
+                <button
+                  onClick={handleCommit}
+                  disabled={saving}
+                  className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+                >
+                  ✅ Commit Corrections
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
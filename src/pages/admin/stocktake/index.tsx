@@ -0,0 +1,147 @@
+// src/pages/admin/stocktake/index.tsx - รอบนับสต๊อกทั้งหมด + เริ่มนับใหม่
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { api, isAdmin, StocktakeSummary, StocktakeStatus } from '@/utils/api';
+
+const STATUS_COLORS: Record<StocktakeStatus, string> = {
+  'in-progress': 'bg-yellow-100 text-yellow-700',
+  committed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+export default function StocktakeListPage() {
+  const router = useRouter();
+  const [stocktakes, setStocktakes] = useState<StocktakeSummary[]>([]);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin()) {
+      router.push('/login');
+      return;
+    }
+
+    fetchStocktakes();
+  }, []);
+
+  const fetchStocktakes = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getStocktakes();
+      setStocktakes(result.stocktakes);
+    } catch (error) {
+      console.error('Failed to fetch stocktakes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      const result = await api.startStocktake(note.trim() || undefined);
+      router.push(`/admin/stocktake/${result.stocktake._id}`);
+    } catch (error: any) {
+      alert(error.message || 'Failed to start stocktake');
+      setStarting(false);
+    }
+  };
+
+  const inProgress = stocktakes.find(stocktake => stocktake.status === 'in-progress');
+
+  return (
+    <div className="min-h-screen bg-[#EBE6DE] font-['Iceland']">
+      <div className="w-full h-[80px] bg-[#69806C] flex items-center px-6 shadow-lg">
+        <Link href="/admin/data-management">
+          <div className="text-white text-2xl hover:opacity-80 cursor-pointer">{'<'}</div>
+        </Link>
+        <h1 className="ml-6 text-white text-3xl">Stocktake</h1>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+          {inProgress ? (
+            <div className="flex flex-wrap items-center gap-4">
+              <p className="text-xl text-[#543429]">
+                A count started {new Date(inProgress.createdAt).toLocaleString('th-TH')} is in progress
+                ({inProgress.counted}/{inProgress.items} counted)
+              </p>
+              <Link href={`/admin/stocktake/${inProgress._id}`} className="ml-auto">
+                <span className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition cursor-pointer inline-block">
+                  Continue Counting
+                </span>
+              </Link>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="flex-1 min-w-[200px]">
+                <span className="text-gray-700">Note (optional)</span>
+                <input
+                  type="text"
+                  maxLength={500}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Weekly fridge count"
+                  className="w-full p-2 border rounded"
+                />
+              </label>
+              <button
+                onClick={handleStart}
+                disabled={starting}
+                className="px-6 py-2 bg-[#69806C] text-white rounded hover:bg-[#5a6e5e] transition disabled:opacity-50"
+              >
+                {starting ? 'Starting...' : '📋 Start New Count'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          {loading ? (
+            <p className="text-center text-xl text-[#69806C] py-12">Loading stocktakes...</p>
+          ) : stocktakes.length === 0 ? (
+            <p className="text-center text-xl text-gray-500 py-12">No stocktakes yet</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="bg-[#69806C] text-white">
+                <tr>
+                  <th className="p-3">Started</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3 text-center">Counted</th>
+                  <th className="p-3 text-center">Variances</th>
+                  <th className="p-3">By</th>
+                  <th className="p-3">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stocktakes.map(stocktake => (
+                  <tr
+                    key={stocktake._id}
+                    onClick={() => router.push(`/admin/stocktake/${stocktake._id}`)}
+                    className="border-b hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="p-3">{new Date(stocktake.createdAt).toLocaleString('th-TH')}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded text-sm ${STATUS_COLORS[stocktake.status]}`}>
+                        {stocktake.status}
+                      </span>
+                    </td>
+                    <td className="p-3 text-center">{stocktake.counted}/{stocktake.items}</td>
+                    <td className="p-3 text-center">{stocktake.status === 'committed' ? stocktake.withVariance : '-'}</td>
+                    <td className="p-3">{stocktake.committedBy?.fullName || stocktake.startedBy?.fullName || '-'}</td>
+                    <td className="p-3 text-sm text-gray-600">{stocktake.note}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from "next/link";
-import { api } from '@/utils/api';
+import { api, PricingConfig } from '@/utils/api';
 
 interface MenuItem {
   flavor: string;
@@ -19,66 +19,74 @@ interface ToppingItem {
 }
 
 export default function GalleryPage() {
-  const [bingsuMenu, setBingsuMenu] = useState<MenuItem[]>([
-    { flavor: "Strawberry", image: "/images/strawberry-ice.png" },
-    { flavor: "Thai Tea", image: "/images/thai-tea-ice.png" },
-    { flavor: "Matcha", image: "/images/matcha-ice.png" },
-  ]);
-
-  const [toppings, setToppings] = useState<ToppingItem[]>([
-    { name: "Apple", image: "/images/apple.png" },
-    { name: "Blueberry", image: "/images/blueberry.png" },
-    { name: "Cherry", image: "/images/cherry.png" },
-    { name: "Raspberry", image: "/images/raspberry.png" },
-    { name: "Strawberry", image: "/images/strawberry.png" },
-  ]);
+  const [bingsuMenu, setBingsuMenu] = useState<MenuItem[]>([]);
+  const [toppings, setToppings] = useState<ToppingItem[]>([]);
+
+  const [pricing, setPricing] = useState<PricingConfig | null>(null);
 
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadStockStatus();
+    api.getPricing()
+      .then(result => setPricing(result.pricing))
+      .catch(error => console.error('Failed to load pricing:', error));
   }, []);
 
-  // ✅ Load stock status from MongoDB
+  const flavorPrice = (name: string) =>
+    pricing?.flavorPrices.find(p => p.name === name)?.price ?? pricing?.defaultBasePrice ?? 60;
+  const toppingPrice = (name: string) =>
+    pricing?.toppingPrices.find(p => p.name === name)?.price ?? pricing?.defaultToppingPrice ?? 10;
+  const sizePrices = pricing?.sizePrices || { S: 0, M: 10, L: 20 };
+
+  // ✅ Load menu catalog + stock status from MongoDB
   const loadStockStatus = async () => {
     setLoading(true);
     try {
-      const [flavorsResult, toppingsResult] = await Promise.all([
-        api.getAvailableItems('flavor'),
-        api.getAvailableItems('topping')
-      ]);
-
-      // Update bingsu menu with stock status
-      const updatedMenu = bingsuMenu.map(item => {
-        const stockItem = flavorsResult.items?.find((s: any) => 
-          s.name.toLowerCase() === item.flavor.toLowerCase()
-        );
-        return {
-          ...item,
-          available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
-          stock: stockItem?.quantity || 0
-        };
-      });
-
-      // Update toppings with stock status
-      const updatedToppings = toppings.map(item => {
-        const stockItem = toppingsResult.items?.find((s: any) => 
-          s.name.toLowerCase() === item.name.toLowerCase()
-        );
-        return {
-          ...item,
-          available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
-          stock: stockItem?.quantity || 0
-        };
-      });
-
-      setBingsuMenu(updatedMenu);
-      setToppings(updatedToppings);
+      const menu = await api.getMenu();
+      const menuFlavors: MenuItem[] = (menu.flavors || []).map(f => ({ flavor: f.name, image: f.image }));
+      const menuToppings: ToppingItem[] = (menu.toppings || []).map(t => ({ name: t.name, image: t.image }));
+
+      try {
+        const [flavorsResult, toppingsResult] = await Promise.all([
+          api.getAvailableItems('flavor'),
+          api.getAvailableItems('topping')
+        ]);
+
+        // Update bingsu menu with stock status
+        const updatedMenu = menuFlavors.map(item => {
+          const stockItem = flavorsResult.items?.find((s: any) => 
+            s.name.toLowerCase() === item.flavor.toLowerCase()
+          );
+          return {
+            ...item,
+            available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
+            stock: stockItem?.quantity || 0
+          };
+        });
+
+        // Update toppings with stock status
+        const updatedToppings = menuToppings.map(item => {
+          const stockItem = toppingsResult.items?.find((s: any) => 
+            s.name.toLowerCase() === item.name.toLowerCase()
+          );
+          return {
+            ...item,
+            available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
+            stock: stockItem?.quantity || 0
+          };
+        });
+
+        setBingsuMenu(updatedMenu);
+        setToppings(updatedToppings);
+      } catch (stockError) {
+        console.error('Failed to load stock status:', stockError);
+        // If stock API fails, show all as available
+        setBingsuMenu(menuFlavors.map(item => ({ ...item, available: true, stock: 100 })));
+        setToppings(menuToppings.map(item => ({ ...item, available: true, stock: 100 })));
+      }
     } catch (error) {
-      console.error('Failed to load stock status:', error);
-      // If API fails, show all as available
-      setBingsuMenu(prev => prev.map(item => ({ ...item, available: true, stock: 100 })));
-      setToppings(prev => prev.map(item => ({ ...item, available: true, stock: 100 })));
+      console.error('Failed to load menu:', error);
     } finally {
       setLoading(false);
     }
@@ -200,16 +208,20 @@ export default function GalleryPage() {
                 <div>
                   <h4 className="font-['Iceland'] text-lg text-gray-700 mb-2">🍧 Base Prices</h4>
                   <ul className="space-y-1 text-gray-600 font-['Iceland']">
-                    <li>• Shaved Ice Base: ฿60</li>
-                    <li>• Size S: +฿0</li>
-                    <li>• Size M: +฿10</li>
-                    <li>• Size L: +฿20</li>
+                    {bingsuMenu.map(item => (
+                      <li key={item.flavor}>• {item.flavor}: ฿{flavorPrice(item.flavor)}</li>
+                    ))}
+                    <li>• Size S: +฿{sizePrices.S}</li>
+                    <li>• Size M: +฿{sizePrices.M}</li>
+                    <li>• Size L: +฿{sizePrices.L}</li>
                   </ul>
                 </div>
                 <div>
                   <h4 className="font-['Iceland'] text-lg text-gray-700 mb-2">🍓 Topping Prices</h4>
                   <ul className="space-y-1 text-gray-600 font-['Iceland']">
-                    <li>• Each topping: +฿10</li>
+                    {toppings.map(item => (
+                      <li key={item.name}>• {item.name}: +฿{toppingPrice(item.name)}</li>
+                    ))}
                     <li>• Maximum 3 toppings per order</li>
                     <li>• All toppings are fresh daily</li>
                   </ul>
@@ -4,7 +4,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import HeaderExclude from '../components/HeaderExclude';
-import { api } from '@/utils/api';
+import { api, MenuItem } from '@/utils/api';
 
 interface PopularItem {
   flavor: string;
@@ -52,30 +52,37 @@ export default function HomePage() {
   };
 
   const fetchPopularItems = async () => {
+    // ✅ รูปเมนูมาจาก menu catalog ในฐานข้อมูล
+    let menuFlavors: MenuItem[] = [];
+    try {
+      const menu = await api.getMenu();
+      menuFlavors = menu.flavors || [];
+    } catch (error) {
+      console.error('Failed to fetch menu:', error);
+    }
+
+    const flavorImage = (name: string) =>
+      menuFlavors.find(f => f.name === name)?.image || menuFlavors[0]?.image || '/images/strawberry-ice.png';
+
     try {
       const result = await api.getOrderStats();
       const flavors = result.popularFlavors || [];
-      
-      const flavorImages: { [key: string]: string } = {
-        'Strawberry': '/images/strawberry-ice.png',
-        'Thai Tea': '/images/thai-tea-ice.png',
-        'Matcha': '/images/matcha-ice.png',
-      };
 
       const items = flavors.slice(0, 3).map((f: any) => ({
         flavor: f._id,
         count: f.count,
-        image: flavorImages[f._id] || '/images/strawberry-ice.png'
+        image: flavorImage(f._id)
       }));
 
       setPopularItems(items);
     } catch (error) {
       console.error('Failed to fetch popular items:', error);
-      setPopularItems([
-        { flavor: 'Strawberry', count: 25, image: '/images/strawberry-ice.png' },
-        { flavor: 'Matcha', count: 20, image: '/images/matcha-ice.png' },
-        { flavor: 'Thai Tea', count: 18, image: '/images/thai-tea-ice.png' },
-      ]);
+      const placeholderCounts = [25, 20, 18];
+      setPopularItems(menuFlavors.slice(0, 3).map((f, idx) => ({
+        flavor: f.name,
+        count: placeholderCounts[idx],
+        image: f.image
+      })));
     }
   };
 
@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { api } from '@/utils/api';
+import { api, MenuItem as CatalogItem, PricingConfig, PaymentMethod, Order } from '@/utils/api';
+import { useOrderStream } from '@/hooks/useOrderStream';
+import PaymentPanel from '@/components/PaymentPanel';
 
 interface MenuItem {
   name: string;
@@ -11,111 +13,117 @@ interface MenuItem {
   description: string;
   image: string;
   color?: string;
-  textColor?: string;
   available?: boolean;
   stock?: number;
+  // เมนูที่มีสูตร: จำนวนแก้วที่ทำได้แยกตามขนาด
+  servingsBySize?: Record<string, number>;
 }
 
+// แก้วบิงซูที่เพิ่มลงออเดอร์แล้ว
+interface CartItem {
+  cupSize: string;
+  flavor: MenuItem;
+  toppings: MenuItem[];
+  specialInstructions: string;
+}
+
+const MAX_ITEMS_PER_ORDER = 10;
+
+const PAYMENT_OPTIONS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'cash', label: '💵 Cash' },
+  { value: 'card', label: '💳 Card' },
+  { value: 'promptpay', label: '📱 PromptPay' }
+];
+
 export default function MenuPage() {
   const router = useRouter();
   const { code } = router.query;
   
   const [menuCode, setMenuCode] = useState('');
   const [cupSize, setCupSize] = useState<string>('M');
+  const [defaultCupSize, setDefaultCupSize] = useState<string>('M');
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [selectedFlavor, setSelectedFlavor] = useState<MenuItem | null>(null);
   const [selectedToppings, setSelectedToppings] = useState<MenuItem[]>([]);
   const [specialInstructions, setSpecialInstructions] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showOrderForm, setShowOrderForm] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [customerCode, setCustomerCode] = useState('');
+  const [createdOrder, setCreatedOrder] = useState<Order | null>(null);
   const [validating, setValidating] = useState(false);
   
   // ✅ MongoDB Stock Data
   const [availableFlavors, setAvailableFlavors] = useState<MenuItem[]>([]);
   const [availableToppings, setAvailableToppings] = useState<MenuItem[]>([]);
   const [loadingMenu, setLoadingMenu] = useState(true);
-
-  // Default menu items (used as fallback)
-  const defaultFlavors: MenuItem[] = [
-    {
-      name: 'Strawberry',
-      score: 1,
-      description: 'A sweet, icy kiss of summer!',
-      image: '/images/strawberry-ice.png',
-      color: '#B23434',
-    },
-    {
-      name: 'Thai Tea',
-      score: 2,
-      description: 'Bold. Creamy. Unmistakably Thai.',
-      image: '/images/thai-tea-ice.png',
-      color: '#CD9445',
-    },
-    {
-      name: 'Matcha',
-      score: 3,
-      description: 'Earthy. Creamy. Cool.',
-      image: '/images/matcha-ice.png',
-      color: '#527657',
-    },
-  ];
-
-  const defaultToppings: MenuItem[] = [
-    { name: 'Apple', score: 1, description: 'Juicy crunch', image: '/images/apple.png', textColor: '#B51212' },
-    { name: 'Cherry', score: 2, description: 'Sweet & tangy', image: '/images/cherry.png', textColor: '#B51212' },
-    { name: 'Blueberry', score: 3, description: 'Sweet berries', image: '/images/blueberry.png', textColor: '#354088' },
-    { name: 'Raspberry', score: 4, description: 'Bold & tangy', image: '/images/raspberry.png', textColor: '#B51212' },
-    { name: 'Strawberry', score: 5, description: 'Sweet & juicy', image: '/images/strawberry.png', textColor: '#B51212' },
-  ];
+  const [pricing, setPricing] = useState<PricingConfig | null>(null);
 
   useEffect(() => {
     if (code) {
       validateCode(code as string);
     }
     loadAvailableItems();
+    loadPricing();
   }, [code]);
 
-  // ✅ Load available items from MongoDB Stock
+  // ✅ Load current prices (server is the source of truth for the final total)
+  const loadPricing = async () => {
+    try {
+      const result = await api.getPricing();
+      setPricing(result.pricing);
+    } catch (error) {
+      console.error('Failed to load pricing:', error);
+    }
+  };
+
+  // ✅ Load menu catalog + stock status from MongoDB
   const loadAvailableItems = async () => {
     setLoadingMenu(true);
     try {
-      const [flavorsResult, toppingsResult] = await Promise.all([
-        api.getAvailableItems('flavor'),
-        api.getAvailableItems('topping')
-      ]);
-
-      // Map MongoDB data to menu items with stock info
-      const flavorsWithStock = defaultFlavors.map(flavor => {
-        const stockItem = flavorsResult.items?.find((item: any) => 
-          item.name.toLowerCase() === flavor.name.toLowerCase()
-        );
-        return {
-          ...flavor,
-          available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
-          stock: stockItem?.quantity || 0
-        };
+      const menu = await api.getMenu();
+      const toMenuItem = (item: CatalogItem): MenuItem => ({
+        name: item.name,
+        score: item.displayOrder,
+        description: item.description,
+        image: item.image,
+        color: item.color
       });
+      const menuFlavors = (menu.flavors || []).map(toMenuItem);
+      const menuToppings = (menu.toppings || []).map(toMenuItem);
 
-      const toppingsWithStock = defaultToppings.map(topping => {
-        const stockItem = toppingsResult.items?.find((item: any) => 
-          item.name.toLowerCase() === topping.name.toLowerCase()
-        );
-        return {
-          ...topping,
-          available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
-          stock: stockItem?.quantity || 0
-        };
-      });
+      try {
+        const [flavorsResult, toppingsResult] = await Promise.all([
+          api.getAvailableItems('flavor'),
+          api.getAvailableItems('topping')
+        ]);
+
+        // Map MongoDB data to menu items with stock info
+        const withStock = (items: MenuItem[], stockItems: any[] = []) => items.map(item => {
+          const stockItem = stockItems.find((s: any) => 
+            s.name.toLowerCase() === item.name.toLowerCase()
+          );
+          return {
+            ...item,
+            available: stockItem ? stockItem.isActive && stockItem.quantity > 0 : false,
+            stock: stockItem?.quantity || 0,
+            servingsBySize: stockItem?.servingsBySize
+          };
+        });
 
-      setAvailableFlavors(flavorsWithStock);
-      setAvailableToppings(toppingsWithStock);
+        setAvailableFlavors(withStock(menuFlavors, flavorsResult.items));
+        setAvailableToppings(withStock(menuToppings, toppingsResult.items));
+      } catch (stockError) {
+        console.error('Failed to load stock data:', stockError);
+        // Show menu as available if stock API fails
+        setAvailableFlavors(menuFlavors.map(f => ({ ...f, available: true, stock: 100 })));
+        setAvailableToppings(menuToppings.map(t => ({ ...t, available: true, stock: 100 })));
+      }
     } catch (error) {
-      console.error('Failed to load stock data:', error);
-      // Use default items if stock API fails
-      setAvailableFlavors(defaultFlavors.map(f => ({ ...f, available: true, stock: 100 })));
-      setAvailableToppings(defaultToppings.map(t => ({ ...t, available: true, stock: 100 })));
+      console.error('Failed to load menu:', error);
+      setError('Failed to load menu. Please try again.');
     } finally {
       setLoadingMenu(false);
     }
@@ -131,6 +139,7 @@ export default function MenuPage() {
       if (result.valid) {
         setMenuCode(codeStr.toUpperCase());
         setCupSize(result.cupSize);
+        setDefaultCupSize(result.cupSize);
         setShowOrderForm(true);
       } else {
         setError(result.message || 'Invalid menu code');
@@ -176,15 +185,33 @@ export default function MenuPage() {
     setError('');
   };
 
-  const calculateTotal = () => {
-    let total = 60; // Base price
-    const sizePrice = { S: 0, M: 10, L: 20 };
-    total += sizePrice[cupSize as keyof typeof sizePrice] || 0;
-    total += selectedToppings.length * 10;
+  const getFlavorPrice = (name: string) => {
+    const entry = pricing?.flavorPrices.find(p => p.name === name);
+    return entry ? entry.price : pricing?.defaultBasePrice ?? 60;
+  };
+
+  const getToppingPrice = (name: string) => {
+    const entry = pricing?.toppingPrices.find(p => p.name === name);
+    return entry ? entry.price : pricing?.defaultToppingPrice ?? 10;
+  };
+
+  const calculateItemTotal = (size: string, flavor: MenuItem | null, toppings: MenuItem[]) => {
+    const sizePrice = pricing?.sizePrices || { S: 0, M: 10, L: 20 };
+    let total = flavor ? getFlavorPrice(flavor.name) : pricing?.defaultBasePrice ?? 60;
+    total += sizePrice[size as keyof typeof sizePrice] || 0;
+    total += toppings.reduce((sum, t) => sum + getToppingPrice(t.name), 0);
     return total;
   };
 
-  const validateOrder = () => {
+  const calculateTotal = () => {
+    const cartTotal = cartItems.reduce(
+      (sum, item) => sum + calculateItemTotal(item.cupSize, item.flavor, item.toppings),
+      0
+    );
+    return cartTotal + (selectedFlavor ? calculateItemTotal(cupSize, selectedFlavor, selectedToppings) : 0);
+  };
+
+  const validateCup = () => {
     if (!selectedFlavor) {
       setError('Please select a shaved ice flavor');
       return false;
@@ -202,6 +229,66 @@ export default function MenuPage() {
       return false;
     }
     
+    // แก้วใหญ่ใช้วัตถุดิบมากกว่า อาจหมดก่อนแก้วเล็ก
+    const outForSize = [selectedFlavor, ...selectedToppings].filter(item => item.servingsBySize?.[cupSize] === 0);
+    if (outForSize.length > 0) {
+      setError(`Sorry, not enough left for a size ${cupSize} cup: ${outForSize.map(item => item.name).join(', ')}`);
+      return false;
+    }
+    
+    return true;
+  };
+
+  const resetCup = () => {
+    setCupSize(defaultCupSize);
+    setSelectedFlavor(null);
+    setSelectedToppings([]);
+    setSpecialInstructions('');
+  };
+
+  // ✅ เพิ่มแก้วปัจจุบันลงออเดอร์ แล้วเริ่มแก้วใหม่
+  const addCupToOrder = () => {
+    if (!validateCup()) return;
+
+    if (cartItems.length >= MAX_ITEMS_PER_ORDER) {
+      setError(`Maximum ${MAX_ITEMS_PER_ORDER} cups per order`);
+      return;
+    }
+
+    setCartItems(prev => [...prev, {
+      cupSize,
+      flavor: selectedFlavor!,
+      toppings: selectedToppings,
+      specialInstructions
+    }]);
+    resetCup();
+    setError('');
+  };
+
+  const removeCartItem = (index: number) => {
+    setCartItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // แก้วที่กำลังเลือกอยู่จะถูกรวมเข้าออเดอร์ด้วยเมื่อกดยืนยัน
+  const getOrderItems = (): CartItem[] => {
+    if (!selectedFlavor) return cartItems;
+    return [...cartItems, { cupSize, flavor: selectedFlavor, toppings: selectedToppings, specialInstructions }];
+  };
+
+  const validateOrder = () => {
+    if (selectedFlavor && !validateCup()) return false;
+
+    const items = getOrderItems();
+    if (items.length === 0) {
+      setError('Please select a shaved ice flavor');
+      return false;
+    }
+
+    if (items.length > MAX_ITEMS_PER_ORDER) {
+      setError(`Maximum ${MAX_ITEMS_PER_ORDER} cups per order`);
+      return false;
+    }
+    
     return true;
   };
 
@@ -214,20 +301,27 @@ export default function MenuPage() {
     try {
       const orderData = {
         menuCode: menuCode.toUpperCase(),
-        shavedIce: {
-          flavor: selectedFlavor!.name,
-          points: selectedFlavor!.score
-        },
-        toppings: selectedToppings.map(t => ({
-          name: t.name,
-          points: t.score
+        items: getOrderItems().map(item => ({
+          cupSize: item.cupSize as 'S' | 'M' | 'L',
+          shavedIce: {
+            flavor: item.flavor.name,
+            points: item.flavor.score
+          },
+          toppings: item.toppings.map(t => ({
+            name: t.name,
+            points: t.score
+          })),
+          specialInstructions: item.specialInstructions
         })),
-        specialInstructions
+        paymentMethod
       };
 
       const result = await api.createOrder(orderData);
       setCustomerCode(result.customerCode.replace('#', ''));
+      setCreatedOrder(result.order);
       setShowSuccessModal(true);
+      setCartItems([]);
+      resetCup();
       
       // Reload stock after successful order
       await loadAvailableItems();
@@ -246,6 +340,23 @@ export default function MenuPage() {
     }
   };
 
+  // ✅ รอผลชำระเงินของออเดอร์ที่เพิ่งสั่ง (SSE, poll ถ้า stream หลุด)
+  useOrderStream({
+    path: customerCode ? `/track/${encodeURIComponent(customerCode)}/stream` : null,
+    enabled: showSuccessModal && createdOrder?.status === 'AwaitingPayment',
+    onEvent: (type, data) => {
+      if (data?.order) setCreatedOrder(data.order);
+    },
+    poll: async () => {
+      try {
+        const result = await api.trackOrder(customerCode);
+        setCreatedOrder(result.order);
+      } catch (err) {
+        console.error('Failed to refresh payment status:', err);
+      }
+    }
+  });
+
   if (validating) {
     return (
       <div className="min-h-screen w-full bg-[#EBE6DE] flex items-center justify-center">
@@ -291,7 +402,7 @@ export default function MenuPage() {
         </div>
         <div className="text-white font-['Iceland']">
           Code: <span className="font-bold">{menuCode}</span> | 
-          Size: <span className="font-bold">{cupSize}</span>
+          Cups: <span className="font-bold">{cartItems.length}</span>
         </div>
       </div>
 
@@ -309,6 +420,28 @@ export default function MenuPage() {
           </div>
         ) : (
           <>
+            {/* Cup Size Selection */}
+            <div className="mb-12">
+              <h3 className="text-3xl text-[#69806C] mb-6 text-center font-['Iceland']">
+                Cup {cartItems.length + 1}: Select Size
+              </h3>
+              <div className="flex justify-center gap-4">
+                {['S', 'M', 'L'].map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setCupSize(size)}
+                    className={`w-20 h-20 rounded-lg border-2 text-3xl font-['Iceland'] transition ${
+                      cupSize === size
+                        ? 'border-[#69806C] bg-[#69806C] text-white shadow-lg'
+                        : 'border-gray-300 bg-white text-[#69806C] hover:border-[#69806C]'
+                    }`}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Shaved Ice Selection */}
             <div className="mb-12">
               <h3 className="text-3xl text-[#69806C] mb-6 text-center font-['Iceland']">
@@ -390,7 +523,7 @@ export default function MenuPage() {
                       <img src={topping.image} alt={topping.name} className="w-full h-full object-cover" />
                     </div>
                     <div className="p-2">
-                      <h4 className="text-lg font-['Iceland']" style={{ color: topping.textColor }}>
+                      <h4 className="text-lg font-['Iceland']" style={{ color: topping.color }}>
                         {topping.name}
                       </h4>
                       {selectedToppings.find(t => t.name === topping.name) && (
@@ -417,18 +550,69 @@ export default function MenuPage() {
               />
             </div>
 
+            <div className="flex justify-center mb-8">
+              <button
+                onClick={addCupToOrder}
+                disabled={!selectedFlavor || cartItems.length >= MAX_ITEMS_PER_ORDER}
+                className="px-6 py-3 bg-[#947E5A] text-white text-xl font-['Iceland'] rounded-lg hover:bg-[#7a6848] transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ➕ Add Cup & Order Another
+              </button>
+            </div>
+
             {/* Order Summary */}
             <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
               <h3 className="text-2xl text-[#69806C] font-['Iceland'] mb-4">Order Summary</h3>
               <div className="space-y-2 text-lg font-['Iceland']">
-                <p>Size: <span className="font-bold">{cupSize}</span></p>
-                <p>Flavor: <span className="font-bold">{selectedFlavor?.name || 'Not selected'}</span></p>
-                <p>Toppings: <span className="font-bold">
-                  {selectedToppings.length > 0 ? selectedToppings.map(t => t.name).join(', ') : 'None'}
-                </span></p>
+                {cartItems.map((item, index) => (
+                  <div key={index} className="flex justify-between items-start border-b pb-2">
+                    <div>
+                      <p className="font-bold">Cup {index + 1}: {item.flavor.name} ({item.cupSize})</p>
+                      <p className="text-sm text-gray-600">
+                        Toppings: {item.toppings.length > 0 ? item.toppings.map(t => t.name).join(', ') : 'None'}
+                      </p>
+                      {item.specialInstructions && (
+                        <p className="text-sm text-gray-500 italic">{item.specialInstructions}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span>฿{calculateItemTotal(item.cupSize, item.flavor, item.toppings)}</span>
+                      <button
+                        onClick={() => removeCartItem(index)}
+                        className="text-red-500 hover:text-red-700 text-sm"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <div>
+                  <p className="font-bold">
+                    Cup {cartItems.length + 1}: {selectedFlavor?.name || 'Not selected'} ({cupSize})
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Toppings: {selectedToppings.length > 0 ? selectedToppings.map(t => t.name).join(', ') : 'None'}
+                  </p>
+                </div>
                 <div className="border-t pt-2 mt-2">
                   <p className="text-2xl text-[#69806C] font-bold">Total: ฿{calculateTotal()}</p>
                 </div>
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  <span className="text-gray-600 mr-2">Pay with:</span>
+                  {PAYMENT_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setPaymentMethod(option.value)}
+                      className={`px-4 py-2 rounded-lg transition ${
+                        paymentMethod === option.value
+                          ? 'bg-[#69806C] text-white'
+                          : 'bg-gray-100 text-[#69806C] hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
 
@@ -441,10 +625,10 @@ export default function MenuPage() {
               </Link>
               <button
                 onClick={handleCreateOrder}
-                disabled={loading || !selectedFlavor}
+                disabled={loading || (!selectedFlavor && cartItems.length === 0)}
                 className="px-8 py-3 bg-[#69806C] text-white text-xl font-['Iceland'] rounded-lg hover:bg-[#5a6e5e] transition disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? 'Creating...' : 'Confirm Order'}
+                {loading ? 'Creating...' : `Confirm Order (${getOrderItems().length} ${getOrderItems().length === 1 ? 'cup' : 'cups'})`}
               </button>
             </div>
           </>
@@ -456,12 +640,17 @@ export default function MenuPage() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg p-8 max-w-md w-full">
             <h2 className="text-3xl text-green-600 mb-4 text-center font-['Iceland']">
-              ✅ Order Successful!
+              {createdOrder?.status === 'AwaitingPayment' ? '🧾 Order Placed!' : '✅ Order Successful!'}
             </h2>
             <div className="bg-gray-100 p-4 rounded mb-4">
               <p className="text-sm text-gray-600 text-center font-['Iceland']">Customer Code:</p>
               <p className="text-4xl font-bold text-[#69806C] text-center font-['Iceland']">{customerCode}</p>
             </div>
+            {createdOrder && (
+              <div className="mb-4">
+                <PaymentPanel order={createdOrder} />
+              </div>
+            )}
             <p className="text-sm mb-4 text-center font-['Iceland']">
               ⚠️ Save this code to track your order
             </p>
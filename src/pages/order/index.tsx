@@ -3,19 +3,19 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { api, getCurrentUser, isAuthenticated } from '@/utils/api';
+import { api, getCurrentUser, isAuthenticated, OrderItem, OrderPayment, QueueInfo } from '@/utils/api';
+import { useOrderStream } from '@/hooks/useOrderStream';
+import PaymentPanel from '@/components/PaymentPanel';
 
 interface Order {
   _id: string;
   orderId: string;
   customerCode: string;
-  cupSize: string;
-  shavedIce: { flavor: string };
-  toppings: Array<{ name: string }>;
+  items: OrderItem[];
   pricing: { total: number };
   status: string;
+  payment?: OrderPayment;
   createdAt: string;
-  specialInstructions?: string;
 }
 
 export default function OrderHubPage() {
@@ -28,6 +28,7 @@ export default function OrderHubPage() {
 
   // ✅ Track Order State
   const [trackedOrder, setTrackedOrder] = useState<Order | null>(null);
+  const [queue, setQueue] = useState<QueueInfo | null>(null);
   const [trackError, setTrackError] = useState('');
   const [autoRefresh, setAutoRefresh] = useState(true);
 
@@ -37,15 +38,20 @@ export default function OrderHubPage() {
     }
   }, [activeTab]);
 
-  // ✅ Auto refresh tracked order
-  useEffect(() => {
-    if (trackedOrder && autoRefresh && trackedOrder.status !== 'Completed' && trackedOrder.status !== 'Cancelled') {
-      const interval = setInterval(() => {
-        trackOrderSilent(trackedOrder.customerCode);
-      }, 10000);
-      return () => clearInterval(interval);
+  // ✅ Real-time status of tracked order (SSE, poll ทุก 10 วินาทีถ้า stream หลุด)
+  const trackedCode = trackedOrder?.customerCode.replace('#', '');
+  const isActiveOrder = !!trackedOrder && trackedOrder.status !== 'Completed' && trackedOrder.status !== 'Cancelled';
+  useOrderStream({
+    path: trackedCode ? `/track/${encodeURIComponent(trackedCode)}/stream` : null,
+    enabled: autoRefresh && isActiveOrder,
+    onEvent: (type, data) => {
+      if (data?.order) setTrackedOrder(data.order);
+      if (type === 'snapshot' || type === 'queue') setQueue(data?.queue || null);
+    },
+    poll: () => {
+      if (trackedCode) trackOrderSilent(trackedCode);
     }
-  }, [trackedOrder, autoRefresh]);
+  });
 
   const fetchMyOrders = async () => {
     setLoading(true);
@@ -70,11 +76,13 @@ export default function OrderHubPage() {
     setLoading(true);
     setTrackError('');
     setTrackedOrder(null);
+    setQueue(null);
 
     try {
       console.log('🔍 Tracking order:', cleanCode);
       const result = await api.trackOrder(cleanCode);
       setTrackedOrder(result.order);
+      setQueue(result.queue || null);
       console.log('✅ Order found:', result.order);
     } catch (err: any) {
       console.error('❌ Track error:', err);
@@ -94,6 +102,7 @@ export default function OrderHubPage() {
     try {
       const result = await api.trackOrder(code);
       setTrackedOrder(result.order);
+      setQueue(result.queue || null);
     } catch (error) {
       console.error('Silent track failed:', error);
     }
@@ -101,6 +110,7 @@ export default function OrderHubPage() {
 
   const getStatusBadge = (status: string) => {
     const styles = {
+      'AwaitingPayment': 'bg-orange-100 text-orange-800',
       'Pending': 'bg-yellow-100 text-yellow-800',
       'Preparing': 'bg-blue-100 text-blue-800',
       'Ready': 'bg-green-100 text-green-800',
@@ -112,6 +122,7 @@ export default function OrderHubPage() {
 
   const getStatusColor = (status: string) => {
     const colors = {
+      'AwaitingPayment': 'bg-orange-500',
       'Pending': 'bg-yellow-500',
       'Preparing': 'bg-blue-500',
       'Ready': 'bg-green-500',
@@ -123,6 +134,7 @@ export default function OrderHubPage() {
 
   const getStatusIcon = (status: string) => {
     const icons = {
+      'AwaitingPayment': '💳',
       'Pending': '⏳',
       'Preparing': '👨‍🍳',
       'Ready': '✅',
@@ -246,6 +258,31 @@ export default function OrderHubPage() {
                   </p>
                 </div>
 
+                {/* Payment */}
+                {trackedOrder.status === 'AwaitingPayment' && (
+                  <div className="mb-6">
+                    <PaymentPanel order={trackedOrder} />
+                  </div>
+                )}
+
+                {/* Queue Position & ETA */}
+                {queue && (trackedOrder.status === 'Pending' || trackedOrder.status === 'Preparing') && (
+                  <div className="grid grid-cols-2 gap-4 mb-6 font-['Iceland']">
+                    <div className="bg-[#EBE6DE] rounded-lg p-4 text-center">
+                      <p className="text-gray-600">Queue Position</p>
+                      <p className="text-4xl font-bold text-[#543429]">#{queue.position}</p>
+                      <p className="text-sm text-gray-500">of {queue.activeOrders} active orders</p>
+                    </div>
+                    <div className="bg-[#EBE6DE] rounded-lg p-4 text-center">
+                      <p className="text-gray-600">Estimated Ready</p>
+                      <p className="text-4xl font-bold text-[#543429]">
+                        {new Date(queue.estimatedReadyAt).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                      <p className="text-sm text-gray-500">about {queue.estimatedWaitMinutes} min</p>
+                    </div>
+                  </div>
+                )}
+
                 {/* Auto Refresh Toggle */}
                 {trackedOrder.status !== 'Completed' && trackedOrder.status !== 'Cancelled' && (
                   
@@ -293,20 +330,8 @@ export default function OrderHubPage() {
                       <p className="font-bold text-[#543429]">{trackedOrder.customerCode.replace('#', '')}</p>
                     </div>
                     <div>
-                      <p className="text-gray-600">Cup Size:</p>
-                      <p className="font-bold text-[#543429]">{trackedOrder.cupSize}</p>
-                    </div>
-                    <div>
-                      <p className="text-gray-600">Flavor:</p>
-                      <p className="font-bold text-[#543429]">{trackedOrder.shavedIce.flavor}</p>
-                    </div>
-                    <div>
-                      <p className="text-gray-600">Toppings:</p>
-                      <p className="font-bold text-[#543429]">
-                        {trackedOrder.toppings.length > 0 
-                          ? trackedOrder.toppings.map(t => t.name).join(', ')
-                          : 'None'}
-                      </p>
+                      <p className="text-gray-600">Cups:</p>
+                      <p className="font-bold text-[#543429]">{trackedOrder.items.length}</p>
                     </div>
                     <div>
                       <p className="text-gray-600">Total Price:</p>
@@ -320,14 +345,24 @@ export default function OrderHubPage() {
                     </div>
                   </div>
                   
-                  {trackedOrder.specialInstructions && (
-                    <div className="mt-4">
-                      <p className="text-gray-600 font-['Iceland']">Special Instructions:</p>
-                      <p className="bg-gray-50 p-3 rounded-lg mt-1 font-['Iceland']">
-                        {trackedOrder.specialInstructions}
-                      </p>
-                    </div>
-                  )}
+                  <div className="mt-4 space-y-3">
+                    {trackedOrder.items.map((item, idx) => (
+                      <div key={item._id || idx} className="bg-gray-50 p-3 rounded-lg font-['Iceland']">
+                        <p className="font-bold text-[#543429]">
+                          Cup {idx + 1}: {item.shavedIce.flavor} (Size {item.cupSize})
+                          {item.isFreeDrink && <span className="ml-2 text-green-600">🎁 Free</span>}
+                        </p>
+                        <p className="text-gray-600">
+                          Toppings: {item.toppings.length > 0 
+                            ? item.toppings.map(t => t.name).join(', ')
+                            : 'None'}
+                        </p>
+                        {item.specialInstructions && (
+                          <p className="text-sm italic text-gray-500 mt-1">{item.specialInstructions}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                 </div>
 
                 {/* Ready Alert */}
@@ -446,12 +481,14 @@ export default function OrderHubPage() {
                         <p className="font-['Iceland'] text-[#543429] font-bold">{order.customerCode.replace('#', '')}</p>
                       </div>
                       <div>
-                        <p className="text-xs text-gray-500 font-['Iceland']">Size</p>
-                        <p className="font-['Iceland'] text-[#543429]">{order.cupSize}</p>
+                        <p className="text-xs text-gray-500 font-['Iceland']">Cups</p>
+                        <p className="font-['Iceland'] text-[#543429]">{order.items.length}</p>
                       </div>
                       <div>
-                        <p className="text-xs text-gray-500 font-['Iceland']">Flavor</p>
-                        <p className="font-['Iceland'] text-[#543429]">{order.shavedIce.flavor}</p>
+                        <p className="text-xs text-gray-500 font-['Iceland']">Flavors</p>
+                        <p className="font-['Iceland'] text-[#543429]">
+                          {order.items.map(item => `${item.shavedIce.flavor} (${item.cupSize})`).join(', ')}
+                        </p>
                       </div>
                       <div>
                         <p className="text-xs text-gray-500 font-['Iceland']">Total</p>
@@ -459,12 +496,14 @@ export default function OrderHubPage() {
                       </div>
                     </div>
 
-                    {order.toppings.length > 0 && (
+                    {order.items.some(item => item.toppings.length > 0) && (
                       <div className="mb-4">
                         <p className="text-xs text-gray-500 font-['Iceland'] mb-1">Toppings</p>
-                        <p className="font-['Iceland'] text-sm text-[#543429]">
-                          {order.toppings.map(t => t.name).join(', ')}
-                        </p>
+                        {order.items.map((item, idx) => item.toppings.length > 0 && (
+                          <p key={item._id || idx} className="font-['Iceland'] text-sm text-[#543429]">
+                            Cup {idx + 1}: {item.toppings.map(t => t.name).join(', ')}
+                          </p>
+                        ))}
                       </div>
                     )}
 
@@ -509,12 +548,12 @@ export default function OrderHubPage() {
                   </div>
                   <div>
                     <p className="text-sm opacity-80">Stamps Collected</p>
-                    <p className="text-2xl font-bold font-['Iceland']">{user.loyaltyCard?.stamps || 0}/9</p>
+                    <p className="text-2xl font-bold font-['Iceland']">{Math.min(user.loyaltyCard?.stamps || 0, 8)}/9</p>
                   </div>
                 </div>
                 {user.loyaltyCard?.stamps >= 7 && (
                   <p className="mt-3 text-sm font-['Iceland'] bg-white/20 rounded p-2">
-                    🎉 Only {9 - user.loyaltyCard.stamps} more stamps until your free drink!
+                    🎉 Only {9 - Math.min(user.loyaltyCard.stamps, 8)} more stamps until your free drink!
                   </p>
                 )}
               </div>
@@ -7,15 +7,13 @@ import { useRouter } from 'next/router';
 import Image from 'next/image';
 import Link from 'next/link';
 import LogoutModal from '@/components/LogoutModal';
-import { getCurrentUser, isAuthenticated, User, api } from '@/utils/api';
+import { getCurrentUser, isAuthenticated, User, api, OrderItem } from '@/utils/api';
 
 interface Order {
   _id: string;
   orderId: string;
   customerCode: string;
-  cupSize: string;
-  shavedIce: { flavor: string };
-  toppings: Array<{ name: string }>;
+  items: OrderItem[];
   pricing: { total: number };
   status: string;
   createdAt: string;
@@ -76,11 +74,12 @@ export default function ProfilePage() {
   };
 
   const calculateLoyaltyProgress = () => {
-    if (!user) return { percentage: 0, nextStamp: 9 };
-    const stamps = user.loyaltyCard?.stamps || 0;
+    if (!user) return { stamps: 0, percentage: 0, nextStamp: 9 };
+    // สแตมป์อาจเกิน 8 หลังยกเลิกออเดอร์แก้วฟรี แต่ออเดอร์ถัดไปก็ได้แก้วฟรีเหมือนกัน
+    const stamps = Math.min(user.loyaltyCard?.stamps || 0, 8);
     const percentage = (stamps / 9) * 100;
     const nextStamp = 9 - stamps;
-    return { percentage, nextStamp };
+    return { stamps, percentage, nextStamp };
   };
 
   const getRecentActivity = () => {
@@ -182,7 +181,7 @@ export default function ProfilePage() {
                 <div className="mb-4">
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-[#69806C] font-['Iceland'] text-lg">
-                      Progress: {user.loyaltyCard.stamps}/9
+                      Progress: {loyaltyProgress.stamps}/9
                     </span>
                     <span className="text-[#69806C] font-['Iceland'] text-sm">
                       {loyaltyProgress.nextStamp} more for free drink!
@@ -202,14 +201,14 @@ export default function ProfilePage() {
                     <div
                       key={idx}
                       className={`w-[70px] h-[70px] rounded-full border-2 border-white flex items-center justify-center transition-all ${
-                        idx < user.loyaltyCard.stamps
+                        idx < loyaltyProgress.stamps
                           ? 'bg-[#69806C] text-white text-xl'
                           : idx === 8
                           ? 'bg-[#EBE6DE] text-[#69806C] text-sm font-bold'
                           : 'bg-[#EBE6DE]'
                       }`}
                     >
-                      {idx < user.loyaltyCard.stamps ? '✓' : 
+                      {idx < loyaltyProgress.stamps ? '✓' : 
                        idx === 8 ? 'Free' : idx + 1}
                     </div>
                   ))}
@@ -259,7 +258,7 @@ export default function ProfilePage() {
                   </div>
                   
                   <p className="text-sm text-gray-600 font-['Iceland'] mb-2">
-                    {order.shavedIce?.flavor} - Size {order.cupSize}
+                    {order.items?.map(item => `${item.shavedIce.flavor} - Size ${item.cupSize}`).join(', ')}
                   </p>
                   
                   <p className="text-lg font-['Iceland'] text-[#543429] font-bold mb-2">
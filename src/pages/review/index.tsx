@@ -108,8 +108,8 @@ export default function ReviewPage() {
         rating,
         comment: review.trim(),
         orderId: selectedOrder._id,
-        shavedIceFlavor: selectedOrder.shavedIce.flavor,
-        toppings: selectedOrder.toppings.map((t: any) => t.name)
+        shavedIceFlavor: selectedOrder.items[0]?.shavedIce.flavor,
+        toppings: selectedOrder.items.flatMap((item: any) => item.toppings.map((t: any) => t.name))
       });
 
       setSubmitted(true);
@@ -216,19 +216,23 @@ export default function ReviewPage() {
                   <option value="">Choose an order...</option>
                   {completedOrders.map((order) => (
                     <option key={order._id} value={order._id}>
-                      {order.orderId} - {order.shavedIce.flavor} ({new Date(order.createdAt).toLocaleDateString('th-TH')})
+                      {order.orderId} - {order.items.map((item: any) => item.shavedIce.flavor).join(', ')} ({new Date(order.createdAt).toLocaleDateString('th-TH')})
                     </option>
                   ))}
                 </select>
                 
                 {selectedOrder && (
-                  <div className="mt-2 p-3 bg-blue-50 rounded-lg">
-                    <p className="text-sm text-blue-800 font-['Iceland']">
-                      🍧 <strong>{selectedOrder.shavedIce.flavor}</strong> - Size {selectedOrder.cupSize}
-                    </p>
-                    <p className="text-xs text-blue-700 font-['Iceland']">
-                      Toppings: {selectedOrder.toppings.map((t: any) => t.name).join(', ') || 'None'}
-                    </p>
+                  <div className="mt-2 p-3 bg-blue-50 rounded-lg space-y-1">
+                    {selectedOrder.items.map((item: any, idx: number) => (
+                      <div key={item._id || idx}>
+                        <p className="text-sm text-blue-800 font-['Iceland']">
+                          🍧 <strong>{item.shavedIce.flavor}</strong> - Size {item.cupSize}
+                        </p>
+                        <p className="text-xs text-blue-700 font-['Iceland']">
+                          Toppings: {item.toppings.map((t: any) => t.name).join(', ') || 'None'}
+                        </p>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
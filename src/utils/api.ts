@@ -15,10 +15,8 @@ export interface User {
   };
 }
 
-export interface Order {
-  _id: string;
-  orderId: string;
-  customerCode: string;
+export interface OrderItem {
+  _id?: string;
   cupSize: 'S' | 'M' | 'L';
   shavedIce: {
     flavor: string;
@@ -27,15 +25,471 @@ export interface Order {
   toppings: Array<{
     name: string;
     points: number;
+    price?: number;
   }>;
-  pricing: {
+  specialInstructions?: string;
+  pricing?: {
     basePrice: number;
+    sizePrice: number;
+    toppingsPrice: number;
+    total: number;
+  };
+  isFreeDrink?: boolean;
+}
+
+export type OrderStatus = 'AwaitingPayment' | 'Pending' | 'Preparing' | 'Ready' | 'Completed' | 'Cancelled';
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy?: string;
+  changedAt: string;
+  note?: string;
+}
+
+export type MenuCodeMode = 'single' | 'multi';
+
+export interface BatchMenuCode {
+  code: string;
+  cupSize: 'S' | 'M' | 'L';
+  mode?: MenuCodeMode;
+  maxUsage: number;
+  usageCount?: number;
+  expiresAt: string;
+}
+
+export interface MenuCodeDetail extends BatchMenuCode {
+  _id: string;
+  usageCount: number;
+  batchId?: string;
+  createdBy?: { _id: string; fullName: string };
+  usedBy: Array<{
+    order: Pick<Order, '_id' | 'orderId' | 'customerCode' | 'status' | 'items' | 'createdAt'> & {
+      pricing: { total: number };
+    } | null;
+    usedAt: string;
+  }>;
+  revokedAt?: string;
+  revokedBy?: { _id: string; fullName: string };
+  revokeReason?: string;
+  createdAt: string;
+}
+
+export interface MenuCodeOptions {
+  mode?: MenuCodeMode;
+  maxUsage?: number;
+  expiresAt?: string;
+}
+
+// ลำดับคิวและเวลาที่คาดว่าจะเสร็จ (มีเฉพาะออเดอร์ Pending / Preparing)
+export interface QueueInfo {
+  position: number;
+  activeOrders: number;
+  averagePrepMinutes: number;
+  estimatedReadyAt: string;
+  estimatedWaitMinutes: number;
+  basedOnOrders: number;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'promptpay' | 'other';
+
+// วิธีชำระที่บันทึกใน payments[] (free-drink = แก้วฟรีจากบัตรสะสมแต้ม)
+export type TenderMethod = PaymentMethod | 'voucher' | 'free-drink';
+
+export interface PaymentEntry {
+  method: TenderMethod;
+  amount: number;
+  tendered?: number;
+  change?: number;
+  reference?: string;
+  paidAt: string;
+}
+
+// ยอดที่พนักงานรับที่เคาน์เตอร์ (แบ่งจ่ายได้หลายวิธี)
+export interface Tender {
+  method: Exclude<TenderMethod, 'free-drink'>;
+  amount: number;
+  tendered?: number;
+  reference?: string;
+}
+
+// ✅ การชำระเงินผ่าน provider (counter = พนักงานยืนยันที่เคาน์เตอร์)
+export type PaymentProvider = 'promptpay' | 'mock' | 'counter';
+
+export interface OrderPayment {
+  provider: PaymentProvider;
+  reference: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+  amount: number;
+  qrPayload?: string;
+  expiresAt?: string;
+  paidAt?: string;
+  transactionId?: string;
+  failureReason?: string;
+}
+
+export interface Order {
+  _id: string;
+  orderId: string;
+  customerCode: string;
+  items: OrderItem[];
+  pricing: {
+    subtotal?: number;
+    discount?: number;
     total: number;
+    pricedAt?: string;
   };
   status: string;
+  statusHistory?: OrderStatusChange[];
+  timestamps?: {
+    ordered: string;
+    paid?: string;
+    prepared?: string;
+    ready?: string;
+    completed?: string;
+    cancelled?: string;
+  };
+  paymentStatus?: 'Unpaid' | 'Paid' | 'Refunded';
+  paymentMethod?: PaymentMethod;
+  payments?: PaymentEntry[];
+  payment?: OrderPayment;
+  cancellation?: {
+    reason?: string;
+    refundAmount?: number;
+  };
+  createdAt: string;
+}
+
+export type StockMovementReason = 'initial' | 'sale' | 'restock' | 'waste' | 'correction' | 'cancel-return';
+
+export type WasteCategory = 'spoiled' | 'expired' | 'dropped' | 'preparation' | 'other';
+
+export interface WasteReport {
+  byItem: Array<{
+    itemType: string;
+    name: string;
+    unit: string;
+    used: number;
+    wasted: number;
+    wasteCost: number;
+    wastePercent: number;
+  }>;
+  byCategory: Array<{ category: WasteCategory; entries: number; cost: number }>;
+  totals: { wasteCost: number; entries: number };
+}
+
+export interface StockMovement {
+  _id: string;
+  stock: string;
+  itemType: string;
+  name: string;
+  delta: number;
+  quantityAfter: number;
+  reason: StockMovementReason;
+  wasteCategory?: WasteCategory;
+  order?: { _id: string; orderId: string; customerCode: string } | null;
+  purchaseOrder?: { _id: string; poNumber: string } | null;
+  unitCost?: number;
+  totalCost?: number;
+  user?: { _id: string; fullName: string } | null;
+  note?: string;
+  createdAt: string;
+}
+
+export type StockItemType = 'flavor' | 'topping' | 'ingredient';
+
+export type ReportPeriod =
+  | 'today'
+  | 'yesterday'
+  | 'last-7-days'
+  | 'last-30-days'
+  | 'this-month'
+  | 'last-month'
+  | 'this-quarter'
+  | 'last-quarter'
+  | 'quarter'
+  | 'this-year'
+  | 'all';
+
+// ช่วงของรายงาน: period ตามปฏิทินไทย (quarter ต้องมี year + quarter)
+// หรือ startDate / endDate เป็น YYYY-MM-DD ตามเวลาไทย (endDate นับรวม)
+// compare: เทียบกับช่วงก่อนหน้าที่เทียบเท่ากัน
+export interface ReportRange {
+  period?: ReportPeriod;
+  year?: number;
+  quarter?: number;
+  startDate?: string;
+  endDate?: string;
+  compare?: boolean;
+}
+
+// % เปลี่ยนแปลงจากช่วงก่อนหน้า (null = เทียบไม่ได้)
+export type ReportChange<K extends string> = Record<K, number | null>;
+
+// ผลของช่วงก่อนหน้า (null เมื่อช่วงนี้ไม่มีช่วงก่อนหน้า เช่น period=all)
+export type ReportComparison<T> = (T & { startDate: string; endDate: string }) | null;
+
+export interface SalesSummary {
+  totalOrders: number;
+  ordersByStatus: Record<string, number>;
+  soldOrders: number;
+  revenue: number;
+  discount: number;
+  cups: number;
+  averageOrderValue: number;
+  completionRate: number;
+  averagePrepMinutes: number | null;
+  prepSampleSize: number;
+}
+
+export type SummaryMetric =
+  | 'totalOrders'
+  | 'soldOrders'
+  | 'revenue'
+  | 'discount'
+  | 'cups'
+  | 'averageOrderValue'
+  | 'completionRate'
+  | 'averagePrepMinutes';
+
+type RevenueMetric = 'orders' | 'cups' | 'revenue' | 'averageOrderValue';
+
+export interface RevenueRow {
+  date?: string;
+  hour?: number;
+  orders: number;
+  cups: number;
+  revenue: number;
+  averageOrderValue: number;
+  // มีเมื่อ compare=true และ groupBy=hour
+  previous?: Record<RevenueMetric, number>;
+  change?: ReportChange<RevenueMetric>;
+}
+
+export interface ItemMixEntry {
+  name: string;
+  count: number;
+  revenue: number;
+  previous?: { count: number; revenue: number };
+  change?: ReportChange<'count' | 'revenue'>;
+}
+
+export interface ItemMix {
+  flavors: ItemMixEntry[];
+  toppings: ItemMixEntry[];
+  sizes: Array<{
+    size: 'S' | 'M' | 'L';
+    count: number;
+    previous?: { count: number };
+    change?: ReportChange<'count'>;
+  }>;
+}
+
+export interface PaymentBreakdownRow {
+  method: TenderMethod;
+  orders: number;
+  revenue: number;
+  // เงินทอน (เฉพาะเงินสด)
+  changeGiven: number;
+  previous?: { orders: number; revenue: number };
+  change?: ReportChange<'orders' | 'revenue'>;
+}
+
+export interface ComboEntry {
+  flavor: string;
+  toppings: string[];
+  combo: string;
+  count: number;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportReport = 'sales' | 'stock' | 'menu' | 'reviews' | 'users' | 'z-report';
+
+// ✅ ปิดยอดประจำวัน (Z-report)
+export interface ZReport {
+  totalOrders: number;
+  ordersByStatus: Record<string, number>;
+  soldOrders: number;
+  cups: number;
+  grossRevenue: number;
+  discounts: number;
+  netRevenue: number;
+  freeDrinks: number;
+  freeDrinkValue: number;
+  cancellations: number;
+  refunds: number;
+  refundAmount: number;
+  byPaymentMethod: Array<{ method: TenderMethod; orders: number; revenue: number; changeGiven?: number }>;
+}
+
+export interface CashDenomination {
+  value: number;
+  count: number;
+}
+
+export interface DailyClose {
+  _id: string;
+  businessDate: string;
+  report: ZReport;
+  cash: {
+    openingFloat: number;
+    expected: number;
+    counted: number;
+    denominations: CashDenomination[];
+    overShort: number;
+  };
+  note?: string;
+  closedBy?: { _id: string; fullName: string };
+  closedAt: string;
+  reprints?: Array<{ printedBy?: { _id: string; fullName: string }; printedAt: string }>;
+}
+
+export interface ClosingPreview {
+  businessDate: string;
+  closed: DailyClose | null;
+  report: ZReport;
+  cashSales: number;
+  activeOrders: number;
+}
+
+export interface StockForecastItem {
+  stock: string;
+  itemType: StockItemType;
+  name: string;
+  unit: string;
+  quantity: number;
+  reorderLevel: number;
+  averageDailyUsage: number;
+  forecastUsage: number;
+  daysRemaining: number | null;
+  leadTimeDays: number | null;
+  suggestedReorderLevel: number | null;
+  suggestedOrderQuantity: number | null;
+}
+
+export interface StockBatch {
+  _id: string;
+  stock: { _id: string; unit: string; isActive: boolean } | null;
+  itemType: StockItemType;
+  name: string;
+  quantity: number;
+  remaining: number;
+  receivedAt: string;
+  expiresAt: string | null;
+}
+
+export interface RecipeIngredient {
+  ingredient: string;
+  quantities: { S: number; M: number; L: number };
+}
+
+export interface Recipe {
+  _id: string;
+  itemType: 'flavor' | 'topping';
+  name: string;
+  ingredients: RecipeIngredient[];
+  updatedAt: string;
+}
+
+export type StocktakeStatus = 'in-progress' | 'committed' | 'cancelled';
+
+export interface StocktakeLine {
+  stock: string;
+  itemType: StockItemType;
+  name: string;
+  unit: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  countedAt?: string;
+  // จำนวนในระบบ ณ ตอนนับ (ยังไม่นับ = จำนวนปัจจุบัน)
+  systemQuantity?: number;
+  variance?: number | null;
+}
+
+export interface Stocktake {
+  _id: string;
+  status: StocktakeStatus;
+  lines: StocktakeLine[];
+  note: string;
+  startedBy?: { _id: string; fullName: string } | null;
+  committedBy?: { _id: string; fullName: string } | null;
+  createdAt: string;
+  committedAt?: string;
+}
+
+export interface StocktakeSummary extends Omit<Stocktake, 'lines'> {
+  items: number;
+  counted: number;
+  withVariance: number;
+}
+
+export interface SupplierItem {
+  itemType: StockItemType;
+  name: string;
+  unitCost: number;
+}
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  contactName: string;
+  phone: string;
+  email: string;
+  leadTimeDays: number;
+  items: SupplierItem[];
+  notes: string;
+  isActive: boolean;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  _id?: string;
+  itemType: StockItemType;
+  name: string;
+  quantity: number;
+  unitCost: number;
+  receivedQuantity?: number;
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  poNumber: string;
+  supplier: { _id: string; name: string; leadTimeDays: number };
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  total: number;
+  notes: string;
+  expectedAt?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  cancelledAt?: string;
+  createdBy?: { _id: string; fullName: string } | null;
+  receivedBy?: { _id: string; fullName: string } | null;
   createdAt: string;
 }
 
+export interface MenuItem {
+  _id: string;
+  name: string;
+  type: 'flavor' | 'topping';
+  description: string;
+  image: string;
+  color: string;
+  displayOrder: number;
+  isActive: boolean;
+}
+
+export interface PricingConfig {
+  defaultBasePrice: number;
+  defaultToppingPrice: number;
+  flavorPrices: Array<{ name: string; price: number }>;
+  toppingPrices: Array<{ name: string; price: number }>;
+  sizePrices: { S: number; M: number; L: number };
+  updatedAt?: string;
+}
+
 export interface Review {
   _id: string;
   customerName: string;
@@ -54,15 +508,13 @@ const getAuthHeaders = () => {
 
 const handleApiError = async (response: Response) => {
   if (!response.ok) {
+    let errorData: any = null;
     try {
-      const errorData = await response.json();
-      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+      errorData = await response.json();
     } catch (e) {
-      if (e instanceof Error && e.message.includes('HTTP')) {
-        throw e;
-      }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // body ไม่ใช่ JSON
     }
+    throw new Error(errorData?.message || `HTTP ${response.status}: ${response.statusText}`);
   }
   return response;
 };
@@ -174,63 +626,39 @@ class BingsuAPI {
   }
 
   // Menu code endpoints
-  async generateMenuCode(cupSize: string) {
+  async generateMenuCode(cupSize: string, options: MenuCodeOptions = {}) {
     const response = await fetch(`${API_BASE_URL}/menu-codes/generate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify({ cupSize })
-    });
-    
-    await handleApiError(response);
-    return response.json();
-  }
-
-  async validateMenuCode(code: string) {
-    const response = await fetch(`${API_BASE_URL}/menu-codes/validate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code })
-    });
-    
-    await handleApiError(response);
-    return response.json();
-  }
-
-  async getAllMenuCodes(filters?: { status?: string; cupSize?: string }) {
-    const params = new URLSearchParams(filters as any);
-    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/all?${params}`, {
-      headers: getAuthHeaders()
+      body: JSON.stringify({ cupSize, ...options })
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  // Order endpoints
-  async createOrder(orderData: {
-    menuCode: string;
-    shavedIce: { flavor: string; points: number };
-    toppings: Array<{ name: string; points: number }>;
-    specialInstructions?: string;
-  }) {
-    const response = await fetch(`${API_BASE_URL}/orders/create`, {
+  async generateMenuCodeBatch(data: MenuCodeOptions & {
+    count: number;
+    cupSize: string;
+  }): Promise<{ message: string; batchId: string; codes: BatchMenuCode[] }> {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/generate-batch`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify(orderData)
+      body: JSON.stringify(data)
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async trackOrder(customerCode: string) {
-    const response = await fetch(`${API_BASE_URL}/orders/track/${customerCode}`, {
+  async getMenuCodeBatch(batchId: string): Promise<{ batchId: string; codes: BatchMenuCode[] }> {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/batch/${encodeURIComponent(batchId)}`, {
       headers: getAuthHeaders()
     });
     
@@ -238,18 +666,20 @@ class BingsuAPI {
     return response.json();
   }
 
-  async getMyOrders() {
-    const response = await fetch(`${API_BASE_URL}/orders/my-orders`, {
-      headers: getAuthHeaders()
+  async validateMenuCode(code: string) {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/validate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code })
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async getAllOrders(filters?: { status?: string; date?: string }) {
+  async getAllMenuCodes(filters?: { status?: string; cupSize?: string }) {
     const params = new URLSearchParams(filters as any);
-    const response = await fetch(`${API_BASE_URL}/orders/admin/all?${params}`, {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/all?${params}`, {
       headers: getAuthHeaders()
     });
     
@@ -257,22 +687,20 @@ class BingsuAPI {
     return response.json();
   }
 
-  async updateOrderStatus(orderId: string, status: string) {
-    const response = await fetch(`${API_BASE_URL}/orders/admin/${orderId}/status`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        ...getAuthHeaders()
-      },
-      body: JSON.stringify({ status })
+  async getMenuCodeStats() {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/stats`, {
+      headers: getAuthHeaders()
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async getOrderStats() {
-    const response = await fetch(`${API_BASE_URL}/orders/admin/stats`, {
+  async getMenuCodeDetail(code: string): Promise<{
+    code: MenuCodeDetail;
+    usage: { valid: boolean; reason?: string; remainingUses?: number };
+  }> {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/${encodeURIComponent(code)}`, {
       headers: getAuthHeaders()
     });
     
@@ -280,37 +708,31 @@ class BingsuAPI {
     return response.json();
   }
 
-  // Review endpoints
-  async createReview(reviewData: {
-    rating: number;
-    comment: string;
-    orderId?: string;
-    shavedIceFlavor?: string;
-    toppings?: string[];
-  }) {
-    const response = await fetch(`${API_BASE_URL}/reviews/create`, {
+  async revokeMenuCode(code: string, reason?: string) {
+    const response = await fetch(`${API_BASE_URL}/menu-codes/admin/${encodeURIComponent(code)}/revoke`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify(reviewData)
+      body: JSON.stringify({ reason })
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async getReviews(page = 1, limit = 10) {
-    const response = await fetch(`${API_BASE_URL}/reviews?page=${page}&limit=${limit}`);
+  // Menu catalog endpoints
+  async getMenu(): Promise<{ flavors: MenuItem[]; toppings: MenuItem[] }> {
+    const response = await fetch(`${API_BASE_URL}/menu`);
     
     await handleApiError(response);
     return response.json();
   }
 
-  async voteHelpful(reviewId: string) {
-    const response = await fetch(`${API_BASE_URL}/reviews/${reviewId}/helpful`, {
-      method: 'POST',
+  async getAllMenuItems(type?: 'flavor' | 'topping') {
+    const params = new URLSearchParams(type ? { type } : {});
+    const response = await fetch(`${API_BASE_URL}/menu/admin/all?${params}`, {
       headers: getAuthHeaders()
     });
     
@@ -318,32 +740,36 @@ class BingsuAPI {
     return response.json();
   }
 
-  async getAllReviews(filters?: { isVisible?: boolean; isVerified?: boolean }) {
-    const params = new URLSearchParams(filters as any);
-    const response = await fetch(`${API_BASE_URL}/reviews/admin/all?${params}`, {
-      headers: getAuthHeaders()
+  async createMenuItem(data: Partial<Omit<MenuItem, '_id'>> & { name: string; type: 'flavor' | 'topping' }) {
+    const response = await fetch(`${API_BASE_URL}/menu/admin`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async updateReviewVisibility(reviewId: string, isVisible: boolean) {
-    const response = await fetch(`${API_BASE_URL}/reviews/admin/${reviewId}/visibility`, {
+  async updateMenuItem(itemId: string, data: Partial<Omit<MenuItem, '_id' | 'type'>>) {
+    const response = await fetch(`${API_BASE_URL}/menu/admin/${itemId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify({ isVisible })
+      body: JSON.stringify(data)
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async deleteReview(reviewId: string) {
-    const response = await fetch(`${API_BASE_URL}/reviews/admin/${reviewId}`, {
+  async deleteMenuItem(itemId: string) {
+    const response = await fetch(`${API_BASE_URL}/menu/admin/${itemId}`, {
       method: 'DELETE',
       headers: getAuthHeaders()
     });
@@ -352,22 +778,16 @@ class BingsuAPI {
     return response.json();
   }
 
-  // ✅ Stock Management endpoints
-  async getStock() {
-    const response = await fetch(`${API_BASE_URL}/stock`, {
-      headers: getAuthHeaders()
-    });
+  // Pricing endpoints
+  async getPricing(): Promise<{ pricing: PricingConfig }> {
+    const response = await fetch(`${API_BASE_URL}/pricing`);
     
     await handleApiError(response);
     return response.json();
   }
 
-  async updateStock(stockId: string, data: {
-    quantity?: number;
-    reorderLevel?: number;
-    isActive?: boolean;
-  }) {
-    const response = await fetch(`${API_BASE_URL}/stock/${stockId}`, {
+  async updatePricing(data: Partial<PricingConfig>) {
+    const response = await fetch(`${API_BASE_URL}/pricing/admin`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -380,23 +800,32 @@ class BingsuAPI {
     return response.json();
   }
 
-  async adjustStock(stockId: string, adjustment: number) {
-    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/adjust`, {
-      method: 'PUT',
+  // Order endpoints
+  async createOrder(orderData: {
+    menuCode: string;
+    items: Array<{
+      cupSize?: 'S' | 'M' | 'L';
+      shavedIce: { flavor: string; points: number };
+      toppings: Array<{ name: string; points: number }>;
+      specialInstructions?: string;
+    }>;
+    paymentMethod?: PaymentMethod;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/orders/create`, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify({ adjustment })
+      body: JSON.stringify(orderData)
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async restockItem(stockId: string) {
-    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/restock`, {
-      method: 'PUT',
+  async trackOrder(customerCode: string) {
+    const response = await fetch(`${API_BASE_URL}/orders/track/${customerCode}`, {
       headers: getAuthHeaders()
     });
     
@@ -404,22 +833,18 @@ class BingsuAPI {
     return response.json();
   }
 
-  async setStock(itemType: 'flavor' | 'topping', name: string, quantity: number, reorderLevel?: number, isActive?: boolean) {
-    const response = await fetch(`${API_BASE_URL}/stock`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...getAuthHeaders()
-      },
-      body: JSON.stringify({ itemType, name, quantity, reorderLevel, isActive })
+  async getMyOrders() {
+    const response = await fetch(`${API_BASE_URL}/orders/my-orders`, {
+      headers: getAuthHeaders()
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async getLowStock() {
-    const response = await fetch(`${API_BASE_URL}/stock/low`, {
+  async getAllOrders(filters?: { status?: string; date?: string }) {
+    const params = new URLSearchParams(filters as any);
+    const response = await fetch(`${API_BASE_URL}/orders/admin/all?${params}`, {
       headers: getAuthHeaders()
     });
     
@@ -427,33 +852,654 @@ class BingsuAPI {
     return response.json();
   }
 
-  async getAvailableItems(itemType: 'flavor' | 'topping') {
-    const response = await fetch(`${API_BASE_URL}/stock/available/${itemType}`, {
-      headers: getAuthHeaders()
+  async updateOrderStatus(orderId: string, status: string, note?: string) {
+    const response = await fetch(`${API_BASE_URL}/orders/admin/${orderId}/status`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ status, note })
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async checkAvailability(itemType: 'flavor' | 'topping', name: string) {
-    const response = await fetch(`${API_BASE_URL}/stock/check-availability`, {
+  async cancelOrder(orderId: string, reason: string) {
+    const response = await fetch(`${API_BASE_URL}/orders/admin/${orderId}/cancel`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...getAuthHeaders()
       },
-      body: JSON.stringify({ itemType, name })
+      body: JSON.stringify({ reason })
     });
     
     await handleApiError(response);
     return response.json();
   }
 
-  async deleteStock(stockId: string) {
-    const response = await fetch(`${API_BASE_URL}/stock/${stockId}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
+  // ✅ รับเงินที่เคาน์เตอร์แล้ว → ออเดอร์เข้าคิวครัว (ไม่ส่ง tenders = จ่ายเต็มด้วยวิธีที่เลือกไว้)
+  async confirmOrderPayment(orderId: string, tenders?: Tender[]): Promise<{ message: string; order: Order }> {
+    const response = await fetch(`${API_BASE_URL}/payments/admin/${orderId}/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ tenders })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // (dev) ให้ mock gateway ตอบผลทันที
+  async simulateMockPayment(reference: string, outcome: 'success' | 'failure') {
+    const response = await fetch(`${API_BASE_URL}/payments/mock/${reference}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ outcome })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getOrderStats() {
+    const response = await fetch(`${API_BASE_URL}/orders/admin/stats`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // Review endpoints
+  async createReview(reviewData: {
+    rating: number;
+    comment: string;
+    orderId?: string;
+    shavedIceFlavor?: string;
+    toppings?: string[];
+  }) {
+    const response = await fetch(`${API_BASE_URL}/reviews/create`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(reviewData)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getReviews(page = 1, limit = 10) {
+    const response = await fetch(`${API_BASE_URL}/reviews?page=${page}&limit=${limit}`);
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async voteHelpful(reviewId: string) {
+    const response = await fetch(`${API_BASE_URL}/reviews/${reviewId}/helpful`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getAllReviews(filters?: { isVisible?: boolean; isVerified?: boolean }) {
+    const params = new URLSearchParams(filters as any);
+    const response = await fetch(`${API_BASE_URL}/reviews/admin/all?${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async updateReviewVisibility(reviewId: string, isVisible: boolean) {
+    const response = await fetch(`${API_BASE_URL}/reviews/admin/${reviewId}/visibility`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ isVisible })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async deleteReview(reviewId: string) {
+    const response = await fetch(`${API_BASE_URL}/reviews/admin/${reviewId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Stock Management endpoints
+  async getStock() {
+    const response = await fetch(`${API_BASE_URL}/stock`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async updateStock(stockId: string, data: {
+    quantity?: number;
+    reorderLevel?: number;
+    isActive?: boolean;
+    note?: string;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async adjustStock(
+    stockId: string,
+    adjustment: number,
+    reason?: 'restock' | 'waste' | 'correction',
+    note?: string,
+    expiresAt?: string
+  ) {
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/adjust`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ adjustment, reason, note, expiresAt })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async logWaste(stockId: string, quantity: number, category: WasteCategory, note?: string) {
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/waste`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ quantity, category, note })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getWasteReport(filters?: ReportRange): Promise<WasteReport> {
+    const params = new URLSearchParams(filters as any).toString();
+    const response = await fetch(`${API_BASE_URL}/stock/waste/report${params ? `?${params}` : ''}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getStockForecast(days = 7): Promise<{ days: number; lookbackDays: number; items: StockForecastItem[] }> {
+    const response = await fetch(`${API_BASE_URL}/stock/forecast?days=${days}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getExpiringBatches(days = 3): Promise<{ days: number; batches: StockBatch[] }> {
+    const response = await fetch(`${API_BASE_URL}/stock/batches/expiring?days=${days}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getStockMovements(stockId: string, filters?: { reason?: StockMovementReason; limit?: number }): Promise<{
+    stock: any;
+    movements: StockMovement[];
+  }> {
+    const params = new URLSearchParams(filters as any);
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/movements?${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async restockItem(stockId: string) {
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}/restock`, {
+      method: 'PUT',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async setStock(itemType: StockItemType, name: string, quantity: number, reorderLevel?: number, isActive?: boolean, unit?: string) {
+    const response = await fetch(`${API_BASE_URL}/stock`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ itemType, name, quantity, reorderLevel, isActive, unit })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Recipe endpoints (วัตถุดิบต่อแก้วตามขนาด)
+  async getRecipes(): Promise<{ recipes: Recipe[]; ingredients: any[] }> {
+    const response = await fetch(`${API_BASE_URL}/recipes`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async saveRecipe(itemType: 'flavor' | 'topping', name: string, ingredients: RecipeIngredient[]) {
+    const response = await fetch(`${API_BASE_URL}/recipes/${itemType}/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ ingredients })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async deleteRecipe(itemType: 'flavor' | 'topping', name: string) {
+    const response = await fetch(`${API_BASE_URL}/recipes/${itemType}/${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Report endpoints (aggregation ฝั่ง server)
+  async getSalesSummary(range: ReportRange = {}): Promise<{
+    startDate: string | null;
+    endDate: string | null;
+    summary: SalesSummary;
+    change?: ReportChange<SummaryMetric>;
+    comparison?: ReportComparison<{ summary: SalesSummary }>;
+  }> {
+    const params = new URLSearchParams(range as any).toString();
+    const response = await fetch(`${API_BASE_URL}/reports/summary${params ? `?${params}` : ''}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getRevenueReport(range: ReportRange = {}, groupBy: 'day' | 'hour' = 'day'): Promise<{
+    groupBy: 'day' | 'hour';
+    rows: RevenueRow[];
+    comparison?: ReportComparison<{ rows: RevenueRow[] }>;
+  }> {
+    const params = new URLSearchParams({ ...range, groupBy } as any).toString();
+    const response = await fetch(`${API_BASE_URL}/reports/revenue?${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getItemMixReport(range: ReportRange = {}): Promise<ItemMix & { comparison?: ReportComparison<ItemMix> }> {
+    const params = new URLSearchParams(range as any).toString();
+    const response = await fetch(`${API_BASE_URL}/reports/items${params ? `?${params}` : ''}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getPaymentReport(range: ReportRange = {}): Promise<{
+    methods: PaymentBreakdownRow[];
+    comparison?: ReportComparison<{ methods: PaymentBreakdownRow[] }>;
+  }> {
+    const params = new URLSearchParams(range as any).toString();
+    const response = await fetch(`${API_BASE_URL}/reports/payments${params ? `?${params}` : ''}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getComboReport(range: ReportRange = {}, limit = 5): Promise<{ combos: ComboEntry[] }> {
+    const params = new URLSearchParams({ ...range, limit: String(limit) } as any).toString();
+    const response = await fetch(`${API_BASE_URL}/reports/combos?${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Daily close endpoints (ปิดยอด / Z-report)
+  async getDailyCloses(): Promise<{ closes: DailyClose[] }> {
+    const response = await fetch(`${API_BASE_URL}/closing`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getClosingPreview(date?: string): Promise<ClosingPreview> {
+    const response = await fetch(`${API_BASE_URL}/closing/preview${date ? `?date=${date}` : ''}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async closeDay(data: {
+    date: string;
+    openingFloat: number;
+    countedCash?: number;
+    denominations?: CashDenomination[];
+    note?: string;
+  }): Promise<{ message: string; dailyClose: DailyClose }> {
+    const response = await fetch(`${API_BASE_URL}/closing`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getDailyClose(date: string): Promise<{ dailyClose: DailyClose }> {
+    const response = await fetch(`${API_BASE_URL}/closing/${date}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async recordZReportReprint(date: string): Promise<{ message: string; reprints: number }> {
+    const response = await fetch(`${API_BASE_URL}/closing/${date}/reprint`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Export endpoints (ไฟล์ CSV / XLSX / PDF สร้างฝั่ง server)
+  async downloadExport(
+    report: ExportReport,
+    format: ExportFormat,
+    filters: ReportRange | Record<string, string> = {}
+  ): Promise<void> {
+    const params = new URLSearchParams({ ...filters, format } as any).toString();
+    const response = await fetch(`${API_BASE_URL}/exports/${report}?${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${report}.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', url);
+    linkElement.setAttribute('download', filename);
+    linkElement.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  // ✅ Stocktake endpoints (นับสต๊อกจริง)
+  async getStocktakes(): Promise<{ stocktakes: StocktakeSummary[] }> {
+    const response = await fetch(`${API_BASE_URL}/stocktakes`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async startStocktake(note?: string): Promise<{ message: string; stocktake: Stocktake }> {
+    const response = await fetch(`${API_BASE_URL}/stocktakes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ note })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getStocktake(stocktakeId: string): Promise<{ stocktake: Stocktake }> {
+    const response = await fetch(`${API_BASE_URL}/stocktakes/${stocktakeId}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async saveStocktakeCounts(
+    stocktakeId: string,
+    counts: Array<{ stock: string; countedQuantity: number | null }>
+  ): Promise<{ message: string; stocktake: Stocktake }> {
+    const response = await fetch(`${API_BASE_URL}/stocktakes/${stocktakeId}/counts`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ counts })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async updateStocktakeStatus(stocktakeId: string, action: 'commit' | 'cancel') {
+    const response = await fetch(`${API_BASE_URL}/stocktakes/${stocktakeId}/${action}`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  // ✅ Purchasing endpoints (ซัพพลายเออร์ + ใบสั่งซื้อ)
+  async getSuppliers(includeInactive = false): Promise<{ suppliers: Supplier[] }> {
+    const params = includeInactive ? '?includeInactive=true' : '';
+    const response = await fetch(`${API_BASE_URL}/purchasing/suppliers${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async createSupplier(data: Partial<Omit<Supplier, '_id'>> & { name: string }) {
+    const response = await fetch(`${API_BASE_URL}/purchasing/suppliers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async updateSupplier(supplierId: string, data: Partial<Omit<Supplier, '_id'>>) {
+    const response = await fetch(`${API_BASE_URL}/purchasing/suppliers/${supplierId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<{ purchaseOrders: PurchaseOrder[] }> {
+    const params = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/purchasing/orders${params}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async createPurchaseOrder(data: { supplier: string; lines: PurchaseOrderLine[]; notes?: string; expectedAt?: string }) {
+    const response = await fetch(`${API_BASE_URL}/purchasing/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify(data)
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async generatePurchaseOrdersFromLowStock(): Promise<{
+    message: string;
+    purchaseOrders: PurchaseOrder[];
+    unassigned: Array<{ itemType: StockItemType; name: string; quantity: number }>;
+    alreadyOrdered: Array<{ itemType: StockItemType; name: string; quantity: number }>;
+  }> {
+    const response = await fetch(`${API_BASE_URL}/purchasing/orders/generate-from-low-stock`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async updatePurchaseOrderStatus(purchaseOrderId: string, action: 'send' | 'cancel') {
+    const response = await fetch(`${API_BASE_URL}/purchasing/orders/${purchaseOrderId}/${action}`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async receivePurchaseOrder(
+    purchaseOrderId: string,
+    receivedQuantities?: Record<string, number>,
+    expiryDates?: Record<string, string>
+  ) {
+    const response = await fetch(`${API_BASE_URL}/purchasing/orders/${purchaseOrderId}/receive`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ receivedQuantities, expiryDates })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getLowStock() {
+    const response = await fetch(`${API_BASE_URL}/stock/low`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async getAvailableItems(itemType: 'flavor' | 'topping') {
+    const response = await fetch(`${API_BASE_URL}/stock/available/${itemType}`, {
+      headers: getAuthHeaders()
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async checkAvailability(itemType: 'flavor' | 'topping', name: string, cupSize?: 'S' | 'M' | 'L') {
+    const response = await fetch(`${API_BASE_URL}/stock/check-availability`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: JSON.stringify({ itemType, name, cupSize })
+    });
+    
+    await handleApiError(response);
+    return response.json();
+  }
+
+  async deleteStock(stockId: string) {
+    const response = await fetch(`${API_BASE_URL}/stock/${stockId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
     });
     
     await handleApiError(response);
@@ -485,6 +1531,14 @@ export const getCurrentUser = (): User | null => {
   return userStr ? JSON.parse(userStr) : null;
 };
 
+// URL สำหรับ EventSource (ส่ง header ไม่ได้ จึงแนบ token ใน query string)
+export const getOrderStreamUrl = (path: string, withToken = false) => {
+  const url = `${API_BASE_URL}/orders${path}`;
+  if (!withToken || typeof window === 'undefined') return url;
+  const token = localStorage.getItem('token');
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+};
+
 export const isAdmin = () => {
   const user = getCurrentUser();
   return user?.role === 'admin';
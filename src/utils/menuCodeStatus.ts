@@ -0,0 +1,12 @@
+// src/utils/menuCodeStatus.ts - สถานะรหัสโค้ด (ตรงกับ canBeUsed ฝั่ง backend)
+
+import { MenuCodeDetail } from '@/utils/api';
+
+type CodeStateInput = Pick<MenuCodeDetail, 'revokedAt' | 'expiresAt' | 'usageCount' | 'maxUsage'>;
+
+export const getCodeState = (code: CodeStateInput) => {
+  if (code.revokedAt) return { label: 'Revoked', style: 'bg-red-100 text-red-800' };
+  if (code.usageCount >= code.maxUsage) return { label: 'Fully used', style: 'bg-gray-100 text-gray-800' };
+  if (new Date(code.expiresAt) < new Date()) return { label: 'Expired', style: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Active', style: 'bg-green-100 text-green-800' };
+};
@@ -0,0 +1,17 @@
+// src/utils/orderStatus.ts - ลำดับสถานะออเดอร์ (ตรงกับ STATUS_TRANSITIONS ฝั่ง backend)
+
+import { OrderStatus } from '@/utils/api';
+
+const STATUS_FLOW: Partial<Record<OrderStatus, OrderStatus>> = {
+  'Pending': 'Preparing',
+  'Preparing': 'Ready',
+  'Ready': 'Completed'
+};
+
+export const getNextStatus = (currentStatus: string): OrderStatus | undefined => {
+  return STATUS_FLOW[currentStatus as OrderStatus];
+};
+
+export const isFinalStatus = (status: string) => {
+  return status === 'Completed' || status === 'Cancelled';
+};
@@ -0,0 +1,19 @@
+// src/utils/paymentMethods.ts - ชื่อวิธีชำระเงิน (ตรงกับ Order.TENDER_METHODS ฝั่ง backend)
+
+import { TenderMethod, Tender } from '@/utils/api';
+
+export const PAYMENT_METHOD_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  promptpay: 'PromptPay',
+  voucher: 'Voucher',
+  'free-drink': 'Loyalty Free Drink',
+  other: 'Other'
+};
+
+// วิธีที่พนักงานรับได้ที่เคาน์เตอร์ (แก้วฟรีระบบใส่ให้เอง)
+export const COUNTER_TENDER_METHODS: Tender['method'][] = ['cash', 'card', 'promptpay', 'voucher', 'other'];
+
+export const getPaymentMethodLabel = (method: string) => {
+  return PAYMENT_METHOD_LABELS[method as TenderMethod] || method;
+};